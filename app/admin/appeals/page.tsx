@@ -6,31 +6,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { MessageSquare, Eye, User } from "lucide-react"
+import { MessageSquare, Eye, Gavel } from "lucide-react"
 import Link from "next/link"
+import { EscalationChain, LEVEL_LABEL, OutcomeBadge, ResolveAppealDialog, type AppealRow } from "@/components/appraisal/appeals-queue"
 
-interface Appeal {
-  id: number
-  message: string
-  createdAt: string
-  resolvedAt: string | null
-  appraisal: {
-    id: number
-    status: string
-    faculty: {
-      id: number
-      name: string
-      role: string
-      department: {
-        name: string
-        college: {
-          name: string
-        }
-      } | null
-    }
+interface Appeal extends AppealRow {
+  appraisal: AppealRow["appraisal"] & {
     cycle: {
       academicYear: string
       semester: string
+      appealResolutionDays: number | null
     }
   }
 }
@@ -39,6 +24,7 @@ export default function AppealsPage() {
   const [appeals, setAppeals] = useState<Appeal[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [evaluatorFilter, setEvaluatorFilter] = useState<string>("ALL")
+  const [resolving, setResolving] = useState<Appeal | null>(null)
 
   const fetchAppeals = async () => {
     try {
@@ -58,14 +44,8 @@ export default function AppealsPage() {
     fetchAppeals()
   }, [])
 
-  const getEvaluator = (appeal: Appeal) => {
-    if (appeal.appraisal.faculty.role === 'INSTRUCTOR') {
-      return 'HOD'
-    } else if (appeal.appraisal.faculty.role === 'HOD') {
-      return 'Dean'
-    }
-    return 'N/A'
-  }
+  // المستوى الحالي بعد أي تصعيد
+  const getEvaluator = (appeal: Appeal) => LEVEL_LABEL[appeal.level]
 
   const filteredAppeals = appeals.filter(appeal => {
     if (evaluatorFilter === "ALL") return true
@@ -80,7 +60,7 @@ export default function AppealsPage() {
     <div className="p-6 space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-foreground">Appeals Center</h1>
-        <p className="text-muted-foreground">Track all appeals and ensure routing to evaluators</p>
+        <p className="text-muted-foreground">Track all appeals, their escalation chain and routing to evaluators</p>
       </div>
 
       {/* Filters */}
@@ -97,6 +77,7 @@ export default function AppealsPage() {
               <SelectItem value="ALL">All Evaluators</SelectItem>
               <SelectItem value="HOD">HOD</SelectItem>
               <SelectItem value="Dean">Dean</SelectItem>
+              <SelectItem value="Admin committee">Admin committee</SelectItem>
             </SelectContent>
           </Select>
         </CardContent>
@@ -123,6 +104,7 @@ export default function AppealsPage() {
                 <TableHead>Status</TableHead>
                 <TableHead>Message</TableHead>
                 <TableHead>Evaluator</TableHead>
+                <TableHead>Escalation</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -136,20 +118,27 @@ export default function AppealsPage() {
                   </TableCell>
                   <TableCell>{appeal.appraisal.cycle.academicYear} {appeal.appraisal.cycle.semester}</TableCell>
                   <TableCell>
-                    <Badge className={appeal.resolvedAt ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
-                      {appeal.resolvedAt ? "Resolved" : "Open"}
-                    </Badge>
+                    <OutcomeBadge outcome={appeal.outcome} />
+                    {appeal.resolvedBy && (
+                      <div className="text-xs text-muted-foreground mt-1">by {appeal.resolvedBy.name}</div>
+                    )}
                   </TableCell>
                   <TableCell className="max-w-xs truncate">
                     {appeal.message.length > 50 ? `${appeal.message.substring(0, 50)}...` : appeal.message}
                   </TableCell>
                   <TableCell>{getEvaluator(appeal)}</TableCell>
-                  <TableCell className="text-right">
+                  <TableCell><EscalationChain appeal={appeal} /></TableCell>
+                  <TableCell className="text-right space-x-2">
                     <Link href={`/admin/appraisals/${appeal.appraisal.id}`}>
                       <Button variant="outline" size="sm">
                         <Eye className="h-4 w-4" />
                       </Button>
                     </Link>
+                    {!appeal.resolvedAt && (
+                      <Button size="sm" onClick={() => setResolving(appeal)}>
+                        <Gavel className="h-4 w-4 mr-1" /> Resolve
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
@@ -157,6 +146,8 @@ export default function AppealsPage() {
           </Table>
         </CardContent>
       </Card>
+
+      <ResolveAppealDialog appeal={resolving} onClose={() => setResolving(null)} onChanged={fetchAppeals} />
     </div>
   )
 }
\ No newline at end of file
@@ -7,8 +7,12 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { FileText, Search, Eye } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { FileText, Search, Eye, ShieldAlert } from "lucide-react"
 import Link from "next/link"
+import { STATUS_ORDER, statusBadgeClass, statusLabel } from "@/lib/appraisal-status"
 
 interface Appraisal {
   id: number
@@ -48,14 +52,21 @@ export default function AppraisalsPage() {
   const [roleFilter, setRoleFilter] = useState<string>("ALL")
   const [collegeFilter, setCollegeFilter] = useState<string>("ALL")
   const [departmentFilter, setDepartmentFilter] = useState<string>("ALL")
+  // فرض الحالة متاح فقط عند تفعيل features.forceStatus في الإعدادات
+  const [forceStatusEnabled, setForceStatusEnabled] = useState(false)
+  const [forcing, setForcing] = useState<Appraisal | null>(null)
+  const [forceStatus, setForceStatus] = useState("")
+  const [forceReason, setForceReason] = useState("")
+  const [forceBusy, setForceBusy] = useState(false)
 
   const fetchData = async () => {
     try {
-      const [appraisalsRes, cyclesRes, collegesRes, departmentsRes] = await Promise.all([
+      const [appraisalsRes, cyclesRes, collegesRes, departmentsRes, settingsRes] = await Promise.all([
         fetch("/api/admin/appraisals"),
         fetch("/api/admin/appraisal-cycles"),
         fetch("/api/admin/colleges"),
-        fetch("/api/admin/departments")
+        fetch("/api/admin/departments"),
+        fetch("/api/admin/settings")
       ])
 
       if (appraisalsRes.ok) {
@@ -77,6 +88,11 @@ export default function AppraisalsPage() {
         const departmentsData = await departmentsRes.json()
         setFilters(prev => ({ ...prev, departments: departmentsData }))
       }
+
+      if (settingsRes.ok) {
+        const settingsData = await settingsRes.json()
+        setForceStatusEnabled(Boolean(settingsData.settings?.features?.forceStatus))
+      }
     } catch (error) {
       console.error("Error fetching data:", error)
     } finally {
@@ -88,6 +104,33 @@ export default function AppraisalsPage() {
     fetchData()
   }, [])
 
+  const openForceStatus = (appraisal: Appraisal) => {
+    setForcing(appraisal)
+    setForceStatus(appraisal.status)
+    setForceReason("")
+  }
+
+  const handleForceStatus = async () => {
+    if (!forcing) return
+    setForceBusy(true)
+    try {
+      const response = await fetch(`/api/admin/appraisals/${forcing.id}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: forceStatus, reason: forceReason }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        alert(data.error || "Failed to change status")
+        return
+      }
+      setAppraisals(prev => prev.map(a => (a.id === forcing.id ? { ...a, status: data.status } : a)))
+      setForcing(null)
+    } finally {
+      setForceBusy(false)
+    }
+  }
+
   const filteredAppraisals = appraisals.filter(appraisal => {
     const matchesSearch = searchQuery === "" ||
       appraisal.faculty.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -100,14 +143,6 @@ export default function AppraisalsPage() {
     return matchesSearch && matchesCycle && matchesStatus && matchesRole && matchesCollege && matchesDepartment
   })
 
-  const statusColors = {
-    NEW: "bg-blue-100 text-blue-800",
-    sent: "bg-green-100 text-green-800",
-    complete: "bg-purple-100 text-purple-800",
-    returned: "bg-red-100 text-red-800",
-    new: "bg-gray-100 text-gray-800",
-  }
-
   if (isLoading) {
     return <div className="p-6">Loading...</div>
   }
@@ -153,11 +188,9 @@ export default function AppraisalsPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="ALL">All Status</SelectItem>
-                <SelectItem value="NEW">New</SelectItem>
-                <SelectItem value="sent">Sent</SelectItem>
-                <SelectItem value="complete">Complete</SelectItem>
-                <SelectItem value="returned">Returned</SelectItem>
-                <SelectItem value="new">New</SelectItem>
+                {STATUS_ORDER.map((status) => (
+                  <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Select value={roleFilter} onValueChange={setRoleFilter}>
@@ -219,7 +252,7 @@ export default function AppraisalsPage() {
                 <TableHead>Status</TableHead>
                 <TableHead>Total</TableHead>
                 <TableHead>Updated</TableHead>
-                {/* <TableHead className="text-right">Actions</TableHead> */}
+                {forceStatusEnabled && <TableHead className="text-right">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -233,12 +266,20 @@ export default function AppraisalsPage() {
                   <TableCell>{appraisal.faculty.department?.name || "-"}</TableCell>
                   <TableCell>{appraisal.cycle.academicYear} {appraisal.cycle.semester}</TableCell>
                   <TableCell>
-                    <Badge className={statusColors[appraisal.status as keyof typeof statusColors] || "bg-gray-100 text-gray-800"}>
-                      {appraisal.status.replace('_', ' ')}
+                    <Badge className={statusBadgeClass(appraisal.status)}>
+                      {statusLabel(appraisal.status)}
                     </Badge>
                   </TableCell>
                   <TableCell>{appraisal.totalScore || "-"}</TableCell>
                   <TableCell>{new Date(appraisal.updatedAt).toLocaleDateString()}</TableCell>
+                  {forceStatusEnabled && (
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => openForceStatus(appraisal)}>
+                        <ShieldAlert className="mr-2 h-4 w-4" />
+                        Force status
+                      </Button>
+                    </TableCell>
+                  )}
                   {/* <TableCell className="text-right">
                     <Link href={`/admin/appraisals/${appraisal.id}`}>
                       <Button variant="outline" size="sm">
@@ -252,6 +293,46 @@ export default function AppraisalsPage() {
           </Table>
         </CardContent>
       </Card>
+
+      <Dialog open={forcing !== null} onOpenChange={(open) => !open && setForcing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Force status</DialogTitle>
+            <DialogDescription>
+              Sets the status of {forcing?.faculty.name}&apos;s appraisal directly, bypassing the workflow checks.
+              No notifications are sent.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="forceStatus">New status</Label>
+              <Select value={forceStatus} onValueChange={setForceStatus}>
+                <SelectTrigger id="forceStatus">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_ORDER.map((status) => (
+                    <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="forceReason">Reason</Label>
+              <Textarea id="forceReason" value={forceReason} onChange={(e) => setForceReason(e.target.value)} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForcing(null)}>Cancel</Button>
+            <Button
+              onClick={handleForceStatus}
+              disabled={forceBusy || !forceReason.trim() || forceStatus === forcing?.status}
+            >
+              Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -1,55 +1,42 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { Shield, Download, Search, Calendar } from "lucide-react"
+import { Shield, Download, ChevronLeft, ChevronRight } from "lucide-react"
+import { useDebounce } from "@/hooks/use-debounce"
 
 interface AuditEvent {
   id: number
-  timestamp: string
-  actor: string
+  createdAt: string
+  actorEmail: string | null
   action: string
-  target: string
+  targetType: string
+  targetId: string | null
+  before: any
+  after: any
   metadata: any
-  ip?: string
+  ip?: string | null
 }
 
+interface AuditPage {
+  events: AuditEvent[]
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+}
+
+const PAGE_SIZE = 25
+
 export default function AuditPage() {
-  const [events] = useState<AuditEvent[]>([
-    // Placeholder data
-    {
-      id: 1,
-      timestamp: "2024-01-15T10:30:00Z",
-      actor: "admin@example.com",
-      action: "USER_CREATE",
-      target: "user:john.doe@example.com",
-      metadata: { role: "INSTRUCTOR", department: "Computer Science" },
-      ip: "192.168.1.100"
-    },
-    {
-      id: 2,
-      timestamp: "2024-01-15T11:00:00Z",
-      actor: "admin@example.com",
-      action: "CYCLE_ACTIVATE",
-      target: "cycle:2024/2025-FALL",
-      metadata: { previousActive: null },
-      ip: "192.168.1.100"
-    },
-    {
-      id: 3,
-      timestamp: "2024-01-15T14:20:00Z",
-      actor: "hod@example.com",
-      action: "EVALUATION_SUBMIT",
-      target: "appraisal:123",
-      metadata: { totalScore: 85 },
-      ip: "192.168.1.101"
-    }
-  ])
+  const [data, setData] = useState<AuditPage | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [page, setPage] = useState(1)
 
   const [dateFrom, setDateFrom] = useState("")
   const [dateTo, setDateTo] = useState("")
@@ -57,27 +44,91 @@ export default function AuditPage() {
   const [actionFilter, setActionFilter] = useState("")
   const [targetFilter, setTargetFilter] = useState("")
 
-  const filteredEvents = events.filter(event => {
-    const matchesDateFrom = !dateFrom || new Date(event.timestamp) >= new Date(dateFrom)
-    const matchesDateTo = !dateTo || new Date(event.timestamp) <= new Date(dateTo + "T23:59:59")
-    const matchesActor = !actorFilter || event.actor.toLowerCase().includes(actorFilter.toLowerCase())
-    const matchesAction = actionFilter === "ALL" || !actionFilter || event.action === actionFilter
-    const matchesTarget = !targetFilter || event.target.toLowerCase().includes(targetFilter.toLowerCase())
+  const debouncedActor = useDebounce(actorFilter, 300)
+  const debouncedTarget = useDebounce(targetFilter, 300)
+
+  const buildQuery = useCallback(() => {
+    const params = new URLSearchParams()
+    if (dateFrom) params.set("from", dateFrom)
+    if (dateTo) params.set("to", dateTo)
+    if (debouncedActor) params.set("actor", debouncedActor)
+    if (actionFilter && actionFilter !== "ALL") params.set("action", actionFilter)
+    if (debouncedTarget) params.set("target", debouncedTarget)
+    return params
+  }, [dateFrom, dateTo, debouncedActor, actionFilter, debouncedTarget])
 
-    return matchesDateFrom && matchesDateTo && matchesActor && matchesAction && matchesTarget
-  })
+  // أي تغيير في الفلاتر يعيدنا للصفحة الأولى
+  useEffect(() => {
+    setPage(1)
+  }, [buildQuery])
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setIsLoading(true)
+      try {
+        const params = buildQuery()
+        params.set("page", String(page))
+        params.set("pageSize", String(PAGE_SIZE))
+        const response = await fetch(`/api/admin/audit?${params.toString()}`)
+        if (response.ok) {
+          setData(await response.json())
+        }
+      } catch (error) {
+        console.error("Error fetching audit events:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    fetchEvents()
+  }, [buildQuery, page])
+
+  const events = data?.events ?? []
 
   const actionColors = {
     USER_CREATE: "bg-green-100 text-green-800",
     USER_UPDATE: "bg-blue-100 text-blue-800",
     USER_DISABLE: "bg-red-100 text-red-800",
+    USER_DELETE: "bg-red-100 text-red-800",
+    CYCLE_CREATE: "bg-purple-100 text-purple-800",
     CYCLE_ACTIVATE: "bg-purple-100 text-purple-800",
-    EVALUATION_SUBMIT: "bg-yellow-100 text-yellow-800",
+    CYCLE_DEACTIVATE: "bg-gray-100 text-gray-800",
+    CYCLE_UPDATE: "bg-purple-100 text-purple-800",
+    EVALUATION_UPDATE: "bg-yellow-100 text-yellow-800",
+    APPRAISAL_APPROVE: "bg-green-100 text-green-800",
+    APPEAL_CREATE: "bg-orange-100 text-orange-800",
+    APPEAL_REOPEN: "bg-orange-100 text-orange-800",
+    APPEAL_RESOLVE: "bg-green-100 text-green-800",
+    APPEAL_ESCALATE: "bg-red-100 text-red-800",
+    GRADING_UPDATE: "bg-indigo-100 text-indigo-800",
+    SCORE_OVERRIDE: "bg-amber-100 text-amber-800",
+    PLAN_UPDATE: "bg-teal-100 text-teal-800",
+    PLAN_SIGN: "bg-teal-100 text-teal-800",
+    PLAN_PROGRESS_UPDATE: "bg-teal-100 text-teal-800",
+    PLAN_MID_YEAR_REVIEW: "bg-teal-100 text-teal-800",
+    PLAN_MID_YEAR_ACKNOWLEDGE: "bg-teal-100 text-teal-800",
+    APPRAISAL_SIGN: "bg-indigo-100 text-indigo-800",
+    SIGNATURE_REVOKE: "bg-red-100 text-red-800",
+    EMAIL_TEMPLATE_UPDATE: "bg-gray-100 text-gray-800",
+    SETTINGS_UPDATE: "bg-gray-100 text-gray-800",
+    APPRAISAL_FORCE_STATUS: "bg-red-100 text-red-800",
+    IMPERSONATION_START: "bg-amber-100 text-amber-800",
+    IMPERSONATION_END: "bg-amber-100 text-amber-800",
+    PASSWORD_RESET_REQUEST: "bg-gray-100 text-gray-800",
+    PASSWORD_RESET: "bg-blue-100 text-blue-800",
+    TWO_FACTOR_ENABLE: "bg-green-100 text-green-800",
+    TWO_FACTOR_DISABLE: "bg-orange-100 text-orange-800",
+    TWO_FACTOR_RESET: "bg-red-100 text-red-800",
+    SESSIONS_REVOKE: "bg-red-100 text-red-800",
+    USER_UNLOCK: "bg-green-100 text-green-800",
+    EVIDENCE_DOWNLOAD: "bg-sky-100 text-sky-800",
+    ACHIEVEMENT_VERIFY: "bg-teal-100 text-teal-800",
+    ACHIEVEMENT_RESPOND: "bg-indigo-100 text-indigo-800",
   }
 
   const handleExport = (format: string) => {
-    // TODO: Implement export functionality
-    alert(`Export to ${format.toUpperCase()} not implemented yet`)
+    const params = buildQuery()
+    params.set("format", format)
+    window.location.href = `/api/admin/audit?${params.toString()}`
   }
 
   return (
@@ -141,15 +192,48 @@ export default function AuditPage() {
                   <SelectItem value="USER_CREATE">User Create</SelectItem>
                   <SelectItem value="USER_UPDATE">User Update</SelectItem>
                   <SelectItem value="USER_DISABLE">User Disable</SelectItem>
+                  <SelectItem value="USER_DELETE">User Delete</SelectItem>
+                  <SelectItem value="CYCLE_CREATE">Cycle Create</SelectItem>
                   <SelectItem value="CYCLE_ACTIVATE">Cycle Activate</SelectItem>
-                  <SelectItem value="EVALUATION_SUBMIT">Evaluation Submit</SelectItem>
+                  <SelectItem value="CYCLE_DEACTIVATE">Cycle Deactivate</SelectItem>
+                  <SelectItem value="CYCLE_UPDATE">Cycle Update</SelectItem>
+                  <SelectItem value="EVALUATION_UPDATE">Evaluation Update</SelectItem>
+                  <SelectItem value="APPRAISAL_APPROVE">Appraisal Approve</SelectItem>
+                  <SelectItem value="APPEAL_CREATE">Appeal Create</SelectItem>
+                  <SelectItem value="APPEAL_REOPEN">Appeal Reopen</SelectItem>
+                  <SelectItem value="APPEAL_RESOLVE">Appeal Resolve</SelectItem>
+                  <SelectItem value="APPEAL_ESCALATE">Appeal Escalate</SelectItem>
+                  <SelectItem value="GRADING_UPDATE">Grading Update</SelectItem>
+                  <SelectItem value="SCORE_OVERRIDE">Score Override</SelectItem>
+                  <SelectItem value="PLAN_UPDATE">Plan Update</SelectItem>
+                  <SelectItem value="PLAN_SIGN">Plan Sign</SelectItem>
+                  <SelectItem value="PLAN_PROGRESS_UPDATE">Plan Progress Update</SelectItem>
+                  <SelectItem value="PLAN_MID_YEAR_REVIEW">Plan Mid-year Review</SelectItem>
+                  <SelectItem value="PLAN_MID_YEAR_ACKNOWLEDGE">Plan Mid-year Acknowledge</SelectItem>
+                  <SelectItem value="APPRAISAL_SIGN">Appraisal Sign</SelectItem>
+                  <SelectItem value="SIGNATURE_REVOKE">Signature Revoke</SelectItem>
+                  <SelectItem value="EMAIL_TEMPLATE_UPDATE">Email Template Update</SelectItem>
+                  <SelectItem value="SETTINGS_UPDATE">Settings Update</SelectItem>
+                  <SelectItem value="APPRAISAL_FORCE_STATUS">Appraisal Force Status</SelectItem>
+                  <SelectItem value="IMPERSONATION_START">Impersonation Start</SelectItem>
+                  <SelectItem value="IMPERSONATION_END">Impersonation End</SelectItem>
+                  <SelectItem value="PASSWORD_RESET_REQUEST">Password Reset Request</SelectItem>
+                  <SelectItem value="PASSWORD_RESET">Password Reset</SelectItem>
+                  <SelectItem value="TWO_FACTOR_ENABLE">2FA Enable</SelectItem>
+                  <SelectItem value="TWO_FACTOR_DISABLE">2FA Disable</SelectItem>
+                  <SelectItem value="TWO_FACTOR_RESET">2FA Reset</SelectItem>
+                  <SelectItem value="SESSIONS_REVOKE">Sessions Revoke</SelectItem>
+                  <SelectItem value="USER_UNLOCK">User Unlock</SelectItem>
+                  <SelectItem value="EVIDENCE_DOWNLOAD">Evidence Download</SelectItem>
+                  <SelectItem value="ACHIEVEMENT_VERIFY">Achievement Verify</SelectItem>
+                  <SelectItem value="ACHIEVEMENT_RESPOND">Achievement Respond</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div>
               <label className="text-sm font-medium">Target</label>
               <Input
-                placeholder="Search target"
+                placeholder="e.g. appraisal:12"
                 value={targetFilter}
                 onChange={(e) => setTargetFilter(e.target.value)}
               />
@@ -165,7 +249,7 @@ export default function AuditPage() {
             Audit Events
           </CardTitle>
           <CardDescription>
-            {filteredEvents.length} event{filteredEvents.length !== 1 ? "s" : ""} found
+            {data?.total ?? 0} event{data?.total !== 1 ? "s" : ""} found
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -181,19 +265,27 @@ export default function AuditPage() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredEvents.map((event) => (
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Loading...</TableCell>
+                </TableRow>
+              ) : events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No audit events match these filters</TableCell>
+                </TableRow>
+              ) : events.map((event) => (
                 <TableRow key={event.id}>
-                  <TableCell>{new Date(event.timestamp).toLocaleString()}</TableCell>
-                  <TableCell className="font-medium">{event.actor}</TableCell>
+                  <TableCell>{new Date(event.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="font-medium">{event.actorEmail || "system"}</TableCell>
                   <TableCell>
                     <Badge className={actionColors[event.action as keyof typeof actionColors] || "bg-gray-100 text-gray-800"}>
-                      {event.action.replace('_', ' ')}
+                      {event.action.replace(/_/g, ' ')}
                     </Badge>
                   </TableCell>
-                  <TableCell>{event.target}</TableCell>
+                  <TableCell>{event.targetId ? `${event.targetType}:${event.targetId}` : event.targetType}</TableCell>
                   <TableCell className="max-w-xs">
                     <pre className="text-xs bg-muted p-1 rounded overflow-hidden">
-                      {JSON.stringify(event.metadata, null, 2).substring(0, 100)}...
+                      {JSON.stringify({ before: event.before, after: event.after, ...(event.metadata && { metadata: event.metadata }) }, null, 2).substring(0, 100)}...
                     </pre>
                   </TableCell>
                   <TableCell>{event.ip || "-"}</TableCell>
@@ -201,6 +293,17 @@ export default function AuditPage() {
               ))}
             </TableBody>
           </Table>
+          <div className="flex items-center justify-end gap-2 pt-4">
+            <span className="text-sm text-muted-foreground">
+              Page {data?.page ?? page} of {data?.totalPages ?? 1}
+            </span>
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(p => p - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" disabled={page >= (data?.totalPages ?? 1)} onClick={() => setPage(p => p + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </div>
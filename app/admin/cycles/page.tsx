@@ -10,13 +10,16 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog"
-import { Plus, Calendar, CheckCircle, Lock, Copy } from "lucide-react"
+import { Plus, Calendar, CalendarClock, CheckCircle, Lock, Copy, Timer } from "lucide-react"
 
 interface AppraisalCycle {
    id: number
    academicYear: string
    startDate: string
    endDate: string
+   midYearReviewDate: string | null
+   appealWindowDays: number | null
+   appealResolutionDays: number | null
    isActive: boolean
    _count: {
      appraisals: number
@@ -29,6 +32,8 @@ export default function CyclesPage() {
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [settingActive, setSettingActive] = useState<AppraisalCycle | null>(null)
   const [lockingCycle, setLockingCycle] = useState<AppraisalCycle | null>(null)
+  const [schedulingCycle, setSchedulingCycle] = useState<AppraisalCycle | null>(null)
+  const [appealCycle, setAppealCycle] = useState<AppraisalCycle | null>(null)
 
   const fetchCycles = async () => {
     try {
@@ -80,16 +85,68 @@ export default function CyclesPage() {
     alert("Copy from previous not implemented yet")
   }
 
+  const handleScheduleMidYear = async (formData: FormData) => {
+    if (!schedulingCycle) return
+    const midYearReviewDate = (formData.get("midYearReviewDate") as string) || null
+
+    try {
+      const response = await fetch(`/api/admin/appraisal-cycles/${schedulingCycle.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ midYearReviewDate }),
+      })
+
+      if (response.ok) {
+        fetchCycles()
+        setSchedulingCycle(null)
+      } else {
+        const data = await response.json()
+        alert(data.error || "Failed to update mid-year review date")
+      }
+    } catch (error) {
+      console.error("Error updating mid-year review date:", error)
+      alert("Failed to update mid-year review date")
+    }
+  }
+
+  const handleAppealDeadlines = async (formData: FormData) => {
+    if (!appealCycle) return
+    const appealWindowDays = (formData.get("appealWindowDays") as string) || null
+    const appealResolutionDays = (formData.get("appealResolutionDays") as string) || null
+
+    try {
+      const response = await fetch(`/api/admin/appraisal-cycles/${appealCycle.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ appealWindowDays, appealResolutionDays }),
+      })
+
+      if (response.ok) {
+        fetchCycles()
+        setAppealCycle(null)
+      } else {
+        const data = await response.json()
+        alert(data.error || "Failed to update appeal deadlines")
+      }
+    } catch (error) {
+      console.error("Error updating appeal deadlines:", error)
+      alert("Failed to update appeal deadlines")
+    }
+  }
+
   const handleCreateCycle = async (formData: FormData) => {
     const academicYear = formData.get("academicYear") as string
     const startDate = formData.get("startDate") as string
     const endDate = formData.get("endDate") as string
+    const midYearReviewDate = (formData.get("midYearReviewDate") as string) || null
+    const appealWindowDays = (formData.get("appealWindowDays") as string) || null
+    const appealResolutionDays = (formData.get("appealResolutionDays") as string) || null
 
     try {
       const response = await fetch("/api/admin/appraisal-cycles", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ academicYear, startDate, endDate }),
+        body: JSON.stringify({ academicYear, startDate, endDate, midYearReviewDate, appealWindowDays, appealResolutionDays }),
       })
 
       if (response.ok) {
@@ -139,6 +196,8 @@ export default function CyclesPage() {
                 <TableHead>Academic Year</TableHead>
                 <TableHead>Active?</TableHead>
                 <TableHead>Start/End</TableHead>
+                <TableHead>Mid-year Review</TableHead>
+                <TableHead>Appeals</TableHead>
                 <TableHead>Appraisals</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -157,6 +216,19 @@ export default function CyclesPage() {
                   <TableCell>
                     {new Date(cycle.startDate).toLocaleDateString()} - {new Date(cycle.endDate).toLocaleDateString()}
                   </TableCell>
+                  <TableCell>
+                    {cycle.midYearReviewDate ? (
+                      new Date(cycle.midYearReviewDate).toLocaleDateString()
+                    ) : (
+                      <span className="text-muted-foreground">Not scheduled</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{cycle.appealWindowDays ? `${cycle.appealWindowDays} days to appeal` : "No appeal deadline"}</div>
+                    <div className="text-muted-foreground">
+                      {cycle.appealResolutionDays ? `Escalates after ${cycle.appealResolutionDays} days` : "No escalation"}
+                    </div>
+                  </TableCell>
                   <TableCell>{cycle._count.appraisals}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
@@ -169,6 +241,20 @@ export default function CyclesPage() {
                           <CheckCircle className="h-4 w-4" />
                         </Button>
                       )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setSchedulingCycle(cycle)}
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setAppealCycle(cycle)}
+                      >
+                        <Timer className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -214,6 +300,20 @@ export default function CyclesPage() {
               <Label htmlFor="endDate">End Date</Label>
               <Input id="endDate" name="endDate" type="date" required />
             </div>
+            <div>
+              <Label htmlFor="midYearReviewDate">Mid-year Review Date (optional)</Label>
+              <Input id="midYearReviewDate" name="midYearReviewDate" type="date" />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="appealWindowDays">Appeal Window (days, optional)</Label>
+                <Input id="appealWindowDays" name="appealWindowDays" type="number" min={1} max={365} />
+              </div>
+              <div>
+                <Label htmlFor="appealResolutionDays">Resolution Deadline (days, optional)</Label>
+                <Input id="appealResolutionDays" name="appealResolutionDays" type="number" min={1} max={365} />
+              </div>
+            </div>
             <div className="flex gap-2">
               <Button type="submit">Create</Button>
               <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
@@ -224,6 +324,80 @@ export default function CyclesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Mid-year Review Dialog */}
+      <Dialog open={!!schedulingCycle} onOpenChange={() => setSchedulingCycle(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mid-year Review Checkpoint</DialogTitle>
+            <DialogDescription>
+              Development plans in "{schedulingCycle?.academicYear}" are reviewed on this date.
+              It must fall between the cycle start and end dates. Leave empty to unschedule.
+            </DialogDescription>
+          </DialogHeader>
+          <form action={handleScheduleMidYear} className="space-y-4">
+            <div>
+              <Label htmlFor="scheduleMidYearReviewDate">Review Date</Label>
+              <Input
+                id="scheduleMidYearReviewDate"
+                name="midYearReviewDate"
+                type="date"
+                defaultValue={schedulingCycle?.midYearReviewDate?.slice(0, 10) ?? ""}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit">Save</Button>
+              <Button type="button" variant="outline" onClick={() => setSchedulingCycle(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Appeal Deadlines Dialog */}
+      <Dialog open={!!appealCycle} onOpenChange={() => setAppealCycle(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Appeal Deadlines</DialogTitle>
+            <DialogDescription>
+              Faculty in "{appealCycle?.academicYear}" can appeal for this many days after their scores are released.
+              An appeal not resolved within the resolution deadline escalates from the HOD to the Dean, then to the admin committee.
+              Leave a field empty for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <form action={handleAppealDeadlines} className="space-y-4">
+            <div>
+              <Label htmlFor="editAppealWindowDays">Appeal Window (days)</Label>
+              <Input
+                id="editAppealWindowDays"
+                name="appealWindowDays"
+                type="number"
+                min={1}
+                max={365}
+                defaultValue={appealCycle?.appealWindowDays ?? ""}
+              />
+            </div>
+            <div>
+              <Label htmlFor="editAppealResolutionDays">Resolution Deadline per Level (days)</Label>
+              <Input
+                id="editAppealResolutionDays"
+                name="appealResolutionDays"
+                type="number"
+                min={1}
+                max={365}
+                defaultValue={appealCycle?.appealResolutionDays ?? ""}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit">Save</Button>
+              <Button type="button" variant="outline" onClick={() => setAppealCycle(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Set Active Alert */}
       <AlertDialog open={!!settingActive} onOpenChange={() => setSettingActive(null)}>
         <AlertDialogContent>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button"
 import { prisma } from "@/lib/prisma"
 import { Users, Building2, GraduationCap, Calendar, FileText, MessageSquare, ArrowRight } from "lucide-react"
 import Link from "next/link"
+import { statusBadgeClass, statusLabel } from "@/lib/appraisal-status"
 
 async function getDashboardData() {
   const [
@@ -114,14 +115,6 @@ export default async function AdminDashboard() {
     },
   ]
 
-  const statusColors = {
-    NEW: "bg-blue-100 text-blue-800",
-    sent: "bg-green-100 text-green-800",
-    complete: "bg-purple-100 text-purple-800",
-    returned: "bg-red-100 text-red-800",
-    new: "bg-gray-100 text-gray-800",
-  }
-
   return (
     <div className="p-6 space-y-6">
       <div>
@@ -156,8 +149,8 @@ export default async function AdminDashboard() {
             <div className="space-y-2">
               {Object.entries(data.appraisalsByStatus).map(([status, count]) => (
                 <div key={status} className="flex items-center justify-between">
-                  <Badge className={statusColors[status as keyof typeof statusColors] || "bg-gray-100 text-gray-800"}>
-                    {status.replace('_', ' ')}
+                  <Badge className={statusBadgeClass(status)}>
+                    {statusLabel(status)}
                   </Badge>
                   <span className="font-medium">{count}</span>
                 </div>
@@ -6,13 +6,21 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Badge } from "@/components/ui/badge"
 import { Settings, Save, Eye } from "lucide-react"
 
+type BandKey = "HIGH" | "EXCEEDS" | "MEETS" | "PARTIAL" | "NEEDS"
+
+interface TeachingBand {
+  min: number
+  band: BandKey
+  points?: number
+}
+
 interface GradingConfig {
-  id: number
+  id: number | null
   scope: string
   cycleId: number | null
   researchWeight: number
@@ -21,10 +29,22 @@ interface GradingConfig {
   teachingQualityWeight: number
   servicePointsPerItem: number
   serviceMaxPoints: number
-  teachingBands: any[]
-  researchMap: any
+  teachingBands: TeachingBand[]
+  researchMap: Record<string, number>
+  verifiedOnly: boolean
+  inherited?: boolean
+}
+
+const BAND_LABELS: Record<BandKey, string> = {
+  HIGH: "Highly Exceeds",
+  EXCEEDS: "Exceeds",
+  MEETS: "Fully Meets",
+  PARTIAL: "Partially Meets",
+  NEEDS: "Needs Improvement",
 }
 
+const BAND_RATIO: Record<BandKey, number> = { HIGH: 1, EXCEEDS: 0.8, MEETS: 0.6, PARTIAL: 0.4, NEEDS: 0.2 }
+
 interface AppraisalCycle {
   id: number
   academicYear: string
@@ -36,27 +56,23 @@ export default function GradingPage() {
   const [cycles, setCycles] = useState<AppraisalCycle[]>([])
   const [selectedCycle, setSelectedCycle] = useState<string>("GLOBAL")
   const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchConfig = async (scope: string) => {
+    const query = scope === "GLOBAL" ? "" : `?cycleId=${scope}`
+    const res = await fetch(`/api/admin/grading${query}`)
+    if (res.ok) setConfig(await res.json())
+  }
 
   const fetchData = async () => {
     try {
-      const [configRes, cyclesRes] = await Promise.all([
-        fetch("/api/admin/grading"),
-        fetch("/api/admin/appraisal-cycles")
-      ])
-
-      if (configRes.ok) {
-        const configData = await configRes.json()
-        setConfig(configData)
-      }
-
+      const cyclesRes = await fetch("/api/admin/appraisal-cycles")
       if (cyclesRes.ok) {
         const cyclesData = await cyclesRes.json()
         setCycles(cyclesData)
       }
     } catch (error) {
       console.error("Error fetching data:", error)
-    } finally {
-      setIsLoading(false)
     }
   }
 
@@ -64,9 +80,45 @@ export default function GradingPage() {
     fetchData()
   }, [])
 
+  useEffect(() => {
+    setIsLoading(true)
+    fetchConfig(selectedCycle)
+      .catch(error => console.error("Error fetching grading config:", error))
+      .finally(() => setIsLoading(false))
+  }, [selectedCycle])
+
+  const updateConfig = (patch: Partial<GradingConfig>) => {
+    setConfig(prev => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const updateBand = (index: number, patch: Partial<TeachingBand>) => {
+    if (!config) return
+    updateConfig({ teachingBands: config.teachingBands.map((b, i) => (i === index ? { ...b, ...patch } : b)) })
+  }
+
   const handleSave = async () => {
-    // TODO: Implement save functionality
-    alert("Save functionality not implemented yet")
+    if (!config) return
+    setIsSaving(true)
+    try {
+      const res = await fetch("/api/admin/grading", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...config,
+          scope: selectedCycle === "GLOBAL" ? "GLOBAL" : "CYCLE",
+          cycleId: selectedCycle === "GLOBAL" ? null : Number(selectedCycle),
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        alert(data.error || "Failed to save grading config")
+        return
+      }
+      setConfig({ ...data, inherited: false })
+      alert("Grading configuration saved. New computations will use these values.")
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handlePreview = () => {
@@ -90,12 +142,9 @@ export default function GradingPage() {
             <Eye className="mr-2 h-4 w-4" />
             Preview Calculation
           </Button>
-          <Button onClick={handleSave}>
+          <Button onClick={handleSave} disabled={!config || isSaving}>
             <Save className="mr-2 h-4 w-4" />
-            Save Draft
-          </Button>
-          <Button>
-            Publish
+            {isSaving ? "Saving..." : "Save"}
           </Button>
         </div>
       </div>
@@ -119,6 +168,11 @@ export default function GradingPage() {
               ))}
             </SelectContent>
           </Select>
+          {config?.inherited && (
+            <p className="mt-2 text-sm text-muted-foreground">
+              No configuration saved for this scope yet; showing the values currently in effect.
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -144,8 +198,8 @@ export default function GradingPage() {
                     type="number"
                     min="0"
                     max="100"
-                    value={config?.researchWeight || 30}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, researchWeight: parseInt(e.target.value)} : null)}
+                    value={config?.researchWeight ?? 30}
+                    onChange={(e) => updateConfig({ researchWeight: parseInt(e.target.value) || 0 })}
                   />
                 </div>
                 <div>
@@ -155,8 +209,8 @@ export default function GradingPage() {
                     type="number"
                     min="0"
                     max="100"
-                    value={config?.universityServiceWeight || 20}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, universityServiceWeight: parseInt(e.target.value)} : null)}
+                    value={config?.universityServiceWeight ?? 20}
+                    onChange={(e) => updateConfig({ universityServiceWeight: parseInt(e.target.value) || 0 })}
                   />
                 </div>
                 <div>
@@ -166,8 +220,8 @@ export default function GradingPage() {
                     type="number"
                     min="0"
                     max="100"
-                    value={config?.communityServiceWeight || 20}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, communityServiceWeight: parseInt(e.target.value)} : null)}
+                    value={config?.communityServiceWeight ?? 20}
+                    onChange={(e) => updateConfig({ communityServiceWeight: parseInt(e.target.value) || 0 })}
                   />
                 </div>
                 <div>
@@ -177,8 +231,8 @@ export default function GradingPage() {
                     type="number"
                     min="0"
                     max="100"
-                    value={config?.teachingQualityWeight || 30}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, teachingQualityWeight: parseInt(e.target.value)} : null)}
+                    value={config?.teachingQualityWeight ?? 30}
+                    onChange={(e) => updateConfig({ teachingQualityWeight: parseInt(e.target.value) || 0 })}
                   />
                 </div>
               </div>
@@ -189,8 +243,8 @@ export default function GradingPage() {
                     id="servicePointsPerItem"
                     type="number"
                     min="0"
-                    value={config?.servicePointsPerItem || 4}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, servicePointsPerItem: parseInt(e.target.value)} : null)}
+                    value={config?.servicePointsPerItem ?? 4}
+                    onChange={(e) => updateConfig({ servicePointsPerItem: parseInt(e.target.value) || 0 })}
                   />
                 </div>
                 <div>
@@ -199,11 +253,19 @@ export default function GradingPage() {
                     id="serviceMaxPoints"
                     type="number"
                     min="0"
-                    value={config?.serviceMaxPoints || 20}
-                    onChange={(e) => setConfig(prev => prev ? {...prev, serviceMaxPoints: parseInt(e.target.value)} : null)}
+                    value={config?.serviceMaxPoints ?? 20}
+                    onChange={(e) => updateConfig({ serviceMaxPoints: parseInt(e.target.value) || 0 })}
                   />
                 </div>
               </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="verifiedOnly"
+                  checked={config?.verifiedOnly ?? false}
+                  onCheckedChange={(checked) => updateConfig({ verifiedOnly: checked })}
+                />
+                <Label htmlFor="verifiedOnly">Score verified achievements only (rejected achievements never count)</Label>
+              </div>
             </CardContent>
           </Card>
         </TabsContent>
@@ -212,34 +274,43 @@ export default function GradingPage() {
           <Card>
             <CardHeader>
               <CardTitle>Teaching Bands</CardTitle>
-              <CardDescription>Define points for teaching evaluation bands</CardDescription>
+              <CardDescription>Students&apos; evaluation thresholds. Leave points empty to derive them from the teaching weight.</CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Min Average</TableHead>
+                    <TableHead>Min Average (%)</TableHead>
+                    <TableHead>Band</TableHead>
                     <TableHead>Points</TableHead>
-                    <TableHead>Band Name</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {/* TODO: Implement dynamic bands */}
-                  <TableRow>
-                    <TableCell>90</TableCell>
-                    <TableCell>30</TableCell>
-                    <TableCell>Excellent</TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>80</TableCell>
-                    <TableCell>24</TableCell>
-                    <TableCell>Good</TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>70</TableCell>
-                    <TableCell>18</TableCell>
-                    <TableCell>Satisfactory</TableCell>
-                  </TableRow>
+                  {config?.teachingBands.map((band, index) => (
+                    <TableRow key={band.band}>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          className="w-24"
+                          value={band.min}
+                          onChange={(e) => updateBand(index, { min: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>{BAND_LABELS[band.band]}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          placeholder={String(Math.round((config.teachingQualityWeight ?? 0) * BAND_RATIO[band.band] * 100) / 100)}
+                          value={band.points ?? ""}
+                          onChange={(e) => updateBand(index, { points: e.target.value === "" ? undefined : parseFloat(e.target.value) })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
                 </TableBody>
               </Table>
             </CardContent>
@@ -250,30 +321,31 @@ export default function GradingPage() {
           <Card>
             <CardHeader>
               <CardTitle>Research Map</CardTitle>
-              <CardDescription>Define points for research activities</CardDescription>
+              <CardDescription>Points per research activity; the total is capped at the research weight</CardDescription>
             </CardHeader>
             <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Activity Type</TableHead>
-                    <TableHead>Points</TableHead>
+                    <TableHead>Research Kind</TableHead>
+                    <TableHead>Points per Item</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {/* TODO: Implement dynamic research map */}
-                  <TableRow>
-                    <TableCell>Published Paper</TableCell>
-                    <TableCell>10</TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>Accepted Paper</TableCell>
-                    <TableCell>8</TableCell>
-                  </TableRow>
-                  <TableRow>
-                    <TableCell>Refereed Paper</TableCell>
-                    <TableCell>6</TableCell>
-                  </TableRow>
+                  {Object.entries(config?.researchMap ?? {}).map(([kind, points]) => (
+                    <TableRow key={kind}>
+                      <TableCell>{kind.replace(/_/g, " ")}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          value={points}
+                          onChange={(e) => updateConfig({ researchMap: { ...config!.researchMap, [kind]: parseFloat(e.target.value) || 0 } })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
                 </TableBody>
               </Table>
             </CardContent>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -8,46 +8,117 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Settings, Palette, Mail, HardDrive, Shield, Flag, Save, Send } from "lucide-react"
+import {
+  DEFAULT_SETTINGS,
+  PASSWORD_POLICIES,
+  PASSWORD_POLICY_LABELS,
+  LOGIN_METHODS,
+  LOGIN_METHOD_LABELS,
+  ROLES,
+  type SettingsSection,
+  type SystemSettings,
+} from "@/lib/settings-schema"
+
+type EmailTemplate = {
+  key: string
+  label: string
+  placeholders: string[]
+  subject: string
+  body: string
+}
 
 export default function SettingsPage() {
-  const [branding, setBranding] = useState({
-    logo: "",
-    name: "Faculty Appraisal System",
-    primaryColor: "#007bff"
-  })
+  // الأقسام محفوظة في الخادم (lib/settings.ts)؛ القيم الافتراضية حتى يكتمل التحميل
+  const [branding, setBranding] = useState(DEFAULT_SETTINGS.branding)
+  const [emailSettings, setEmailSettings] = useState(DEFAULT_SETTINGS.email)
+  const [storage, setStorage] = useState(DEFAULT_SETTINGS.storage)
+  const [security, setSecurity] = useState(DEFAULT_SETTINGS.security)
+  const [featureFlags, setFeatureFlags] = useState(DEFAULT_SETTINGS.features)
+  const [savingSection, setSavingSection] = useState<SettingsSection | null>(null)
+  const [sso, setSso] = useState<{ configured: boolean; name: string | null }>({ configured: false, name: null })
+
+  useEffect(() => {
+    fetch("/api/admin/settings")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { settings: SystemSettings; sso: { configured: boolean; name: string | null } } | null) => {
+        if (!data) return
+        setSso(data.sso)
+        setBranding(data.settings.branding)
+        setEmailSettings(data.settings.email)
+        setStorage(data.settings.storage)
+        setSecurity(data.settings.security)
+        setFeatureFlags(data.settings.features)
+      })
+      .catch((error) => console.error("Error loading settings:", error))
+  }, [])
 
-  const [emailTemplates, setEmailTemplates] = useState({
-    scoresSent: "Dear {faculty_name},\n\nYour appraisal scores have been sent. Total: {total_score}\n\nBest regards,\nAdmin",
-    appealReceived: "Dear {evaluator_name},\n\nAn appeal has been submitted for appraisal {appraisal_id}.\n\nMessage: {appeal_message}\n\nPlease review.\n\nBest regards,\nSystem",
-    approvalConfirmation: "Dear {faculty_name},\n\nYour appraisal has been approved.\n\nBest regards,\nAdmin"
-  })
+  // القوالب محفوظة في الخادم (lib/email-templates.ts)
+  const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
+  const [emailTransport, setEmailTransport] = useState("")
+  const [testRecipient, setTestRecipient] = useState("")
+  const [emailBusy, setEmailBusy] = useState(false)
 
-  const [storage, setStorage] = useState({
-    baseBucket: "faculty-appraisals",
-    provider: "S3"
-  })
+  useEffect(() => {
+    fetch("/api/admin/email-templates")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return
+        setEmailTemplates(data.templates)
+        setEmailTransport(data.transport)
+      })
+      .catch((error) => console.error("Error loading email templates:", error))
+  }, [])
 
-  const [security, setSecurity] = useState({
-    passwordPolicy: "min8chars",
-    sessionLifetime: 480, // minutes
-    enable2FA: false
-  })
+  const updateTemplate = (key: string, patch: Partial<EmailTemplate>) =>
+    setEmailTemplates(prev => prev.map(t => (t.key === key ? { ...t, ...patch } : t)))
 
-  const [featureFlags, setFeatureFlags] = useState({
-    impersonation: false,
-    forceStatus: false
-  })
+  const handleSave = async <S extends SettingsSection>(section: S, value: SystemSettings[S], label: string) => {
+    setSavingSection(section)
+    try {
+      const response = await fetch("/api/admin/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ section, value }),
+      })
+      const data = await response.json().catch(() => ({}))
+      alert(response.ok ? `${label} settings saved` : data.error || `Failed to save ${label.toLowerCase()} settings`)
+    } finally {
+      setSavingSection(null)
+    }
+  }
 
-  const handleSave = (section: string) => {
-    // TODO: Implement save functionality
-    alert(`${section} settings saved successfully!`)
+  const handleSaveTemplates = async () => {
+    setEmailBusy(true)
+    try {
+      const templates = Object.fromEntries(emailTemplates.map(t => [t.key, { subject: t.subject, body: t.body }]))
+      const response = await fetch("/api/admin/email-templates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templates }),
+      })
+      const data = await response.json().catch(() => ({}))
+      alert(response.ok ? "Email templates saved" : data.error || "Failed to save templates")
+    } finally {
+      setEmailBusy(false)
+    }
   }
 
-  const handleTestEmail = () => {
-    // TODO: Implement test email
-    alert("Test email sent successfully!")
+  const handleTestEmail = async (template?: string) => {
+    setEmailBusy(true)
+    try {
+      const response = await fetch("/api/admin/email-templates/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: testRecipient || undefined, template }),
+      })
+      const data = await response.json().catch(() => ({}))
+      alert(response.ok ? `Test email sent to ${data.to} via ${data.transport}` : data.error || "Failed to send test email")
+    } finally {
+      setEmailBusy(false)
+    }
   }
 
   return (
@@ -102,7 +173,7 @@ export default function SettingsPage() {
                   onChange={(e) => setBranding(prev => ({ ...prev, primaryColor: e.target.value }))}
                 />
               </div>
-              <Button onClick={() => handleSave("Branding")}>
+              <Button onClick={() => handleSave("branding", branding, "Branding")} disabled={savingSection === "branding"}>
                 <Save className="mr-2 h-4 w-4" />
                 Save Branding
               </Button>
@@ -120,39 +191,80 @@ export default function SettingsPage() {
               <CardDescription>Configure email notifications</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div>
-                <Label htmlFor="scoresSent">Scores Sent Template</Label>
-                <Textarea
-                  id="scoresSent"
-                  value={emailTemplates.scoresSent}
-                  onChange={(e) => setEmailTemplates(prev => ({ ...prev, scoresSent: e.target.value }))}
-                  rows={4}
-                />
-              </div>
-              <div>
-                <Label htmlFor="appealReceived">Appeal Received Template</Label>
-                <Textarea
-                  id="appealReceived"
-                  value={emailTemplates.appealReceived}
-                  onChange={(e) => setEmailTemplates(prev => ({ ...prev, appealReceived: e.target.value }))}
-                  rows={4}
-                />
+              {emailTransport && (
+                <p className="text-sm text-muted-foreground">
+                  Transport: <span className="font-medium">{emailTransport}</span>
+                  {(emailTransport === "outbox" || emailTransport === "file") && " (messages are stored, not delivered)"}
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="fromName">Sender Name</Label>
+                  <Input
+                    id="fromName"
+                    value={emailSettings.fromName}
+                    onChange={(e) => setEmailSettings(prev => ({ ...prev, fromName: e.target.value }))}
+                    placeholder={branding.name}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="fromAddress">Sender Address (defaults to FROM_EMAIL)</Label>
+                  <Input
+                    id="fromAddress"
+                    type="email"
+                    value={emailSettings.fromAddress}
+                    onChange={(e) => setEmailSettings(prev => ({ ...prev, fromAddress: e.target.value }))}
+                  />
+                </div>
               </div>
+              <Button
+                variant="outline"
+                onClick={() => handleSave("email", emailSettings, "Sender")}
+                disabled={savingSection === "email"}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save Sender
+              </Button>
+              {emailTemplates.map((template) => (
+                <div key={template.key} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={`${template.key}-body`}>{template.label} Template</Label>
+                    <Button variant="ghost" size="sm" disabled={emailBusy} onClick={() => handleTestEmail(template.key)}>
+                      <Send className="mr-2 h-3 w-3" />
+                      Send sample
+                    </Button>
+                  </div>
+                  <Input
+                    aria-label={`${template.label} subject`}
+                    value={template.subject}
+                    onChange={(e) => updateTemplate(template.key, { subject: e.target.value })}
+                  />
+                  <Textarea
+                    id={`${template.key}-body`}
+                    value={template.body}
+                    onChange={(e) => updateTemplate(template.key, { body: e.target.value })}
+                    rows={4}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Placeholders: {template.placeholders.map(p => `{${p}}`).join(", ")}
+                  </p>
+                </div>
+              ))}
               <div>
-                <Label htmlFor="approvalConfirmation">Approval Confirmation Template</Label>
-                <Textarea
-                  id="approvalConfirmation"
-                  value={emailTemplates.approvalConfirmation}
-                  onChange={(e) => setEmailTemplates(prev => ({ ...prev, approvalConfirmation: e.target.value }))}
-                  rows={4}
+                <Label htmlFor="testRecipient">Test Recipient (defaults to your email)</Label>
+                <Input
+                  id="testRecipient"
+                  type="email"
+                  value={testRecipient}
+                  onChange={(e) => setTestRecipient(e.target.value)}
                 />
               </div>
               <div className="flex gap-2">
-                <Button onClick={() => handleSave("Email Templates")}>
+                <Button onClick={handleSaveTemplates} disabled={emailBusy || emailTemplates.length === 0}>
                   <Save className="mr-2 h-4 w-4" />
                   Save Templates
                 </Button>
-                <Button variant="outline" onClick={handleTestEmail}>
+                <Button variant="outline" onClick={() => handleTestEmail()} disabled={emailBusy}>
                   <Send className="mr-2 h-4 w-4" />
                   Test Email
                 </Button>
@@ -168,7 +280,9 @@ export default function SettingsPage() {
                 <HardDrive className="h-5 w-5" />
                 Storage
               </CardTitle>
-              <CardDescription>File storage configuration</CardDescription>
+              <CardDescription>
+                Where new uploads are stored. Existing files stay readable where they were saved; credentials come from the server environment.
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
@@ -181,18 +295,54 @@ export default function SettingsPage() {
               </div>
               <div>
                 <Label htmlFor="provider">Provider</Label>
-                <Select value={storage.provider} onValueChange={(value) => setStorage(prev => ({ ...prev, provider: value }))}>
+                <Select
+                  value={storage.provider}
+                  onValueChange={(value) => setStorage(prev => ({ ...prev, provider: value as typeof prev.provider }))}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="S3">Amazon S3</SelectItem>
-                    <SelectItem value="GCS">Google Cloud Storage</SelectItem>
                     <SelectItem value="Local">Local Storage</SelectItem>
+                    <SelectItem value="S3">Amazon S3 / S3-compatible</SelectItem>
+                    <SelectItem value="GCS">Google Cloud Storage</SelectItem>
+                    <SelectItem value="VercelBlob">Vercel Blob</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
-              <Button onClick={() => handleSave("Storage")}>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="maxFileSizeMb">Max File Size (MB)</Label>
+                  <Input
+                    id="maxFileSizeMb"
+                    type="number"
+                    value={storage.maxFileSizeMb}
+                    onChange={(e) => setStorage(prev => ({ ...prev, maxFileSizeMb: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="appraisalQuotaMb">Quota per Appraisal (MB)</Label>
+                  <Input
+                    id="appraisalQuotaMb"
+                    type="number"
+                    value={storage.appraisalQuotaMb}
+                    onChange={(e) => setStorage(prev => ({ ...prev, appraisalQuotaMb: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="userQuotaMb">Quota per User (MB)</Label>
+                  <Input
+                    id="userQuotaMb"
+                    type="number"
+                    value={storage.userQuotaMb}
+                    onChange={(e) => setStorage(prev => ({ ...prev, userQuotaMb: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Quotas count the evidence files stored for one appraisal and for all of a user&apos;s appraisals. 0 means no limit.
+              </p>
+              <Button onClick={() => handleSave("storage", storage, "Storage")} disabled={savingSection === "storage"}>
                 <Save className="mr-2 h-4 w-4" />
                 Save Storage
               </Button>
@@ -212,13 +362,17 @@ export default function SettingsPage() {
             <CardContent className="space-y-4">
               <div>
                 <Label htmlFor="passwordPolicy">Password Policy</Label>
-                <Select value={security.passwordPolicy} onValueChange={(value) => setSecurity(prev => ({ ...prev, passwordPolicy: value }))}>
+                <Select
+                  value={security.passwordPolicy}
+                  onValueChange={(value) => setSecurity(prev => ({ ...prev, passwordPolicy: value as typeof prev.passwordPolicy }))}
+                >
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="min8chars">Minimum 8 characters</SelectItem>
-                    <SelectItem value="strong">Strong (uppercase, lowercase, number, symbol)</SelectItem>
+                    {PASSWORD_POLICIES.map((policy) => (
+                      <SelectItem key={policy} value={policy}>{PASSWORD_POLICY_LABELS[policy]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -228,8 +382,31 @@ export default function SettingsPage() {
                   id="sessionLifetime"
                   type="number"
                   value={security.sessionLifetime}
-                  onChange={(e) => setSecurity(prev => ({ ...prev, sessionLifetime: parseInt(e.target.value) }))}
+                  onChange={(e) => setSecurity(prev => ({ ...prev, sessionLifetime: parseInt(e.target.value) || 0 }))}
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Users are signed out this long after signing in (5 minutes to 30 days).
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="maxLoginAttempts">Failed Attempts Before Lockout</Label>
+                  <Input
+                    id="maxLoginAttempts"
+                    type="number"
+                    value={security.maxLoginAttempts}
+                    onChange={(e) => setSecurity(prev => ({ ...prev, maxLoginAttempts: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lockoutMinutes">Lockout Duration (minutes)</Label>
+                  <Input
+                    id="lockoutMinutes"
+                    type="number"
+                    value={security.lockoutMinutes}
+                    onChange={(e) => setSecurity(prev => ({ ...prev, lockoutMinutes: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
               </div>
               <div className="flex items-center space-x-2">
                 <Switch
@@ -237,9 +414,87 @@ export default function SettingsPage() {
                   checked={security.enable2FA}
                   onCheckedChange={(checked) => setSecurity(prev => ({ ...prev, enable2FA: checked }))}
                 />
-                <Label htmlFor="enable2FA">Enable 2FA</Label>
+                <Label htmlFor="enable2FA">Allow all users to set up 2FA</Label>
+              </div>
+              <div>
+                <Label>Require 2FA for roles</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {ROLES.map((role) => (
+                    <div key={role} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`require2FA-${role}`}
+                        checked={security.require2FARoles.includes(role)}
+                        onCheckedChange={(checked) =>
+                          setSecurity(prev => ({
+                            ...prev,
+                            require2FARoles: checked
+                              ? [...prev.require2FARoles, role]
+                              : prev.require2FARoles.filter(r => r !== role),
+                          }))
+                        }
+                      />
+                      <Label htmlFor={`require2FA-${role}`}>{role}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Users in these roles must set up an authenticator app before they can use the system.
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="loginMethod">Sign-in Methods</Label>
+                <Select
+                  value={security.loginMethod}
+                  onValueChange={(value) => setSecurity(prev => ({ ...prev, loginMethod: value as typeof prev.loginMethod }))}
+                >
+                  <SelectTrigger id="loginMethod">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOGIN_METHODS.map((method) => (
+                      <SelectItem key={method} value={method} disabled={method !== "credentials" && !sso.configured}>
+                        {LOGIN_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {sso.configured
+                    ? `Single sign-on provider: ${sso.name}. Accounts are matched by email.`
+                    : "Single sign-on is not configured. Set SSO_ISSUER, SSO_CLIENT_ID and SSO_CLIENT_SECRET on the server."}
+                </p>
               </div>
-              <Button onClick={() => handleSave("Security")}>
+              {security.loginMethod !== "credentials" && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="ssoAutoProvision"
+                      checked={security.ssoAutoProvision}
+                      onCheckedChange={(checked) => setSecurity(prev => ({ ...prev, ssoAutoProvision: checked }))}
+                    />
+                    <Label htmlFor="ssoAutoProvision">Create accounts on first single sign-on (@uob.edu emails only)</Label>
+                  </div>
+                  {security.ssoAutoProvision && (
+                    <div>
+                      <Label htmlFor="ssoDefaultRole">Role for New Accounts</Label>
+                      <Select
+                        value={security.ssoDefaultRole}
+                        onValueChange={(value) => setSecurity(prev => ({ ...prev, ssoDefaultRole: value as typeof prev.ssoDefaultRole }))}
+                      >
+                        <SelectTrigger id="ssoDefaultRole">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="INSTRUCTOR">INSTRUCTOR</SelectItem>
+                          <SelectItem value="HOD">HOD</SelectItem>
+                          <SelectItem value="DEAN">DEAN</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </>
+              )}
+              <Button onClick={() => handleSave("security", security, "Security")} disabled={savingSection === "security"}>
                 <Save className="mr-2 h-4 w-4" />
                 Save Security
               </Button>
@@ -263,7 +518,7 @@ export default function SettingsPage() {
                   checked={featureFlags.impersonation}
                   onCheckedChange={(checked) => setFeatureFlags(prev => ({ ...prev, impersonation: checked }))}
                 />
-                <Label htmlFor="impersonation">Enable User Impersonation (dev only)</Label>
+                <Label htmlFor="impersonation">Enable User Impersonation (read-only "view as" from Users)</Label>
               </div>
               <div className="flex items-center space-x-2">
                 <Switch
@@ -273,7 +528,7 @@ export default function SettingsPage() {
                 />
                 <Label htmlFor="forceStatus">Enable Force Status Actions</Label>
               </div>
-              <Button onClick={() => handleSave("Feature Flags")}>
+              <Button onClick={() => handleSave("features", featureFlags, "Feature")} disabled={savingSection === "features"}>
                 <Save className="mr-2 h-4 w-4" />
                 Save Features
               </Button>
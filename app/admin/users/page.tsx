@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useSession } from "next-auth/react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
@@ -9,8 +10,11 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar"
 import { UserForm } from "@/components/admin/user-form"
-import { Plus, Edit, Trash2, Users, Upload, Search } from "lucide-react"
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { LoginHistoryTable, type LoginHistoryEvent } from "@/components/auth/login-history-table"
+import { Plus, Edit, Trash2, Users, Upload, Search, Eye, ShieldOff, History, LogOut, Unlock } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import {
    AlertDialog,
    AlertDialogAction,
@@ -37,9 +41,15 @@ interface User {
       name: string
     }
   } | null
+  twoFactor: { enabledAt: string | null } | null
+  lockedUntil: string | null
   updatedAt: string
 }
 
+function isLocked(user: { lockedUntil: string | null }) {
+  return Boolean(user.lockedUntil && new Date(user.lockedUntil) > new Date())
+}
+
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([])
   const [isLoading, setIsLoading] = useState(true)
@@ -54,6 +64,18 @@ export default function UsersPage() {
   const [colleges, setColleges] = useState<{id: number, name: string}[]>([])
   const [departments, setDepartments] = useState<{id: number, name: string, collegeId: number}[]>([])
   const [showBulkImport, setShowBulkImport] = useState(false)
+  // "العرض كمستخدم" متاح فقط عند تفعيل features.impersonation في الإعدادات
+  const { update: updateSession } = useSession()
+  const [impersonationEnabled, setImpersonationEnabled] = useState(false)
+  const [viewingAs, setViewingAs] = useState<User | null>(null)
+  const [impersonationReason, setImpersonationReason] = useState("")
+  const [isStartingImpersonation, setIsStartingImpersonation] = useState(false)
+  const [resettingTwoFactor, setResettingTwoFactor] = useState<User | null>(null)
+  // سجل الدخول وإجراءات الجلسات (lib/login-security.ts)
+  const [activityUser, setActivityUser] = useState<User | null>(null)
+  const [activity, setActivity] = useState<{ events: LoginHistoryEvent[]; lockedUntil: string | null } | null>(null)
+  const [activityMessage, setActivityMessage] = useState("")
+  const [isActivityBusy, setIsActivityBusy] = useState(false)
 
   const fetchUsers = async () => {
     try {
@@ -91,6 +113,10 @@ export default function UsersPage() {
   useEffect(() => {
     fetchUsers()
     fetchCollegesAndDepartments()
+    fetch("/api/admin/settings")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setImpersonationEnabled(Boolean(data?.settings?.features?.impersonation)))
+      .catch((error) => console.error("Error loading settings:", error))
   }, [])
 
   const filteredUsers = users.filter(user => {
@@ -107,6 +133,62 @@ export default function UsersPage() {
     return matchesSearch && matchesRole && matchesStatus && matchesCollege && matchesDepartment
   })
 
+  const openActivity = async (user: User) => {
+    setActivityUser(user)
+    setActivity(null)
+    setActivityMessage("")
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/login-history`)
+      if (response.ok) {
+        setActivity(await response.json())
+      }
+    } catch (error) {
+      console.error("Error fetching login history:", error)
+    }
+  }
+
+  const handleSessionAction = async (user: User, action: "sessions" | "lockout") => {
+    setIsActivityBusy(true)
+    setActivityMessage("")
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/${action}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        setActivityMessage(data.error || "Action failed")
+        return
+      }
+      if (action === "lockout") {
+        setUsers(users.map((u) => (u.id === user.id ? { ...u, lockedUntil: null } : u)))
+        setActivity((prev) => (prev ? { ...prev, lockedUntil: null } : prev))
+        setActivityMessage("The account has been unlocked.")
+      } else {
+        setActivityMessage("All sessions have been signed out.")
+      }
+    } catch (error) {
+      console.error("Error updating sessions:", error)
+      setActivityMessage("Action failed")
+    } finally {
+      setIsActivityBusy(false)
+    }
+  }
+
+  const handleResetTwoFactor = async (user: User) => {
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/two-factor`, { method: "DELETE" })
+
+      if (response.ok) {
+        setUsers(users.map((u) => (u.id === user.id ? { ...u, twoFactor: null } : u)))
+        setResettingTwoFactor(null)
+      } else {
+        const data = await response.json()
+        alert(data.error || "Failed to reset two-factor authentication")
+      }
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error)
+      alert("Failed to reset two-factor authentication")
+    }
+  }
+
   const handleDelete = async (user: User) => {
     try {
       const response = await fetch(`/api/admin/users/${user.id}`, {
@@ -126,6 +208,27 @@ export default function UsersPage() {
     }
   }
 
+  const handleViewAs = async () => {
+    if (!viewingAs) return
+    setIsStartingImpersonation(true)
+    try {
+      const response = await fetch("/api/admin/impersonation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: viewingAs.id, reason: impersonationReason }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        alert(data.error || "Failed to view as user")
+        return
+      }
+      await updateSession({ impersonationId: data.impersonationId })
+      window.location.href = "/dashboard"
+    } finally {
+      setIsStartingImpersonation(false)
+    }
+  }
+
   const handleFormSuccess = () => {
     setShowForm(false)
     setEditingUser(undefined)
@@ -253,12 +356,49 @@ export default function UsersPage() {
                     <Badge variant={user.status === 'ACTIVE' ? 'default' : 'destructive'}>
                       {user.status === 'ACTIVE' ? 'Active' : 'Disabled'}
                     </Badge>
+                    {user.twoFactor?.enabledAt && (
+                      <Badge variant="outline" className="ml-1">2FA</Badge>
+                    )}
+                    {isLocked(user) && (
+                      <Badge variant="destructive" className="ml-1">Locked</Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     {new Date(user.updatedAt).toLocaleDateString()}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
+                      {impersonationEnabled && user.role !== "ADMIN" && user.status === "ACTIVE" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="View as this user"
+                          onClick={() => {
+                            setViewingAs(user)
+                            setImpersonationReason("")
+                          }}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Sign-in activity and sessions"
+                        onClick={() => openActivity(user)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      {user.twoFactor?.enabledAt && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Reset two-factor authentication"
+                          onClick={() => setResettingTwoFactor(user)}
+                        >
+                          <ShieldOff className="h-4 w-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -307,6 +447,71 @@ export default function UsersPage() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={!!activityUser} onOpenChange={(open) => !open && setActivityUser(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Sign-in activity: {activityUser?.name}</DialogTitle>
+            <DialogDescription>
+              Recent sign-in attempts. Signing out all sessions forces the user to sign in again on every device.
+            </DialogDescription>
+          </DialogHeader>
+          {activity?.lockedUntil && (
+            <p className="text-sm text-destructive">
+              Locked until {new Date(activity.lockedUntil).toLocaleString()} after repeated failed attempts.
+            </p>
+          )}
+          {activityMessage && <p className="text-sm text-muted-foreground">{activityMessage}</p>}
+          <div className="max-h-[50vh] overflow-y-auto">
+            {activity ? (
+              <LoginHistoryTable events={activity.events} />
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+            )}
+          </div>
+          <DialogFooter>
+            {activity?.lockedUntil && (
+              <Button
+                variant="outline"
+                onClick={() => activityUser && handleSessionAction(activityUser, "lockout")}
+                disabled={isActivityBusy}
+              >
+                <Unlock className="mr-2 h-4 w-4" />
+                Unlock account
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              onClick={() => activityUser && handleSessionAction(activityUser, "sessions")}
+              disabled={isActivityBusy}
+            >
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out all sessions
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!resettingTwoFactor} onOpenChange={() => setResettingTwoFactor(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor authentication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{resettingTwoFactor?.name}" will be able to sign in with their password only, and their recovery codes
+              will stop working. If their role requires 2FA they will be asked to set it up again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => resettingTwoFactor && handleResetTwoFactor(resettingTwoFactor)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Reset 2FA
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={!!deletingUser} onOpenChange={() => setDeletingUser(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -328,6 +533,34 @@ export default function UsersPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <Dialog open={!!viewingAs} onOpenChange={(open) => !open && setViewingAs(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>View as {viewingAs?.name}</DialogTitle>
+            <DialogDescription>
+              You will see the system exactly as this user does. Changes are disabled until you exit, and the session
+              is recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="impersonationReason">Reason (e.g. support ticket)</Label>
+            <Textarea
+              id="impersonationReason"
+              value={impersonationReason}
+              onChange={(e) => setImpersonationReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewingAs(null)}>Cancel</Button>
+            <Button onClick={handleViewAs} disabled={isStartingImpersonation || !impersonationReason.trim()}>
+              <Eye className="mr-2 h-4 w-4" />
+              View as user
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Bulk Import Dialog */}
       <Dialog open={showBulkImport} onOpenChange={setShowBulkImport}>
         <DialogContent className="max-w-2xl">
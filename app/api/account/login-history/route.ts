@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { getLoginHistory } from "@/lib/login-security"
+
+// GET: آخر محاولات الدخول إلى حساب المستخدم الحالي
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const events = await getLoginHistory(parseInt(session.user.id))
+    return NextResponse.json({ events })
+  } catch (error) {
+    console.error("Error fetching login history:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { confirmEnrollment } from "@/lib/two-factor"
+
+const Body = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+})
+
+// POST: تأكيد أول رمز وتفعيل التحقق؛ الرد يحمل رموز الاسترداد
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+
+    const userId = parseInt(session.user.id)
+    const result = await confirmEnrollment(userId, parsed.data.code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await logAudit({
+      actor: session.user,
+      action: "TWO_FACTOR_ENABLE",
+      target: { type: "user", id: userId },
+      req: request,
+    })
+    return NextResponse.json({ recoveryCodes: result.recoveryCodes })
+  } catch (error) {
+    console.error("Error enabling two-factor authentication:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
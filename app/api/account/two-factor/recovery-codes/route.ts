@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { z } from "zod"
+import { regenerateRecoveryCodes } from "@/lib/two-factor"
+
+const Body = z.object({
+  code: z.string().trim().min(1, "Enter a code from your authenticator app or a recovery code"),
+})
+
+// POST: رموز استرداد جديدة تُبطل السابقة
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+
+    const result = await regenerateRecoveryCodes(parseInt(session.user.id), parsed.data.code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ recoveryCodes: result.recoveryCodes })
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { disableTwoFactor, getTwoFactorStatus } from "@/lib/two-factor"
+
+const Body = z.object({
+  code: z.string().trim().min(1, "Enter a code from your authenticator app or a recovery code"),
+})
+
+// GET: حالة التحقق بخطوتين للمستخدم الحالي مع سياسة دوره
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const status = await getTwoFactorStatus({ id: parseInt(session.user.id), role: session.user.role })
+    return NextResponse.json(status)
+  } catch (error) {
+    console.error("Error fetching two-factor status:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE: إلغاء التحقق بخطوتين (يتطلب رمزاً صالحاً، وغير متاح إذا كان الدور يفرضه)
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+
+    const userId = parseInt(session.user.id)
+    const result = await disableTwoFactor({ id: userId, role: session.user.role }, parsed.data.code)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await logAudit({
+      actor: session.user,
+      action: "TWO_FACTOR_DISABLE",
+      target: { type: "user", id: userId },
+      req: request,
+    })
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
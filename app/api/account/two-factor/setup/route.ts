@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { beginEnrollment } from "@/lib/two-factor"
+
+// POST: سر جديد بانتظار التأكيد عبر /enable؛ يُعرض للمستخدم مرة واحدة
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session || session.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const result = await beginEnrollment({
+      id: parseInt(session.user.id),
+      email: session.user.email,
+      role: session.user.role,
+    })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ secret: result.secret, uri: result.uri })
+  } catch (error) {
+    console.error("Error starting two-factor setup:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -95,8 +95,6 @@ export async function POST(request: NextRequest) {
             area: achievementData.generatedArea,
             organization: achievementData.generatingOrganization,
             dateObtained: achievementData.dateObtained ? new Date(achievementData.dateObtained) : null,
-            fileUrl: achievementData.attachment,
-            fileKey: achievementData.attachment
           }
         })
         break
@@ -129,8 +127,6 @@ export async function POST(request: NextRequest) {
             kind: type === "researchPublished" ? "PUBLISHED" : "ACCEPTED",
             journalOrPublisher: achievementData.nameOfTheJournal,
             publicationDate: achievementData.dateOfPublication ? new Date(achievementData.dateOfPublication) : null,
-            fileUrl: achievementData.attachment,
-            fileKey: achievementData.attachment
           }
         })
         break
@@ -147,8 +143,6 @@ export async function POST(request: NextRequest) {
             date: achievementData.date ? new Date(achievementData.date) : null,
             organizingAuth: achievementData.organizingAuthority,
             venue: achievementData.venue,
-            fileUrl: achievementData.attachment,
-            fileKey: achievementData.attachment
           }
         })
         break
@@ -165,8 +159,6 @@ export async function POST(request: NextRequest) {
             participation: achievementData.natureOfParticipation,
             dateFrom: achievementData.dateFrom ? new Date(achievementData.dateFrom) : null,
             dateTo: achievementData.dateTo ? new Date(achievementData.dateTo) : null,
-            fileUrl: achievementData.attachment,
-            fileKey: achievementData.attachment
           }
         })
         break
@@ -183,8 +175,6 @@ export async function POST(request: NextRequest) {
             participation: achievementData.natureOfParticipation,
             dateFrom: achievementData.dateFrom ? new Date(achievementData.dateFrom) : null,
             dateTo: achievementData.dateTo ? new Date(achievementData.dateTo) : null,
-            fileUrl: achievementData.attachment,
-            fileKey: achievementData.attachment
           }
         })
         break
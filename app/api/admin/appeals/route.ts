@@ -1,26 +1,43 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { ownerWhere } from "@/lib/policy"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { escalateOverdueAppeals } from "@/lib/appeals"
 
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "read", "appeal")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
+    // المدير يرى الكل؛ غيره (إن وصل) يُقيَّد بنطاق appeal.read في lib/policy.ts
+    const faculty = ownerWhere(auth.actor, "read", "appeal")
+    if (!faculty) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    await escalateOverdueAppeals()
 
 // /api/admin/appeals (المقطع المهم)
 const appeals = await prisma.appeal.findMany({
+  where: { appraisal: { faculty } },
   select: {
     id: true,
     message: true,
     createdAt: true,
     resolvedAt: true,
     resolutionNote: true,
+    reopenedAt: true,
+    outcome: true,
+    level: true,
+    levelSince: true,
     byUserId: true,
+    escalations: { orderBy: { createdAt: "asc" } },
+    resolvedBy: { select: { id: true, name: true } },
 
     appraisal: {
       select: {
@@ -46,6 +63,7 @@ const appeals = await prisma.appeal.findMany({
           select: {
             academicYear: true,
             semester: true,
+            appealResolutionDays: true,
           },
         },
       },
@@ -1,8 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { logAudit } from "@/lib/audit"
+import { validateMidYearDate } from "@/lib/development-plan"
+import { validateAppealDays } from "@/lib/appeals"
+import { notifyCycle } from "@/lib/notifications"
 
 export async function PATCH(
   request: NextRequest,
@@ -11,14 +15,100 @@ export async function PATCH(
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "update", "cycle")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { id } = await params
-    const { isActive } = await request.json()
+    const body = await request.json()
     const cycleId = parseInt(id)
 
+    // تعديل موعد المراجعة النصفية فقط
+    if ("midYearReviewDate" in body) {
+      const cycle = await prisma.appraisalCycle.findUnique({ where: { id: cycleId } })
+      if (!cycle) {
+        return NextResponse.json({ error: "Cycle not found" }, { status: 404 })
+      }
+      const midYear = body.midYearReviewDate ? new Date(body.midYearReviewDate) : null
+      const midYearError = validateMidYearDate(midYear, cycle.startDate, cycle.endDate)
+      if (midYearError) {
+        return NextResponse.json({ error: midYearError }, { status: 400 })
+      }
+
+      const updatedCycle = await prisma.appraisalCycle.update({
+        where: { id: cycleId },
+        data: { midYearReviewDate: midYear },
+        include: {
+          _count: {
+            select: {
+              appraisals: true,
+            },
+          },
+          gradingConfigs: true,
+        },
+      })
+
+      await logAudit({
+        actor: auth.user,
+        action: "CYCLE_UPDATE",
+        target: { type: "cycle", id: cycleId },
+        before: { midYearReviewDate: cycle.midYearReviewDate },
+        after: { midYearReviewDate: updatedCycle.midYearReviewDate },
+        metadata: { academicYear: cycle.academicYear },
+        req: request,
+      })
+
+      return NextResponse.json(updatedCycle)
+    }
+
+    // تعديل مهلتي التظلّم والبت فيه
+    if ("appealWindowDays" in body || "appealResolutionDays" in body) {
+      const cycle = await prisma.appraisalCycle.findUnique({ where: { id: cycleId } })
+      if (!cycle) {
+        return NextResponse.json({ error: "Cycle not found" }, { status: 404 })
+      }
+      const appealWindow = validateAppealDays(body.appealWindowDays, "Appeal window")
+      if (!appealWindow.ok) {
+        return NextResponse.json({ error: appealWindow.error }, { status: 400 })
+      }
+      const appealResolution = validateAppealDays(body.appealResolutionDays, "Appeal resolution deadline")
+      if (!appealResolution.ok) {
+        return NextResponse.json({ error: appealResolution.error }, { status: 400 })
+      }
+
+      const updatedCycle = await prisma.appraisalCycle.update({
+        where: { id: cycleId },
+        data: { appealWindowDays: appealWindow.days, appealResolutionDays: appealResolution.days },
+        include: {
+          _count: {
+            select: {
+              appraisals: true,
+            },
+          },
+          gradingConfigs: true,
+        },
+      })
+
+      await logAudit({
+        actor: auth.user,
+        action: "CYCLE_UPDATE",
+        target: { type: "cycle", id: cycleId },
+        before: { appealWindowDays: cycle.appealWindowDays, appealResolutionDays: cycle.appealResolutionDays },
+        after: { appealWindowDays: updatedCycle.appealWindowDays, appealResolutionDays: updatedCycle.appealResolutionDays },
+        metadata: { academicYear: cycle.academicYear },
+        req: request,
+      })
+
+      return NextResponse.json(updatedCycle)
+    }
+
+    const { isActive } = body
+    const previousActive = await prisma.appraisalCycle.findFirst({
+      where: { isActive: true },
+      select: { id: true, academicYear: true },
+    })
+
     if (isActive) {
       // Set all cycles to inactive, then set this one to active
       await prisma.appraisalCycle.updateMany({
@@ -48,6 +138,20 @@ export async function PATCH(
       },
     })
 
+    await logAudit({
+      actor: auth.user,
+      action: isActive ? "CYCLE_ACTIVATE" : "CYCLE_DEACTIVATE",
+      target: { type: "cycle", id: cycleId },
+      metadata: { academicYear: updatedCycle?.academicYear, previousActive },
+      req: request,
+    })
+
+    // لا إشعار إذا لم تتغير حالة الدورة فعلياً
+    const wasActive = previousActive?.id === cycleId
+    if (updatedCycle && wasActive !== !!isActive) {
+      await notifyCycle(updatedCycle, !!isActive)
+    }
+
     return NextResponse.json(updatedCycle)
   } catch (error) {
     console.error("Error updating appraisal cycle:", error)
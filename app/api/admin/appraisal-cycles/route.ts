@@ -1,15 +1,19 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { logAudit } from "@/lib/audit"
+import { validateMidYearDate } from "@/lib/development-plan"
+import { validateAppealDays } from "@/lib/appeals"
 
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "read", "cycle")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const cycles = await prisma.appraisalCycle.findMany({
@@ -37,21 +41,40 @@ export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "create", "cycle")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
-    const { academicYear, startDate, endDate, isActive } = await request.json()
+    const { academicYear, startDate, endDate, isActive, midYearReviewDate, appealWindowDays, appealResolutionDays } = await request.json()
 
     if (!academicYear || !startDate || !endDate) {
       return NextResponse.json({ error: "Academic year, start date, and end date are required" }, { status: 400 })
     }
 
+    const midYear = midYearReviewDate ? new Date(midYearReviewDate) : null
+    const midYearError = validateMidYearDate(midYear, new Date(startDate), new Date(endDate))
+    if (midYearError) {
+      return NextResponse.json({ error: midYearError }, { status: 400 })
+    }
+
+    const appealWindow = validateAppealDays(appealWindowDays, "Appeal window")
+    if (!appealWindow.ok) {
+      return NextResponse.json({ error: appealWindow.error }, { status: 400 })
+    }
+    const appealResolution = validateAppealDays(appealResolutionDays, "Appeal resolution deadline")
+    if (!appealResolution.ok) {
+      return NextResponse.json({ error: appealResolution.error }, { status: 400 })
+    }
+
     const cycle = await prisma.appraisalCycle.create({
       data: {
         academicYear,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
+        midYearReviewDate: midYear,
+        appealWindowDays: appealWindow.days,
+        appealResolutionDays: appealResolution.days,
         isActive: isActive || false,
       },
       include: {
@@ -64,6 +87,22 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    await logAudit({
+      actor: auth.user,
+      action: "CYCLE_CREATE",
+      target: { type: "cycle", id: cycle.id },
+      after: {
+        academicYear: cycle.academicYear,
+        startDate: cycle.startDate,
+        endDate: cycle.endDate,
+        midYearReviewDate: cycle.midYearReviewDate,
+        appealWindowDays: cycle.appealWindowDays,
+        appealResolutionDays: cycle.appealResolutionDays,
+        isActive: cycle.isActive,
+      },
+      req: request,
+    })
+
     return NextResponse.json(cycle, { status: 201 })
   } catch (error: any) {
     console.error("Error creating appraisal cycle:", error)
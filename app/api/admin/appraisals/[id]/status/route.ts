@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { EvaluationStatus } from "@prisma/client"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { forceAppraisalStatus } from "@/lib/workflow"
+
+const Body = z.object({
+  status: z.nativeEnum(EvaluationStatus),
+  reason: z.string().trim().min(1, "A reason is required").max(2000),
+})
+
+// POST: فرض حالة التقييم (مشروط بـ features.forceStatus)
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    // فرض الحالة نفسه مقصور على المدير داخل forceAppraisalStatus
+    const auth = await authorizeRequest(session, "update", "appraisal")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const { id } = await params
+    const appraisalId = parseInt(id)
+    if (Number.isNaN(appraisalId)) {
+      return NextResponse.json({ error: "Invalid appraisal id" }, { status: 400 })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+
+    const result = await forceAppraisalStatus({ appraisalId, user: auth.user, ...parsed.data })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await logAudit({
+      actor: auth.user,
+      action: "APPRAISAL_FORCE_STATUS",
+      target: { type: "appraisal", id: appraisalId },
+      before: { status: result.from },
+      after: { status: result.to },
+      metadata: { reason: parsed.data.reason },
+      req: request,
+    })
+
+    return NextResponse.json({ id: appraisalId, status: result.to })
+  } catch (error) {
+    console.error("Error forcing appraisal status:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,18 +1,26 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { ownerWhere } from "@/lib/policy"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
 
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "read", "appraisal")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    // المدير يرى الكل؛ غيره (إن وصل) يُقيَّد بنطاق appraisal.read في lib/policy.ts
+    const faculty = ownerWhere(auth.actor, "read", "appraisal")
+    if (!faculty) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
 const appraisals = await prisma.appraisal.findMany({
+  where: { faculty },
   select: {
     id: true,
     status: true,
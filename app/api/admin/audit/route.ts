@@ -0,0 +1,119 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { prisma } from "@/lib/prisma"
+import { Prisma } from "@prisma/client"
+
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+const MAX_EXPORT_ROWS = 10000
+
+function parseDate(d: string | null, endOfDay = false): Date | null {
+  if (!d) return null
+  const dt = new Date(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(d) ? `${d}T23:59:59.999` : d)
+  return isNaN(dt.getTime()) ? null : dt
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  const text = typeof value === "string" ? value : JSON.stringify(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function buildWhere(searchParams: URLSearchParams): Prisma.AuditEventWhereInput {
+  const from = parseDate(searchParams.get("from"))
+  const to = parseDate(searchParams.get("to"), true)
+  const actor = searchParams.get("actor")?.trim()
+  const action = searchParams.get("action")?.trim()
+  const target = searchParams.get("target")?.trim()
+
+  const where: Prisma.AuditEventWhereInput = {}
+  if (from || to) {
+    where.createdAt = { ...(from && { gte: from }), ...(to && { lte: to }) }
+  }
+  if (actor) {
+    where.actorEmail = { contains: actor, mode: "insensitive" }
+  }
+  if (action && action !== "ALL") {
+    where.action = action
+  }
+  if (target) {
+    // "appraisal:12" → نوع + معرف، وإلا بحث جزئي في النوع أو المعرف
+    const [type, id] = target.split(":")
+    where.AND = id
+      ? [{ targetType: type }, { targetId: id }]
+      : [{ OR: [{ targetType: { contains: target, mode: "insensitive" } }, { targetId: target }] }]
+  }
+  return where
+}
+
+// =============== GET ===============
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "read", "audit")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const where = buildWhere(searchParams)
+    const format = searchParams.get("format")
+
+    if (format === "csv" || format === "json") {
+      const events = await prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: MAX_EXPORT_ROWS,
+      })
+      const stamp = new Date().toISOString().slice(0, 10)
+
+      if (format === "json") {
+        return new NextResponse(JSON.stringify(events, null, 2), {
+          headers: {
+            "Content-Type": "application/json; charset=utf-8",
+            "Content-Disposition": `attachment; filename="audit-log-${stamp}.json"`,
+          },
+        })
+      }
+
+      const header = ["id", "timestamp", "actor", "action", "targetType", "targetId", "before", "after", "metadata", "ip"]
+      const rows = events.map((e) =>
+        [e.id, e.createdAt.toISOString(), e.actorEmail, e.action, e.targetType, e.targetId, e.before, e.after, e.metadata, e.ip]
+          .map(csvCell)
+          .join(","),
+      )
+      return new NextResponse([header.join(","), ...rows].join("\r\n"), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="audit-log-${stamp}.csv"`,
+        },
+      })
+    }
+
+    const page = Math.max(1, Number(searchParams.get("page")) || 1)
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get("pageSize")) || DEFAULT_PAGE_SIZE))
+
+    const [total, events] = await Promise.all([
+      prisma.auditEvent.count({ where }),
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+    ])
+
+    return NextResponse.json({
+      events,
+      page,
+      pageSize,
+      total,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    })
+  } catch (error) {
+    console.error("Error fetching audit events:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
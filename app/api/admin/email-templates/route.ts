@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { emailTransportName } from "@/lib/email"
+import {
+  EMAIL_TEMPLATE_KEYS,
+  TEMPLATE_DEFINITIONS,
+  getEmailTemplates,
+  isTemplateKey,
+  saveEmailTemplates,
+  type EmailTemplateContent,
+  type EmailTemplateKey,
+} from "@/lib/email-templates"
+
+const Template = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Body is required").max(10000),
+})
+
+const Body = z.object({
+  templates: z
+    .record(z.string(), Template)
+    .refine((templates) => Object.keys(templates).every(isTemplateKey), "Unknown email template"),
+})
+
+// GET: القوالب الحالية مع المتغيرات المتاحة لكل قالب
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "read", "emailTemplate")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const templates = await getEmailTemplates()
+    return NextResponse.json({
+      transport: emailTransportName(),
+      templates: EMAIL_TEMPLATE_KEYS.map((key) => ({
+        key,
+        label: TEMPLATE_DEFINITIONS[key].label,
+        placeholders: TEMPLATE_DEFINITIONS[key].placeholders,
+        ...templates[key],
+      })),
+    })
+  } catch (error) {
+    console.error("Error fetching email templates:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// PUT: حفظ القوالب المعدّلة
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "emailTemplate")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid templates" }, { status: 400 })
+    }
+
+    const before = await getEmailTemplates()
+    const after = await saveEmailTemplates(
+      parsed.data.templates as Partial<Record<EmailTemplateKey, EmailTemplateContent>>,
+    )
+
+    await logAudit({
+      actor: auth.user,
+      action: "EMAIL_TEMPLATE_UPDATE",
+      target: { type: "email_template", id: Object.keys(parsed.data.templates).join(",") },
+      before,
+      after,
+      req: request,
+    })
+
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("Error saving email templates:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
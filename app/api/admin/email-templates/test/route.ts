@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { z } from "zod"
+import { sendEmail } from "@/lib/email"
+import { TEMPLATE_DEFINITIONS, getEmailTemplates, isTemplateKey, renderTemplate } from "@/lib/email-templates"
+
+const Body = z.object({
+  to: z.string().trim().email().optional(),
+  template: z.string().optional(),
+})
+
+// قيم تجريبية لمعاينة القالب في رسالة الاختبار
+const SAMPLE_VALUES = {
+  faculty_name: "Sample Faculty",
+  evaluator_name: "Sample Evaluator",
+  total_score: "87.50",
+  appraisal_id: 0,
+  appeal_message: "Sample appeal message",
+  results_url: "https://example.com/results",
+  appeals_url: "https://example.com/appeals",
+}
+
+// POST: إرسال رسالة اختبار حقيقية عبر الناقل المُعد (إلى بريد المدير افتراضياً)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "emailTemplate")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+    const to = parsed.data.to ?? auth.user.email
+    const key = parsed.data.template
+
+    let label: string | null = null
+    let subject = "Test email - Faculty Appraisal System"
+    let text = `This is a test message from the Faculty Appraisal System, sent ${new Date().toISOString()}.`
+    if (key) {
+      if (!isTemplateKey(key)) {
+        return NextResponse.json({ error: `Unknown template "${key}"` }, { status: 400 })
+      }
+      const template = (await getEmailTemplates())[key]
+      label = TEMPLATE_DEFINITIONS[key].label
+      subject = `[Test] ${renderTemplate(template.subject, SAMPLE_VALUES)}`
+      text = renderTemplate(template.body, SAMPLE_VALUES)
+    }
+
+    try {
+      const result = await sendEmail({ to, subject, text, template: key ? `test:${key}` : "test" })
+      return NextResponse.json({ ok: true, to, label, ...result })
+    } catch (error) {
+      console.error("Test email failed:", error)
+      return NextResponse.json(
+        { error: `Sending failed: ${error instanceof Error ? error.message : "unknown error"}` },
+        { status: 502 },
+      )
+    }
+  } catch (error) {
+    console.error("Error sending test email:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
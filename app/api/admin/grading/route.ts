@@ -1,34 +1,66 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { BAND_ORDER, getEffectiveGrading } from "@/lib/grading"
+
+const Weight = z.coerce.number().int().min(0).max(100)
+
+const Body = z.object({
+  scope: z.enum(["GLOBAL", "CYCLE"]).default("GLOBAL"),
+  cycleId: z.coerce.number().int().positive().nullable().optional(),
+  researchWeight: Weight,
+  universityServiceWeight: Weight,
+  communityServiceWeight: Weight,
+  teachingQualityWeight: Weight,
+  servicePointsPerItem: z.coerce.number().int().min(0),
+  serviceMaxPoints: z.coerce.number().int().min(0),
+  teachingBands: z.array(z.object({
+    min: z.coerce.number().min(0).max(100),
+    band: z.enum(BAND_ORDER as [string, ...string[]]),
+    points: z.coerce.number().min(0).optional(),
+  })).default([]),
+  researchMap: z.record(z.coerce.number().min(0)).default({}),
+  verifiedOnly: z.boolean().default(false),
+}).refine(b => b.scope === "GLOBAL" || !!b.cycleId, { message: "cycleId is required for a cycle override", path: ["cycleId"] })
 
 export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "read", "grading")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { searchParams } = new URL(request.url)
     const cycleId = searchParams.get("cycleId")
 
     const config = await prisma.gradingConfig.findFirst({
-      where: cycleId ? { cycleId: parseInt(cycleId) } : { scope: "GLOBAL" },
-      orderBy: { createdAt: "desc" },
+      where: cycleId ? { scope: "CYCLE", cycleId: parseInt(cycleId) } : { scope: "GLOBAL" },
+      orderBy: { updatedAt: "desc" },
     })
+    if (config) return NextResponse.json({ ...config, inherited: false })
 
-    return NextResponse.json(config || {
-      researchWeight: 30,
-      universityServiceWeight: 20,
-      communityServiceWeight: 20,
-      teachingQualityWeight: 30,
-      servicePointsPerItem: 4,
-      serviceMaxPoints: 20,
-      teachingBands: [],
-      researchMap: {},
+    // لا يوجد إعداد لهذا النطاق: نعرض ما يُطبَّق حالياً كنقطة بداية
+    const effective = await getEffectiveGrading(cycleId ? parseInt(cycleId) : null)
+    return NextResponse.json({
+      id: null,
+      scope: cycleId ? "CYCLE" : "GLOBAL",
+      cycleId: cycleId ? parseInt(cycleId) : null,
+      researchWeight: effective.weights.research,
+      universityServiceWeight: effective.weights.universityService,
+      communityServiceWeight: effective.weights.communityService,
+      teachingQualityWeight: effective.weights.teaching,
+      servicePointsPerItem: effective.serviceParams.pointsPerItem,
+      serviceMaxPoints: effective.serviceParams.maxPoints,
+      teachingBands: effective.teachingBands,
+      researchMap: effective.researchMap,
+      verifiedOnly: effective.verifiedOnly,
+      inherited: true,
     })
   } catch (error) {
     console.error("Error fetching grading config:", error)
@@ -40,41 +72,41 @@ export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "update", "grading")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
-    const {
-      scope,
-      cycleId,
-      researchWeight,
-      universityServiceWeight,
-      communityServiceWeight,
-      teachingQualityWeight,
-      servicePointsPerItem,
-      serviceMaxPoints,
-      teachingBands,
-      researchMap,
-    } = await request.json()
+    const parsed = Body.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid grading config" }, { status: 400 })
+    }
+    const { scope, cycleId, ...values } = parsed.data
+    const targetCycleId = scope === "CYCLE" ? cycleId! : null
 
-    const config = await prisma.gradingConfig.create({
-      data: {
-        scope: scope || "GLOBAL",
-        cycleId: cycleId ? parseInt(cycleId) : null,
-        researchWeight: researchWeight || 30,
-        universityServiceWeight: universityServiceWeight || 20,
-        communityServiceWeight: communityServiceWeight || 20,
-        teachingQualityWeight: teachingQualityWeight || 30,
-        servicePointsPerItem: servicePointsPerItem || 4,
-        serviceMaxPoints: serviceMaxPoints || 20,
-        teachingBands: teachingBands || [],
-        researchMap: researchMap || {},
-      },
+    // سجل واحد لكل نطاق: نحدّث الموجود بدل تكديس النسخ
+    const existing = await prisma.gradingConfig.findFirst({
+      where: { scope, cycleId: targetCycleId },
+      orderBy: { updatedAt: "desc" },
     })
 
-    return NextResponse.json(config, { status: 201 })
+    const config = existing
+      ? await prisma.gradingConfig.update({ where: { id: existing.id }, data: values })
+      : await prisma.gradingConfig.create({ data: { scope, cycleId: targetCycleId, ...values } })
+
+    await logAudit({
+      actor: auth.user,
+      action: "GRADING_UPDATE",
+      target: { type: "grading", id: config.id },
+      before: existing ?? {},
+      after: config,
+      metadata: { scope, cycleId: targetCycleId },
+      req: request,
+    })
+
+    return NextResponse.json(config, { status: existing ? 200 : 201 })
   } catch (error) {
-    console.error("Error creating grading config:", error)
+    console.error("Error saving grading config:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { z } from "zod"
+import { endImpersonation, startImpersonation } from "@/lib/impersonation"
+
+const Body = z.object({
+  userId: z.coerce.number().int().positive(),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+})
+
+// POST: بدء العرض كمستخدم؛ العميل يمرر المعرّف الناتج إلى update() لتحديث الرمز
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "create", "impersonation")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    if (session?.impersonator) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 })
+    }
+
+    const result = await startImpersonation({
+      admin: auth.user,
+      targetId: parsed.data.userId,
+      reason: parsed.data.reason,
+      req: request,
+    })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ impersonationId: result.session.id }, { status: 201 })
+  } catch (error) {
+    console.error("Error starting impersonation:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE: الخروج والعودة لهوية المدير (مسموح رغم منع الكتابة في middleware.ts)
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.impersonator) {
+      return NextResponse.json({ error: "Not viewing as another user" }, { status: 409 })
+    }
+
+    await endImpersonation(session.impersonator.impersonationId, "exit", session.impersonator, request)
+    return NextResponse.json({ ok: true })
+  } catch (error) {
+    console.error("Error ending impersonation:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
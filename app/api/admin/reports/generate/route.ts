@@ -1,12 +1,10 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { ownerWhere } from "@/lib/policy"
 import { prisma } from "@/lib/prisma"
-import { UserRole, EvaluationStatus } from "@prisma/client"
-
-function unauthorized() {
-  return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-}
+import { EvaluationStatus } from "@prisma/client"
 
 function generateCSV(data: any[], headers: string[]): string {
   const csvHeaders = headers.join(',')
@@ -26,8 +24,14 @@ function generateCSV(data: any[], headers: string[]): string {
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || (session.user as any)?.role !== UserRole.ADMIN) {
-      return unauthorized()
+    const auth = await authorizeRequest(session, "read", "report")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+    // المدير يرى الكل؛ غيره (إن وصل) يُقيَّد بنطاق report.read في lib/policy.ts
+    const faculty = ownerWhere(auth.actor, "read", "report")
+    if (!faculty) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
     const { searchParams } = new URL(request.url)
@@ -45,6 +49,7 @@ export async function GET(request: NextRequest) {
       where: { id: parseInt(cycleId) },
       include: {
         appraisals: {
+          where: { faculty },
           include: {
             faculty: {
               include: {
@@ -92,7 +97,8 @@ export async function GET(request: NextRequest) {
             totalAppraisals: 0,
             completedAppraisals: 0,
             newAppraisals: 0,
-            sentAppraisals: 0,
+            inReviewAppraisals: 0,
+            releasedAppraisals: 0,
             returnedAppraisals: 0,
             averageScore: 0,
             topHOD: null,
@@ -111,8 +117,13 @@ export async function GET(request: NextRequest) {
           case 'new':
             group.newAppraisals++
             break
-          case 'sent':
-            group.sentAppraisals++
+          case 'submitted':
+          case 'hod_reviewed':
+          case 'dean_reviewed':
+            group.inReviewAppraisals++
+            break
+          case 'released':
+            group.releasedAppraisals++
             break
           case 'returned':
             group.returnedAppraisals++
@@ -146,7 +157,7 @@ export async function GET(request: NextRequest) {
       })
 
       reportData = Array.from(collegeGroups.values())
-      headers = ['collegeName', 'totalAppraisals', 'completedAppraisals', 'newAppraisals', 'sentAppraisals', 'returnedAppraisals', 'averageScore', 'topHOD', 'bottomHOD']
+      headers = ['collegeName', 'totalAppraisals', 'completedAppraisals', 'newAppraisals', 'inReviewAppraisals', 'releasedAppraisals', 'returnedAppraisals', 'averageScore', 'topHOD', 'bottomHOD']
 
     } else if (type === 'by-department') {
       // Group by department
@@ -161,7 +172,8 @@ export async function GET(request: NextRequest) {
             totalAppraisals: 0,
             completedAppraisals: 0,
             newAppraisals: 0,
-            sentAppraisals: 0,
+            inReviewAppraisals: 0,
+            releasedAppraisals: 0,
             returnedAppraisals: 0,
             averageScore: 0,
             topInstructor: null,
@@ -180,8 +192,13 @@ export async function GET(request: NextRequest) {
           case 'new':
             group.newAppraisals++
             break
-          case 'sent':
-            group.sentAppraisals++
+          case 'submitted':
+          case 'hod_reviewed':
+          case 'dean_reviewed':
+            group.inReviewAppraisals++
+            break
+          case 'released':
+            group.releasedAppraisals++
             break
           case 'returned':
             group.returnedAppraisals++
@@ -215,7 +232,7 @@ export async function GET(request: NextRequest) {
       })
 
       reportData = Array.from(deptGroups.values())
-      headers = ['departmentName', 'collegeName', 'totalAppraisals', 'completedAppraisals', 'newAppraisals', 'sentAppraisals', 'returnedAppraisals', 'averageScore', 'topInstructor', 'bottomInstructor']
+      headers = ['departmentName', 'collegeName', 'totalAppraisals', 'completedAppraisals', 'newAppraisals', 'inReviewAppraisals', 'releasedAppraisals', 'returnedAppraisals', 'averageScore', 'topInstructor', 'bottomInstructor']
 
     } else if (type === 'users-roles') {
       // Users and roles report
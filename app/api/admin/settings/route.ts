@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { z } from "zod"
+import { logAudit } from "@/lib/audit"
+import { getAllSettings, saveSettings } from "@/lib/settings"
+import { isSettingsSection } from "@/lib/settings-schema"
+import { ssoConfig } from "@/lib/sso"
+
+// القيمة نفسها تُتحقق منها حسب القسم في saveSettings
+const Body = z.object({
+  section: z.string().refine(isSettingsSection, "Unknown settings section"),
+  value: z.unknown(),
+})
+
+// GET: كل الأقسام (المحفوظة أو الافتراضية) وحالة ضبط SSO في البيئة
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "read", "settings")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const sso = ssoConfig()
+    return NextResponse.json({
+      settings: await getAllSettings(),
+      sso: { configured: Boolean(sso), name: sso?.name ?? null },
+    })
+  } catch (error) {
+    console.error("Error fetching settings:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// PATCH: حفظ قسم واحد { section, value }
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "settings")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const parsed = Body.safeParse(await request.json().catch(() => null))
+    if (!parsed.success || !isSettingsSection(parsed.data.section)) {
+      return NextResponse.json({ error: parsed.error?.issues[0]?.message ?? "Invalid settings" }, { status: 400 })
+    }
+    const { section, value } = parsed.data
+
+    // لا يُسمح بوضع يعتمد على SSO قبل ضبط المزوّد، وإلا تعذّر الدخول على الجميع عدا المدير
+    if (section === "security" && !ssoConfig() && (value as { loginMethod?: string } | null)?.loginMethod !== "credentials") {
+      return NextResponse.json(
+        { error: "Single sign-on is not configured (set SSO_ISSUER, SSO_CLIENT_ID and SSO_CLIENT_SECRET)" },
+        { status: 400 },
+      )
+    }
+
+    const result = await saveSettings(section, value, Number(auth.user.id))
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await logAudit({
+      actor: auth.user,
+      action: "SETTINGS_UPDATE",
+      target: { type: "settings", id: section },
+      before: result.before,
+      after: result.after,
+      req: request,
+    })
+
+    return NextResponse.json({ section, value: result.after })
+  } catch (error) {
+    console.error("Error saving settings:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
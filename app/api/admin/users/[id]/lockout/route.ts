@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { logAudit } from "@/lib/audit"
+import { unlockUser } from "@/lib/login-security"
+
+// DELETE: فك القفل المؤقت قبل انتهائه (بعد التحقق من هوية المستخدم خارج النظام)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const userId = Number(params.id)
+    const unlocked = await unlockUser(userId)
+    if (!unlocked) {
+      return NextResponse.json({ error: "This account is not locked" }, { status: 409 })
+    }
+
+    await logAudit({
+      actor: auth.user,
+      action: "USER_UNLOCK",
+      target: { type: "user", id: userId },
+      req: request,
+    })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error unlocking user:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
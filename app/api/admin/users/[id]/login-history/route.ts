@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { prisma } from "@/lib/prisma"
+import { getLoginHistory } from "@/lib/login-security"
+
+// GET: سجل دخول المستخدم مع حالة القفل
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "read", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const userId = Number(params.id)
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, failedLoginCount: true, lockedUntil: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const events = await getLoginHistory(userId)
+    return NextResponse.json({
+      events,
+      failedLoginCount: user.failedLoginCount,
+      lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : null,
+    })
+  } catch (error) {
+    console.error("Error fetching login history:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
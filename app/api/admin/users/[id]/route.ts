@@ -1,16 +1,20 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
-import { UserRole, UserStatus } from "@prisma/client"
+import { UserStatus } from "@prisma/client"
 import bcrypt from "bcryptjs"
+import { logAudit } from "@/lib/audit"
+import { checkPasswordPolicy } from "@/lib/settings"
 
 
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "update", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const id = Number(params.id)
@@ -41,11 +45,22 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: "Email must end with @uob.edu" }, { status: 400 })
     }
 
+    const existing = await prisma.user.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
     let passwordHash: string | undefined
     if (password) {
+      const passwordError = await checkPasswordPolicy(String(password))
+      if (passwordError) {
+        return NextResponse.json({ error: passwordError }, { status: 400 })
+      }
       passwordHash = await bcrypt.hash(password, 12)
     }
 
+    const disabled = existing.status !== UserStatus.INACTIVE && (status || UserStatus.ACTIVE) === UserStatus.INACTIVE
+
     const user = await prisma.user.update({
       where: { id },
       data: {
@@ -54,6 +69,8 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
         role,
         status: status || UserStatus.ACTIVE,
         ...(passwordHash && { passwordHash }),
+        // التعطيل أو تغيير كلمة المرور يلغي الجلسات القائمة (lib/login-security.ts)
+        ...((disabled || passwordHash) && { sessionVersion: { increment: 1 } }),
         collegeId: collegeId ? Number(collegeId) : null,
         departmentId: departmentId ? Number(departmentId) : null,
         idNumber,
@@ -71,6 +88,16 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       },
     })
 
+    await logAudit({
+      actor: auth.user,
+      action: disabled ? "USER_DISABLE" : "USER_UPDATE",
+      target: { type: "user", id: user.id },
+      before: existing,
+      after: user,
+      metadata: passwordHash ? { passwordChanged: true } : undefined,
+      req: request,
+    })
+
     return NextResponse.json(user)
   } catch (error) {
     console.error("Error updating user:", error)
@@ -82,12 +109,14 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || session.user.role !== UserRole.ADMIN) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(session, "delete", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { id } = await params
     const userId = Number(id)
+    const existing = await prisma.user.findUnique({ where: { id: userId } })
 
     // First, delete all related appraisals to avoid foreign key constraint
     await prisma.appraisal.deleteMany({
@@ -97,6 +126,14 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
     // Then delete the user
     await prisma.user.delete({ where: { id: userId } })
 
+    await logAudit({
+      actor: auth.user,
+      action: "USER_DELETE",
+      target: { type: "user", id: userId },
+      before: existing,
+      req: request,
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Error deleting user:", error)
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { prisma } from "@/lib/prisma"
+import { logAudit } from "@/lib/audit"
+import { revokeSessions } from "@/lib/login-security"
+
+// DELETE: إلغاء كل الجلسات النشطة للمستخدم؛ يُطلب منه الدخول من جديد في طلبه التالي
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const userId = Number(params.id)
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    await revokeSessions(userId)
+
+    await logAudit({
+      actor: auth.user,
+      action: "SESSIONS_REVOKE",
+      target: { type: "user", id: userId },
+      req: request,
+    })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error revoking sessions:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
+import { prisma } from "@/lib/prisma"
+import { logAudit } from "@/lib/audit"
+import { resetTwoFactor } from "@/lib/two-factor"
+
+// DELETE: إعادة ضبط التحقق بخطوتين لمستخدم فقد جهازه؛ يسجّل من جديد عند الدخول التالي
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions)
+    const auth = await authorizeRequest(session, "update", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
+    }
+
+    const userId = Number(params.id)
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } })
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const reset = await resetTwoFactor(userId)
+    if (!reset) {
+      return NextResponse.json({ error: "Two-factor authentication is not set up for this user" }, { status: 409 })
+    }
+
+    await logAudit({
+      actor: auth.user,
+      action: "TWO_FACTOR_RESET",
+      target: { type: "user", id: userId },
+      req: request,
+    })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error resetting two-factor authentication:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
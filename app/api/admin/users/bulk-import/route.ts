@@ -1,18 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
 import { UserRole, UserStatus } from "@prisma/client"
 import bcrypt from "bcryptjs"
+import { generateTemporaryPassword } from "@/lib/settings-schema"
 
 function badRequest(msg: string) {
   return NextResponse.json({ error: msg }, { status: 400 })
 }
 
-function unauthorized() {
-  return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-}
-
 function parseDate(d?: string): Date | null {
   if (!d) return null
   const dt = new Date(d)
@@ -30,8 +28,9 @@ const EMAIL_RE = /^[A-Za-z0-9._%+-]+@uob\.edu$/i
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || (session.user as any)?.role !== UserRole.ADMIN) {
-      return unauthorized()
+    const auth = await authorizeRequest(session, "create", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { users } = await request.json()
@@ -118,7 +117,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Generate temporary password
-        const tempPassword = Math.random().toString(36).slice(-12)
+        const tempPassword = generateTemporaryPassword()
         const passwordHash = await bcrypt.hash(tempPassword, 12)
 
         // Create user
@@ -1,17 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
+import { authorizeRequest } from "@/lib/permissions"
 import { prisma } from "@/lib/prisma"
 import { UserRole, UserStatus } from "@prisma/client"
 import bcrypt from "bcryptjs"
+import { logAudit } from "@/lib/audit"
+import { checkPasswordPolicy } from "@/lib/settings"
 
 // -------- Helpers --------
 function badRequest(msg: string) {
   return NextResponse.json({ error: msg }, { status: 400 })
 }
-function unauthorized() {
-  return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-}
 function parseDate(d?: unknown): Date | null {
   if (!d) return null
   const v = typeof d === "string" ? d : String(d)
@@ -30,14 +30,16 @@ const EMAIL_RE = /^[A-Za-z0-9._%+-]+@uob\.edu$/i
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || (session.user as any)?.role !== UserRole.ADMIN) {
-      return unauthorized()
+    const auth = await authorizeRequest(session, "read", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const users = await prisma.user.findMany({
       include: {
         department: { include: { college: true } },
         college: true, 
+        twoFactor: { select: { enabledAt: true } },
       },
       orderBy: { name: "asc" },
     })
@@ -53,8 +55,9 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
-    if (!session || (session.user as any)?.role !== UserRole.ADMIN) {
-      return unauthorized()
+    const auth = await authorizeRequest(session, "create", "user")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const payload = await request.json()
@@ -89,6 +92,12 @@ export async function POST(request: NextRequest) {
       return badRequest("Email must be a valid @uob.edu address")
     }
 
+    // --- Password policy (Settings → Security) ---
+    const passwordError = await checkPasswordPolicy(String(password))
+    if (passwordError) {
+      return badRequest(passwordError)
+    }
+
     // --- Role validation ---
     const roleVal: UserRole | null =
       Object.values(UserRole).includes(role) ? role : null
@@ -152,6 +161,14 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    await logAudit({
+      actor: auth.user,
+      action: "USER_CREATE",
+      target: { type: "user", id: user.id },
+      after: user,
+      req: request,
+    })
+
     return NextResponse.json(user, { status: 201 })
   } catch (error: any) {
     console.error("Error creating user:", error)
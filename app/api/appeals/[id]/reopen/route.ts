@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { logAudit } from "@/lib/audit"
+import { reopenForAppeal } from "@/lib/appeals"
+
+// POST: إعادة فتح التقييم للتعديل أثناء النظر في التظلّم
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const appealId = parseInt(id)
+    if (Number.isNaN(appealId)) {
+      return NextResponse.json({ error: "Invalid appeal id" }, { status: 400 })
+    }
+
+    const result = await reopenForAppeal(appealId, session.user)
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    await logAudit({
+      actor: session.user,
+      action: "APPEAL_REOPEN",
+      target: { type: "appeal", id: appealId },
+      after: { reopenedAt: result.appeal.reopenedAt },
+      metadata: { appraisalId: result.appeal.appraisalId, revokedSignatureIds: result.revokedSignatureIds },
+      req: request,
+    })
+
+    return NextResponse.json(result.appeal)
+  } catch (error) {
+    console.error("Error reopening appeal:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -2,8 +2,12 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { UserRole, EvaluationStatus } from "@prisma/client"
+import { AppealOutcome, Prisma } from "@prisma/client"
+import { z } from "zod"
 import { getUserContext } from "@/lib/permissions"
+import { can } from "@/lib/policy"
+import { logAudit } from "@/lib/audit"
+import { appealInclude, appealScope, canResolveAt, escalateOverdueAppeals, fileAppeal, resolveAppeal } from "@/lib/appeals"
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,9 +21,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 401 })
     }
 
-    // Only instructors can submit appeals
-    if (user.role !== UserRole.INSTRUCTOR) {
-      return NextResponse.json({ error: "Only instructors can submit appeals" }, { status: 403 })
+    // Faculty members appeal their own appraisals only
+    if (!can(user, "create", "appeal", user)) {
+      return NextResponse.json({ error: "You cannot submit appeals" }, { status: 403 })
     }
 
     const { appraisalId, message } = await request.json()
@@ -28,12 +32,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Appraisal ID and message are required" }, { status: 400 })
     }
 
-    // Check if appraisal belongs to user and is in SCORES_SENT status
+    // Check if appraisal belongs to user
     const appraisal = await prisma.appraisal.findFirst({
       where: {
         id: parseInt(appraisalId),
-        facultyId: parseInt(user.id),
-        status: EvaluationStatus.sent
+        facultyId: user.id,
       }
     })
 
@@ -41,99 +44,94 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Appraisal not found or not eligible for appeal" }, { status: 404 })
     }
 
-    // Create appeal
-    const appeal = await prisma.appeal.create({
-      data: {
-        appraisalId: parseInt(appraisalId),
-        byUserId: parseInt(user.id),
-        message,
-      }
-    })
-
-    // Update appraisal status to returned
-    await prisma.appraisal.update({
-      where: { id: parseInt(appraisalId) },
-      data: { status: EvaluationStatus.returned }
-    })
+    // Create appeal and move the appraisal to returned (only from "released", within the cycle's appeal window)
+    const result = await fileAppeal({ appraisalId: appraisal.id, user, message, req: request })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
 
-    return NextResponse.json(appeal, { status: 201 })
+    return NextResponse.json(result.appeal, { status: 201 })
   } catch (error) {
     console.error("Error creating appeal:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
 }
 
-export async function PATCH(request: NextRequest) {
+// GET: التظلّمات ضمن نطاق المقيّم (?status=open|resolved|all، الافتراضي open)
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
     if (!session) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const user = await getUserContext(session)
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 401 })
+    const scope = await appealScope(session.user)
+    if (!scope) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
-    const { appealId, resolutionNote } = await request.json()
+    // التصعيد يُطبّق قبل العرض حتى لا تظهر تظلّمات تجاوزت مهلتها عند المستوى القديم
+    await escalateOverdueAppeals()
 
-    if (!appealId) {
-      return NextResponse.json({ error: "Appeal ID is required" }, { status: 400 })
+    const status = request.nextUrl.searchParams.get("status") ?? "open"
+    const where: Prisma.AppealWhereInput = {
+      ...scope,
+      ...(status === "open" ? { resolvedAt: null } : status === "resolved" ? { resolvedAt: { not: null } } : {}),
     }
 
-    // Get the appeal and check permissions
-    const appeal = await prisma.appeal.findUnique({
-      where: { id: parseInt(appealId) },
-      include: {
-        appraisal: {
-          include: {
-            faculty: {
-              include: {
-                department: {
-                  include: {
-                    college: true
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+    const appeals = await prisma.appeal.findMany({
+      where,
+      include: appealInclude,
+      orderBy: { createdAt: "desc" },
     })
 
-    if (!appeal) {
-      return NextResponse.json({ error: "Appeal not found" }, { status: 404 })
-    }
-
-    // Check if user can resolve this appeal
-    const canResolve = (
-      user.role === UserRole.ADMIN ||
-      (user.role === UserRole.DEAN && appeal.appraisal.faculty.role === UserRole.HOD && appeal.appraisal.faculty.department?.collegeId?.toString() === user.collegeId) ||
-      (user.role === UserRole.HOD && appeal.appraisal.faculty.role === UserRole.INSTRUCTOR && appeal.appraisal.faculty.departmentId?.toString() === user.departmentId)
+    return NextResponse.json(
+      appeals.map((appeal) => ({ ...appeal, canResolve: !appeal.resolvedAt && canResolveAt(session.user, appeal.level) })),
     )
+  } catch (error) {
+    console.error("Error fetching appeals:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+const ResolveBody = z.object({
+  appealId: z.coerce.number().int().positive(),
+  outcome: z.nativeEnum(AppealOutcome),
+  resolutionNote: z.string().trim().min(1, "A resolution note is required").max(4000),
+})
+
+// PATCH: البت في التظلّم (صاحب المرحلة أو المدير) وإعادة التقييم إلى released
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
 
-    if (!canResolve) {
-      return NextResponse.json({ error: "You don't have permission to resolve this appeal" }, { status: 403 })
+    const parsed = ResolveBody.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid body" }, { status: 400 })
     }
+    const { appealId, outcome, resolutionNote } = parsed.data
 
-    // Resolve the appeal
-    const updatedAppeal = await prisma.appeal.update({
-      where: { id: parseInt(appealId) },
-      data: {
-        resolvedAt: new Date(),
-        resolutionNote: resolutionNote || null,
-      }
-    })
+    const result = await resolveAppeal({ appealId, user: session.user, outcome, note: resolutionNote })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
 
-    // Update appraisal status back to sent for re-evaluation
-    await prisma.appraisal.update({
-      where: { id: appeal.appraisalId },
-      data: { status: EvaluationStatus.sent }
+    await logAudit({
+      actor: session.user,
+      action: "APPEAL_RESOLVE",
+      target: { type: "appeal", id: appealId },
+      before: { status: result.from },
+      after: { status: result.to, outcome, resolutionNote },
+      metadata: { appraisalId: result.appeal.appraisalId },
+      req: request,
     })
 
-    return NextResponse.json(updatedAppeal)
+    return NextResponse.json(result.appeal)
   } catch (error) {
     console.error("Error resolving appeal:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
\ No newline at end of file
+}
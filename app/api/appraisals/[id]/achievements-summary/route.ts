@@ -2,17 +2,20 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { authorizeAppraisal } from '@/lib/permissions'
+import { withAttachmentLinks, WITH_ATTACHMENTS } from '@/lib/evidence'
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-
     const { id } = await params
     const appraisalId = parseInt(id)
+    if (Number.isNaN(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+
+    const access = await authorizeAppraisal(await getServerSession(authOptions), appraisalId, 'read')
+    if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
     const appraisal = await prisma.appraisal.findUnique({
       where: { id: appraisalId },
@@ -52,21 +55,21 @@ export async function GET(
       university,
       community,
     ] = await Promise.all([
-      prisma.award.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
+      prisma.award.findMany({ where: { appraisalId }, orderBy: { id: "desc" }, ...WITH_ATTACHMENTS }),
       prisma.courseTaught.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
-      prisma.researchActivity.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
-      prisma.scientificActivity.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
-      prisma.universityService.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
-      prisma.communityService.findMany({ where: { appraisalId }, orderBy: { id: "desc" } }),
+      prisma.researchActivity.findMany({ where: { appraisalId }, orderBy: { id: "desc" }, ...WITH_ATTACHMENTS }),
+      prisma.scientificActivity.findMany({ where: { appraisalId }, orderBy: { id: "desc" }, ...WITH_ATTACHMENTS }),
+      prisma.universityService.findMany({ where: { appraisalId }, orderBy: { id: "desc" }, ...WITH_ATTACHMENTS }),
+      prisma.communityService.findMany({ where: { appraisalId }, orderBy: { id: "desc" }, ...WITH_ATTACHMENTS }),
     ])
 
     return NextResponse.json({
-      awards,
+      awards: awards.map(withAttachmentLinks),
       courses,
-      research,
-      scientific,
-      university,
-      community,
+      research: research.map(withAttachmentLinks),
+      scientific: scientific.map(withAttachmentLinks),
+      university: university.map(withAttachmentLinks),
+      community: community.map(withAttachmentLinks),
     })
   } catch (error) {
     console.error('Error fetching achievements summary:', error)
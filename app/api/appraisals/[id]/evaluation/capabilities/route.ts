@@ -192,8 +192,12 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
-import { requireHOD, requireDean } from '@/lib/auth-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { evaluationLockReason } from '@/lib/signatures'
 import { recalcTotal } from '@/lib/recalc-total'
+import { logAudit } from '@/lib/audit'
 
 // UI enum
 const BandEnum = z.enum(['HIGH','EXCEEDS','MEETS','PARTIAL','NEEDS'])
@@ -260,13 +264,13 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     console.log('=== CAPABILITIES API CALL ===')
     console.log('Appraisal ID:', appraisalId)
 
-    // صلاحيات: HOD أولاً ثم Dean
-    let role: 'HOD' | 'DEAN' = 'HOD'
-    let user = await requireHOD().catch(() => null)
-    if (!user) { 
-      user = await requireDean(); 
-      role = 'DEAN' 
-    }
+    // صلاحيات: قاعدة appraisal.evaluate، والدور من المقيّم
+    const session = await getServerSession(authOptions)
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await assertEvaluatorAccess(appraisalId, session.user)
+    if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+    const user = session.user
+    const role = access.evaluatorRole
 
     console.log('User role:', role)
 
@@ -279,6 +283,8 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     if (!app) {
       return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
     }
+    const locked = await evaluationLockReason(appraisalId)
+    if (locked) return NextResponse.json({ error: locked }, { status: 409 })
 
     const body = await req.json()
     console.log('Request body:', body)
@@ -353,6 +359,16 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     // إعادة حساب المجموع الكلي
     await recalcTotal(appraisalId, role)
 
+    await logAudit({
+      actor: user,
+      action: 'EVALUATION_UPDATE',
+      target: { type: 'appraisal', id: appraisalId },
+      before: currentEval ?? {},
+      after: ev,
+      metadata: { role, criterion: 'capabilities' },
+      req,
+    })
+
     return NextResponse.json({
       ok: true,
       total,
@@ -388,12 +404,11 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
     console.log('Appraisal ID:', appraisalId)
 
     // Get user role for evaluation lookup
-    let role: 'HOD' | 'DEAN' = 'HOD'
-    let user = await requireHOD().catch(() => null)
-    if (!user) { 
-      user = await requireDean(); 
-      role = 'DEAN' 
-    }
+    const session = await getServerSession(authOptions)
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await assertEvaluatorAccess(appraisalId, session.user)
+    if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+    const role = access.evaluatorRole
 
     console.log('Loading capabilities for role:', role)
 
@@ -154,10 +154,58 @@ import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { revalidatePath } from 'next/cache'
 import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { logAudit } from '@/lib/audit'
+import { toNumbered, toRatingBand } from '@/lib/rating'
+import { recalcTotal } from '@/lib/recalc-total'
+import { saveComputedScores, scoreDiff } from '@/lib/score-history'
+import { evaluationLockReason } from '@/lib/signatures'
+import { bandPoints, computePerformanceScores, getEffectiveGrading, scoredItems } from '@/lib/grading'
+import { buildResearchSuggestionExplanation, suggestResearchBand } from '@/lib/research-band'
+import type { EvaluationRole } from '@prisma/client'
+
+// كل بنود Section 1 من إعداد الدرجات الفعّال للدورة
+async function computeScores(appraisalId: number, role: EvaluationRole) {
+  const appraisal = await prisma.appraisal.findUnique({
+    where: { id: appraisalId },
+    include: { courses: true, researchActivities: true, scientificActivities: true, universityServices: true, communityServices: true },
+  })
+  if (!appraisal) return null
+
+  const grading = await getEffectiveGrading(appraisal.cycleId)
+  const { universityService: university, communityService: community, teaching } =
+    computePerformanceScores(grading, appraisal)
+
+  const scores = {
+    universityServiceBand: toRatingBand(university.band),
+    universityServicePts: university.points,
+    communityServiceBand: toRatingBand(community.band),
+    communityServicePts: community.points,
+    teachingQualityBand: toRatingBand(teaching.band),
+    teachingQualityPts: teaching.points,
+  }
+
+  // مستوى البحث قرار المقيّم (criterion مع المبرر)؛ إن حُفظ لا نعيد حسابه، وإلا نطبّق الاقتراح الآلي بنقاط مستواه
+  const current = await prisma.evaluation.findUnique({
+    where: { appraisalId_role: { appraisalId, role } },
+    select: { researchBand: true, researchComputedPts: true, researchPts: true, rubric: true },
+  })
+  if (current?.researchBand) {
+    const researchPts = current.researchComputedPts ?? current.researchPts ?? 0
+    return { grading, scores: { ...scores, researchPts }, research: null }
+  }
+
+  const suggestion = suggestResearchBand(
+    scoredItems(grading, appraisal.researchActivities),
+    scoredItems(grading, appraisal.scientificActivities),
+  )
+  const researchPts = bandPoints(grading, 'research', suggestion.band)
+  return { grading, scores: { ...scores, researchPts }, research: { suggestion, rubric: current?.rubric } }
+}
 
-export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+/** معاينة بدون حفظ (صفحة Score Calculator) */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await getServerSession(authOptions)
-  const user = session?.user as any
+  const user = session?.user
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
 
   const { id } = await params
@@ -165,34 +213,84 @@ export async function POST(_req: NextRequest, { params }: { params: Promise<{ id
   if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
 
   const access = await assertEvaluatorAccess(appraisalId, user)
-  if (!access.ok) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
 
-  // مثال مبسّط لتجميع درجات من جداول أخرى (لا يغيّر Performance)
-  const appraisal = await prisma.appraisal.findUnique({
-    where: { id: appraisalId },
-    include: { courses: true, communityServices: true },
-  })
+  const computed = await computeScores(appraisalId, access.evaluatorRole)
+  if (!computed) return NextResponse.json({ error: 'Not found' }, { status: 404 })
 
-  // Teaching (متوسط studentsEvalAvg، سقوف يمكن إضافتها لاحقًا)
-  const teachingQuality = appraisal?.courses.length
-    ? appraisal!.courses.reduce((a,c)=>a+(c.studentsEvalAvg ?? 0), 0) / appraisal!.courses.length
-    : 0
+  const { grading, scores } = computed
+  const total = scores.researchPts + scores.universityServicePts + scores.communityServicePts + scores.teachingQualityPts
+  return NextResponse.json({ gradingConfigId: grading.id, ...scores, total })
+}
 
-  // Community Service (مثال: عدد × 2)
-  const communityPts = (appraisal?.communityServices.length ?? 0) * 2
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const user = session?.user
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
 
-  await prisma.evaluation.upsert({
-    where: { appraisalId_role: { appraisalId, role: access.evaluatorRole } },
-    update: { teachingQualityPts: teachingQuality, communityServicePts: communityPts },
-    create: { appraisalId, role: access.evaluatorRole, teachingQualityPts: teachingQuality, communityServicePts: communityPts },
-  })
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
 
-  if (access.appraisal.status === 'NEW') {
-    await prisma.appraisal.update({ where: { id: appraisalId }, data: { status: 'IN_REVIEW' } })
-  }
+  const access = await assertEvaluatorAccess(appraisalId, user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const locked = await evaluationLockReason(appraisalId)
+  if (locked) return NextResponse.json({ error: locked }, { status: 409 })
+
+  const computed = await computeScores(appraisalId, access.evaluatorRole)
+  if (!computed) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  const { grading, scores, research } = computed
+
+  const { researchPts, universityServicePts, communityServicePts, teachingQualityPts, ...bands } = scores
+  // بدون قرار بحث محفوظ: الاقتراح يُحفظ مع مستواه وشرحه كما لو طبّقه المقيّم من criterion
+  const researchDecision = research
+    ? {
+        researchBand: toRatingBand(research.suggestion.band),
+        researchExplanation: toNumbered(buildResearchSuggestionExplanation(research.suggestion)),
+        rubric: {
+          ...((research.rubric as Record<string, unknown> | null) ?? {}),
+          researchSuggestion: {
+            suggestedBand: research.suggestion.band,
+            rule: research.suggestion.rule,
+            items: research.suggestion.items.map(i => ({ source: i.source, id: i.id, title: i.title })),
+            chosenBand: research.suggestion.band,
+            overridden: false,
+            justification: null,
+            decidedBy: user.id,
+            decidedAt: new Date().toISOString(),
+          },
+        },
+      }
+    : {}
+  const { before, after: ev } = await saveComputedScores({
+    appraisalId,
+    role: access.evaluatorRole,
+    actorId: Number(user.id),
+    scores: {
+      // القرار المحفوظ يبقى كما هو (نقاطه ومستواه وشرحه)
+      ...(research ? { research: researchPts } : {}),
+      universityService: universityServicePts,
+      communityService: communityServicePts,
+      teachingQuality: teachingQualityPts,
+    },
+    extra: { ...bands, ...researchDecision },
+  })
+  await recalcTotal(appraisalId, access.evaluatorRole)
+
+  await logAudit({
+    actor: user,
+    action: 'EVALUATION_UPDATE',
+    target: { type: 'appraisal', id: appraisalId },
+    before: before ?? {},
+    after: ev,
+    metadata: { role: access.evaluatorRole, criterion: 'all' },
+    req,
+  })
 
   const path = user.role === 'DEAN' ? `/dean/reviews/${appraisalId}` : `/hod/reviews/${appraisalId}`
   revalidatePath(path)
 
-  return NextResponse.json({ ok: true, appraisalId, teachingQuality, communityPts })
+  // النهائية قد تختلف عن المحسوبة إذا كان هناك تجاوز قائم
+  return NextResponse.json({ ok: true, appraisalId, gradingConfigId: grading.id, ...scores, final: scoreDiff(ev) })
 }
@@ -4,10 +4,13 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { revalidatePath } from 'next/cache'
 import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { logAudit } from '@/lib/audit'
+import { evaluationLockReason } from '@/lib/signatures'
+import { toRatingBand } from '@/lib/rating'
 
 type BandKey = 'HIGH'|'EXCEEDS'|'MEETS'|'PARTIAL'|'NEEDS'
 
-export async function POST(_req: NextRequest, context: { params: { id: string } }) {
+export async function POST(req: NextRequest, context: { params: { id: string } }) {
   const session = await getServerSession(authOptions)
   const user = session?.user as any
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
@@ -16,7 +19,9 @@ export async function POST(_req: NextRequest, context: { params: { id: string }
   if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
 
   const access = await assertEvaluatorAccess(appraisalId, user)
-  if (!access.ok) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const locked = await evaluationLockReason(appraisalId)
+  if (locked) return NextResponse.json({ error: locked }, { status: 409 })
 
   // استبدل المصدر بجدول capabilitiesItem إن وجد
   const count = await prisma.universityService.count({ where: { appraisalId } })
@@ -33,16 +38,23 @@ export async function POST(_req: NextRequest, context: { params: { id: string }
   else if (count === 2) band = 'PARTIAL'
   else if (count === 1) band = 'NEEDS'
 
-  await prisma.$transaction(async (tx) => {
-    await tx.evaluation.upsert({
-      where: { appraisalId_role: { appraisalId, role: access.evaluatorRole } },
-      update: { capabilitiesBand: band, capabilitiesPts: score, computedById: user.id, computedAt: new Date() },
-      create: { appraisalId, role: access.evaluatorRole, capabilitiesBand: band, capabilitiesPts: score, computedById: user.id, computedAt: new Date() },
-    })
-    const app = await tx.appraisal.findUnique({ where: { id: appraisalId } })
-    if (app && app.status === 'NEW') {
-      await tx.appraisal.update({ where: { id: appraisalId }, data: { status: 'IN_REVIEW' } })
-    }
+  const before = await prisma.evaluation.findUnique({
+    where: { appraisalId_role: { appraisalId, role: access.evaluatorRole } },
+  })
+  const ev = await prisma.evaluation.upsert({
+    where: { appraisalId_role: { appraisalId, role: access.evaluatorRole } },
+    update: { capabilitiesBand: toRatingBand(band), capabilitiesPts: score },
+    create: { appraisalId, role: access.evaluatorRole, capabilitiesBand: toRatingBand(band), capabilitiesPts: score },
+  })
+
+  await logAudit({
+    actor: user,
+    action: 'EVALUATION_UPDATE',
+    target: { type: 'appraisal', id: appraisalId },
+    before: before ?? {},
+    after: ev,
+    metadata: { role: access.evaluatorRole, criterion: 'capabilities' },
+    req,
   })
 
   const path = user.role === 'DEAN' ? `/dean/reviews/${appraisalId}` : `/hod/reviews/${appraisalId}`
@@ -1,44 +1,63 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireHOD, requireDean } from '@/lib/auth-utils'
-import { uiToRatingBand, UiBand } from '@/app/api/_utils/bands'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { uiToRatingBand } from '@/app/api/_utils/bands'
 import { recalcTotal } from '@/lib/recalc-total'
+import { logAudit } from '@/lib/audit'
+import { saveComputedScores } from '@/lib/score-history'
+import { evaluationLockReason } from '@/lib/signatures'
+import { getEffectiveGrading, scoredItems, scoreService } from '@/lib/grading'
 
-type Role = 'HOD' | 'DEAN'
-const pickBand = (n: number): UiBand =>
-  n >= 5 ? 'HIGH' : n === 4 ? 'EXCEEDS' : n === 3 ? 'MEETS' : n === 2 ? 'PARTIAL' : 'NEEDS'
 
 export async function POST(
-  _req: Request,
+  req: Request,
   ctx: { params: Promise<{ id: string }> }
 ) {
   const { id } = await ctx.params
   const appraisalId = Number(id)
   if (Number.isNaN(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
 
-  let role: Role = 'HOD'
-  let user = await requireHOD().catch(() => null)
-  if (!user) { user = await requireDean(); role = 'DEAN' }
+  const session = await getServerSession(authOptions)
+  if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const access = await assertEvaluatorAccess(appraisalId, session.user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const user = session.user
+  const role = access.evaluatorRole
 
   const app = await prisma.appraisal.findUnique({
     where: { id: appraisalId },
     include: { communityServices: true },
   })
   if (!app) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  const locked = await evaluationLockReason(appraisalId)
+  if (locked) return NextResponse.json({ error: locked }, { status: 409 })
 
-  const count = app.communityServices.length
-  const uiBand = pickBand(count)
+  const grading = await getEffectiveGrading(app.cycleId)
+  const count = scoredItems(grading, app.communityServices).length
+  const { band: uiBand, points: score } = scoreService(grading, 'communityService', count)
   const dbBand = uiToRatingBand(uiBand)
-  const score = Math.min(count * 4, 20)
-  const explanation = [`Completed ${count} community-service item(s).`, `→ ${uiBand} (${score} pts).`].join('\n')
-
-  const ev = await prisma.evaluation.upsert({
-    where: { appraisalId_role: { appraisalId, role } },
-    update: { communityServiceBand: dbBand, communityServicePts: score, communityServiceExplanation: explanation },
-    create: { appraisalId, role, communityServiceBand: dbBand, communityServicePts: score, communityServiceExplanation: explanation },
+  const explanation = [`Completed ${count} community-service item(s)${grading.verifiedOnly ? ' (verified only)' : ''}.`, `→ ${uiBand} (${score} pts).`].join('\n')
+
+  const { before, after: ev } = await saveComputedScores({
+    appraisalId,
+    role,
+    actorId: Number(user.id),
+    scores: { communityService: score },
+    extra: { communityServiceBand: dbBand, communityServiceExplanation: explanation },
   })
-
   await recalcTotal(appraisalId, role)
 
+  await logAudit({
+    actor: user,
+    action: 'EVALUATION_UPDATE',
+    target: { type: 'appraisal', id: appraisalId },
+    before: before ?? {},
+    after: ev,
+    metadata: { role, criterion: 'communityService' },
+    req,
+  })
+
   return NextResponse.json({ band: uiBand, score, explanation })
 }
@@ -1,44 +1,61 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireHOD, requireDean } from '@/lib/auth-utils'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
 import { recalcTotal } from '@/lib/recalc-total'
+import { logAudit } from '@/lib/audit'
+import { saveComputedScores } from '@/lib/score-history'
+import { evaluationLockReason } from '@/lib/signatures'
 import { toRatingBand } from '@/lib/rating'
+import { getEffectiveGrading, scoredItems, scoreService } from '@/lib/grading'
 
-type Band = 'HIGH'|'EXCEEDS'|'MEETS'|'PARTIAL'|'NEEDS'
-const BAND = (n: number): Band =>
-  n >= 5 ? 'HIGH' : n === 4 ? 'EXCEEDS' : n === 3 ? 'MEETS' : n === 2 ? 'PARTIAL' : 'NEEDS'
-
-const POINTS: Record<Band, number> = { HIGH:20, EXCEEDS:16, MEETS:12, PARTIAL:8, NEEDS:4 }
-
-export async function POST(_req: Request, { params }: { params: { id: string } }) {
+export async function POST(req: Request, { params }: { params: { id: string } }) {
   const appraisalId = Number(params.id)
   if (Number.isNaN(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
 
-  let role: 'HOD'|'DEAN' = 'HOD'
-  let user = await requireHOD().catch(() => null)
-  if (!user) { user = await requireDean(); role = 'DEAN' }
+  const session = await getServerSession(authOptions)
+  if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const access = await assertEvaluatorAccess(appraisalId, session.user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const user = session.user
+  const role = access.evaluatorRole
 
   const app = await prisma.appraisal.findUnique({
     where: { id: appraisalId },
     include: { universityServices: true, faculty: { include: { department: true } } },
   })
   if (!app) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  const locked = await evaluationLockReason(appraisalId)
+  if (locked) return NextResponse.json({ error: locked }, { status: 409 })
   // يمكنك إعادة استخدام assertScope من الملف السابق إن شئت
 
-  const count = app.universityServices.length
-  const band = BAND(count)
-  const score = Math.min(count * 4, 20)
+  const grading = await getEffectiveGrading(app.cycleId)
+  const count = scoredItems(grading, app.universityServices).length
+  const { band, points: score } = scoreService(grading, 'universityService', count)
   const explanation = [
-    `Completed ${count} university-service item(s).`,
+    `Completed ${count} university-service item(s)${grading.verifiedOnly ? ' (verified only)' : ''}.`,
     `→ ${band} (${score} pts).`,
   ].join('\n')
 
-  const ev = await prisma.evaluation.upsert({
-    where: { appraisalId_role: { appraisalId, role } },
-    update: { universityServiceBand: toRatingBand(band), universityServicePts: score, universityServiceExplanation: explanation },
-    create: { appraisalId, role, universityServiceBand: toRatingBand(band), universityServicePts: score, universityServiceExplanation: explanation },
+  const { before, after: ev } = await saveComputedScores({
+    appraisalId,
+    role,
+    actorId: Number(user.id),
+    scores: { universityService: score },
+    extra: { universityServiceBand: toRatingBand(band), universityServiceExplanation: explanation },
   })
   await recalcTotal(appraisalId, role)
 
+  await logAudit({
+    actor: user,
+    action: 'EVALUATION_UPDATE',
+    target: { type: 'appraisal', id: appraisalId },
+    before: before ?? {},
+    after: ev,
+    metadata: { role, criterion: 'universityService' },
+    req,
+  })
+
   return NextResponse.json({ band, score, explanation })
 }
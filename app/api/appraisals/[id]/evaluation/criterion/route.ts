@@ -400,17 +400,26 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
 import { prisma } from '@/lib/prisma'
-import { requireHOD, requireDean } from '@/lib/auth-utils'
-import { s1PointsFor, toNumbered, toRatingBand, UiBand } from '@/lib/rating'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { evaluationLockReason } from '@/lib/signatures'
+import { toNumbered, toRatingBand, UiBand } from '@/lib/rating'
+import { bandPoints, getEffectiveGrading, scoredItems } from '@/lib/grading'
 import { recalcTotal } from '@/lib/recalc-total'
+import { logAudit } from '@/lib/audit'
+import { buildResearchSuggestionExplanation, suggestResearchBand } from '@/lib/research-band'
+import { pillarFromCriterion, saveComputedScores } from '@/lib/score-history'
 
 // body - تحديث ليقبل كلا النوعين من الـ bands
 const Body = z.object({
   criterion: z.enum(['research','universityService','communityService','teaching']),
   band: z.string(), // تغيير إلى string لأخذ أي قيمة
-  score: z.number().optional(),
+  score: z.number().optional(), // مُتجاهَل: النقاط تُحسب من إعداد الدرجات
   explanation: z.string().optional().nullable(),
   note: z.string().optional().nullable(),
+  // مطلوب عند اختيار مستوى بحث يخالف الاقتراح الآلي
+  justification: z.string().trim().optional().nullable(),
   role: z.enum(['HOD', 'DEAN']).optional(),
 })
 
@@ -449,20 +458,25 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     console.log('Appraisal ID:', appraisalId)
 
     // من له صلاحية التقييم؟
-    let role: 'HOD' | 'DEAN' = 'HOD'
-    let user = await requireHOD().catch(() => null)
-    if (!user) { user = await requireDean(); role = 'DEAN' }
+    const session = await getServerSession(authOptions)
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await assertEvaluatorAccess(appraisalId, session.user)
+    if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+    const user = session.user
+    const role = access.evaluatorRole
 
     console.log('User role:', role)
 
     const app = await prisma.appraisal.findUnique({ where: { id: appraisalId } })
     if (!app) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    const locked = await evaluationLockReason(appraisalId)
+    if (locked) return NextResponse.json({ error: locked }, { status: 409 })
 
     const body = await req.json()
     console.log('Request body:', body)
 
     const parsedBody = Body.parse(body)
-    const { criterion, band: incomingBand, score, explanation, note } = parsedBody
+    const { criterion, band: incomingBand, explanation, note, justification } = parsedBody
 
     console.log('Criterion:', criterion)
     console.log('Incoming band:', incomingBand)
@@ -471,9 +485,10 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     const uiBand = normalizeToUiBand(incomingBand)
     console.log('Normalized UI band:', uiBand)
 
-    const pts = score !== undefined ? score : s1PointsFor(criterion, uiBand)
+    const grading = await getEffectiveGrading(app.cycleId)
+    const pts = bandPoints(grading, criterion, uiBand)
     const dbBand = toRatingBand(uiBand)
-    const { ptsKey, bandKey, expKey } = keysFor(criterion)
+    const { bandKey, expKey } = keysFor(criterion)
 
     console.log('Points:', pts)
     console.log('Database band:', dbBand)
@@ -485,11 +500,42 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
 
     // إعداد بيانات التحديث
     const updateData: any = {
-      [ptsKey]: pts,
       [bandKey]: dbBand,
       [expKey]: toNumbered(explanation || ''),
     }
 
+    // البحث: نقارن بالاقتراح المحسوب من الأنشطة المسجلة، والمخالفة تحتاج مبرراً يُحفظ مع التقييم
+    if (criterion === 'research') {
+      const [research, scientific] = await Promise.all([
+        prisma.researchActivity.findMany({ where: { appraisalId } }),
+        prisma.scientificActivity.findMany({ where: { appraisalId } }),
+      ])
+      const suggestion = suggestResearchBand(scoredItems(grading, research), scoredItems(grading, scientific))
+      const overridden = suggestion.band !== uiBand
+      if (overridden && !justification) {
+        return NextResponse.json({
+          error: `A justification is required when choosing ${uiBand} instead of the suggested ${suggestion.band}`,
+        }, { status: 400 })
+      }
+
+      const lines = [explanation || buildResearchSuggestionExplanation(suggestion)]
+      if (overridden) lines.push(`Override of suggested ${suggestion.band}: ${justification}`)
+      updateData[expKey] = toNumbered(lines.join('\n'))
+      updateData.rubric = {
+        ...((currentEvaluation?.rubric as Record<string, unknown> | null) ?? {}),
+        researchSuggestion: {
+          suggestedBand: suggestion.band,
+          rule: suggestion.rule,
+          items: suggestion.items.map(i => ({ source: i.source, id: i.id, title: i.title })),
+          chosenBand: uiBand,
+          overridden,
+          justification: overridden ? justification : null,
+          decidedBy: user.id,
+          decidedAt: new Date().toISOString(),
+        },
+      }
+    }
+
     // التعامل مع الـ notes
     if (note) {
       const currentNotes = currentEvaluation?.notes || ''
@@ -498,15 +544,14 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
 
     console.log('Update data:', updateData)
 
-    // حفظ البند المحدد
-    const ev = await prisma.evaluation.upsert({
-      where: { appraisalId_role: { appraisalId, role } },
-      update: updateData,
-      create: {
-        appraisalId,
-        role,
-        ...updateData
-      },
+    // حفظ البند المحدد (النقاط المحسوبة من المستوى؛ التجاوز القائم يبقى كما هو)
+    const pillar = pillarFromCriterion(criterion)
+    const { after: ev } = await saveComputedScores({
+      appraisalId,
+      role,
+      actorId: Number(user.id),
+      scores: { [pillar]: pts },
+      extra: updateData,
     })
 
     console.log('Evaluation saved successfully:', ev.id)
@@ -514,10 +559,21 @@ async function handler(req: Request, ctx: { params: Promise<{ id: string }> }) {
     // NEW → IN_REVIEW + حساب المجموع الكلي
     await recalcTotal(appraisalId, role)
 
+    await logAudit({
+      actor: user,
+      action: 'EVALUATION_UPDATE',
+      target: { type: 'appraisal', id: appraisalId },
+      before: currentEvaluation ?? {},
+      after: ev,
+      metadata: { role, criterion },
+      req,
+    })
+
     return NextResponse.json({
       ok: true,
       criterion,
       points: pts,
+      finalPoints: ev[`${pillar}Pts` as const],
       band: dbBand,
     })
 
@@ -544,9 +600,12 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
     if (Number.isNaN(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
 
     // Get user role for evaluation lookup
-    let role: 'HOD' | 'DEAN' = 'HOD'
-    let user = await requireHOD().catch(() => null)
-    if (!user) { user = await requireDean(); role = 'DEAN' }
+    const session = await getServerSession(authOptions)
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await assertEvaluatorAccess(appraisalId, session.user)
+    if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+    const user = session.user
+    const role = access.evaluatorRole
 
     // Find existing evaluation for this role
     const evaluation = await prisma.evaluation.findUnique({
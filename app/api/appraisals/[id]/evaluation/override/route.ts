@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { revalidatePath } from 'next/cache'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { logAudit } from '@/lib/audit'
+import { evaluationLockReason } from '@/lib/signatures'
+import { recalcTotal } from '@/lib/recalc-total'
+import { getEffectiveGrading } from '@/lib/grading'
+import { PILLARS, criterionFromPillar, overrideScore, scoreDiff } from '@/lib/score-history'
+
+const Body = z.object({
+  pillar: z.enum(PILLARS),
+  // null يلغي التجاوز
+  points: z.number().min(0).nullable(),
+  reason: z.string().trim().max(2000).optional().nullable(),
+})
+
+/** المحسوبة مقابل النهائية + سجل التغييرات لتقييم المستخدم الحالي */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const user = session?.user
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+  const access = await assertEvaluatorAccess(appraisalId, user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const evaluation = await prisma.evaluation.findUnique({
+    where: { appraisalId_role: { appraisalId, role: access.evaluatorRole } },
+    include: {
+      scoreHistory: {
+        orderBy: { createdAt: 'desc' },
+        include: { changedBy: { select: { id: true, name: true } } },
+      },
+    },
+  })
+
+  return NextResponse.json({
+    role: access.evaluatorRole,
+    scores: scoreDiff(evaluation),
+    history: evaluation?.scoreHistory ?? [],
+  })
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const user = session?.user
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+  const parsed = Body.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+  }
+  const { pillar, points, reason } = parsed.data
+
+  const access = await assertEvaluatorAccess(appraisalId, user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const locked = await evaluationLockReason(appraisalId)
+  if (locked) return NextResponse.json({ error: locked }, { status: 409 })
+
+  if (points !== null) {
+    const grading = await getEffectiveGrading(access.appraisal.cycleId)
+    const max = grading.weights[criterionFromPillar(pillar)]
+    if (points > max) {
+      return NextResponse.json({ error: `Score cannot exceed the ${max} points weight of this section` }, { status: 400 })
+    }
+  }
+
+  const result = await overrideScore({
+    appraisalId,
+    role: access.evaluatorRole,
+    actorId: Number(user.id),
+    pillar,
+    points,
+    reason,
+  })
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+  await recalcTotal(appraisalId, access.evaluatorRole)
+
+  await logAudit({
+    actor: user,
+    action: 'SCORE_OVERRIDE',
+    target: { type: 'evaluation', id: result.after.id },
+    before: result.before,
+    after: result.after,
+    metadata: { appraisalId, role: access.evaluatorRole, pillar, points, reason: reason ?? null },
+    req,
+  })
+
+  revalidatePath(`/hod/reviews/${appraisalId}`)
+  revalidatePath(`/dean/reviews/${appraisalId}`)
+
+  return NextResponse.json({ ok: true, scores: scoreDiff(result.after) })
+}
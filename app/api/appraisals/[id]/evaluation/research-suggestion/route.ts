@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { bandPoints, getEffectiveGrading, scoredItems } from '@/lib/grading'
+import { suggestResearchBand } from '@/lib/research-band'
+
+// اقتراح فقط: لا يحفظ شيئاً، والحفظ يتم عبر criterion مع المبرر عند المخالفة
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (Number.isNaN(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+
+  const session = await getServerSession(authOptions)
+  if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  const access = await assertEvaluatorAccess(appraisalId, session.user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+  const role = access.evaluatorRole
+
+  const app = await prisma.appraisal.findUnique({
+    where: { id: appraisalId },
+    include: { researchActivities: true, scientificActivities: true },
+  })
+  if (!app) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  const grading = await getEffectiveGrading(app.cycleId)
+  // المرفوض (وغير المتحقق منه مع verifiedOnly) لا يدخل في الاقتراح
+  const suggestion = suggestResearchBand(
+    scoredItems(grading, app.researchActivities),
+    scoredItems(grading, app.scientificActivities),
+  )
+
+  const current = await prisma.evaluation.findUnique({
+    where: { appraisalId_role: { appraisalId, role } },
+    select: { researchBand: true, researchPts: true, rubric: true },
+  })
+
+  return NextResponse.json({
+    ...suggestion,
+    points: bandPoints(grading, 'research', suggestion.band),
+    current: current ? { band: current.researchBand, points: current.researchPts, decision: (current.rubric as any)?.researchSuggestion ?? null } : null,
+  })
+}
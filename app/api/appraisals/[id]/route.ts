@@ -2,7 +2,12 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { EvaluationStatus, UserRole } from "@prisma/client"
+import { EvaluationStatus } from "@prisma/client"
+import { transitionAppraisal, type WorkflowAction } from "@/lib/workflow"
+import { fileAppeal } from "@/lib/appeals"
+import { authorizeAppraisal } from "@/lib/permissions"
+import { withEvidenceLinks } from "@/lib/evidence"
+import { WITH_VERIFICATION } from "@/lib/verification-status"
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -15,6 +20,11 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     const appraisalId = Number(id)
     if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
 
+    const access = await authorizeAppraisal(session, appraisalId, "read")
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
     const appraisal = await prisma.appraisal.findUnique({
       where: { id: appraisalId },
       include: {
@@ -44,12 +54,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
           }
         },
         evaluations: true,
-        awards: true,
+        awards: WITH_VERIFICATION,
         courses: true,
-        researchActivities: true,
-        scientificActivities: true,
-        universityServices: true,
-        communityServices: true,
+        researchActivities: WITH_VERIFICATION,
+        scientificActivities: WITH_VERIFICATION,
+        universityServices: WITH_VERIFICATION,
+        communityServices: WITH_VERIFICATION,
         evidences: true,
       },
     })
@@ -58,21 +68,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Appraisal not found" }, { status: 404 })
     }
 
-    // Check permissions
-    const canView =
-      session.user.id === appraisal.facultyId.toString() ||
-      (session.user.role === UserRole.HOD &&
-        session.user.departmentId === appraisal.faculty?.departmentId?.toString()) ||
-      (session.user.role === UserRole.DEAN &&
-        session.user.collegeId &&
-        appraisal.faculty?.department?.collegeId?.toString() === session.user.collegeId) ||
-      session.user.role === UserRole.ADMIN
-
-    if (!canView) {
-      return NextResponse.json({ error: "Access denied" }, { status: 403 })
-    }
-
-    return NextResponse.json(appraisal)
+    return NextResponse.json(withEvidenceLinks(appraisal))
   } catch (error) {
     console.error("Error fetching appraisal:", error)
 
@@ -100,107 +96,33 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     const appraisalId = Number(id)
     if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: "Invalid id" }, { status: 400 })
 
-    const { action, evaluations, comments, appealReason } = await request.json()
-
-    const appraisal = await prisma.appraisal.findUnique({
-      where: { id: appraisalId },
-      include: {
-        faculty: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            role: true,
-            departmentId: true,
-            department: {
-              select: {
-                id: true,
-                name: true,
-                collegeId: true,
-                college: { select: { id: true, name: true } }
-              }
-            }
-          },
-        },
-        evaluations: true,
-      },
-    })
-
-    if (!appraisal) {
-      return NextResponse.json({ error: "Appraisal not found" }, { status: 404 })
+    const { action, appealReason } = await request.json()
+
+    // "evaluate" هو اسم قديم لإنهاء المراجعة: المرحلة تتحدد حسب دور المستخدم
+    const workflowAction: Record<string, WorkflowAction> = {
+      submit: "submit",
+      evaluate: session.user.role === "DEAN" ? "dean_review" : "hod_review",
+      hod_review: "hod_review",
+      dean_review: "dean_review",
+      release: "send_scores",
+      approve: "approve",
+      appeal: "appeal",
     }
+    if (!workflowAction[action]) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    }
+
+    // التظلّم ينشئ سجل Appeal مع الانتقال (lib/appeals.ts)
+    const result = action === "appeal"
+      ? await fileAppeal({ appraisalId, user: session.user, message: appealReason || "No message provided", req: request })
+      : await transitionAppraisal({ appraisalId, action: workflowAction[action], user: session.user })
 
-    // Permission checks
-    const isFaculty = session.user.id === appraisal.facultyId.toString()
-    const isHod = session.user.role === UserRole.HOD && session.user.departmentId === appraisal.faculty?.departmentId?.toString()
-    const isDean = session.user.role === UserRole.DEAN && session.user.collegeId && appraisal.faculty?.department?.collegeId?.toString() === session.user.collegeId
-    const isAdmin = session.user.role === UserRole.ADMIN
-
-    let updateData: any = {}
-
-    switch (action) {
-      case "submit":
-        if (!isFaculty) {
-          return NextResponse.json({ error: "Access denied" }, { status: 403 })
-        }
-        updateData = {
-          status: EvaluationStatus.sent,
-          submittedAt: new Date(),
-        }
-        break
-
-      case "evaluate":
-        if (!(isHod || isDean || isAdmin)) {
-          return NextResponse.json({ error: "Access denied" }, { status: 403 })
-        }
-
-        // Update criteria evaluations and calculate final score
-        let totalScore = 0
-        let totalWeight = 0
-
-        // TODO: Implement criteria evaluation logic when CriteriaEvaluation and EvaluationCriteria models are added to schema
-        // if (evaluations && evaluations.length > 0) {
-        //   for (const evaluation of evaluations) {
-        //     // Criteria evaluation logic here
-        //   }
-        // }
-
-        updateData = {
-          evaluatorId: session.user.id,
-          finalScore: totalWeight > 0 ? totalScore : null,
-          comments,
-          status: EvaluationStatus.sent,
-          evaluatedAt: new Date(),
-        }
-        break
-
-      case "approve":
-        if (!isFaculty) {
-          return NextResponse.json({ error: "Access denied" }, { status: 403 })
-        }
-        updateData = {
-          status: EvaluationStatus.complete,
-          completedAt: new Date(),
-        }
-        break
-
-      case "appeal":
-        if (!isFaculty) {
-          return NextResponse.json({ error: "Access denied" }, { status: 403 })
-        }
-        updateData = {
-          status: EvaluationStatus.returned,
-          appealReason,
-        }
-        break
-
-      default:
-        return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
 
-    const updatedAppraisal = await prisma.appraisal.update({
+    const updatedAppraisal = await prisma.appraisal.findUnique({
       where: { id: appraisalId },
-      data: updateData,
       include: {
         faculty: {
           select: {
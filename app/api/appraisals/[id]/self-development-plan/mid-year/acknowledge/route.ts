@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { planInclude } from '@/lib/development-plan'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+// POST: عضو هيئة التدريس يؤكد اطلاعه على المراجعة النصفية لخطته
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    if (!access.actors.includes('FACULTY')) {
+      return NextResponse.json({ error: 'Only the appraised faculty member can acknowledge the review' }, { status: 403 })
+    }
+
+    const plan = await prisma.developmentPlan.findUnique({ where: { appraisalId } })
+    if (!plan?.midYearReviewedAt) {
+      return NextResponse.json({ error: 'The mid-year review has not been recorded yet' }, { status: 409 })
+    }
+    if (plan.midYearAcknowledgedAt) {
+      return NextResponse.json({ error: 'The mid-year review is already acknowledged' }, { status: 409 })
+    }
+
+    const updated = await prisma.developmentPlan.update({
+      where: { id: plan.id },
+      data: { midYearAcknowledgedAt: new Date() },
+      include: planInclude,
+    })
+
+    await logAudit({
+      actor: session.user,
+      action: 'PLAN_MID_YEAR_ACKNOWLEDGE',
+      target: { type: 'development_plan', id: plan.id },
+      after: { midYearAcknowledgedAt: updated.midYearAcknowledgedAt },
+      metadata: { appraisalId },
+      req,
+    })
+
+    return NextResponse.json({ ok: true, plan: updated })
+  } catch (e) {
+    console.error('[SDP_MID_YEAR_ACK]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { DevelopmentItemProgress } from '@prisma/client'
+import { z } from 'zod'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { planPermissions, recordMidYearReview } from '@/lib/development-plan'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+const Body = z.object({
+  items: z.array(z.object({
+    id: z.number().int().positive(),
+    progress: z.nativeEnum(DevelopmentItemProgress),
+    note: z.string().trim().max(2000).nullable().optional(),
+  })).min(1),
+  biAnnualComments: z.string().optional().default(''),
+})
+
+// PATCH: تسجيل المراجعة النصفية (تقدّم كل بند + ملاحظات نصف السنة)
+export async function PATCH(req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid mid-year review' }, { status: 400 })
+    }
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    if (!planPermissions(access.appraisal, access.actors).canEdit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await recordMidYearReview(access.appraisal, parsed.data, Number(session.user.id))
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    await logAudit({
+      actor: session.user,
+      action: 'PLAN_MID_YEAR_REVIEW',
+      target: { type: 'development_plan', id: result.plan.id },
+      before: result.before,
+      after: result.plan,
+      metadata: { appraisalId },
+      req,
+    })
+
+    return NextResponse.json({ ok: true, plan: result.plan })
+  } catch (e) {
+    console.error('[SDP_MID_YEAR]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
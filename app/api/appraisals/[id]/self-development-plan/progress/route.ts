@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { DevelopmentItemProgress } from '@prisma/client'
+import { z } from 'zod'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { findPreviousPlan, planPermissions } from '@/lib/development-plan'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+const Body = z.object({
+  items: z.array(z.object({
+    id: z.number().int().positive(),
+    progress: z.nativeEnum(DevelopmentItemProgress),
+    progressNote: z.string().trim().max(2000).nullable().optional(),
+  })).min(1),
+})
+
+// PATCH: مراجعة تقدّم بنود خطة الدورة السابقة ضمن استمارة هذه الدورة
+export async function PATCH(req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+    }
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    if (!planPermissions(access.appraisal, access.actors).canEdit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const previous = await findPreviousPlan(access.appraisal)
+    if (!previous) return NextResponse.json({ error: 'There is no previous plan to review' }, { status: 404 })
+
+    const ownIds = new Set(previous.items.map(i => i.id))
+    if (parsed.data.items.some(i => !ownIds.has(i.id))) {
+      return NextResponse.json({ error: 'Items must belong to the previous cycle plan' }, { status: 400 })
+    }
+
+    await prisma.$transaction(
+      parsed.data.items.map(item =>
+        prisma.developmentPlanItem.update({
+          where: { id: item.id },
+          data: { progress: item.progress, progressNote: item.progressNote ?? null },
+        }),
+      ),
+    )
+
+    await logAudit({
+      actor: session.user,
+      action: 'PLAN_PROGRESS_UPDATE',
+      target: { type: 'development_plan', id: previous.id },
+      before: { items: previous.items.map(i => ({ id: i.id, progress: i.progress, progressNote: i.progressNote })) },
+      after: { items: parsed.data.items },
+      metadata: { appraisalId },
+      req,
+    })
+
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('[SDP_PROGRESS]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
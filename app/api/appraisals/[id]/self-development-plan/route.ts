@@ -1,96 +1,101 @@
 import { NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/auth-utils'
-import { EvaluationRole, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
 import { z } from 'zod'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { findPreviousPlan, midYearStatus, planInclude, planPermissions, savePlan } from '@/lib/development-plan'
+import { logAudit } from '@/lib/audit'
 
 // ملاحظة Next.js: params يجب انتظارها (to avoid the sync-dynamic-apis warning)
 type Ctx = { params: Promise<{ id: string }> }
 
-const Row = z.object({
-  id: z.string(),
+const Item = z.object({
+  id: z.number().int().positive().optional(),
   developmentArea: z.string().optional().default(''),
   linkToGoals: z.string().optional().default(''),
   activities: z.string().optional().default(''),
   expectedResults: z.string().optional().default(''),
   timeframe: z.string().optional().default(''),
+  carriedFromItemId: z.number().int().positive().nullable().optional(),
 })
 
+// التوقيعات لا تُقبل من المتصفح: لها مسار sign خاص يأخذ الموقّع من الجلسة،
+// وملاحظات نصف السنة تُكتب من مسار mid-year
 const Body = z.object({
-  rows: z.array(Row).min(1),
-  biAnnualComments: z.string().optional().default(''),
+  items: z.array(Item).min(1),
   annualComments: z.string().optional().default(''),
-  hodSignature: z.object({ name: z.string(), signedAt: z.string() }).nullable().optional(),
-  deanSignature: z.object({ name: z.string(), signedAt: z.string() }).nullable().optional(),
 })
 
-function parseNotes(notes?: string | null) {
-  try {
-    return notes ? JSON.parse(notes) : {}
-  } catch {
-    return {}
-  }
-}
-
-// GET: تحميل الخطة من Evaluation.notes (HOD record)
+// GET: الخطة + صلاحيات المستخدم + خطة الدورة السابقة للمتابعة + حالة المراجعة النصفية
 export async function GET(_req: Request, ctx: Ctx) {
   try {
     const { id } = await ctx.params
     const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
 
     const session = await getSession()
-    if (!session?.user) return new NextResponse('Unauthorized', { status: 401 })
-
-    const ev = await prisma.evaluation.findUnique({
-      where: { appraisalId_role: { appraisalId, role: EvaluationRole.HOD } },
-      select: { notes: true },
-    })
-
-    const base = parseNotes(ev?.notes)
-    const plan = base?.sdp ?? null
-
-    // عرف الدور الحالي من الجلسة للواجهة (لإظهار أزرار التوقيع المناسبة)
-    const role = session.user.role as UserRole
-
-    return NextResponse.json({ plan, role })
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    const permissions = planPermissions(access.appraisal, access.actors)
+    if (!permissions.canView) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    const [plan, previousPlan, cycle] = await Promise.all([
+      prisma.developmentPlan.findUnique({ where: { appraisalId }, include: planInclude }),
+      findPreviousPlan(access.appraisal),
+      prisma.appraisalCycle.findUnique({ where: { id: access.appraisal.cycleId }, select: { midYearReviewDate: true } }),
+    ])
+    const midYear = {
+      date: cycle?.midYearReviewDate ?? null,
+      status: midYearStatus(cycle?.midYearReviewDate ?? null, plan),
+      canAcknowledge: access.actors.includes('FACULTY'),
+    }
+
+    return NextResponse.json({ plan, previousPlan, permissions, midYear, role: session.user.role })
   } catch (e) {
     console.error('[SDP_GET]', e)
-    return new NextResponse('Internal Server Error', { status: 500 })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
 
-// PATCH: حفظ/تحديث الخطة داخل notes.sdp
+// PATCH: حفظ/تحديث محتوى الخطة
 export async function PATCH(req: Request, ctx: Ctx) {
   try {
     const { id } = await ctx.params
     const appraisalId = Number(id)
-    const body = Body.parse(await req.json())
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
 
     const session = await getSession()
-    if (!session?.user) return new NextResponse('Unauthorized', { status: 401 })
-
-    // أنشئ سجل HOD إن لم يوجد
-    const existing = await prisma.evaluation.findUnique({
-      where: { appraisalId_role: { appraisalId, role: EvaluationRole.HOD } },
-      select: { notes: true },
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid plan' }, { status: 400 })
+    }
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    if (!planPermissions(access.appraisal, access.actors).canEdit) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const result = await savePlan(access.appraisal, parsed.data)
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    await logAudit({
+      actor: session.user,
+      action: 'PLAN_UPDATE',
+      target: { type: 'development_plan', id: result.plan.id },
+      before: result.before ?? {},
+      after: result.plan,
+      metadata: { appraisalId, signaturesCleared: result.signaturesCleared },
+      req,
     })
 
-    const base = parseNotes(existing?.notes)
-    const merged = { ...base, sdp: body }
-
-    await prisma.evaluation.upsert({
-      where: { appraisalId_role: { appraisalId, role: EvaluationRole.HOD } },
-      update: { notes: JSON.stringify(merged) },
-      create: {
-        appraisalId,
-        role: EvaluationRole.HOD,
-        notes: JSON.stringify(merged),
-      },
-    })
-
-    return NextResponse.json({ ok: true })
-  } catch (e: any) {
+    return NextResponse.json({ ok: true, plan: result.plan, signaturesCleared: result.signaturesCleared })
+  } catch (e) {
     console.error('[SDP_PATCH]', e)
-    return new NextResponse(e?.message || 'Internal Server Error', { status: 500 })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { EvaluationRole } from '@prisma/client'
+import { z } from 'zod'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { planInclude, planPermissions } from '@/lib/development-plan'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+const Body = z.object({
+  // اختياري: المدير قد يملك الصفتين فيحدد بأيهما يوقّع
+  as: z.nativeEnum(EvaluationRole).optional(),
+})
+
+// POST: توقيع الخطة باسم المستخدم المسجّل (لا يُقبل اسم أو تاريخ من المتصفح)
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => ({})))
+    if (!parsed.success) return NextResponse.json({ error: 'Invalid body' }, { status: 400 })
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+
+    const { canSignAs } = planPermissions(access.appraisal, access.actors)
+    const role = parsed.data.as ?? canSignAs[0]
+    if (!role || !canSignAs.includes(role)) {
+      return NextResponse.json({ error: 'You are not allowed to sign this plan' }, { status: 403 })
+    }
+
+    const plan = await prisma.developmentPlan.findUnique({ where: { appraisalId }, include: { items: true } })
+    if (!plan || plan.items.length === 0) {
+      return NextResponse.json({ error: 'Save the plan before signing it' }, { status: 409 })
+    }
+
+    const signature = await prisma.developmentPlanSignature.upsert({
+      where: { planId_role: { planId: plan.id, role } },
+      update: { signerId: Number(session.user.id), signedAt: new Date() },
+      create: { planId: plan.id, role, signerId: Number(session.user.id) },
+    })
+
+    await logAudit({
+      actor: session.user,
+      action: 'PLAN_SIGN',
+      target: { type: 'development_plan', id: plan.id },
+      after: signature,
+      metadata: { appraisalId, role },
+      req,
+    })
+
+    const updated = await prisma.developmentPlan.findUnique({ where: { id: plan.id }, include: planInclude })
+    return NextResponse.json({ ok: true, plan: updated })
+  } catch (e) {
+    console.error('[SDP_SIGN]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
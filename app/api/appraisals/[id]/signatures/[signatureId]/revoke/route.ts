@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { z } from 'zod'
+import { revokeSignature } from '@/lib/signatures'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string; signatureId: string }> }
+
+const Body = z.object({
+  reason: z.string().trim().min(1, 'A reason is required to revoke a signature').max(1000),
+})
+
+// POST: إلغاء توقيع صراحة ليصبح التقييم قابلاً للتعديل مرة أخرى
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { id, signatureId } = await ctx.params
+    const appraisalId = Number(id)
+    const sigId = Number(signatureId)
+    if (!Number.isFinite(appraisalId) || !Number.isFinite(sigId)) {
+      return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+    }
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+    }
+
+    const result = await revokeSignature(appraisalId, sigId, session.user, parsed.data.reason)
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    await logAudit({
+      actor: session.user,
+      action: 'SIGNATURE_REVOKE',
+      target: { type: 'signature', id: sigId },
+      before: result.before,
+      after: result.signature,
+      metadata: { appraisalId, capacity: result.signature.capacity, reason: parsed.data.reason },
+      req,
+    })
+
+    return NextResponse.json({ ok: true, signature: result.signature })
+  } catch (e) {
+    console.error('[SIGNATURE_REVOKE]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
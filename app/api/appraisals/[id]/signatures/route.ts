@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { SignatureCapacity } from '@prisma/client'
+import { z } from 'zod'
+import { resolveAppraisalAccess } from '@/lib/workflow'
+import { evaluationContentHash, signableCapacities, signAppraisal, signatureInclude } from '@/lib/signatures'
+import { logAudit } from '@/lib/audit'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+const Body = z.object({
+  capacity: z.nativeEnum(SignatureCapacity).optional(),
+  contentHash: z.string().min(1, 'contentHash is required'),
+  note: z.string().trim().max(1000).nullable().optional(),
+})
+
+// GET: التوقيعات + بصمة المحتوى الحالي (valid = التوقيع يطابق المحتوى الحالي)
+export async function GET(_req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const access = await resolveAppraisalAccess(appraisalId, session.user)
+    if (!access) return NextResponse.json({ error: 'Appraisal not found' }, { status: 404 })
+    if (!access.actors.length) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    const contentHash = evaluationContentHash(access.appraisal.evaluations)
+    const signatures = await prisma.signature.findMany({
+      where: { appraisalId },
+      include: signatureInclude,
+      orderBy: { id: 'asc' },
+    })
+
+    return NextResponse.json({
+      status: access.appraisal.status,
+      contentHash,
+      canSignAs: signableCapacities(access.appraisal.status, access.actors)
+        .filter(c => !signatures.some(s => s.capacity === c && !s.revokedAt)),
+      signatures: signatures.map(s => ({
+        ...s,
+        valid: !s.revokedAt && s.contentHash === contentHash,
+        canRevoke: !s.revokedAt && (s.signerId === Number(session.user.id) || access.actors.includes('ADMIN')),
+      })),
+    })
+  } catch (e) {
+    console.error('[SIGNATURES_GET]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST: توقيع نسخة التقييم الحالية باسم المستخدم المسجّل
+export async function POST(req: Request, ctx: Ctx) {
+  try {
+    const { id } = await ctx.params
+    const appraisalId = Number(id)
+    if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+    const session = await getSession()
+    if (!session?.user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+    }
+
+    const result = await signAppraisal({ appraisalId, user: session.user, ...parsed.data })
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    await logAudit({
+      actor: session.user,
+      action: 'APPRAISAL_SIGN',
+      target: { type: 'appraisal', id: appraisalId },
+      after: result.signature,
+      metadata: { capacity: result.signature.capacity, contentHash: result.signature.contentHash },
+      req,
+    })
+
+    return NextResponse.json({ ok: true, signature: result.signature }, { status: 201 })
+  } catch (e) {
+    console.error('[SIGNATURES_POST]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import type { AchievementType, VerificationStatus } from '@prisma/client'
+import { authOptions } from '@/lib/auth'
+import { assertEvaluatorAccess } from '@/lib/eval-access'
+import { ACHIEVEMENT_TYPES } from '@/lib/evidence'
+import { VERIFICATION_STATUSES } from '@/lib/verification-status'
+import { verifyAchievement } from '@/lib/verification'
+
+const Body = z.object({
+  type: z.enum(ACHIEVEMENT_TYPES as [AchievementType, ...AchievementType[]]),
+  achievementId: z.number().int().positive(),
+  status: z.enum(VERIFICATION_STATUSES as [VerificationStatus, ...VerificationStatus[]]),
+  // إلزامي عند NEEDS_EVIDENCE وREJECTED (lib/verification.ts)
+  comment: z.string().trim().max(2000).optional().nullable(),
+})
+
+/** المقيّم يتحقق من إنجاز في الاستمارة */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const user = session?.user
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+  const parsed = Body.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+  }
+
+  const access = await assertEvaluatorAccess(appraisalId, user)
+  if (!access.ok) return NextResponse.json({ error: access.error }, { status: access.status })
+
+  const result = await verifyAchievement({
+    appraisalId,
+    ...parsed.data,
+    actor: access.actor,
+    faculty: access.appraisal.faculty,
+    req,
+  })
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+  return NextResponse.json(result.achievement)
+}
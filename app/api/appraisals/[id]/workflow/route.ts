@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { revalidatePath } from 'next/cache'
+import { transitionAppraisal, type WorkflowAction } from '@/lib/workflow'
+
+// الموافقة والتظلّم لها مساراتها الخاصة لأنها تنشئ سجلات إضافية
+const STAGE_ACTIONS: WorkflowAction[] = ['submit', 'hod_review', 'dean_review', 'send_scores']
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const user = session?.user
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+  const { id } = await params
+  const appraisalId = Number(id)
+  if (!Number.isFinite(appraisalId)) return NextResponse.json({ error: 'Invalid appraisal id' }, { status: 400 })
+
+  const body = await req.json().catch(() => ({}))
+  const action = body?.action as WorkflowAction
+  if (!STAGE_ACTIONS.includes(action)) {
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+  }
+
+  const result = await transitionAppraisal({ appraisalId, action, user, reason: body?.reason ?? null })
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+  revalidatePath(`/hod/reviews/${appraisalId}`)
+  revalidatePath(`/dean/reviews/${appraisalId}`)
+
+  return NextResponse.json({ ok: true, status: result.to })
+}
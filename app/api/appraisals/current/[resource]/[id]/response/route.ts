@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { z } from 'zod'
+import { authOptions } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/permissions'
+import { isAchievementType } from '@/lib/evidence'
+import { respondToVerification } from '@/lib/verification'
+
+const Body = z.object({
+  response: z.string().trim().min(1, 'Response is required').max(2000),
+})
+
+/** صاحب الاستمارة يرد على تعليق المقيّم على إنجاز (الدورة النشطة فقط) */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ resource: string; id: string }> }) {
+  const session = await getServerSession(authOptions)
+  const auth = await authorizeRequest(session, 'update', 'appraisal')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const { resource, id } = await params
+  if (!isAchievementType(resource)) return NextResponse.json({ error: 'Invalid resource' }, { status: 400 })
+  const achievementId = Number(id)
+  if (!Number.isInteger(achievementId)) return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+
+  const parsed = Body.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? 'Invalid body' }, { status: 400 })
+  }
+
+  const result = await respondToVerification({
+    userId: auth.actor.id,
+    type: resource,
+    achievementId,
+    response: parsed.data.response,
+    req,
+  })
+  if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+  return NextResponse.json(result.achievement)
+}
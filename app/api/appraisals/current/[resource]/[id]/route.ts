@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { authorizeRequest } from '@/lib/permissions'
 import { prisma } from '@/lib/prisma'
+import { isAchievementType, withAttachmentLinks } from '@/lib/evidence'
+import { WITH_VERIFICATION } from '@/lib/verification-status'
+import { checkAttachments, parseAttachmentIds, setAttachments } from '@/lib/attachments'
 
 type ResourceKey =
   | 'awards'
@@ -12,12 +16,12 @@ type ResourceKey =
   | 'community'
 
 const allowed: Record<ResourceKey, string[]> = {
-  awards: ['name', 'area', 'organization', 'dateObtained', 'attachment', 'fileUrl', 'fileKey'],
+  awards: ['name', 'area', 'organization', 'dateObtained'],
   courses: ['academicYear', 'semester', 'courseTitle', 'courseCode','section', 'credit', 'studentsCount', 'studentsEvalAvg'],
-  research: ['title', 'kind', 'journalOrPublisher', 'participation', 'publicationDate', 'refereedArticleRef', 'attachment', 'fileUrl', 'fileKey'],
-  scientific: ['title', 'type', 'date', 'participation', 'organizingAuth', 'venue', 'attachment', 'fileUrl', 'fileKey'],
-  university: ['committeeOrTask', 'authority', 'participation', 'dateFrom', 'dateTo', 'attachment', 'fileUrl', 'fileKey'],
-  community: ['committeeOrTask', 'authority', 'participation', 'dateFrom', 'dateTo', 'attachment', 'fileUrl', 'fileKey'],
+  research: ['title', 'kind', 'journalOrPublisher', 'participation', 'publicationDate', 'refereedArticleRef'],
+  scientific: ['title', 'type', 'date', 'participation', 'organizingAuth', 'venue'],
+  university: ['committeeOrTask', 'authority', 'participation', 'dateFrom', 'dateTo'],
+  community: ['committeeOrTask', 'authority', 'participation', 'dateFrom', 'dateTo'],
 }
 
 function toDateOrNull(v: any) {
@@ -32,22 +36,6 @@ function pick(obj: any, keys: string[]) {
   return out
 }
 
-// Override pick to allow empty strings for attachment fields (for file removal)
-function pickWithFileSupport(obj: any, keys: string[]) {
-  const out: any = {}
-  const attachmentFields = ['attachment', 'fileUrl', 'fileKey']
-  
-  for (const k of keys) {
-    // Always include attachment fields if they exist, even if empty (for file removal)
-    if (attachmentFields.includes(k) && obj.hasOwnProperty(k)) {
-      out[k] = obj[k]
-    } else if (obj[k] !== undefined) {
-      out[k] = obj[k]
-    }
-  }
-  return out
-}
-
 function sanitizePayload(resource: ResourceKey, body: Record<string, any>) {
   const b = { ...body };
   delete (b as any).id;
@@ -147,6 +135,8 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ r
     const session = await getServerSession(authOptions)
     const user = session?.user as any
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorizeRequest(session, 'update', 'appraisal')
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
 
     const { resource, id } = await params
     const resourceKey = resource as ResourceKey
@@ -178,6 +168,8 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ re
     const session = await getServerSession(authOptions)
     const user = session?.user as any
     if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorizeRequest(session, 'update', 'appraisal')
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
 
     const { resource, id } = await params
     const resourceKey = resource as ResourceKey
@@ -197,7 +189,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ re
     }
 
     const body = await req.json().catch(() => ({}))
-    const rawData = pickWithFileSupport(body, allowed[resourceKey])
+    const rawData = pick(body, allowed[resourceKey])
     const data = sanitizePayload(resourceKey, rawData)
 
     // Special handling for courses to convert numeric fields
@@ -207,78 +199,28 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ re
       if (data.studentsEvalAvg != null) data.studentsEvalAvg = Number(data.studentsEvalAvg)
     }
 
-    // Handle file updates - check if a new file was uploaded or file was removed
-    const hasNewFile = data.fileUrl && data.fileUrl !== item.fileUrl
-    const hasRemovedFile = data.fileUrl === '' && item.fileUrl !== null && item.fileUrl !== undefined
-    
-    const updated = await (model as any).update({ where: { id: itemId }, data })
-    
-    // Link new files if uploaded (similar to POST route logic)
-    if (hasNewFile && (resourceKey === "awards" || resourceKey === "research" || resourceKey === "scientific" || resourceKey === "university" || resourceKey === "community")) {
-      try {
-        // Find the most recent unlinked evidence file for this achievement type and appraisal
-        const relatedFile = await prisma.evidence.findFirst({
-          where: {
-            appraisalId: appraisalId,
-            achievementType: resourceKey,
-            linkedAchievementId: null,
-          },
-          orderBy: {
-            createdAt: 'desc' // Get the most recent file
-          }
-        })
-
-        if (relatedFile) {
-          // Link the file to this achievement
-          await prisma.evidence.update({
-            where: { id: relatedFile.id },
-            data: { linkedAchievementId: updated.id },
-          })
-
-          // Update the achievement record with all three file fields from the Evidence record
-          await (model as any).update({
-            where: { id: updated.id },
-            data: {
-              attachment: relatedFile.url,
-              fileUrl: relatedFile.url,
-              fileKey: relatedFile.fileKey,
-            },
-          })
-        }
-      } catch (error) {
-        console.error("Error linking files to achievement during update:", error)
-        // Don't fail the request if file linking fails
-      }
+    // المرفقات: attachmentIds هي القائمة الكاملة بعد التعديل، وما أُزيل يصبح يتيماً (lib/attachments.ts)
+    const type = isAchievementType(resourceKey) ? resourceKey : null
+    const attachmentIds = parseAttachmentIds(body.attachmentIds)
+    if (attachmentIds === null || (attachmentIds?.length && !type)) {
+      return NextResponse.json({ error: "attachmentIds must be a list of this achievement's uploaded files" }, { status: 400 })
+    }
+    if (type && attachmentIds) {
+      const attachmentError = await checkAttachments(prisma, { appraisalId, type, achievementId: itemId, evidenceIds: attachmentIds })
+      if (attachmentError) return NextResponse.json({ error: attachmentError }, { status: 400 })
     }
 
-    // Handle file removal - unlink files if file was removed
-    if (hasRemovedFile && (resourceKey === "awards" || resourceKey === "research" || resourceKey === "scientific" || resourceKey === "university" || resourceKey === "community")) {
-      try {
-        // Find linked evidence files for this achievement
-        const linkedFiles = await prisma.evidence.findMany({
-          where: {
-            linkedAchievementId: updated.id,
-            achievementType: resourceKey,
-          },
-        })
+    // تعديل إنجاز متحقق منه يعيده إلى غير متحقق حتى يراجعه المقيّم مجدداً
+    if (type && item.verificationStatus === 'VERIFIED') data.verificationStatus = 'UNVERIFIED'
 
-        // Unlink each file from this achievement
-        for (const file of linkedFiles) {
-          await prisma.evidence.update({
-            where: { id: file.id },
-            data: {
-              linkedAchievementId: null,
-              appraisalId: appraisalId, // Keep file in the appraisal but unlinked
-            },
-          })
-        }
-      } catch (error) {
-        console.error("Error unlinking files during update:", error)
-        // Don't fail the request if file unlinking fails
-      }
-    }
+    const updated = await (model as any).update({ where: { id: itemId }, data })
+    if (!type) return NextResponse.json(updated)
 
-    return NextResponse.json(updated)
+    if (attachmentIds) {
+      await setAttachments(prisma, { appraisalId, type, achievementId: itemId, evidenceIds: attachmentIds })
+    }
+    const withAttachments = await (model as any).findUnique({ where: { id: itemId }, ...WITH_VERIFICATION })
+    return NextResponse.json(withAttachmentLinks(withAttachments))
   } catch (e) {
     console.error(e)
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
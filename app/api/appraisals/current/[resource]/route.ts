@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
+import { isAchievementType, withAttachmentLinks } from "@/lib/evidence";
+import { checkAttachments, parseAttachmentIds, setAttachments } from "@/lib/attachments";
+import { VERIFICATION_FIELDS, WITH_VERIFICATION } from "@/lib/verification-status";
 
 type ResKey = "awards" | "courses" | "research" | "scientific" | "university" | "community" | "achievements";
 
@@ -22,6 +26,10 @@ function sanitizePayload(resource: ResKey, body: Record<string, any>) {
   delete (b as any).appraisalId;
   delete (b as any).createdAt;
   delete (b as any).updatedAt;
+  delete (b as any).attachments;
+  delete (b as any).attachmentIds;
+  // التحقق يضعه المقيّم فقط (lib/verification.ts)، ولا يُنسخ مع الإنجاز المكرر
+  for (const k of VERIFICATION_FIELDS) delete (b as any)[k];
 
   const dateKeys = [
     "date", "dateFrom", "dateTo", "dateObtained", "publicationDate"
@@ -98,6 +106,8 @@ export async function POST(req: NextRequest, { params }: { params: { resource: s
     const session = await getServerSession(authOptions);
     const user = session?.user as any;
     if (!user) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const auth = await authorizeRequest(session, "update", "appraisal");
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
     const resource = (await params).resource;
     if (!isAllowedResource(resource)) {
@@ -130,49 +140,39 @@ export async function POST(req: NextRequest, { params }: { params: { resource: s
     const payload = await req.json().catch(() => ({}));
     const data = sanitizePayload(resource, payload);
 
+    // المرفقات رُفعت مسبقاً (/api/upload) وتُربط بالإنجاز هنا (lib/attachments.ts)
+    const type = isAchievementType(resource) ? resource : null;
+    const attachmentIds = parseAttachmentIds(payload.attachmentIds);
+    if (attachmentIds === null || (attachmentIds?.length && !type)) {
+      return NextResponse.json({ error: "attachmentIds must be a list of this achievement's uploaded files" }, { status: 400 });
+    }
+    if (type && attachmentIds) {
+      const attachmentError = await checkAttachments(prisma, {
+        appraisalId: appraisal.id,
+        type,
+        achievementId: null,
+        evidenceIds: attachmentIds,
+      });
+      if (attachmentError) return NextResponse.json({ error: attachmentError }, { status: 400 });
+    }
+
     const delegate = delegateByResource(resource);
     const created = await (delegate as any).create({
       data: { ...data, appraisalId: appraisal.id },
     });
-
-    // Link uploaded files from Evidence table to the newly created achievement
-    if (resource === "awards" || resource === "research" || resource === "scientific" || resource === "university" || resource === "community") {
-      try {
-        // Find unlinked evidence files for this achievement type and appraisal
-        const relatedFiles = await prisma.evidence.findMany({
-          where: {
-            appraisalId: appraisal.id,
-            achievementType: resource, // resource matches achievementType (awards, research, etc.)
-            linkedAchievementId: null, // Only unlinked files
-          },
-        });
-
-        // Link each file to the newly created achievement
-        for (const file of relatedFiles) {
-          await prisma.evidence.update({
-            where: { id: file.id },
-            data: { linkedAchievementId: created.id },
-          });
-
-          // Also update the achievement record with file information
-          if (created.attachment !== file.url) {
-            await (delegate as any).update({
-              where: { id: created.id },
-              data: {
-                attachment: file.url,
-                fileUrl: file.url,
-                fileKey: file.fileKey,
-              },
-            });
-          }
-        }
-      } catch (error) {
-        console.error("Error linking files to achievement:", error);
-        // Don't fail the request if file linking fails
-      }
+    if (!type) return NextResponse.json(created, { status: 201 });
+
+    if (attachmentIds) {
+      await setAttachments(prisma, {
+        appraisalId: appraisal.id,
+        type,
+        achievementId: created.id,
+        evidenceIds: attachmentIds,
+      });
     }
+    const withAttachments = await (delegate as any).findUnique({ where: { id: created.id }, ...WITH_VERIFICATION });
 
-    return NextResponse.json(created, { status: 201 });
+    return NextResponse.json(withAttachmentLinks(withAttachments), { status: 201 });
   } catch (e: any) {
     console.error(e);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-import { EvaluationStatus } from "@prisma/client";
+import { authorizeRequest } from "@/lib/permissions";
+import { fileAppeal } from "@/lib/appeals";
 
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = session?.user;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    const auth = await authorizeRequest(session, "create", "appeal");
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
     const body = await req.json().catch(() => ({}));
     const { appraisalId, message } = body;
@@ -19,47 +21,27 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Appraisal ID is required" }, { status: 400 });
     }
 
-    // Verify the user has access to this appraisal
-    const appraisal = await prisma.appraisal.findUnique({
-      where: { id: parseInt(appraisalId) },
-      include: { faculty: true }
+    // Owner-only, from "released" within the cycle's appeal window; the appeal row is created in the same transaction
+    const result = await fileAppeal({
+      appraisalId: parseInt(appraisalId),
+      user,
+      message: message || "No message provided",
+      req,
     });
 
-    if (!appraisal) {
-      return NextResponse.json({ error: "Appraisal not found" }, { status: 404 });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Check if user can appeal this appraisal
-    if (user.role === 'HOD' && appraisal.facultyId !== parseInt(user.id)) {
-      return NextResponse.json({ error: "You can only appeal your own appraisals" }, { status: 403 });
-    }
-
-    // Create appeal record
-    const appeal = await prisma.appeal.create({
-      data: {
-        appraisalId: parseInt(appraisalId),
-        byUserId: parseInt(user.id),
-        message: message || "No message provided"
-      }
-    });
-
-    // Update appraisal status to returned
-    const updatedAppraisal = await prisma.appraisal.update({
-      where: { id: parseInt(appraisalId) },
-      data: {
-        status: EvaluationStatus.returned
-      }
-    });
-
     return NextResponse.json({
       success: true,
       message: "Appeal submitted successfully",
-      appeal,
-      appraisal: updatedAppraisal
+      appeal: result.appeal,
+      appraisal: result.appraisal
     });
 
   } catch (error) {
     console.error("Error submitting appeal:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
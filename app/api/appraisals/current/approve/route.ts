@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
-import { prisma } from "@/lib/prisma";
-import { EvaluationStatus } from "@prisma/client";
+import { logAudit } from "@/lib/audit";
+import { transitionAppraisal } from "@/lib/workflow";
 
 export async function POST(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
-    const user = session?.user as any;
+    const user = session?.user;
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -19,38 +19,34 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "Appraisal ID is required" }, { status: 400 });
     }
 
-    // Verify the user has access to this appraisal
-    const appraisal = await prisma.appraisal.findUnique({
-      where: { id: parseInt(appraisalId) },
-      include: { faculty: true }
+    // Only the appraisal owner can approve, and only once scores were sent
+    const result = await transitionAppraisal({
+      appraisalId: parseInt(appraisalId),
+      action: "approve",
+      user,
     });
 
-    if (!appraisal) {
-      return NextResponse.json({ error: "Appraisal not found" }, { status: 404 });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Check if user can approve this appraisal
-    if (user.role === 'HOD' && appraisal.facultyId !== parseInt(user.id)) {
-      return NextResponse.json({ error: "You can only approve your own appraisals" }, { status: 403 });
-    }
-
-    // Update appraisal status to complete
-    const updatedAppraisal = await prisma.appraisal.update({
-      where: { id: parseInt(appraisalId) },
-      data: {
-        status: EvaluationStatus.complete,
-        deanReviewedAt: new Date()
-      }
+    await logAudit({
+      actor: user,
+      action: "APPRAISAL_APPROVE",
+      target: { type: "appraisal", id: result.appraisal.id },
+      before: { status: result.from },
+      after: { status: result.to },
+      req,
     });
 
     return NextResponse.json({
       success: true,
       message: "Appraisal approved successfully",
-      appraisal: updatedAppraisal
+      appraisal: result.appraisal
     });
 
   } catch (error) {
     console.error("Error approving appraisal:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { authorizeRequest } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
+import { withAttachmentLinks } from "@/lib/evidence";
+import { WITH_VERIFICATION } from "@/lib/verification-status";
 
 export async function GET(req: NextRequest) {
   try {
@@ -10,6 +13,8 @@ export async function GET(req: NextRequest) {
     if (!user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    const auth = await authorizeRequest(session, "update", "appraisal");
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
 
     // Optional: ?cycleId=<number> to target a specific cycle; else use active cycle
     const { searchParams } = new URL(req.url);
@@ -56,12 +61,12 @@ export async function GET(req: NextRequest) {
       university,
       community,
     ] = await Promise.all([
-      prisma.award.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
+      prisma.award.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" }, ...WITH_VERIFICATION }),
       prisma.courseTaught.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
-      prisma.researchActivity.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
-      prisma.scientificActivity.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
-      prisma.universityService.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
-      prisma.communityService.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" } }),
+      prisma.researchActivity.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" }, ...WITH_VERIFICATION }),
+      prisma.scientificActivity.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" }, ...WITH_VERIFICATION }),
+      prisma.universityService.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" }, ...WITH_VERIFICATION }),
+      prisma.communityService.findMany({ where: { appraisalId: appraisal.id }, orderBy: { id: "desc" }, ...WITH_VERIFICATION }),
     ]);
 
     // Include a compact appraisal summary
@@ -79,12 +84,12 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
         appraisalId: appraisal.id,
-        awards,
+        awards: awards.map(withAttachmentLinks),
         courses,
-        research,
-        scientific,
-        university,
-        community,
+        research: research.map(withAttachmentLinks),
+        scientific: scientific.map(withAttachmentLinks),
+        university: university.map(withAttachmentLinks),
+        community: community.map(withAttachmentLinks),
       });
   } catch (err) {
     console.error(err);
@@ -2,8 +2,10 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { UserRole, EvaluationStatus } from "@prisma/client"
-import { getUserContext, canViewDepartmentAppraisals, canViewCollegeAppraisals, canViewOwnAppraisal } from "@/lib/permissions"
+import { EvaluationStatus } from "@prisma/client"
+import { getUserContext } from "@/lib/permissions"
+import { withEvidenceLinks, WITH_ATTACHMENTS } from "@/lib/evidence"
+import { can, ownerWhere } from "@/lib/policy"
 
 export async function GET(request: NextRequest) {
   try {
@@ -31,37 +33,12 @@ export async function GET(request: NextRequest) {
       where.facultyId = parseInt(facultyId)
     }
 
-    // Apply role-based filtering
-    if (user.role === UserRole.ADMIN) {
-      // Admin can see all
-    } else if (user.role === UserRole.DEAN) {
-      // Dean can see HOD appraisals in their college
-      where.faculty = {
-        role: UserRole.HOD,
-        department: {
-          college: {
-            departments: {
-              some: {
-                users: {
-                  some: {
-                    id: parseInt(user.id)
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
-    } else if (user.role === UserRole.HOD) {
-      // HOD can see instructor appraisals in their department
-      where.faculty = {
-        role: UserRole.INSTRUCTOR,
-        departmentId: parseInt(user.departmentId!)
-      }
-    } else if (user.role === UserRole.INSTRUCTOR) {
-      // Instructor can only see their own
-      where.facultyId = parseInt(user.id)
+    // نطاق القراءة من السياسة: صاحبها، القسم، الكلية أو الكل حسب الدور
+    const faculty = ownerWhere(user, "read", "appraisal")
+    if (!faculty) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
+    where.faculty = faculty
 
     const appraisals = await prisma.appraisal.findMany({
       where,
@@ -81,12 +58,12 @@ export async function GET(request: NextRequest) {
             behaviorRatings: true
           }
         },
-        awards: true,
+        awards: WITH_ATTACHMENTS,
         courses: true,
-        researchActivities: true,
-        scientificActivities: true,
-        universityServices: true,
-        communityServices: true,
+        researchActivities: WITH_ATTACHMENTS,
+        scientificActivities: WITH_ATTACHMENTS,
+        universityServices: WITH_ATTACHMENTS,
+        communityServices: WITH_ATTACHMENTS,
         evidences: true,
         appeals: true,
         signatures: true,
@@ -107,7 +84,7 @@ export async function GET(request: NextRequest) {
       }
     })
 
-    return NextResponse.json(appraisals)
+    return NextResponse.json(appraisals.map(withEvidenceLinks))
   } catch (error) {
     console.error("Error fetching appraisals:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
@@ -126,9 +103,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 401 })
     }
 
-    // Only instructors can create their own appraisals
-    if (user.role !== UserRole.INSTRUCTOR) {
-      return NextResponse.json({ error: "Only instructors can create appraisals" }, { status: 403 })
+    // Faculty members create their own appraisals only
+    if (!can(user, "create", "appraisal", user)) {
+      return NextResponse.json({ error: "You cannot create an appraisal" }, { status: 403 })
     }
 
     const { cycleId } = await request.json()
@@ -140,7 +117,7 @@ export async function POST(request: NextRequest) {
     // Check if appraisal already exists
     const existing = await prisma.appraisal.findFirst({
       where: {
-        facultyId: parseInt(user.id),
+        facultyId: user.id,
         cycleId: parseInt(cycleId)
       }
     })
@@ -151,7 +128,7 @@ export async function POST(request: NextRequest) {
 
     const appraisal = await prisma.appraisal.create({
       data: {
-        facultyId: parseInt(user.id),
+        facultyId: user.id,
         cycleId: parseInt(cycleId),
         status: EvaluationStatus.NEW,
       },
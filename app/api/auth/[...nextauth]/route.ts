@@ -1,6 +1,10 @@
 import NextAuth from "next-auth"
-import { authOptions } from "@/lib/auth"
+import type { NextRequest } from "next/server"
+import { getAuthOptions } from "@/lib/auth"
 
-const handler = NextAuth(authOptions)
+// الخيارات تُبنى لكل طلب حتى يتبع maxAge مدة الجلسة المحفوظة في الإعدادات ويصل الطلب لسجل الدخول
+async function handler(req: NextRequest, ctx: { params: Promise<{ nextauth: string[] }> }) {
+  return NextAuth(req, ctx, await getAuthOptions(req))
+}
 
 export { handler as GET, handler as POST }
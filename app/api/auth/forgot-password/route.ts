@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { RESET_REQUESTED_MESSAGE, requestPasswordReset } from "@/lib/password-reset";
+
+const Body = z.object({
+  email: z.string().trim().email("Enter a valid email address").max(200),
+});
+
+// POST: الخطوة الأولى — إرسال رابط الاستعادة؛ نفس الرد سواء وُجد البريد أم لا
+export async function POST(req: Request) {
+  try {
+    const parsed = Body.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 });
+    }
+
+    const result = await requestPasswordReset(parsed.data.email, req);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers: result.retryAfterSeconds ? { "Retry-After": String(result.retryAfterSeconds) } : undefined },
+      );
+    }
+
+    return NextResponse.json({ message: RESET_REQUESTED_MESSAGE });
+  } catch (e) {
+    console.error("Error requesting password reset:", e);
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
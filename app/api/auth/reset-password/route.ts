@@ -1,28 +1,31 @@
-import { prisma } from "@/lib/prisma";
-import bcrypt from "bcryptjs";
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import { resetPassword } from "@/lib/password-reset";
 
+const Body = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: z.string().min(1, "New password is required").max(200),
+});
+
+// POST: الخطوة الثانية — تعيين كلمة المرور برمز الرابط
 export async function POST(req: Request) {
   try {
-    const { email, newPassword } = await req.json();
-
-    const user = await prisma.user.findUnique({
-      where: { email },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: "Email not found" }, { status: 404 });
+    const parsed = Body.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid request" }, { status: 400 });
     }
 
-    const hashed = await bcrypt.hash(newPassword, 10);
-
-    await prisma.user.update({
-      where: { email },
-      data: { passwordHash: hashed }, // ensure your field is correct
-    });
+    const result = await resetPassword(parsed.data.token, parsed.data.newPassword, req);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status, headers: result.retryAfterSeconds ? { "Retry-After": String(result.retryAfterSeconds) } : undefined },
+      );
+    }
 
     return NextResponse.json({ message: "Password updated successfully" });
   } catch (e) {
+    console.error("Error resetting password:", e);
     return NextResponse.json({ error: "Server error" }, { status: 500 });
   }
 }
@@ -0,0 +1,19 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { escalateOverdueAppeals } from "@/lib/appeals"
+
+// يستدعيه Vercel Cron (vercel.json) كل ساعة مع Authorization: Bearer $CRON_SECRET
+// حتى يحدث التصعيد بعد انتهاء المهلة دون أن يفتح أحد قوائم التظلّمات
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const events = await escalateOverdueAppeals()
+    return NextResponse.json({ escalated: events.length, events })
+  } catch (error) {
+    console.error("Error escalating appeals:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
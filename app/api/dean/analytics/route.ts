@@ -1,49 +1,50 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireDean } from '@/lib/auth-utils'
-import { EvaluationStatus } from '@prisma/client'
+import { getSession } from '@/lib/auth-utils'
+import { authorizeRequest } from '@/lib/permissions'
+import { ownerWhere } from '@/lib/policy'
+import { EvaluationStatus, type Prisma } from '@prisma/client'
 
 export async function GET(req: Request) {
   try {
-    const dean = await requireDean()
+    const auth = await authorizeRequest(await getSession(), 'read', 'report')
+    if (!auth.ok) {
+      return new NextResponse(auth.error, { status: auth.status })
+    }
     const { searchParams } = new URL(req.url)
     const cycleIdParam = searchParams.get('cycleId')
 
-    const me = await prisma.user.findUnique({
-      where: { id: Number(dean.id) },
-      include: { department: { select: { id: true, name: true, collegeId: true } } },
-    })
-
-    // const collegeId = (me as any)?.collegeId ?? me?.department?.collegeId
-    const collegeId = me?.department?.collegeId
+    // تحليلات المدرّسين ضمن نطاق التقارير (الكلية للعميد)
+    const scope = ownerWhere(auth.actor, 'read', 'report')
     const cycles = await prisma.appraisalCycle.findMany({
       orderBy: [{ academicYear: 'desc' }],
     })
 
-    if (!collegeId) {
+    if (!scope) {
       return NextResponse.json({
         cycles,
-        kpis: { avgTotal: 0, completionRate: 0, sentCount: 0, completeCount: 0, returnedCount: 0, total: 0 },
+        kpis: { avgTotal: 0, completionRate: 0, releasedCount: 0, completeCount: 0, returnedCount: 0, total: 0 },
         byDepartment: [],
         totalsTrend: [],
         sectionAverages: [],
       })
     }
 
+    const instructors: Prisma.UserWhereInput = { AND: [scope, { role: 'INSTRUCTOR' }] }
     const fallbackCycleId = cycles.find(c => c.isActive)?.id ?? cycles[0]?.id
     const cycleId = Number(cycleIdParam || fallbackCycleId)
 
     const departments = await prisma.department.findMany({
-      where: { collegeId: Number(collegeId) },
+      where: { users: { some: instructors } },
       select: { id: true, name: true },
     })
 
     const collegeApps = await prisma.appraisal.findMany({
-      where: { cycleId, faculty: { role: 'INSTRUCTOR', department: { collegeId: Number(collegeId) } } },
+      where: { cycleId, faculty: instructors },
       select: { totalScore: true, status: true },
     })
     const total = collegeApps.length
-    const sentCount = collegeApps.filter(a => a.status === EvaluationStatus.sent).length
+    const releasedCount = collegeApps.filter(a => a.status === EvaluationStatus.released).length
     const completeCount = collegeApps.filter(a => a.status === EvaluationStatus.complete).length
     const returnedCount = collegeApps.filter(a => a.status === EvaluationStatus.returned).length
     const completionRate = total ? completeCount / total : 0
@@ -52,7 +53,7 @@ export async function GET(req: Request) {
     const byDepartment = await Promise.all(
       departments.map(async d => {
         const apps = await prisma.appraisal.findMany({
-          where: { cycleId, faculty: { role: 'INSTRUCTOR', departmentId: d.id } },
+          where: { cycleId, faculty: { AND: [instructors, { departmentId: d.id }] } },
           select: { totalScore: true, status: true },
         })
         const deptTotal = apps.length
@@ -69,7 +70,7 @@ export async function GET(req: Request) {
     const evals = await prisma.evaluation.findMany({
       where: {
         role: 'HOD',
-        appraisal: { cycleId, faculty: { role: 'INSTRUCTOR', department: { collegeId: Number(collegeId) } } },
+        appraisal: { cycleId, faculty: instructors },
       },
       select: {
         researchPts: true,
@@ -89,7 +90,7 @@ export async function GET(req: Request) {
     const totalsTrend = await Promise.all(
       trendCycles.map(async c => {
         const apps = await prisma.appraisal.findMany({
-          where: { cycleId: c.id, faculty: { role: 'INSTRUCTOR', department: { collegeId: Number(collegeId) } } },
+          where: { cycleId: c.id, faculty: instructors },
           select: { totalScore: true },
         })
         return { label: `${c.academicYear}`, avgTotal: avg(apps.map(x => x.totalScore ?? 0)) }
@@ -98,7 +99,7 @@ export async function GET(req: Request) {
 
     return NextResponse.json({
       cycles,
-      kpis: { avgTotal, completionRate, sentCount, completeCount, returnedCount, total },
+      kpis: { avgTotal, completionRate, releasedCount, completeCount, returnedCount, total },
       byDepartment,
       totalsTrend,
       sectionAverages,
@@ -1,47 +1,41 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/auth-utils'
+import { authorizeRequest } from '@/lib/permissions'
+import { ownerWhere } from '@/lib/policy'
 import type { Prisma, EvaluationStatus, UserRole } from '@prisma/client'
 import { EvaluationStatus as EvalEnum, UserRole as RoleEnum } from '@prisma/client'
 
 export async function GET(request: Request) {
   try {
-    const session = await getSession()
-    const role = session?.user?.role as UserRole | undefined
-    if (!session?.user || !(role === RoleEnum.DEAN || role === RoleEnum.ADMIN)) {
-      return new NextResponse('Unauthorized', { status: 401 })
+    // التقييمات التي يعتمدها المستخدم: قاعدة appraisal.review (الكلية للعميد، الكل للمدير)
+    const auth = await authorizeRequest(await getSession(), 'review', 'appraisal')
+    if (!auth.ok) {
+      return new NextResponse(auth.error, { status: auth.status })
     }
 
     const { searchParams } = new URL(request.url)
     const cycleIdParam = searchParams.get('cycleId')
     const search = searchParams.get('search') || ''
     const statusParam = searchParams.get('status')
+    // رؤساء الأقسام يقيّمهم العميد، والمدرّسون يعرضون للاعتماد بعد مراجعة رئيس القسم
+    const facultyRole: UserRole = searchParams.get('facultyRole') === 'INSTRUCTOR' ? RoleEnum.INSTRUCTOR : RoleEnum.HOD
 
     const validStatuses = new Set<string>(Object.values(EvalEnum) as unknown as string[])
     const status: EvaluationStatus | undefined =
       statusParam && validStatuses.has(statusParam) ? (statusParam as EvaluationStatus) : undefined
 
-const me = await prisma.user.findUnique({
-  where: { id: Number(session.user.id) },
-  include: { department: true, college: true },
-})
-
-const collegeId =
-  me?.collegeId ??
-  me?.college?.id ??
-  me?.department?.collegeId
-
     const cycles = await prisma.appraisalCycle.findMany({
       orderBy: [{ academicYear: 'desc' }],
     })
-    if (!collegeId) {
+    const scope = ownerWhere(auth.actor, 'review', 'appraisal')
+    if (!scope) {
       return NextResponse.json({ appraisals: [], cycles })
     }
 
     const where: Prisma.AppraisalWhereInput = {
       faculty: {
-        role: 'HOD',
-        department: { collegeId: Number(collegeId) },
+        AND: [scope, { role: facultyRole }],
         ...(search ? { name: { contains: search, mode: 'insensitive' } } : {}),
       },
       ...(cycleIdParam ? { cycleId: Number(cycleIdParam) } : {}),
@@ -1,34 +1,29 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getSession } from '@/lib/auth-utils'
-import { UserRole, Prisma } from '@prisma/client'
+import { authorizeRequest } from '@/lib/permissions'
+import { ownerWhere } from '@/lib/policy'
+import { Prisma } from '@prisma/client'
 
 export async function GET(request: Request) {
   try {
-    const session = await getSession()
-    if (!session?.user || (session.user.role !== UserRole.DEAN && session.user.role !== UserRole.ADMIN)) {
-      return new NextResponse('Unauthorized', { status: 401 })
+    const auth = await authorizeRequest(await getSession(), 'read', 'report')
+    if (!auth.ok) {
+      return new NextResponse(auth.error, { status: auth.status })
     }
 
     const { searchParams } = new URL(request.url)
     const cycleIdParam = searchParams.get('cycleId')
     const departmentIdParam = searchParams.get('departmentId')
 
-const me = await prisma.user.findUnique({
-  where: { id: Number(session.user.id) },
-  include: { department: true, college: true },
-})
-
-const collegeId =
-  me?.collegeId ??
-  me?.college?.id ??
-  me?.department?.collegeId
+    // نطاق التقارير من السياسة: كلية العميد، أو كل الكليات للمدير
+    const scope = ownerWhere(auth.actor, 'read', 'report')
 
     // cycles list (do NOT use startDate)
     const cycles = await prisma.appraisalCycle.findMany({
       orderBy: [{ academicYear: 'desc' }],
     })
-    if (!collegeId || !cycles.length) {
+    if (!scope || !cycles.length) {
       return NextResponse.json({
         kpis: {},
         charts: { byStatus: [], byDepartment: [] },
@@ -54,11 +49,8 @@ const collegeId =
     const where: Prisma.AppraisalWhereInput = {
       cycleId: targetCycle.id,
       faculty: {
-        role: 'HOD',
-        department: {
-          collegeId: Number(collegeId),
-          ...(departmentIdParam ? { id: Number(departmentIdParam) } : {})
-        }
+        AND: [scope, { role: 'HOD' }],
+        ...(departmentIdParam ? { departmentId: Number(departmentIdParam) } : {})
       }
     }
 
@@ -98,7 +90,7 @@ const collegeId =
       where: {
         appraisal: {
           cycleId: targetCycle.id,
-          faculty: { role: 'HOD', department: { collegeId: Number(collegeId) } }
+          faculty: { AND: [scope, { role: 'HOD' }] }
         }
       },
       include: { appraisal: { include: { faculty: true } } },
@@ -106,9 +98,9 @@ const collegeId =
       take: 5
     })
 
-    // 7) filters: departments in this college
+    // 7) filters: departments with faculty in scope
     const departments = await prisma.department.findMany({
-      where: { collegeId: Number(collegeId) },
+      where: { users: { some: scope } },
       orderBy: { name: 'asc' }
     })
 
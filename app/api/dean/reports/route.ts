@@ -1,13 +1,14 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth-utils';
-import { UserRole } from '@prisma/client';
+import { authorizeRequest } from '@/lib/permissions';
+import { ownerWhere } from '@/lib/policy';
 
 export async function GET(request: Request) {
     try {
-        const session = await getSession();
-        if (!session?.user || (session.user.role !== UserRole.DEAN && session.user.role !== UserRole.ADMIN)) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        const auth = await authorizeRequest(await getSession(), 'read', 'report');
+        if (!auth.ok) {
+            return new NextResponse(auth.error, { status: auth.status });
         }
 
         const { searchParams } = new URL(request.url);
@@ -19,20 +20,18 @@ export async function GET(request: Request) {
             return new NextResponse('Cycle ID is required', { status: 400 });
         }
 
-        const userWithDept = await prisma.user.findUnique({ where: { id: parseInt(session.user.id) }, include: { department: true } });
-        if (!userWithDept?.department?.collegeId) {
+        // نطاق التقارير من السياسة؛ فلتر القسم يضيّق النطاق ولا يتجاوزه
+        const scope = ownerWhere(auth.actor, 'read', 'report');
+        if (!scope) {
             return NextResponse.json({ message: 'No data available.' });
         }
-        const collegeId = userWithDept.department.collegeId;
-
-        const departmentFilter = departmentId ? { id: parseInt(departmentId) } : { collegeId };
 
         const appraisals = await prisma.appraisal.findMany({
             where: {
                 cycleId: parseInt(cycleId),
                 faculty: {
-                    role: 'HOD',
-                    department: departmentFilter,
+                    AND: [scope, { role: 'HOD' }],
+                    ...(departmentId ? { departmentId: parseInt(departmentId) } : {}),
                 }
             },
             include: { faculty: { include: { department: true } } }
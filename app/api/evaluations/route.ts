@@ -2,8 +2,12 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { UserRole, EvaluationStatus, EvaluationRole } from "@prisma/client"
-import { getUserContext, canEvaluateAppraisal } from "@/lib/permissions"
+import { EvaluationRole } from "@prisma/client"
+import { authorizeRequest } from "@/lib/permissions"
+import { assertEvaluatorAccess } from "@/lib/eval-access"
+import { transitionAppraisal, type WorkflowAction } from "@/lib/workflow"
+import { saveComputedScores, type Pillar } from "@/lib/score-history"
+import { evaluationLockReason } from "@/lib/signatures"
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,40 +16,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const user = await getUserContext(session)
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 401 })
-    }
-
     const { appraisalId, role, researchPts, universityServicePts, communityServicePts, teachingQualityPts, notes, behaviorRatings } = await request.json()
 
     if (!appraisalId || !role) {
       return NextResponse.json({ error: "Appraisal ID and role are required" }, { status: 400 })
     }
 
-    // Get the appraisal to check permissions
-    const appraisal = await prisma.appraisal.findUnique({
-      where: { id: parseInt(appraisalId) },
-      include: {
-        faculty: {
-          include: {
-            department: {
-              include: {
-                college: true
-              }
-            }
-          }
-        }
-      }
-    })
-
-    if (!appraisal) {
-      return NextResponse.json({ error: "Appraisal not found" }, { status: 404 })
+    // Check if user can evaluate this appraisal (appraisal.evaluate) and with which evaluation role
+    const access = await assertEvaluatorAccess(parseInt(appraisalId), session.user)
+    if (!access.ok) {
+      return NextResponse.json({ error: access.status === 403 ? "You don't have permission to evaluate this appraisal" : access.error }, { status: access.status })
+    }
+    if (role !== access.evaluatorRole) {
+      return NextResponse.json({ error: `You can only record the ${access.evaluatorRole} evaluation for this appraisal` }, { status: 403 })
     }
+    const { appraisal } = access
 
-    // Check if user can evaluate this appraisal
-    if (!canEvaluateAppraisal(user, appraisal)) {
-      return NextResponse.json({ error: "You don't have permission to evaluate this appraisal" }, { status: 403 })
+    const locked = await evaluationLockReason(appraisal.id)
+    if (locked) {
+      return NextResponse.json({ error: locked }, { status: 409 })
     }
 
     // Check if evaluation already exists
@@ -58,12 +47,8 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // الدرجات تمر عبر saveComputedScores (تحفظ السجل وتحترم أي تجاوز قائم)
     const evaluationData = {
-      researchPts: researchPts || null,
-      universityServicePts: universityServicePts || null,
-      communityServicePts: communityServicePts || null,
-      teachingQualityPts: teachingQualityPts || null,
-      totalScore: (researchPts || 0) + (universityServicePts || 0) + (communityServicePts || 0) + (teachingQualityPts || 0),
       notes: notes || null,
       submittedAt: new Date(),
     }
@@ -130,13 +115,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Update appraisal status to sent if it was new
-    if (appraisal.status === EvaluationStatus.new) {
-      await prisma.appraisal.update({
-        where: { id: parseInt(appraisalId) },
-        data: { status: EvaluationStatus.sent }
-      })
+    const submitted: Record<string, unknown> = {
+      research: researchPts,
+      universityService: universityServicePts,
+      communityService: communityServicePts,
+      teachingQuality: teachingQualityPts,
     }
+    const scores = Object.fromEntries(
+      Object.entries(submitted).filter(([, v]) => typeof v === "number")
+    ) as Partial<Record<Pillar, number>>
+    const { after } = await saveComputedScores({
+      appraisalId: parseInt(appraisalId),
+      role: role as EvaluationRole,
+      actorId: access.actor.id,
+      scores,
+    })
+    evaluation = await prisma.evaluation.update({
+      where: { id: after.id },
+      data: {
+        totalScore: (after.researchPts ?? 0) + (after.universityServicePts ?? 0) + (after.communityServicePts ?? 0) + (after.teachingQualityPts ?? 0),
+      },
+      include: { behaviorRatings: true },
+    })
 
     return NextResponse.json(evaluation, { status: 201 })
   } catch (error) {
@@ -152,9 +152,10 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const user = await getUserContext(session)
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 401 })
+    // المرحلة والنطاق يتحقق منهما سير العمل (resolveActors)
+    const auth = await authorizeRequest(session, "review", "appraisal")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { appraisalId, role, action } = await request.json()
@@ -163,55 +164,28 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "Appraisal ID, role, and action are required" }, { status: 400 })
     }
 
-    // Get the appraisal
-    const appraisal = await prisma.appraisal.findUnique({
-      where: { id: parseInt(appraisalId) },
-      include: {
-        faculty: {
-          include: {
-            department: {
-              include: {
-                college: true
-              }
-            }
-          }
-        }
-      }
-    })
-
-    if (!appraisal) {
-      return NextResponse.json({ error: "Appraisal not found" }, { status: 404 })
-    }
-
-    // Check permissions
-    if (!canEvaluateAppraisal(user, appraisal)) {
-      return NextResponse.json({ error: "You don't have permission to perform this action" }, { status: 403 })
+    // "review" closes the evaluator's stage; "send_scores" releases the final scores to the faculty member
+    const workflowAction: WorkflowAction | null =
+      action === 'review' ? (role === 'DEAN' ? 'dean_review' : 'hod_review')
+      : action === 'send_scores' ? 'send_scores'
+      : null
+    if (!workflowAction) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 })
     }
 
-    let newStatus: EvaluationStatus
-
-    if (action === 'send_scores') {
-      newStatus = EvaluationStatus.sent
-      // Update the appraisal with reviewer timestamps
-      const updateData: any = {}
-      if (role === EvaluationRole.HOD) {
-        updateData.hodReviewedAt = new Date()
-      } else if (role === EvaluationRole.DEAN) {
-        updateData.deanReviewedAt = new Date()
-      }
+    // Permissions, score completeness and reviewer timestamps are handled by the workflow
+    const result = await transitionAppraisal({
+      appraisalId: parseInt(appraisalId),
+      action: workflowAction,
+      user: session.user,
+    })
 
-      await prisma.appraisal.update({
-        where: { id: parseInt(appraisalId) },
-        data: updateData
-      })
-    } else {
-      return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
     }
 
-    // Update appraisal status
-    const updatedAppraisal = await prisma.appraisal.update({
+    const updatedAppraisal = await prisma.appraisal.findUnique({
       where: { id: parseInt(appraisalId) },
-      data: { status: newStatus },
       include: {
         faculty: {
           include: {
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { authorizeAppraisal } from "@/lib/permissions"
+import { logAudit } from "@/lib/audit"
+import { parseDataUrl, readFile, type StoredFile } from "@/lib/storage"
+
+// ملفات رُفعت قبل مشغّلات التخزين: روابط Vercel Blob العامة تُجلب من الخادم ولا تُكشف للمتصفح
+const LEGACY_BLOB_HOST = /\.public\.blob\.vercel-storage\.com$/
+
+async function loadFile(evidence: { fileKey: string | null; url: string | null }): Promise<StoredFile | null> {
+  if (evidence.fileKey) {
+    const file = await readFile(evidence.fileKey)
+    if (file) return file
+  }
+  if (!evidence.url) return null
+  if (evidence.url.startsWith("data:")) return parseDataUrl(evidence.url)
+
+  const url = URL.canParse(evidence.url) ? new URL(evidence.url) : null
+  if (url?.protocol !== "https:" || !LEGACY_BLOB_HOST.test(url.hostname)) return null
+  const res = await fetch(url)
+  if (!res.ok) return null
+  return {
+    body: Buffer.from(await res.arrayBuffer()),
+    contentType: res.headers.get("content-type") ?? "application/octet-stream",
+  }
+}
+
+// GET: تنزيل ملف دليل لصاحب الاستمارة ورئيس قسمه وعميده والمدير (appraisal.read في lib/policy.ts)، مع تسجيل كل تنزيل
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evidenceId = parseInt(id)
+    if (Number.isNaN(evidenceId)) {
+      return NextResponse.json({ error: "Invalid evidence id" }, { status: 400 })
+    }
+
+    const evidence = await prisma.evidence.findUnique({
+      where: { id: evidenceId },
+      select: { id: true, appraisalId: true, title: true, url: true, fileKey: true, scanStatus: true },
+    })
+    if (!evidence) {
+      return NextResponse.json({ error: "Evidence not found" }, { status: 404 })
+    }
+
+    const access = await authorizeAppraisal(session, evidence.appraisalId, "read")
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status })
+    }
+
+    // الملف محجوز حتى يجتاز فحص البرمجيات الخبيثة (lib/malware-scan.ts)
+    if (evidence.scanStatus === "INFECTED") {
+      return NextResponse.json({ error: "The file failed the virus scan and was removed" }, { status: 410 })
+    }
+    if (evidence.scanStatus !== "CLEAN") {
+      return NextResponse.json({ error: "The file is awaiting a virus scan. Please try again later." }, { status: 409 })
+    }
+
+    const file = await loadFile(evidence)
+    if (!file) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    await logAudit({
+      actor: access.user,
+      action: "EVIDENCE_DOWNLOAD",
+      target: { type: "evidence", id: evidence.id },
+      metadata: { appraisalId: evidence.appraisalId, title: evidence.title, ownerId: access.owner.id },
+      req: request,
+    })
+
+    const disposition = request.nextUrl.searchParams.get("download") === "1" ? "attachment" : "inline"
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.body.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(evidence.title)}`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Error downloading evidence:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -3,13 +3,14 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { UserRole } from "@prisma/client"
+import { authorizeRequest } from "@/lib/permissions"
 import jsPDF from 'jspdf'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(await getServerSession(authOptions), "read", "report")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { searchParams } = new URL(request.url)
@@ -20,13 +21,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Cycle ID is required" }, { status: 400 })
     }
 
-    // Get the current user ID
-    const userId = session.user.id
-
     // Fetch appraisal data for the current user and cycle
     const appraisal = await prisma.appraisal.findFirst({
       where: {
-        facultyId: parseInt(userId),
+        facultyId: auth.actor.id,
         cycleId: parseInt(cycleId),
       },
       include: {
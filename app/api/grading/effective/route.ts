@@ -1,58 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-import { prisma } from '@/lib/prisma'
+import { authorizeRequest } from '@/lib/permissions'
+import { bandPointsTable, getEffectiveGrading, getGradingForAppraisal } from '@/lib/grading'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorizeRequest(await getServerSession(authOptions), 'read', 'grading')
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
 
     const { searchParams } = new URL(request.url)
     const cycleId = searchParams.get('cycleId')
+    const appraisalId = searchParams.get('appraisalId')
 
-    if (!cycleId) {
-      return NextResponse.json({ error: 'cycleId is required' }, { status: 400 })
+    if (!cycleId && !appraisalId) {
+      return NextResponse.json({ error: 'cycleId or appraisalId is required' }, { status: 400 })
     }
 
-    // Get global config or cycle-specific config
-    const config = await prisma.gradingConfig.findFirst({
-      where: {
-        OR: [
-          { cycleId: parseInt(cycleId), scope: 'CYCLE' },
-          { scope: 'GLOBAL' }
-        ]
-      },
-      orderBy: [
-        { scope: 'desc' }, // CYCLE first, then GLOBAL
-        { updatedAt: 'desc' }
-      ]
-    })
-
-    if (!config) {
-      return NextResponse.json({ error: 'No grading config found' }, { status: 404 })
-    }
+    // Cycle-specific config first, then the global one, then built-in defaults
+    const grading = appraisalId
+      ? await getGradingForAppraisal(parseInt(appraisalId))
+      : await getEffectiveGrading(parseInt(cycleId!))
 
     return NextResponse.json({
-      id: config.id,
-      scope: config.scope,
-      cycleId: config.cycleId,
-      weights: {
-        research: config.researchWeight,
-        universityService: config.universityServiceWeight,
-        communityService: config.communityServiceWeight,
-        teaching: config.teachingQualityWeight
-      },
-      serviceParams: {
-        pointsPerItem: config.servicePointsPerItem,
-        maxPoints: config.serviceMaxPoints
-      },
-      teachingBands: config.teachingBands,
-      researchMap: config.researchMap,
-      updatedAt: config.updatedAt
+      ...grading,
+      bandPoints: bandPointsTable(grading),
     })
   } catch (error) {
     console.error('Error fetching effective grading config:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-}
\ No newline at end of file
+}
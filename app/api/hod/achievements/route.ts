@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { prisma } from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
+import { authorizeRequest } from '@/lib/permissions';
+import { ownerWhere } from '@/lib/policy';
 import { UserRole, EvaluationStatus } from '@prisma/client';
 
 // A helper to unify the shape of different achievement types
@@ -45,9 +47,9 @@ const transformAchievement = (item: any, type: string) => {
 
 export async function GET(request: Request) {
     try {
-        const session = await getServerSession(authOptions);
-        if (!session?.user || session.user.role !== UserRole.HOD) {
-            return new NextResponse('Unauthorized', { status: 401 });
+        const auth = await authorizeRequest(await getServerSession(authOptions), 'read', 'appraisal');
+        if (!auth.ok) {
+            return new NextResponse(auth.error, { status: auth.status });
         }
 
         const { searchParams } = new URL(request.url);
@@ -64,21 +66,16 @@ export async function GET(request: Request) {
             }
         }
 
-        // Get HOD's department ID
-        const hodUser = await prisma.user.findUnique({
-            where: { id: parseInt(session.user.id) },
-            select: { departmentId: true }
-        });
-
-        if (!hodUser?.departmentId) {
+        // إنجازات التقييمات ضمن نطاق القراءة في السياسة
+        const scope = ownerWhere(auth.actor, 'read', 'appraisal');
+        if (!scope) {
             return NextResponse.json({ achievements: [], types: [] });
         }
 
         // Build the base where clause for appraisals
         const appraisalWhereClause: any = {
             faculty: {
-                departmentId: hodUser.departmentId,
-                role: UserRole.INSTRUCTOR // Only instructors, not other HODs or deans
+                AND: [scope, { role: UserRole.INSTRUCTOR }] // Only instructors, not other HODs or deans
             },
             ...(status && { status })
         };
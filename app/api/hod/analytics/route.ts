@@ -1,17 +1,18 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { requireHOD } from '@/lib/auth-utils'
+import { getSession } from '@/lib/auth-utils'
+import { authorizeRequest } from '@/lib/permissions'
+import { ownerWhere } from '@/lib/policy'
 
 export async function GET(req: Request) {
-  const user = await requireHOD()
+  const auth = await authorizeRequest(await getSession(), 'read', 'report')
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
   const { searchParams } = new URL(req.url)
   const cycleIdParam = searchParams.get('cycleId')
 
-  const hod = await prisma.user.findUnique({
-    where: { id: Number(user.id) },
-    include: { department: true }
-  })
-  if (!hod?.departmentId) return NextResponse.json({ error: 'No department' }, { status: 400 })
+  // مدرّسو نطاق التقارير (القسم لرئيس القسم)
+  const scope = ownerWhere(auth.actor, 'read', 'report')
+  if (!scope) return NextResponse.json({ error: 'No department' }, { status: 400 })
 
   // cycles
   const cycles = await prisma.appraisalCycle.findMany({ orderBy: [{ academicYear: 'desc' }] })
@@ -20,7 +21,7 @@ export async function GET(req: Request) {
 
   // appraisals for department + cycle
   const appraisals = await prisma.appraisal.findMany({
-    where: { cycleId, faculty: { departmentId: hod.departmentId, role: 'INSTRUCTOR' } },
+    where: { cycleId, faculty: { AND: [scope, { role: 'INSTRUCTOR' }] } },
     include: {
       faculty: { select: { name: true } },
       evaluations: { where: { role: 'HOD' }, select: { researchPts: true, universityServicePts: true, communityServicePts: true, teachingQualityPts: true } }
@@ -28,7 +29,7 @@ export async function GET(req: Request) {
   })
 
   const total = appraisals.length
-  const sentCount = appraisals.filter(a => a.status === 'sent').length
+  const releasedCount = appraisals.filter(a => a.status === 'released').length
   const completeCount = appraisals.filter(a => a.status === 'complete').length
   const returnedCount = appraisals.filter(a => a.status === 'returned').length
   const completionRate = total ? completeCount / total : 0
@@ -64,7 +65,7 @@ export async function GET(req: Request) {
   const allCycles = cycles.slice().reverse().slice(0, 8).reverse() // latest 8
   const totalsTrend = await Promise.all(allCycles.map(async c => {
     const depApps = await prisma.appraisal.findMany({
-      where: { cycleId: c.id, faculty: { departmentId: hod.departmentId, role: 'INSTRUCTOR' } },
+      where: { cycleId: c.id, faculty: { AND: [scope, { role: 'INSTRUCTOR' }] } },
       select: { totalScore: true }
     })
     return { label: `${c.academicYear}`, avgTotal: avg(depApps.map(x => x.totalScore ?? 0)) }
@@ -72,7 +73,7 @@ export async function GET(req: Request) {
 
   return NextResponse.json({
     cycles,
-    kpis: { avgTotal, completionRate, sentCount, completeCount, returnedCount, total },
+    kpis: { avgTotal, completionRate, releasedCount, completeCount, returnedCount, total },
     statusDistribution,
     sectionAverages,
     topFaculty,
@@ -2,28 +2,22 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getSession } from '@/lib/auth-utils';
+import { authorizeRequest } from '@/lib/permissions';
+import { ownerWhere } from '@/lib/policy';
 import { UserRole, EvaluationStatus } from '@prisma/client';
 
 export async function GET(request: Request) {
   try {
-    const session = await getSession();
-
-    if (!session?.user?.email) {
-      return new NextResponse('Unauthorized', { status: 401 });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email },
-    });
-
-    if (!user || user.role !== UserRole.HOD) {
-      return new NextResponse('Unauthorized', { status: 401 });
+    // التقييمات التي يراجعها المستخدم: قاعدة appraisal.review (مدرّسو القسم لرئيس القسم)
+    const auth = await authorizeRequest(await getSession(), 'review', 'appraisal');
+    if (!auth.ok) {
+      return new NextResponse(auth.error, { status: auth.status });
     }
 
-    if (!user.departmentId) {
+    const scope = ownerWhere(auth.actor, 'review', 'appraisal');
+    if (!scope) {
       return NextResponse.json({ appraisals: [], cycles: [] });
     }
-    const departmentId = user.departmentId;
 
     // Parse query params
     const { searchParams } = new URL(request.url);
@@ -32,7 +26,7 @@ export async function GET(request: Request) {
     const search = searchParams.get('search');
 
     const whereClause: any = {
-      faculty: { departmentId, role: UserRole.INSTRUCTOR },
+      faculty: { AND: [scope, { role: UserRole.INSTRUCTOR }] },
     };
 
     if (cycleId) whereClause.cycleId = parseInt(cycleId);
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { authorizeRequest } from '@/lib/permissions'
+import { z } from 'zod'
+
+const PAGE_SIZE = 30
+
+// GET: آخر إشعارات المستخدم + عدد غير المقروء (?unread=1 لغير المقروء فقط)
+export async function GET(req: Request) {
+  try {
+    const auth = await authorizeRequest(await getSession(), 'read', 'notification')
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+    const userId = auth.actor.id
+
+    const unreadOnly = new URL(req.url).searchParams.get('unread') === '1'
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+        orderBy: { createdAt: 'desc' },
+        take: PAGE_SIZE,
+      }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (e) {
+    console.error('[NOTIFICATIONS_GET]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// إما قائمة معرّفات محددة أو الكل
+const Body = z.union([
+  z.object({ ids: z.array(z.number().int().positive()).min(1) }),
+  z.object({ all: z.literal(true) }),
+])
+
+// PATCH: تعليم الإشعارات كمقروءة
+export async function PATCH(req: Request) {
+  try {
+    const auth = await authorizeRequest(await getSession(), 'update', 'notification')
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+    const userId = auth.actor.id
+
+    const parsed = Body.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Provide notification ids or all: true' }, { status: 400 })
+    }
+
+    // userId في الشرط يمنع تعليم إشعارات مستخدم آخر
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, readAt: null, ...('ids' in parsed.data ? { id: { in: parsed.data.ids } } : {}) },
+      data: { readAt: new Date() },
+    })
+    const unreadCount = await prisma.notification.count({ where: { userId, readAt: null } })
+
+    return NextResponse.json({ ok: true, marked: count, unreadCount })
+  } catch (e) {
+    console.error('[NOTIFICATIONS_PATCH]', e)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
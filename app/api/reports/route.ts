@@ -2,13 +2,15 @@ import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
-import { UserRole } from "@prisma/client"
+import { UserRole, type Prisma } from "@prisma/client"
+import { authorizeRequest, type UserContext } from "@/lib/permissions"
+import { ownerWhere } from "@/lib/policy"
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const auth = await authorizeRequest(await getServerSession(authOptions), "read", "report")
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status })
     }
 
     const { searchParams } = new URL(request.url)
@@ -19,20 +21,23 @@ export async function GET(request: NextRequest) {
     const department = searchParams.get("department")
     const collegeId = searchParams.get("collegeId")
 
+    // نطاق التقارير من السياسة؛ فلاتر الكلية والقسم في الطلب تضيّقه ولا توسّعه
+    const faculty = reportFaculty(auth.actor, department, collegeId)
+
     let data: any = {}
 
     switch (reportType) {
       case "appraisals":
-        data = await generateAppraisalsReport(session, academicYear, userId, department, collegeId)
+        data = await generateAppraisalsReport(faculty, academicYear, userId)
         break
       case "achievements":
-        data = await generateAchievementsReport(session, academicYear, userId, department, collegeId)
+        data = await generateAchievementsReport(faculty, academicYear, userId)
         break
       case "performance":
-        data = await generatePerformanceReport(session, academicYear, userId, department, collegeId)
+        data = await generatePerformanceReport(faculty, academicYear, userId)
         break
       case "faculty":
-        data = await generateFacultyReport(session, academicYear, department, collegeId)
+        data = await generateFacultyReport(faculty, academicYear)
         break
       default:
         return NextResponse.json({ error: "Invalid report type" }, { status: 400 })
@@ -55,41 +60,16 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function generateAppraisalsReport(session: any, academicYear?: string | null, userId?: string | null, department?: string | null, collegeId?: string | null) {
-  const whereClause: any = {}
-
-  // Role-based filtering using proper relationships
-  if (session.user.role === UserRole.INSTRUCTOR) {
-    whereClause.facultyId = parseInt(session.user.id)
-  } else if (session.user.role === UserRole.HOD) {
-    // HOD can see appraisals from their department
-    const hod = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: true }
-    })
-    if (hod?.department) {
-      whereClause.faculty = {
-        departmentId: hod.department.id
-      }
-    }
-  } else if (session.user.role === UserRole.DEAN) {
-    // DEAN can see appraisals from their college
-    const user = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: { select: { collegeId: true } } }
-    })
-    const targetCollegeId = collegeId ? parseInt(collegeId) : (user?.department?.collegeId || 0)
-    whereClause.faculty = {
-      department: {
-        collegeId: targetCollegeId
-      }
-    }
-    
-    // Filter by specific department if provided
-    if (department && department !== 'all') {
-      whereClause.faculty.department.name = department
-    }
-  }
+function reportFaculty(actor: UserContext, department?: string | null, collegeId?: string | null): Prisma.UserWhereInput {
+  // بلا نطاق لا تُرجع أي سجلات
+  const filters: Prisma.UserWhereInput[] = [ownerWhere(actor, "read", "report") ?? { id: -1 }]
+  if (collegeId) filters.push({ department: { collegeId: parseInt(collegeId) } })
+  if (department && department !== "all") filters.push({ department: { name: department } })
+  return { AND: filters }
+}
+
+async function generateAppraisalsReport(faculty: Prisma.UserWhereInput, academicYear?: string | null, userId?: string | null) {
+  const whereClause: any = { faculty }
 
   if (academicYear) whereClause.cycle = { academicYear }
   if (userId) whereClause.facultyId = parseInt(userId)
@@ -143,42 +123,9 @@ async function generateAppraisalsReport(session: any, academicYear?: string | nu
   }
 }
 
-async function generateAchievementsReport(session: any, academicYear?: string | null, userId?: string | null, department?: string | null, collegeId?: string | null) {
+async function generateAchievementsReport(faculty: Prisma.UserWhereInput, academicYear?: string | null, userId?: string | null) {
   // Build the base where clause for appraisals first
-  const appraisalWhereClause: any = {}
-
-  // Role-based filtering using proper relationships
-  if (session.user.role === UserRole.INSTRUCTOR) {
-    appraisalWhereClause.facultyId = parseInt(session.user.id)
-  } else if (session.user.role === UserRole.HOD) {
-    // HOD can see achievements from their department
-    const hod = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: true }
-    })
-    if (hod?.department) {
-      appraisalWhereClause.faculty = {
-        departmentId: hod.department.id
-      }
-    }
-  } else if (session.user.role === UserRole.DEAN) {
-    // DEAN can see achievements from their college
-    const user = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: { select: { collegeId: true } } }
-    })
-    const targetCollegeId = collegeId ? parseInt(collegeId) : (user?.department?.collegeId || 0)
-    appraisalWhereClause.faculty = {
-      department: {
-        collegeId: targetCollegeId
-      }
-    }
-    
-    // Filter by specific department if provided
-    if (department && department !== 'all') {
-      appraisalWhereClause.faculty.department.name = department
-    }
-  }
+  const appraisalWhereClause: any = { faculty }
 
   if (academicYear) {
     appraisalWhereClause.cycle = { academicYear }
@@ -356,42 +303,9 @@ async function generateAchievementsReport(session: any, academicYear?: string |
   }
 }
 
-async function generatePerformanceReport(session: any, academicYear?: string | null, userId?: string | null, department?: string | null, collegeId?: string | null) {
+async function generatePerformanceReport(faculty: Prisma.UserWhereInput, academicYear?: string | null, userId?: string | null) {
   // Build the base where clause for appraisals first
-  const appraisalWhereClause: any = {}
-
-  // Role-based filtering using proper relationships
-  if (session.user.role === UserRole.INSTRUCTOR) {
-    appraisalWhereClause.facultyId = parseInt(session.user.id)
-  } else if (session.user.role === UserRole.HOD) {
-    // HOD can see appraisals from their department
-    const hod = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: true }
-    })
-    if (hod?.department) {
-      appraisalWhereClause.faculty = {
-        departmentId: hod.department.id
-      }
-    }
-  } else if (session.user.role === UserRole.DEAN) {
-    // DEAN can see appraisals from their college
-    const user = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: { select: { collegeId: true } } }
-    })
-    const targetCollegeId = collegeId ? parseInt(collegeId) : (user?.department?.collegeId || 0)
-    appraisalWhereClause.faculty = {
-      department: {
-        collegeId: targetCollegeId
-      }
-    }
-    
-    // Filter by specific department if provided
-    if (department && department !== 'all') {
-      appraisalWhereClause.faculty.department.name = department
-    }
-  }
+  const appraisalWhereClause: any = { faculty }
 
   if (academicYear) appraisalWhereClause.cycle = { academicYear }
   if (userId) appraisalWhereClause.facultyId = parseInt(userId)
@@ -532,67 +446,10 @@ async function generatePerformanceReport(session: any, academicYear?: string | n
   }
 }
 
-async function generateFacultyReport(session: any, academicYear?: string | null, department?: string | null, collegeId?: string | null) {
-  // For deans, try to get collegeId from parameter first, then session
-  let targetCollegeId: number | null = null
-  if (session.user.role === UserRole.DEAN) {
-    targetCollegeId = collegeId ? parseInt(collegeId) : null
-    if (!targetCollegeId) {
-      // If no collegeId provided, try to get from user's department
-      const user = await prisma.user.findUnique({
-        where: { id: parseInt(session.user.id) },
-        include: { department: { select: { collegeId: true } } }
-      })
-      targetCollegeId = user?.department?.collegeId || null
-    }
-  }
-
-  let whereClause: any = {}
-
-  // Role-based filtering
-  if (session.user.role === UserRole.INSTRUCTOR) {
-    whereClause.id = parseInt(session.user.id)
-  } else if (session.user.role === UserRole.HOD) {
-    // For HOD, get their department
-    const hod = await prisma.user.findUnique({
-      where: { id: parseInt(session.user.id) },
-      include: { department: true }
-    })
-    if (hod?.department) {
-      whereClause.departmentId = hod.department.id
-    }
-  } else if (session.user.role === UserRole.DEAN) {
-    if (targetCollegeId) {
-      whereClause = {
-        department: {
-          collegeId: targetCollegeId
-        }
-      }
-    }
-  }
-
-  // Filter by specific department if provided
-  if (department && department !== 'all') {
-    if (session.user.role === UserRole.INSTRUCTOR) {
-      return {
-        title: "Faculty Overview Report",
-        generatedAt: new Date().toISOString(),
-        totalRecords: 0,
-        data: [],
-        error: "Instructors cannot filter by department"
-      }
-    }
-    if (whereClause.department) {
-      whereClause.department = { ...whereClause.department, name: department }
-    } else {
-      whereClause.department = { name: department }
-    }
-  }
-
+async function generateFacultyReport(scope: Prisma.UserWhereInput, academicYear?: string | null) {
   const faculty = await prisma.user.findMany({
     where: {
-      ...whereClause,
-      role: { in: [UserRole.INSTRUCTOR, UserRole.HOD] }
+      AND: [scope, { role: { in: [UserRole.INSTRUCTOR, UserRole.HOD] } }]
     },
     include: {
       department: {
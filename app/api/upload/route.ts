@@ -1,8 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
-import { put } from "@vercel/blob"
 import { prisma } from "@/lib/prisma" // Declare the prisma variable
+import { authorizeAppraisal } from "@/lib/permissions"
+import { evidencePath, saveFile } from "@/lib/storage"
+import { evidenceDownloadUrl, isAchievementType, toAttachment } from "@/lib/evidence"
+import { collectOrphanAttachments } from "@/lib/attachments"
+import { checkUploadQuota, maxUploadBytes, sanitizeFileName, sniffContentType } from "@/lib/upload-security"
+import { scanEvidence } from "@/lib/malware-scan"
 
 export async function POST(request: NextRequest) {
    try {
@@ -48,7 +53,7 @@ export async function POST(request: NextRequest) {
      const file = formData.get("file") as File
      const type = formData.get("type") as string // 'appraisal' or 'achievement'
      const entityId = formData.get("entityId") as string
-     const achievementType = formData.get("achievementType") as string // 'awards', 'research', 'scientific', 'university', 'community'
+     const achievementType = formData.get("achievementType") // 'awards', 'research', 'scientific', 'university', 'community'
 
      console.log("Parsed values:", { file: !!file, type: type, entityId: entityId, achievementType: achievementType })
 
@@ -57,7 +62,7 @@ export async function POST(request: NextRequest) {
        return NextResponse.json({ error: "No file provided" }, { status: 400 })
      }
 
-     if (!type) {
+     if (type !== "appraisal" && type !== "achievement") {
        console.log("No type provided, type value:", type)
        return NextResponse.json({ error: "No type provided. Expected 'appraisal' or 'achievement'" }, { status: 400 })
      }
@@ -67,156 +72,95 @@ export async function POST(request: NextRequest) {
        return NextResponse.json({ error: "No entityId provided" }, { status: 400 })
      }
 
-     // Validate file type
-     const allowedTypes = [
-       "application/pdf",
-       "image/jpeg",
-       "image/png",
-       "image/gif",
-       "application/msword",
-       "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-     ]
-
-     if (!allowedTypes.includes(file.type)) {
-       return NextResponse.json({ error: "Invalid file type" }, { status: 400 })
+     // الملفات تُرفق باستمارة: appraisal.update (صاحب الاستمارة)
+     const appraisalId = parseInt(entityId)
+     if (Number.isNaN(appraisalId)) {
+       return NextResponse.json({ error: "Invalid entityId" }, { status: 400 })
+     }
+     const access = await authorizeAppraisal(session, appraisalId, "update")
+     if (!access.ok) {
+       return NextResponse.json({ error: access.error }, { status: access.status })
      }
 
-     // Validate file size (10MB max)
-     const maxSize = 10 * 1024 * 1024 // 10MB
-     if (file.size > maxSize) {
-       return NextResponse.json({ error: "File too large. Maximum size is 10MB" }, { status: 400 })
+     if (type === "achievement" && !isAchievementType(achievementType)) {
+       return NextResponse.json(
+         { error: "achievementType must be one of awards, research, scientific, university or community" },
+         { status: 400 },
+       )
      }
+     // المرفق يُربط بالإنجاز عند حفظه (attachmentIds في /api/appraisals/current/[resource])
+     const attachTo = type === "achievement" && isAchievementType(achievementType) ? achievementType : null
 
-     // Upload file to Vercel Blob Storage
-     console.log("=== STARTING BLOB UPLOAD ===")
-     const userId = session.user.id
+     const maxSize = await maxUploadBytes()
+     if (file.size > maxSize) {
+       return NextResponse.json(
+         { error: `File too large. Maximum size is ${maxSize / (1024 * 1024)}MB` },
+         { status: 413 },
+       )
+     }
 
-     if (!userId || typeof userId !== 'string') {
-       console.error("VALIDATION FAILED - No valid user ID:", {
-         userId: userId,
-         userIdType: typeof userId,
-         sessionUserId: session.user.id,
-         sessionUserIdType: typeof session.user.id
-       })
-       return NextResponse.json({ error: "User ID not available" }, { status: 400 })
+     // النوع من محتوى الملف نفسه (lib/upload-security.ts)، لا من file.type أو الامتداد
+     const buffer = Buffer.from(await file.arrayBuffer())
+     const sniffed = sniffContentType(buffer)
+     if (!sniffed) {
+       return NextResponse.json(
+         { error: "Unsupported file. Please upload a PDF, JPG, PNG, GIF, DOC or DOCX file." },
+         { status: 415 },
+       )
      }
 
-     // Generate unique filename
-     const timestamp = Date.now()
-     const extension = file.name.split(".").pop() || 'bin'
-     const filename = `${entityId}-${timestamp}.${extension}`
+     // المرفقات اليتيمة لا تُحسب على الحصة (lib/attachments.ts)
+     await collectOrphanAttachments({ appraisalId })
+     const quotaError = await checkUploadQuota(appraisalId, access.owner.id, buffer.length)
+     if (quotaError) {
+       return NextResponse.json({ error: quotaError }, { status: 413 })
+     }
 
+     // الحفظ عبر مشغّل التخزين المحدد في الإعدادات (lib/storage.ts)
+     const fileName = sanitizeFileName(file.name, sniffed.extension)
+     let fileKey: string
      try {
-       // Upload to Vercel Blob Storage
-       const bytes = await file.arrayBuffer()
-       const buffer = Buffer.from(bytes)
-
-       console.log("Uploading to blob storage:", filename)
-       const blob = await put(filename, buffer, {
-         access: 'public',
-         contentType: file.type,
-         token: process.env.BLOB_READ_WRITE_TOKEN,
-       })
-
-       console.log("Blob upload successful:", blob.url)
-
-       // Save file record to database
-       const blobUrl = blob.url
-
-       if (type === "appraisal") {
-         await prisma.evidence.create({
-           data: {
-             appraisalId: parseInt(entityId),
-             title: file.name,
-             description: "Uploaded evidence file",
-             url: blobUrl,
-             fileKey: filename,
-             points: 0,
-           },
-         })
-       } else if (type === "achievement") {
-         // For achievements, save to Evidence table with achievementType for later linking
-         if (!achievementType) {
-           return NextResponse.json({ error: "achievementType is required for achievement uploads" }, { status: 400 })
-         }
-
-         await prisma.evidence.create({
-           data: {
-             appraisalId: parseInt(entityId),
-             title: file.name,
-             description: `Uploaded ${achievementType} file`,
-             url: blobUrl,
-             fileKey: filename,
-             points: 0,
-             achievementType: achievementType,
-           },
-         })
-       }
+       fileKey = await saveFile(evidencePath(appraisalId, fileName), buffer, sniffed.contentType)
+     } catch (storageError) {
+       console.error("Storage error:", storageError)
+       return NextResponse.json({ error: "Failed to store the file. Please try again later." }, { status: 502 })
+     }
 
-       return NextResponse.json({
-         message: "File uploaded successfully",
-         filename,
-         url: blobUrl,
-         fileKey: filename,
+     // الرابط الوحيد للملف هو مسار التنزيل المحمي (lib/evidence.ts)
+     const evidence = await prisma.$transaction(async (tx) => {
+       const created = await tx.evidence.create({
+         data: {
+           appraisalId,
+           title: fileName,
+           description: attachTo ? `Uploaded ${attachTo} file` : "Uploaded evidence file",
+           fileKey,
+           contentType: sniffed.contentType,
+           size: buffer.length,
+           points: 0,
+           achievementType: attachTo,
+         },
        })
-     } catch (blobError) {
-       console.error("Blob storage error:", blobError)
-
-       // Fallback: Try alternative storage method
-       try {
-         console.log("Attempting fallback storage method...")
-
-         // For now, return a base64 data URL as fallback
-         // This is a temporary solution until proper blob storage is configured
-         const bytes = await file.arrayBuffer()
-         const buffer = Buffer.from(bytes)
-         const base64Data = buffer.toString('base64')
-         const dataUrl = `data:${file.type};base64,${base64Data}`
-
-         // Save to database with data URL
-         if (type === "appraisal") {
-           await prisma.evidence.create({
-             data: {
-               appraisalId: parseInt(entityId),
-               title: file.name,
-               description: "Uploaded evidence file (fallback method)",
-               url: dataUrl,
-               fileKey: filename,
-               points: 0,
-             },
-           })
-         } else if (type === "achievement") {
-           if (!achievementType) {
-             return NextResponse.json({ error: "achievementType is required for achievement uploads" }, { status: 400 })
-           }
+       return tx.evidence.update({ where: { id: created.id }, data: { url: evidenceDownloadUrl(created.id) } })
+     })
 
-           await prisma.evidence.create({
-             data: {
-               appraisalId: parseInt(entityId),
-               title: file.name,
-               description: `Uploaded ${achievementType} file (fallback method)`,
-               url: dataUrl,
-               fileKey: filename,
-               points: 0,
-               achievementType: achievementType,
-             },
-           })
-         }
-
-         return NextResponse.json({
-           message: "File uploaded successfully (fallback method)",
-           filename,
-           url: dataUrl,
-           fileKey: filename,
-         })
-       } catch (fallbackError) {
-         console.error("Fallback storage also failed:", fallbackError)
-         return NextResponse.json({
-           error: "Failed to upload file. Both blob storage and fallback method failed."
-         }, { status: 500 })
-       }
+     // الملف محجوز حتى يجتاز الفحص (lib/malware-scan.ts)
+     const scan = await scanEvidence(evidence.id, buffer)
+     if (scan.status === "INFECTED") {
+       return NextResponse.json({ error: "The file failed the virus scan and was removed." }, { status: 422 })
      }
+
+     const scanStatus = scan.status === "CLEAN" ? "CLEAN" : "PENDING"
+     return NextResponse.json({
+       message: scanStatus === "CLEAN"
+         ? "File uploaded successfully"
+         : "File uploaded. It will be available once the virus scan completes.",
+       filename: fileName,
+       url: evidence.url,
+       scanStatus,
+       attachment: toAttachment({ ...evidence, scanStatus }),
+     })
   } catch (error) {
-    return NextResponse.json({error:"The file has been uploaded successfully" }, { status: 500 })
+    console.error("Upload error:", error)
+    return NextResponse.json({ error: "Failed to upload file" }, { status: 500 })
   }
 }
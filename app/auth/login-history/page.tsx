@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { getSession } from "@/lib/auth-utils"
+import { getLoginHistory } from "@/lib/login-security"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { LoginHistoryTable } from "@/components/auth/login-history-table"
+
+export default async function LoginHistoryPage() {
+  const session = await getSession()
+
+  if (!session || session.impersonator) {
+    redirect("/auth/signin")
+  }
+
+  const events = await getLoginHistory(parseInt(session.user.id))
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-4xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold text-gray-900">Login History</CardTitle>
+            <CardDescription className="text-gray-600">
+              Recent sign-in attempts to your account. If you do not recognize an attempt, change your password and
+              contact your administrator.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <LoginHistoryTable events={events} />
+            <div className="text-center text-sm">
+              <Link href="/dashboard" className="text-gray-500 hover:text-gray-700 transition-colors">
+                Back to dashboard
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
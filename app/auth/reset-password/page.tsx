@@ -8,7 +8,6 @@ import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Loader2, Lock, CheckCircle } from "lucide-react"
-import { signIn } from "next-auth/react"
 
 export default function ResetPasswordPage() {
   const [password, setPassword] = useState("")
@@ -16,17 +15,14 @@ export default function ResetPasswordPage() {
   const [isLoading, setIsLoading] = useState(false)
   const [isSuccess, setIsSuccess] = useState(false)
   const [error, setError] = useState("")
-  const [email, setEmail] = useState("")
   const [token, setToken] = useState("")
   const searchParams = useSearchParams()
   const router = useRouter()
 
   useEffect(() => {
-    const urlEmail = searchParams.get("email")
     const urlToken = searchParams.get("token")
-    
-    if (urlEmail && urlToken) {
-      setEmail(decodeURIComponent(urlEmail))
+
+    if (urlToken) {
       setToken(urlToken)
     } else {
       setError("Invalid or missing reset token")
@@ -44,8 +40,8 @@ export default function ResetPasswordPage() {
       return
     }
 
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters long")
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters long")
       setIsLoading(false)
       return
     }
@@ -56,12 +52,7 @@ export default function ResetPasswordPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          email,
-          password,
-          confirmPassword,
-          token,
-        }),
+        body: JSON.stringify({ token, newPassword: password }),
       })
 
       const data = await response.json()
@@ -78,18 +69,8 @@ export default function ResetPasswordPage() {
     }
   }
 
-  const handleSignIn = async () => {
-    try {
-      await signIn("credentials", {
-        email,
-        password,
-        redirect: true,
-        callbackUrl: "/dashboard"
-      })
-    } catch (error) {
-      console.error("Sign in error:", error)
-      router.push("/auth/signin")
-    }
+  const handleSignIn = () => {
+    router.push("/auth/signin")
   }
 
   if (isSuccess) {
@@ -134,7 +115,7 @@ export default function ResetPasswordPage() {
     )
   }
 
-  if (error && (!email || !token)) {
+  if (error && !token) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
         <div className="w-full max-w-md">
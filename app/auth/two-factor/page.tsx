@@ -0,0 +1,30 @@
+import { getSession } from "@/lib/auth-utils"
+import { redirect } from "next/navigation"
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings"
+import { getSettings } from "@/lib/settings"
+import { getTwoFactorStatus } from "@/lib/two-factor"
+
+export default async function TwoFactorPage() {
+  const session = await getSession()
+
+  if (!session || session.impersonator) {
+    redirect("/auth/signin")
+  }
+
+  const [branding, status] = await Promise.all([
+    getSettings("branding"),
+    getTwoFactorStatus({ id: parseInt(session.user.id), role: session.user.role }),
+  ])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">{branding.name}</h1>
+          <p className="text-gray-600">University Performance Management Portal</p>
+        </div>
+        <TwoFactorSettings initialStatus={status} />
+      </div>
+    </div>
+  )
+}
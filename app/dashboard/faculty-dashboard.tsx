@@ -57,7 +57,7 @@ export default function FacultyDashboard({ user }: FacultyDashboardProps) {
     switch (status) {
       case "new": return "bg-blue-100 text-blue-800"
       // case "IN_REVIEW": return "bg-yellow-100 text-yellow-800"
-      case "sent": return "bg-orange-100 text-orange-800"
+      case "released": return "bg-orange-100 text-orange-800"
       case "complete": return "bg-green-100 text-green-800"
       case "returned": return "bg-red-100 text-red-800"
       default: return "bg-gray-100 text-gray-800"
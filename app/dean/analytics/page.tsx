@@ -12,7 +12,7 @@ import {
 } from 'recharts'
 
 type Cycle = { id: number; academicYear: string; semester: string; isActive: boolean }
-type KPI = { avgTotal: number; completionRate: number; sentCount: number; completeCount: number; returnedCount: number; total: number }
+type KPI = { avgTotal: number; completionRate: number; releasedCount: number; completeCount: number; returnedCount: number; total: number }
 type DeptRow = { department: string; avgTotal: number; completeRate: number; facultyCount: number }
 type TrendPoint = { label: string; avgTotal: number }
 type SectionAvg = { section: string; avg: number }
@@ -83,7 +83,7 @@ export default function DeanAnalyticsPage() {
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
             <Kpi title="Avg Total" value={fmtNum(data.kpis.avgTotal)} />
             <Kpi title="Completion" value={`${Math.round(data.kpis.completionRate * 100)}%`} />
-            <Kpi title="Sent" value={String(data.kpis.sentCount)} />
+            <Kpi title="Scores Released" value={String(data.kpis.releasedCount)} />
             <Kpi title="Returned" value={String(data.kpis.returnedCount)} />
             <Kpi title="Complete" value={String(data.kpis.completeCount)} />
           </div>
@@ -9,8 +9,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import AchievementViewer from '@/components/dean/achievement-viewer';
+import { WITH_ATTACHMENTS, withEvidenceLinks } from '@/lib/evidence';
 import EvaluationForm from '@/components/dean/evaluation-form';
-import { EvaluationStatus, ResearchKind } from '@prisma/client';
+import ScoreOverrides from '@/components/dean/score-overrides';
+import SignOffPanel from '@/components/appraisal/sign-off-panel';
+import { computePerformanceScores, getEffectiveGrading } from '@/lib/grading';
+import { transitionAppraisal } from '@/lib/workflow';
+import { saveComputedScores } from '@/lib/score-history';
+import { evaluationLockReason } from '@/lib/signatures';
+import { statusBadgeClass, statusLabel } from '@/lib/appraisal-status';
 
 // --- SERVER ACTIONS ---
 async function computeAll(appraisalId: number) {
@@ -20,46 +27,36 @@ async function computeAll(appraisalId: number) {
         include: { researchActivities: true, universityServices: true, communityServices: true, courses: true }
     });
     if (!appraisal) throw new Error('Appraisal not found');
+    const locked = await evaluationLockReason(appraisalId);
+    if (locked) throw new Error(locked);
 
-    // Calculate scores based on the actual grading configuration
-    const researchScore = appraisal.researchActivities.reduce((sum, activity) => {
-        // Use the actual research kind values from the database
-        switch (activity.kind) {
-            case ResearchKind.PUBLISHED: return sum + 10;
-            case ResearchKind.ACCEPTED: return sum + 8;
-            case ResearchKind.REFEREED_PAPER: return sum + 4;
-            default: return sum + 2;
-        }
-    }, 0);
-
-    const universityServiceScore = Math.min(appraisal.universityServices.length * 4, 30);
-    const communityServiceScore = Math.min(appraisal.communityServices.length * 4, 20);
+    const grading = await getEffectiveGrading(appraisal.cycleId);
+    const scores = computePerformanceScores(grading, appraisal);
+    const session = await getServerSession(authOptions);
 
-    const teachingScore = appraisal.courses.length > 0
-        ? appraisal.courses.reduce((sum, course) => sum + (course.studentsEvalAvg || 0), 0) / appraisal.courses.length
-        : 0;
+    // المحسوبة تُحفظ مع السجل؛ أي تجاوز قائم يبقى هو الدرجة النهائية
+    const { after } = await saveComputedScores({
+        appraisalId,
+        role: 'DEAN',
+        actorId: session?.user ? Number(session.user.id) : null,
+        scores: {
+            research: scores.research,
+            universityService: scores.universityService.points,
+            communityService: scores.communityService.points,
+            teachingQuality: scores.teaching.points,
+        },
+    });
 
+    const researchScore = after.researchPts ?? 0;
+    const universityServiceScore = after.universityServicePts ?? 0;
+    const communityServiceScore = after.communityServicePts ?? 0;
+    const teachingScore = after.teachingQualityPts ?? 0;
     const totalScore = researchScore + universityServiceScore + communityServiceScore + teachingScore;
 
     await prisma.$transaction([
-        prisma.evaluation.upsert({
-            where: { appraisalId_role: { appraisalId, role: 'DEAN' } },
-            update: {
-                researchPts: researchScore,
-                universityServicePts: universityServiceScore,
-                communityServicePts: communityServiceScore,
-                teachingQualityPts: teachingScore,
-                totalScore
-            },
-            create: {
-                appraisalId,
-                role: 'DEAN',
-                researchPts: researchScore,
-                universityServicePts: universityServiceScore,
-                communityServicePts: communityServiceScore,
-                teachingQualityPts: teachingScore,
-                totalScore
-            },
+        prisma.evaluation.update({
+            where: { id: after.id },
+            data: { totalScore },
         }),
         prisma.appraisal.update({
             where: { id: appraisalId },
@@ -68,19 +65,18 @@ async function computeAll(appraisalId: number) {
                 universityServiceScore,
                 communityServiceScore,
                 teachingQualityScore: teachingScore,
-                totalScore,
-                status: EvaluationStatus.sent
+                totalScore
             },
         })
     ]);
     revalidatePath(`/dean/reviews/${appraisalId}`);
 }
 
-async function sendScores(appraisalId: number) {
-    await prisma.appraisal.update({
-        where: { id: appraisalId },
-        data: { status: EvaluationStatus.sent },
-    });
+async function submitReview(appraisalId: number) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) throw new Error('Unauthorized');
+    const result = await transitionAppraisal({ appraisalId, action: 'dean_review', user: session.user });
+    if (!result.ok) throw new Error(result.error);
     revalidatePath(`/dean/reviews/${appraisalId}`);
 }
 
@@ -108,12 +104,13 @@ async function getAppraisalData(appraisalId: number, deanUserId: number) {
             },
             cycle: true,
             evaluations: true,
-            awards: true, 
+            awards: WITH_ATTACHMENTS, 
             courses: true, 
-            researchActivities: true, 
-            scientificActivities: true, 
-            universityServices: true, 
-            communityServices: true,
+            researchActivities: WITH_ATTACHMENTS, 
+            scientificActivities: WITH_ATTACHMENTS, 
+            universityServices: WITH_ATTACHMENTS, 
+            communityServices: WITH_ATTACHMENTS,
+            evidences: true,
         }
     });
 
@@ -207,7 +204,7 @@ export default async function ReviewPage({ params }: { params: Promise<{ apprais
                             <p className="font-semibold">
                                 {cycle.academicYear} ({new Date(cycle.startDate).getFullYear()} - {new Date(cycle.endDate).getFullYear()})
                             </p>
-                            <Badge>{status}</Badge>
+                            <Badge className={statusBadgeClass(status)}>{statusLabel(status)}</Badge>
                         </div>
                     </div>
                 </CardHeader>
@@ -225,7 +222,7 @@ export default async function ReviewPage({ params }: { params: Promise<{ apprais
                             <p className="text-muted-foreground">Read-only view of the HOD's submitted achievements.</p>
                         </CardHeader>
                         <CardContent>
-                            <AchievementViewer appraisal={appraisal} />
+                            <AchievementViewer appraisal={withEvidenceLinks(appraisal)} />
                         </CardContent>
                     </Card>
                 </TabsContent>
@@ -234,6 +231,12 @@ export default async function ReviewPage({ params }: { params: Promise<{ apprais
                         appraisalId={appraisal.id}
                         role="DEAN"
                     />
+                    <div className="mt-4">
+                        <ScoreOverrides appraisalId={appraisal.id} />
+                    </div>
+                    <div className="mt-4">
+                        <SignOffPanel appraisalId={appraisal.id} />
+                    </div>
                 </TabsContent>
             </Tabs>
         </div>
@@ -22,13 +22,17 @@ import {
   Microscope,
   Users,
   FileText,
-  Download,
   Eye,
   Trophy,
   Briefcase,
   Heart
 } from 'lucide-react'
 import { format } from 'date-fns'
+import { statusBadgeClass, statusLabel } from '@/lib/appraisal-status'
+import type { EvidenceAttachment } from '@/lib/evidence'
+import type { AchievementVerification } from '@/lib/verification-status'
+import AttachmentLinks from '@/components/achievements/attachment-links'
+import VerificationPanel from '@/components/achievements/verification-panel'
 
 interface AppraisalDetails {
   id: number
@@ -80,8 +84,8 @@ interface AppraisalDetails {
     area: string | null
     organization: string | null
     dateObtained: string | null
-    fileUrl: string | null
-  }>
+    attachments: EvidenceAttachment[]
+  } & AchievementVerification>
   courses: Array<{
     id: number
     courseTitle: string
@@ -100,8 +104,8 @@ interface AppraisalDetails {
     journalOrPublisher: string | null
     participation: string | null
     publicationDate: string | null
-    fileUrl: string | null
-  }>
+    attachments: EvidenceAttachment[]
+  } & AchievementVerification>
   scientificActivities: Array<{
     id: number
     title: string
@@ -110,8 +114,8 @@ interface AppraisalDetails {
     participation: string | null
     organizingAuth: string | null
     venue: string | null
-    fileUrl: string | null
-  }>
+    attachments: EvidenceAttachment[]
+  } & AchievementVerification>
   universityServices: Array<{
     id: number
     committeeOrTask: string
@@ -119,8 +123,8 @@ interface AppraisalDetails {
     participation: string | null
     dateFrom: string | null
     dateTo: string | null
-    fileUrl: string | null
-  }>
+    attachments: EvidenceAttachment[]
+  } & AchievementVerification>
   communityServices: Array<{
     id: number
     committeeOrTask: string
@@ -128,10 +132,12 @@ interface AppraisalDetails {
     participation: string | null
     dateFrom: string | null
     dateTo: string | null
-    fileUrl: string | null
-  }>
+    attachments: EvidenceAttachment[]
+  } & AchievementVerification>
 }
 
+type VerifiableKey = 'awards' | 'researchActivities' | 'scientificActivities' | 'universityServices' | 'communityServices'
+
 export default function DeanAppraisalDetailsPage() {
   const params = useParams()
   const router = useRouter()
@@ -161,14 +167,9 @@ export default function DeanAppraisalDetailsPage() {
     }
   }, [params.appraisalId])
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new': return 'bg-blue-100 text-blue-800'
-      case 'sent': return 'bg-yellow-100 text-yellow-800'
-      case 'complete': return 'bg-green-100 text-green-800'
-      case 'returned': return 'bg-red-100 text-red-800'
-      default: return 'bg-gray-100 text-gray-800'
-    }
+  // بعد حفظ التحقق نستبدل الإنجاز في مكانه بدل إعادة تحميل الاستمارة
+  const replaceAchievement = <K extends VerifiableKey>(key: K) => (updated: AppraisalDetails[K][number]) => {
+    setData((prev) => prev && { ...prev, [key]: (prev[key] as AppraisalDetails[K][number][]).map((x) => (x.id === updated.id ? updated : x)) })
   }
 
   const getBandColor = (band: string | null) => {
@@ -237,8 +238,8 @@ export default function DeanAppraisalDetailsPage() {
               View comprehensive appraisal information and achievements
             </p>
           </div>
-          <Badge className={getStatusColor(data.status)}>
-            {data.status.toUpperCase()}
+          <Badge className={statusBadgeClass(data.status)}>
+            {statusLabel(data.status)}
           </Badge>
         </div>
 
@@ -287,8 +288,8 @@ export default function DeanAppraisalDetailsPage() {
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-500">Current Status</label>
-                  <Badge className={getStatusColor(data.status)}>
-                    {data.status.toUpperCase()}
+                  <Badge className={statusBadgeClass(data.status)}>
+                    {statusLabel(data.status)}
                   </Badge>
                 </div>
                 <div>
@@ -337,14 +338,7 @@ export default function DeanAppraisalDetailsPage() {
                     <div key={award.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold">{award.name}</h4>
-                        {award.fileUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={award.fileUrl} target="_blank" rel="noopener noreferrer">
-                              <Download className="h-4 w-4 mr-2" />
-                              View File
-                            </a>
-                          </Button>
-                        )}
+                        <AttachmentLinks attachments={award.attachments} />
                       </div>
                       {award.area && <p className="text-sm text-gray-600">Area: {award.area}</p>}
                       {award.organization && <p className="text-sm text-gray-600">Organization: {award.organization}</p>}
@@ -353,6 +347,7 @@ export default function DeanAppraisalDetailsPage() {
                           Date: {format(new Date(award.dateObtained), 'PPP')}
                         </p>
                       )}
+                      <VerificationPanel appraisalId={data.id} type="awards" item={award} onSaved={replaceAchievement('awards')} />
                     </div>
                   ))}
                 </CardContent>
@@ -403,14 +398,7 @@ export default function DeanAppraisalDetailsPage() {
                     <div key={research.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold">{research.title}</h4>
-                        {research.fileUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={research.fileUrl} target="_blank" rel="noopener noreferrer">
-                              <Download className="h-4 w-4 mr-2" />
-                              View File
-                            </a>
-                          </Button>
-                        )}
+                        <AttachmentLinks attachments={research.attachments} />
                       </div>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         <Badge variant="outline">{research.kind}</Badge>
@@ -426,6 +414,7 @@ export default function DeanAppraisalDetailsPage() {
                           </p>
                         )}
                       </div>
+                      <VerificationPanel appraisalId={data.id} type="research" item={research} onSaved={replaceAchievement('researchActivities')} />
                     </div>
                   ))}
                 </CardContent>
@@ -446,14 +435,7 @@ export default function DeanAppraisalDetailsPage() {
                     <div key={activity.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold">{activity.title}</h4>
-                        {activity.fileUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={activity.fileUrl} target="_blank" rel="noopener noreferrer">
-                              <Download className="h-4 w-4 mr-2" />
-                              View File
-                            </a>
-                          </Button>
-                        )}
+                        <AttachmentLinks attachments={activity.attachments} />
                       </div>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         <Badge variant="outline">{activity.type}</Badge>
@@ -470,6 +452,7 @@ export default function DeanAppraisalDetailsPage() {
                           </p>
                         )}
                       </div>
+                      <VerificationPanel appraisalId={data.id} type="scientific" item={activity} onSaved={replaceAchievement('scientificActivities')} />
                     </div>
                   ))}
                 </CardContent>
@@ -490,14 +473,7 @@ export default function DeanAppraisalDetailsPage() {
                     <div key={service.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold">{service.committeeOrTask}</h4>
-                        {service.fileUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={service.fileUrl} target="_blank" rel="noopener noreferrer">
-                              <Download className="h-4 w-4 mr-2" />
-                              View File
-                            </a>
-                          </Button>
-                        )}
+                        <AttachmentLinks attachments={service.attachments} />
                       </div>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         {service.authority && <p className="text-sm text-gray-600">Authority: {service.authority}</p>}
@@ -515,6 +491,7 @@ export default function DeanAppraisalDetailsPage() {
                           </p>
                         )}
                       </div>
+                      <VerificationPanel appraisalId={data.id} type="university" item={service} onSaved={replaceAchievement('universityServices')} />
                     </div>
                   ))}
                 </CardContent>
@@ -535,14 +512,7 @@ export default function DeanAppraisalDetailsPage() {
                     <div key={service.id} className="border rounded-lg p-4">
                       <div className="flex justify-between items-start mb-2">
                         <h4 className="font-semibold">{service.committeeOrTask}</h4>
-                        {service.fileUrl && (
-                          <Button variant="outline" size="sm" asChild>
-                            <a href={service.fileUrl} target="_blank" rel="noopener noreferrer">
-                              <Download className="h-4 w-4 mr-2" />
-                              View File
-                            </a>
-                          </Button>
-                        )}
+                        <AttachmentLinks attachments={service.attachments} />
                       </div>
                       <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
                         {service.authority && <p className="text-sm text-gray-600">Authority: {service.authority}</p>}
@@ -560,6 +530,7 @@ export default function DeanAppraisalDetailsPage() {
                           </p>
                         )}
                       </div>
+                      <VerificationPanel appraisalId={data.id} type="community" item={service} onSaved={replaceAchievement('communityServices')} />
                     </div>
                   ))}
                 </CardContent>
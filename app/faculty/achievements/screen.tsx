@@ -6,7 +6,8 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { Search, Copy, Eye, Award, BookOpen, Microscope, Users, Briefcase, Heart, FileText, FolderOpen } from "lucide-react"
+import { Search, Copy, Eye, Award, BookOpen, Microscope, Users, Briefcase, Heart, FileText } from "lucide-react"
+import AttachmentLinks from "@/components/achievements/attachment-links"
 
 const TYPES = [
  { key:'awards', label:'Awards' },
@@ -61,6 +62,8 @@ export default function AllAchievementsScreen({ cycles }:{ cycles: Array<{ id:nu
    const payload = { ...row }
    // sanitize id & foreign keys for creation
    delete payload.id; delete payload.appraisalId; delete payload.createdAt; delete payload.updatedAt
+   // attachments belong to the original appraisal and are not copied
+   delete payload.attachments
    if (type==='research_published') {
      payload.kind = 'PUBLISHED'
      payload.type = payload.type || 'JOURNAL' // Default to JOURNAL if not set
@@ -97,8 +100,6 @@ export default function AllAchievementsScreen({ cycles }:{ cycles: Array<{ id:nu
    }
  }
 
- const link = (url?:string)=> url? <a className="underline text-blue-600" href={url} target="_blank" rel="noopener noreferrer"><FolderOpen size={15} /></a> : '—'
-
  const current = cycles.find(c=>c.id===selected)
 
  if (loading) {
@@ -246,7 +247,7 @@ export default function AllAchievementsScreen({ cycles }:{ cycles: Array<{ id:nu
                      )}
                    </TableCell>
                    <TableCell>
-                     {link(row.attachment || row.fileUrl)}
+                     <AttachmentLinks attachments={row.attachments} empty="—" />
                    </TableCell>
                    <TableCell>
                      <Button
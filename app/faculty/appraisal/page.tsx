@@ -7,8 +7,9 @@ import { Badge } from "@/components/ui/badge"
 import { AppraisalForm } from "@/components/appraisal/appraisal-form"
 import { Plus, Eye, Edit, CheckCircle, XCircle, Clock, Send } from "lucide-react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { statusLabel } from "@/lib/appraisal-status"
 // Using new enum values
-type EvaluationStatus = "new" | "sent" | "complete" | "returned"
+type EvaluationStatus = "new" | "submitted" | "hod_reviewed" | "dean_reviewed" | "released" | "complete" | "returned"
 
 interface Appraisal {
   id: string
@@ -82,11 +83,31 @@ export default function FacultyAppraisalPage() {
     }
   }
 
+  const submitAppraisal = async (appraisal: Appraisal) => {
+    if (!confirm("Submit this appraisal for review? Your HOD will be able to start the evaluation.")) return
+    try {
+      const response = await fetch(`/api/appraisals/${appraisal.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "submit" }),
+      })
+      if (response.ok) {
+        fetchAppraisals()
+      } else {
+        const data = await response.json()
+        alert(data.error || "Failed to submit appraisal")
+      }
+    } catch (error) {
+      console.error("Error submitting appraisal:", error)
+      alert("Failed to submit appraisal")
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "new":
         return <Edit className="h-4 w-4" />
-      case "sent":
+      case "released":
         return <Send className="h-4 w-4" />
       case "complete":
         return <CheckCircle className="h-4 w-4" />
@@ -101,7 +122,7 @@ export default function FacultyAppraisalPage() {
     switch (status) {
       case "new":
         return "bg-blue-100 text-blue-800"
-      case "sent":
+      case "released":
         return "bg-orange-100 text-orange-800"
       case "complete":
         return "bg-green-100 text-green-800"
@@ -138,7 +159,7 @@ export default function FacultyAppraisalPage() {
                 <Badge className={getStatusColor(appraisal.status)}>
                   <div className="flex items-center gap-1">
                     {getStatusIcon(appraisal.status)}
-                    {appraisal.status}
+                    {statusLabel(appraisal.status)}
                   </div>
                 </Badge>
               </div>
@@ -177,7 +198,14 @@ export default function FacultyAppraisalPage() {
                   {appraisal.status === "new" ? "Edit" : "View"}
                 </Button>
 
-                {appraisal.status === "sent" && (
+                {appraisal.status === "new" && (
+                  <Button size="sm" onClick={() => submitAppraisal(appraisal)}>
+                    <Send className="mr-2 h-4 w-4" />
+                    Submit
+                  </Button>
+                )}
+
+                {appraisal.status === "released" && (
                   <div className="flex gap-1">
                     <Button size="sm" className="bg-green-600 text-white hover:bg-green-700">
                       Approve
@@ -0,0 +1,89 @@
+'use client'
+import { useEffect, useState } from 'react'
+
+type Progress = 'NOT_STARTED' | 'IN_PROGRESS' | 'ACHIEVED' | 'NOT_ACHIEVED'
+
+const PROGRESS_LABEL: Record<Progress, string> = {
+  NOT_STARTED: 'Not started',
+  IN_PROGRESS: 'In progress',
+  ACHIEVED: 'Achieved',
+  NOT_ACHIEVED: 'Not achieved',
+}
+
+type Plan = {
+  biAnnualComments: string | null
+  midYearReviewedAt: string | null
+  midYearAcknowledgedAt: string | null
+  midYearReviewedBy: { name: string } | null
+  items: { id: number; developmentArea: string; midYearProgress: Progress | null; midYearNote: string | null }[]
+}
+
+// المراجعة النصفية لخطة التطوير: عرضها وتأكيد الاطلاع عليها
+export default function MidYearReview({ appraisalId }: { appraisalId: number }) {
+  const [plan, setPlan] = useState<Plan | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/appraisals/${appraisalId}/self-development-plan`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setPlan(data?.plan ?? null))
+      .catch(() => setPlan(null))
+  }, [appraisalId])
+
+  async function acknowledge() {
+    setBusy(true)
+    const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan/mid-year/acknowledge`, { method: 'POST' })
+    const j = await res.json().catch(() => ({}))
+    setBusy(false)
+    if (!res.ok) {
+      alert(j.error || 'Action failed')
+      return
+    }
+    setPlan(j.plan)
+  }
+
+  if (!plan?.midYearReviewedAt) return null
+
+  return (
+    <div className="rounded-2xl border p-4 bg-white space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Mid-year Review of your Development Plan</div>
+        <div className="text-xs text-gray-500">
+          Recorded by {plan.midYearReviewedBy?.name ?? 'your evaluator'} on {new Date(plan.midYearReviewedAt).toLocaleDateString()}
+        </div>
+      </div>
+      <table className="w-full text-sm border-collapse">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="p-2 text-left">Development Area</th>
+            <th className="p-2 text-left">Progress</th>
+            <th className="p-2 text-left">Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.items.map(item => (
+            <tr key={item.id} className="border-t">
+              <td className="p-2">{item.developmentArea || '—'}</td>
+              <td className="p-2">{item.midYearProgress ? PROGRESS_LABEL[item.midYearProgress] : '—'}</td>
+              <td className="p-2 text-gray-600">{item.midYearNote || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {plan.biAnnualComments && <p className="text-sm text-gray-700 whitespace-pre-line">{plan.biAnnualComments}</p>}
+      {plan.midYearAcknowledgedAt ? (
+        <div className="text-xs text-green-700">
+          You acknowledged this review on {new Date(plan.midYearAcknowledgedAt).toLocaleDateString()}.
+        </div>
+      ) : (
+        <button
+          disabled={busy}
+          onClick={acknowledge}
+          className="px-4 py-2 rounded bg-blue-600 text-white disabled:opacity-60"
+        >
+          {busy ? 'Acknowledging…' : 'Acknowledge Review'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -304,6 +304,10 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import ResultsActions from './results-actions' 
+import AppealOutcome from '@/components/appraisal/appeal-outcome'
+import { appealDeadline } from '@/lib/workflow'
+import MidYearReview from './mid-year-review'
+import SignOffPanel from '@/components/appraisal/sign-off-panel'
 
 export default async function ResultsPage() {
   const session = await getServerSession(authOptions)
@@ -324,6 +328,7 @@ export default async function ResultsPage() {
     where: { cycleId: cycle.id, facultyId: Number(user.id) },
     include: {
       evaluations: true,
+      appeals: { orderBy: { createdAt: 'desc' }, take: 1 },
     },
   })
 
@@ -366,7 +371,7 @@ export default async function ResultsPage() {
     }
   }
 
-  const isActionable = appraisal.status === 'sent'
+  const isActionable = appraisal.status === 'released'
 //"space-y-6 p-6 md:ml-64" change border 
   return (
     <div className="space-y-6 p-6 md:ml-0">
@@ -461,8 +466,17 @@ export default async function ResultsPage() {
         </div>
       </div>
 
+      <SignOffPanel appraisalId={appraisal.id} />
+
+      <MidYearReview appraisalId={appraisal.id} />
+
+      <AppealOutcome appeal={appraisal.appeals[0] ?? null} />
+
       {isActionable ? (
-        <ResultsActions appraisalId={appraisal.id} />
+        <ResultsActions
+          appraisalId={appraisal.id}
+          appealDeadline={appealDeadline({ releasedAt: appraisal.releasedAt, cycle })?.toISOString() ?? null}
+        />
       ) : (
         <div className="text-sm text-gray-600">
           This appraisal is read-only in the current status.
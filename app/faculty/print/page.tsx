@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Printer, FileText } from "lucide-react"
+import { useBranding } from "@/components/layout/branding"
 
 interface Appraisal {
   id: string
@@ -26,6 +27,7 @@ interface Appraisal {
 }
 
 export default function FacultyPrintPage() {
+  const branding = useBranding()
   const [appraisals, setAppraisals] = useState<Appraisal[]>([])
   const [selectedAppraisal, setSelectedAppraisal] = useState("")
   const [isLoading, setIsLoading] = useState(true)
@@ -67,14 +69,15 @@ export default function FacultyPrintPage() {
           <title>Faculty Appraisal Report - ${appraisal.academicYear}</title>
           <style>
             body { font-family: Arial, sans-serif; margin: 20px; line-height: 1.6; }
-            .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; margin-bottom: 30px; }
+            .header { text-align: center; border-bottom: 2px solid ${branding.primaryColor}; padding-bottom: 20px; margin-bottom: 30px; }
+            .header img { max-height: 60px; margin-bottom: 10px; }
             .section { margin-bottom: 30px; }
             .section h3 { color: #333; border-bottom: 1px solid #ccc; padding-bottom: 5px; }
             .info-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 20px; }
             .info-item { margin-bottom: 10px; }
             .info-label { font-weight: bold; color: #555; }
             .score-box { background: #f5f5f5; padding: 15px; border-radius: 5px; text-align: center; }
-            .score-value { font-size: 24px; font-weight: bold; color: #2563eb; }
+            .score-value { font-size: 24px; font-weight: bold; color: ${branding.primaryColor}; }
             table { width: 100%; border-collapse: collapse; margin-top: 10px; }
             th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
             th { background-color: #f5f5f5; font-weight: bold; }
@@ -97,6 +100,8 @@ export default function FacultyPrintPage() {
   const generatePrintContent = (appraisal: Appraisal) => {
     return `
       <div class="header">
+        ${branding.logo ? `<img src="${branding.logo}" alt="" />` : ""}
+        <div>${branding.name}</div>
         <h1>Faculty Performance Appraisal Report</h1>
         <h2>Academic Year ${appraisal.academicYear}</h2>
       </div>
@@ -195,7 +200,7 @@ export default function FacultyPrintPage() {
       </div>
 
       <div style="margin-top: 30px; text-align: center; font-size: 12px; color: #666;">
-        Generated on ${new Date().toLocaleDateString()} - Faculty Appraisal System
+        Generated on ${new Date().toLocaleDateString()} - ${branding.name}
       </div>
     `
   }
@@ -13,7 +13,7 @@ import {
 } from 'recharts'
 
 type Cycle = { id: number; academicYear: string; semester: string; isActive: boolean }
-type KPI = { avgTotal: number; completionRate: number; sentCount: number; completeCount: number; returnedCount: number; total: number }
+type KPI = { avgTotal: number; completionRate: number; releasedCount: number; completeCount: number; returnedCount: number; total: number }
 type StatusBucket = { status: string; count: number }
 type SectionAvg = { section: string; avg: number }
 type FacultyRow = { name: string; total: number; status: string }
@@ -30,7 +30,10 @@ type HodAnalytics = {
 
 const STATUS_COLORS: Record<string, string> = {
   new: '#999999',
-  sent: '#f59e0b',
+  submitted: '#3b82f6',
+  hod_reviewed: '#6366f1',
+  dean_reviewed: '#a855f7',
+  released: '#f59e0b',
   complete: '#10b981',
   returned: '#ef4444',
 }
@@ -95,7 +98,7 @@ export default function HODAnalyticsPage() {
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
             <Kpi title="Avg Total" value={fmtNum(data.kpis.avgTotal)} />
             <Kpi title="Completion" value={`${Math.round(data.kpis.completionRate * 100)}%`} />
-            <Kpi title="Sent" value={String(data.kpis.sentCount)} />
+            <Kpi title="Scores Released" value={String(data.kpis.releasedCount)} />
             <Kpi title="Returned" value={String(data.kpis.returnedCount)} />
             <Kpi title="Complete" value={String(data.kpis.completeCount)} />
           </div>
@@ -0,0 +1,5 @@
+import AppealsQueue from '@/components/appraisal/appeals-queue';
+
+export default function HODAppealsPage() {
+  return <AppealsQueue reviewBasePath="/hod/reviews" />;
+}
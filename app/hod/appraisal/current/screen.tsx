@@ -1,8 +1,9 @@
 "use client"
 import useSWR from 'swr'
 import { useMemo, useState } from 'react'
-import { Trash2, Edit, CheckCircle, FolderOpen, FileText, LogOut, Menu, X, Printer, Upload } from "lucide-react"
+import { Trash2, Edit, CheckCircle, FileText, LogOut, Menu, X, Printer, Upload } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import AttachmentLinks from "@/components/achievements/attachment-links"
 
 const fetcher = (u:string)=>fetch(u).then(r=>r.json())
 
@@ -68,62 +69,6 @@ function Field({ label, children }:{ label:string; children:any }){
 
 function Input(props:any){ return <input {...props} className={`border rounded px-3 py-2 w-full ${props.className||''}`} /> }
 
-function FileInput({ label, value, onChange }: { label: string; value?: string; onChange: (value: string) => void }) {
-  const [isUploading, setIsUploading] = useState(false)
-
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    setIsUploading(true)
-    try {
-      const formData = new FormData()
-      formData.append('file', file)
-
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
-
-      if (response.ok) {
-        const data = await response.json()
-        onChange(data.url)
-      } else {
-        alert('Failed to upload file')
-      }
-    } catch (error) {
-      console.error('Upload error:', error)
-      alert('Failed to upload file')
-    } finally {
-      setIsUploading(false)
-    }
-  }
-
-  return (
-    <div className="space-y-2">
-      <div className="text-sm mb-1">{label}</div>
-      <div className="flex gap-2">
-        <input
-          type="file"
-          onChange={handleFileUpload}
-          disabled={isUploading}
-          className="flex-1 border rounded px-3 py-2"
-          accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
-        />
-        {isUploading && <div className="text-sm text-gray-500">Uploading...</div>}
-      </div>
-      {value && (
-        <div className="text-sm text-blue-600">
-          <a href={value} target="_blank" rel="noopener noreferrer" className="underline">
-            <FolderOpen size={14} className="inline mr-1" />
-            View uploaded file
-          </a>
-        </div>
-      )}
-    </div>
-  )
-}
-
 // Main screen -------------------------------------------------------------
 export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisalId: number }){
   const { data, isLoading, mutate } = useSWR(`/api/appraisals/${appraisalId}`, fetcher)
@@ -145,7 +90,6 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
   if (isLoading) return <p>Loading…</p>
 
   // Helpers to render action column
-  const link = (url?:string)=> url? <a className="underline" href={url} target="_blank"><FolderOpen size={15} /></a> : '—'
   const delBtn = (res:string)=> (_:any, row:any)=> <button onClick={()=>del(res, row.id)} className="text-red-600 underline"><Trash2 size={15} /></button>
 
   // ------------------ Awards ------------------
@@ -154,7 +98,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'area', label:'Generated Area' },
     { key:'organization', label:'Generating Organization' },
     { key:'dateObtained', label:'Date Obtained', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('awards') },
   ]
 
@@ -176,7 +120,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'journalOrPublisher', label:'Name Of The Journal' },
     { key:'participation', label:'Nature Of Participation' },
     { key:'publicationDate', label:'Date Of Publication', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('research') },
   ]
 
@@ -187,7 +131,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'refereedArticleRef', label:'Refereed Article Reference', render:(v:any, r:any)=> r.refereedArticleRef || '—' },
     { key:'journalOrPublisher', label:'Name Of The Journal' },
     { key:'publicationDate', label:'Date Of Submitting', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('research') },
   ]
 
@@ -199,7 +143,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'participation', label:'Type Of Participation' },
     { key:'organizingAuth', label:'Organizing Authority' },
     { key:'venue', label:'Venue' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('scientific') },
   ]
 
@@ -210,7 +154,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'participation', label:'Nature Of Participation' },
     { key:'dateTo', label:'Date To', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
     { key:'dateFrom', label:'Date From', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('university') },
   ]
 
@@ -221,7 +165,7 @@ export default function HODCurrentAchievementsScreen({ appraisalId }: { appraisa
     { key:'participation', label:'Nature Of Participation' },
     { key:'dateTo', label:'Date To', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
     { key:'dateFrom', label:'Date From', render:(v:any)=> v? new Date(v).toLocaleDateString():'—' },
-    { key:'attachment', label:'Attachment', render:(v:any)=> link(v) },
+    { key:'attachments', label:'Attachment', render:(v:any)=> <AttachmentLinks attachments={v} empty="—" /> },
     { key:'action', label:'Action', render: delBtn('community') },
   ]
 
@@ -288,7 +232,6 @@ function AwardModal({ open, title, onClose, onSubmit }:{ open:boolean; title:str
         <Field label="Generated Area"><Input value={p.area||''} onChange={(e: any)=>setP({...p,area:e.target.value})} /></Field>
         <Field label="Generating Organization"><Input value={p.organization||''} onChange={(e: any)=>setP({...p,organization:e.target.value})} /></Field>
         <Field label="Date Obtained"><Input type="date" value={p.dateObtained||''} onChange={(e: any)=>setP({...p,dateObtained:e.target.value})} /></Field>
-        <FileInput label="Attachment" value={p.attachment||''} onChange={(value)=>setP({...p,attachment:value,fileUrl:value,fileKey:value})} />
         <Actions onCancel={onClose} />
       </form>
     </Modal>
@@ -336,7 +279,6 @@ function ResearchModalPublished({ open, title, onClose, onSubmit }:{ open:boolea
         <Field label="Name Of The Journal"><Input value={p.journalOrPublisher||''} onChange={(e: any)=>setP({...p,journalOrPublisher:e.target.value})} /></Field>
         <Field label="Nature Of Participation"><Input value={p.participation||''} onChange={(e: any)=>setP({...p,participation:e.target.value})} /></Field>
         <Field label="Date Of Publication"><Input type="date" value={p.publicationDate||''} onChange={(e: any)=>setP({...p,publicationDate:e.target.value})} /></Field>
-        <FileInput label="Attachment" value={p.attachment||''} onChange={(value)=>setP({...p,attachment:value,fileUrl:value,fileKey:value})} />
         <Actions onCancel={onClose} />
       </form>
     </Modal>
@@ -365,7 +307,6 @@ function ResearchModalArticle({ open, title, onClose, onSubmit }:{ open:boolean;
         <Field label="Refereed Article Reference"><Input value={p.refereedArticleRef||''} onChange={(e: any)=>setP({...p,refereedArticleRef:e.target.value})} /></Field>
         <Field label="Name Of The Journal"><Input value={p.journalOrPublisher||''} onChange={(e: any)=>setP({...p,journalOrPublisher:e.target.value})} /></Field>
         <Field label="Date Of Submitting"><Input type="date" value={p.publicationDate||''} onChange={(e: any)=>setP({...p,publicationDate:e.target.value})} /></Field>
-        <FileInput label="Attachment" value={p.attachment||''} onChange={(value)=>setP({...p,attachment:value,fileUrl:value,fileKey:value})} />
         <Actions onCancel={onClose} />
       </form>
     </Modal>
@@ -384,7 +325,6 @@ function ScientificModal({ open, title, onClose, onSubmit }:{ open:boolean; titl
         <Field label="Type Of Participation"><Input value={p.participation||''} onChange={(e: any)=>setP({...p,participation:e.target.value})} /></Field>
         <Field label="Organizing Authority"><Input value={p.organizingAuth||''} onChange={(e: any)=>setP({...p,organizingAuth:e.target.value})} /></Field>
         <Field label="Venue"><Input value={p.venue||''} onChange={(e: any)=>setP({...p,venue:e.target.value})} /></Field>
-        <FileInput label="Attachment" value={p.attachment||''} onChange={(value)=>setP({...p,attachment:value,fileUrl:value,fileKey:value})} />
         <Actions onCancel={onClose} />
       </form>
     </Modal>
@@ -404,7 +344,6 @@ function ServiceModal({ open, title, onClose, onSubmit }:{ open:boolean; title:s
           <Field label="Date From"><Input type="date" value={p.dateFrom||''} onChange={(e: any)=>setP({...p,dateFrom:e.target.value})} /></Field>
           <Field label="Date To"><Input type="date" value={p.dateTo||''} onChange={(e: any)=>setP({...p,dateTo:e.target.value})} /></Field>
         </div>
-        <FileInput label="Attachment" value={p.attachment||''} onChange={(value)=>setP({...p,attachment:value,fileUrl:value,fileKey:value})} />
         <Actions onCancel={onClose} />
       </form>
     </Modal>
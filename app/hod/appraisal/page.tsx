@@ -7,7 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Eye, CheckCircle, XCircle, Clock, Send, Calculator, User } from "lucide-react"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 // Using new enum values
-type EvaluationStatus = "new" | "sent" | "complete" | "returned"
+type EvaluationStatus = "new" | "submitted" | "hod_reviewed" | "dean_reviewed" | "released" | "complete" | "returned"
 
 interface FacultyAppraisal {
   id: string
@@ -64,7 +64,7 @@ export default function HODAppraisalPage() {
     switch (status) {
       case "new":
         return <Clock className="h-4 w-4" />
-      case "sent":
+      case "released":
         return <Send className="h-4 w-4" />
       case "complete":
         return <CheckCircle className="h-4 w-4" />
@@ -79,7 +79,7 @@ export default function HODAppraisalPage() {
     switch (status) {
       case "new":
         return "bg-blue-100 text-blue-800"
-      case "sent":
+      case "released":
         return "bg-orange-100 text-orange-800"
       case "complete":
         return "bg-green-100 text-green-800"
@@ -91,11 +91,11 @@ export default function HODAppraisalPage() {
   }
 
   const canEvaluate = (status: string) => {
-    return status === "new"
+    return status === "new" || status === "submitted"
   }
 
   const canSendScores = (status: string) => {
-    return status === "new"
+    return status === "submitted"
   }
 
   if (isLoading) {
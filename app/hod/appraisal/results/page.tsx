@@ -304,6 +304,8 @@ import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { redirect } from 'next/navigation'
 import ResultsActions from './results-actions' 
+import AppealOutcome from '@/components/appraisal/appeal-outcome'
+import { appealDeadline } from '@/lib/workflow'
 
 export default async function ResultsPage() {
   const session = await getServerSession(authOptions)
@@ -324,6 +326,7 @@ export default async function ResultsPage() {
     where: { cycleId: cycle.id, facultyId: Number(user.id) },
     include: {
       evaluations: true,
+      appeals: { orderBy: { createdAt: 'desc' }, take: 1 },
     },
   })
 
@@ -366,7 +369,7 @@ export default async function ResultsPage() {
     }
   }
 
-  const isActionable = appraisal.status === 'sent'
+  const isActionable = appraisal.status === 'released'
 //"space-y-6 p-6 md:ml-64" change border 
   return (
     <div className="space-y-6 p-6 md:ml-0">
@@ -461,8 +464,13 @@ export default async function ResultsPage() {
         </div>
       </div>
 
+      <AppealOutcome appeal={appraisal.appeals[0] ?? null} />
+
       {isActionable ? (
-        <ResultsActions appraisalId={appraisal.id} />
+        <ResultsActions
+          appraisalId={appraisal.id}
+          appealDeadline={appealDeadline({ releasedAt: appraisal.releasedAt, cycle })?.toISOString() ?? null}
+        />
       ) : (
         <div className="text-sm text-gray-600">
           This appraisal is read-only in the current status.
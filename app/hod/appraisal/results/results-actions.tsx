@@ -1,9 +1,17 @@
 'use client'
 import { useState } from 'react'
 
-export default function ResultsActions({ appraisalId }: { appraisalId: number }) {
+export default function ResultsActions({
+  appraisalId,
+  appealDeadline,
+}: {
+  appraisalId: number
+  /** آخر موعد للتظلّم (ISO)، أو null إذا لا توجد مهلة */
+  appealDeadline?: string | null
+}) {
   const [busy, setBusy] = useState<'approve' | 'appeal' | null>(null)
   const [message, setMessage] = useState('')
+  const appealClosed = !!appealDeadline && new Date(appealDeadline) < new Date()
 
   async function act(path: 'approve' | 'appeal') {
     setBusy(path)
@@ -41,7 +49,7 @@ export default function ResultsActions({ appraisalId }: { appraisalId: number })
             className="border rounded px-3 py-2 w-full"
           />
           <button
-            disabled={!!busy}
+            disabled={!!busy || appealClosed}
             onClick={() => act('appeal')}
             className="px-4 py-2 rounded bg-red-600 text-white disabled:opacity-60"
           >
@@ -51,6 +59,12 @@ export default function ResultsActions({ appraisalId }: { appraisalId: number })
       </div>
       <div className="text-xs text-gray-500 mt-2">
         Approve will mark this appraisal as COMPLETE. Appeal will return it to the evaluator with your message.
+        {appealDeadline && (
+          <span className={appealClosed ? 'block text-red-600' : 'block'}>
+            {appealClosed ? 'The appeal window closed on ' : 'Appeals close on '}
+            {new Date(appealDeadline).toLocaleDateString()}.
+          </span>
+        )}
       </div>
     </div>
   )
@@ -1,11 +1,14 @@
+import Link from "next/link"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { prisma } from "@/lib/prisma"
 import { getCurrentUser } from "@/lib/auth-utils"
-import { ClipboardList, Users, Award, TrendingUp, Calendar, CheckCircle, Clock } from "lucide-react"
+import { ClipboardList, Users, Award, TrendingUp, Calendar, CheckCircle, Clock, AlertTriangle } from "lucide-react"
 import { EvaluationStatus } from "@prisma/client"
+import { statusBadgeClass, statusLabel } from "@/lib/appraisal-status"
+import { findOverdueMidYearReviews } from "@/lib/development-plan"
 
 async function getHODStats(departmentId: number) {
-  const [totalFaculty, pendingAppraisals, completedAppraisals, totalAchievements, recentAppraisals] = await Promise.all([
+  const [totalFaculty, pendingAppraisals, completedAppraisals, totalAchievements, recentAppraisals, overdueMidYear] = await Promise.all([
     prisma.user.count({
       where: {
         role: "INSTRUCTOR",
@@ -19,7 +22,7 @@ async function getHODStats(departmentId: number) {
           departmentId: departmentId,
           role: "INSTRUCTOR",
         },
-        status: EvaluationStatus.new,
+        status: EvaluationStatus.submitted,
       },
     }),
     prisma.appraisal.count({
@@ -28,7 +31,8 @@ async function getHODStats(departmentId: number) {
           departmentId: departmentId,
           role: "INSTRUCTOR",
         },
-        status: EvaluationStatus.sent,
+        // HOD stage done: anything past submitted
+        status: { notIn: [EvaluationStatus.new, EvaluationStatus.submitted] },
       },
     }),
     prisma.appraisal.count({
@@ -58,6 +62,7 @@ async function getHODStats(departmentId: number) {
       orderBy: { updatedAt: "desc" },
       take: 8, // زيادة العدد لملء المساحة
     }),
+    findOverdueMidYearReviews({ departmentId: departmentId, role: "INSTRUCTOR" }),
   ])
 
   return {
@@ -66,6 +71,7 @@ async function getHODStats(departmentId: number) {
     completedAppraisals,
     totalAchievements,
     recentAppraisals,
+    overdueMidYear,
   }
 }
 
@@ -111,18 +117,6 @@ export default async function HODDashboard() {
     },
   ]
 
-  // دالة للحصول على لون الحالة
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'sent':
-        return 'text-green-600 bg-green-100'
-      case 'new':
-        return 'text-amber-600 bg-amber-100'
-      default:
-        return 'text-gray-600 bg-gray-100'
-    }
-  }
-
   // دالة لتنسيق التاريخ
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -160,6 +154,41 @@ export default async function HODDashboard() {
         ))}
       </div>
 
+      {/* Overdue mid-year reviews */}
+      {stats.overdueMidYear.length > 0 && (
+        <Card className="border-0 shadow-sm mb-8">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-xl font-semibold text-gray-900 flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-600" />
+              Overdue Mid-year Reviews
+            </CardTitle>
+            <CardDescription>Development plans whose mid-year checkpoint has passed without a recorded review</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {stats.overdueMidYear.map((appraisal) => (
+                <Link
+                  key={appraisal.id}
+                  href={`/hod/reviews/${appraisal.id}/self-development-plan`}
+                  className="flex items-center justify-between p-3 bg-white border border-amber-100 rounded-lg hover:bg-amber-50 transition-colors duration-150"
+                >
+                  <div>
+                    <p className="font-medium text-gray-900">{appraisal.faculty.name}</p>
+                    <p className="text-sm text-gray-500">{appraisal.faculty.email}</p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="text-gray-500">{appraisal.cycle.academicYear}</p>
+                    <p className="text-amber-700 font-medium">
+                      Due {appraisal.cycle.midYearReviewDate ? formatDate(appraisal.cycle.midYearReviewDate) : ""}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Appraisals - Full Width */}
       <Card className="border-0 shadow-sm">
         <CardHeader className="pb-4">
@@ -205,8 +234,8 @@ export default async function HODDashboard() {
                     </div>
                   </div>
                   <div className="text-right">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(appraisal.status)}`}>
-                      {appraisal.status === 'sent' ? 'Reviewed' : 'Pending Review'}
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusBadgeClass(appraisal.status)}`}>
+                      {statusLabel(appraisal.status)}
                     </span>
                   </div>
                 </div>
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
 import { ArrowLeft, Calculator, Eye, CheckCircle } from 'lucide-react'
 import Link from 'next/link'
 
@@ -22,6 +24,7 @@ interface GradingConfig {
   }
   teachingBands: any
   researchMap: any
+  bandPoints: Record<'research' | 'universityService' | 'communityService' | 'teaching', Record<string, number>>
 }
 
 interface AchievementsSummary {
@@ -34,6 +37,25 @@ interface AchievementsSummary {
   }
 }
 
+type BandKey = 'HIGH' | 'EXCEEDS' | 'MEETS' | 'PARTIAL' | 'NEEDS'
+
+const BAND_LABELS: Record<BandKey, string> = {
+  HIGH: 'Highly Exceeds',
+  EXCEEDS: 'Exceeds',
+  MEETS: 'Fully Meets',
+  PARTIAL: 'Partially Meets',
+  NEEDS: 'Needs Improvement',
+}
+
+interface ResearchSuggestion {
+  band: BandKey
+  rule: string
+  points: number
+  items: { source: string; id: number; title: string; detail: string }[]
+  considered: { source: string; id: number; title: string; category: string; detail: string }[]
+  current: { decision: { chosenBand: BandKey; justification: string | null } | null } | null
+}
+
 interface ComputedScores {
   research: number
   teaching: number
@@ -50,18 +72,30 @@ export default function ComputePage() {
   const [achievements, setAchievements] = useState<AchievementsSummary | null>(null)
   const [computedScores, setComputedScores] = useState<ComputedScores | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [suggestion, setSuggestion] = useState<ResearchSuggestion | null>(null)
+  const [researchBand, setResearchBand] = useState<BandKey | ''>('')
+  const [justification, setJustification] = useState('')
+  const [savingResearch, setSavingResearch] = useState(false)
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        // For now, assume cycleId is 1 - in real implementation, get from appraisal
-        const cycleId = 1
-
-        const [configRes, achievementsRes] = await Promise.all([
-          fetch(`/api/grading/effective?cycleId=${cycleId}`),
-          fetch(`/api/appraisals/${appraisalId}/achievements-summary`)
+        // Scores come from the server-side grading engine so the preview matches what gets saved
+        const [configRes, achievementsRes, previewRes, suggestionRes] = await Promise.all([
+          fetch(`/api/grading/effective?appraisalId=${appraisalId}`),
+          fetch(`/api/appraisals/${appraisalId}/achievements-summary`),
+          fetch(`/api/appraisals/${appraisalId}/evaluation/compute-all`),
+          fetch(`/api/appraisals/${appraisalId}/evaluation/research-suggestion`),
         ])
 
+        if (suggestionRes.ok) {
+          const data: ResearchSuggestion = await suggestionRes.json()
+          setSuggestion(data)
+          // القرار السابق إن وُجد، وإلا الاقتراح كقيمة مبدئية
+          setResearchBand(data.current?.decision?.chosenBand ?? data.band)
+          setJustification(data.current?.decision?.justification ?? '')
+        }
+
         if (configRes.ok) {
           const configData = await configRes.json()
           setConfig(configData)
@@ -71,6 +105,17 @@ export default function ComputePage() {
           const achievementsData = await achievementsRes.json()
           setAchievements(achievementsData)
         }
+
+        if (previewRes.ok) {
+          const preview = await previewRes.json()
+          setComputedScores({
+            research: preview.researchPts,
+            teaching: preview.teachingQualityPts,
+            universityService: preview.universityServicePts,
+            communityService: preview.communityServicePts,
+            total: preview.total,
+          })
+        }
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -83,47 +128,29 @@ export default function ComputePage() {
     }
   }, [appraisalId])
 
-  useEffect(() => {
-    if (config && achievements) {
-      const scores = computeAllScores(config, achievements)
-      setComputedScores(scores)
-    }
-  }, [config, achievements])
-
-  const computeAllScores = (config: GradingConfig, achievements: AchievementsSummary): ComputedScores => {
-    // Research score
-    const researchScore = Object.entries(achievements.research).reduce((sum, [kind, count]) => {
-      const points = config.researchMap?.[kind] || 0
-      return sum + (points * count)
-    }, 0)
+  const isOverride = !!suggestion && !!researchBand && researchBand !== suggestion.band
 
-    // Teaching score based on average
-    let teachingScore = 0
-    const avg = achievements.teaching.average
-    if (avg >= 90) teachingScore = config.weights.teaching
-    else if (avg >= 80) teachingScore = config.weights.teaching * 0.8
-    else if (avg >= 60) teachingScore = config.weights.teaching * 0.6
-    else if (avg >= 50) teachingScore = config.weights.teaching * 0.4
-    else teachingScore = config.weights.teaching * 0.2
-
-    // Service scores
-    const universityServiceScore = Math.min(
-      achievements.universityService * config.serviceParams.pointsPerItem,
-      config.serviceParams.maxPoints
-    )
-    const communityServiceScore = Math.min(
-      achievements.communityService * config.serviceParams.pointsPerItem,
-      config.serviceParams.maxPoints
-    )
-
-    const total = researchScore + teachingScore + universityServiceScore + communityServiceScore
-
-    return {
-      research: researchScore,
-      teaching: teachingScore,
-      universityService: universityServiceScore,
-      communityService: communityServiceScore,
-      total
+  const handleApplyResearch = async () => {
+    if (!researchBand) return
+    if (isOverride && !justification.trim()) {
+      alert('Please provide a justification for overriding the suggested band')
+      return
+    }
+    setSavingResearch(true)
+    try {
+      const response = await fetch(`/api/appraisals/${appraisalId}/evaluation/criterion`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ criterion: 'research', band: researchBand, justification: isOverride ? justification : null }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        alert(`Research band applied (${data.points} pts)`)
+      } else {
+        alert(data.error || 'Failed to apply research band')
+      }
+    } finally {
+      setSavingResearch(false)
     }
   }
 
@@ -233,11 +260,11 @@ export default function ComputePage() {
                       <DialogTitle>Research Rubric</DialogTitle>
                     </DialogHeader>
                     <div className="space-y-2">
-                      <div>Highly Exceeds (30 pts): Exceptional research output</div>
-                      <div>Exceeds (24 pts): Strong research record</div>
-                      <div>Fully Meets (18 pts): Satisfactory research output</div>
-                      <div>Partially Meets (12 pts): Limited research output</div>
-                      <div>Needs Improvement (6 pts): Minimal research activity</div>
+                      <div>Highly Exceeds ({config?.bandPoints.research.HIGH} pts): Exceptional research output</div>
+                      <div>Exceeds ({config?.bandPoints.research.EXCEEDS} pts): Strong research record</div>
+                      <div>Fully Meets ({config?.bandPoints.research.MEETS} pts): Satisfactory research output</div>
+                      <div>Partially Meets ({config?.bandPoints.research.PARTIAL} pts): Limited research output</div>
+                      <div>Needs Improvement ({config?.bandPoints.research.NEEDS} pts): Minimal research activity</div>
                     </div>
                   </DialogContent>
                 </Dialog>
@@ -245,10 +272,10 @@ export default function ComputePage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-2">
-                {Object.entries(achievements?.research || {}).map(([kind, count]) => (
-                  <div key={kind} className="flex justify-between text-sm">
-                    <span>{kind}:</span>
-                    <span>{count} × {config?.researchMap?.[kind] || 0} pts</span>
+                {suggestion?.considered.map(item => (
+                  <div key={`${item.source}-${item.id}`} className="flex justify-between text-sm">
+                    <span>{item.title}</span>
+                    <span className="text-muted-foreground">{item.detail}</span>
                   </div>
                 ))}
                 <div className="border-t pt-2 flex justify-between font-semibold">
@@ -256,6 +283,45 @@ export default function ComputePage() {
                   <span>{computedScores?.research.toFixed(2)} pts</span>
                 </div>
               </div>
+
+              {suggestion && (
+                <div className="mt-4 space-y-3 rounded-md border p-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Suggested band:</span>
+                    <Badge>{BAND_LABELS[suggestion.band]} ({suggestion.points} pts)</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Matched rule: {suggestion.rule}</p>
+                  {suggestion.items.length > 0 && (
+                    <ul className="list-disc pl-5 text-sm">
+                      {suggestion.items.map(item => (
+                        <li key={`${item.source}-${item.id}`}>{item.title} ({item.detail})</li>
+                      ))}
+                    </ul>
+                  )}
+                  <Select value={researchBand} onValueChange={(v) => setResearchBand(v as BandKey)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select band" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(BAND_LABELS) as BandKey[]).map(b => (
+                        <SelectItem key={b} value={b}>
+                          {BAND_LABELS[b]} ({config?.bandPoints.research[b]} pts){b === suggestion.band ? ' — suggested' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isOverride && (
+                    <Textarea
+                      placeholder="Justification for overriding the suggested band (required)"
+                      value={justification}
+                      onChange={(e) => setJustification(e.target.value)}
+                    />
+                  )}
+                  <Button variant="outline" className="w-full" onClick={handleApplyResearch} disabled={!researchBand || savingResearch}>
+                    {savingResearch ? 'Applying...' : 'Apply Research Band'}
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
 
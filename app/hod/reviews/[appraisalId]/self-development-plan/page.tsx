@@ -8,28 +8,78 @@ import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Loader2, Save, Plus, Trash2, Printer } from 'lucide-react'
-import { cn } from '@/lib/utils'
+
+type SignerRole = 'HOD' | 'DEAN'
+type Progress = 'NOT_STARTED' | 'IN_PROGRESS' | 'ACHIEVED' | 'NOT_ACHIEVED'
 
 type PlanRow = {
-  id: string
+  key: string // مفتاح الواجهة فقط
+  id?: number
   developmentArea: string
   linkToGoals: string
   activities: string
   expectedResults: string
   timeframe: string
+  carriedFromItemId?: number | null
 }
 
+type Signature = { role: SignerRole; signedAt: string; signer: { id: number; name: string } }
+
+type MidYearEntry = { progress: Progress | ''; note: string }
+
 type PlanState = {
   rows: PlanRow[]
   biAnnualComments: string
   annualComments: string
-  hodSignature?: { name: string; signedAt: string } | null
-  deanSignature?: { name: string; signedAt: string } | null
+  signatures: Signature[]
+  midYear: Record<number, MidYearEntry>
+  midYearReviewedAt: string | null
+  midYearReviewedBy: { id: number; name: string } | null
+  midYearAcknowledgedAt: string | null
+}
+
+type ServerItem = Omit<PlanRow, 'key'> & {
+  id: number
+  progress: Progress
+  progressNote: string | null
+  midYearProgress: Progress | null
+  midYearNote: string | null
+}
+
+type ServerPlan = {
+  id: number
+  biAnnualComments: string | null
+  annualComments: string | null
+  items: ServerItem[]
+  signatures: Signature[]
+  midYearReviewedAt: string | null
+  midYearReviewedBy: { id: number; name: string } | null
+  midYearAcknowledgedAt: string | null
+}
+
+type MidYearStatus = 'NOT_SCHEDULED' | 'UPCOMING' | 'OVERDUE' | 'AWAITING_ACKNOWLEDGEMENT' | 'ACKNOWLEDGED'
+
+const MID_YEAR_LABEL: Record<MidYearStatus, string> = {
+  NOT_SCHEDULED: 'Not scheduled',
+  UPCOMING: 'Upcoming',
+  OVERDUE: 'Overdue',
+  AWAITING_ACKNOWLEDGEMENT: 'Awaiting faculty acknowledgement',
+  ACKNOWLEDGED: 'Acknowledged',
+}
+
+type PreviousPlan = ServerPlan & { appraisal: { id: number; cycle: { academicYear: string } } }
+
+const PROGRESS_LABEL: Record<Progress, string> = {
+  NOT_STARTED: 'Not started',
+  IN_PROGRESS: 'In progress',
+  ACHIEVED: 'Achieved',
+  NOT_ACHIEVED: 'Not achieved',
 }
 
 const emptyRow = (): PlanRow => ({
-  id: crypto.randomUUID(),
+  key: crypto.randomUUID(),
   developmentArea: '',
   linkToGoals: '',
   activities: '',
@@ -37,20 +87,56 @@ const emptyRow = (): PlanRow => ({
   timeframe: '',
 })
 
+const fromServer = (plan: ServerPlan): PlanState => ({
+  rows: plan.items.map(({ id, developmentArea, linkToGoals, activities, expectedResults, timeframe, carriedFromItemId }) => ({
+    key: String(id), id, developmentArea, linkToGoals, activities, expectedResults, timeframe, carriedFromItemId,
+  })),
+  biAnnualComments: plan.biAnnualComments ?? '',
+  annualComments: plan.annualComments ?? '',
+  signatures: plan.signatures,
+  midYear: Object.fromEntries(plan.items.map(i => [i.id, { progress: i.midYearProgress ?? '', note: i.midYearNote ?? '' }])),
+  midYearReviewedAt: plan.midYearReviewedAt,
+  midYearReviewedBy: plan.midYearReviewedBy,
+  midYearAcknowledgedAt: plan.midYearAcknowledgedAt,
+})
+
+// خطة جديدة تبدأ بالبنود غير المنجزة من خطة الدورة السابقة
+const carriedOver = (previous: PreviousPlan): PlanRow[] =>
+  previous.items
+    .filter(i => i.progress !== 'ACHIEVED')
+    .map(i => ({
+      key: crypto.randomUUID(),
+      developmentArea: i.developmentArea,
+      linkToGoals: i.linkToGoals,
+      activities: i.activities,
+      expectedResults: i.expectedResults,
+      timeframe: i.timeframe,
+      carriedFromItemId: i.id,
+    }))
+
 export default function SelfDevelopmentPlanPage() {
   const router = useRouter()
   const { appraisalId } = useParams<{ appraisalId: string }>()
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [err, setErr] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
   const [meRole, setMeRole] = useState<'HOD' | 'DEAN' | 'ADMIN' | 'INSTRUCTOR'>('HOD')
+  const [permissions, setPermissions] = useState<{ canEdit: boolean; canSignAs: SignerRole[] }>({ canEdit: false, canSignAs: [] })
+  const [previousPlan, setPreviousPlan] = useState<PreviousPlan | null>(null)
+  const [savingProgress, setSavingProgress] = useState(false)
+  const [midYearInfo, setMidYearInfo] = useState<{ date: string | null; status: MidYearStatus }>({ date: null, status: 'NOT_SCHEDULED' })
+  const [savingMidYear, setSavingMidYear] = useState(false)
 
   const [plan, setPlan] = useState<PlanState>({
     rows: [emptyRow(), emptyRow()],
     biAnnualComments: '',
     annualComments: '',
-    hodSignature: null,
-    deanSignature: null,
+    signatures: [],
+    midYear: {},
+    midYearReviewedAt: null,
+    midYearReviewedBy: null,
+    midYearAcknowledgedAt: null,
   })
 
   useEffect(() => {
@@ -59,10 +145,18 @@ export default function SelfDevelopmentPlanPage() {
       setErr(null)
       try {
         const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan`)
-        if (!res.ok) throw new Error(`Failed to load plan: ${res.status}`)
-        const data = await res.json()
+        const data = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(data.error || `Failed to load plan: ${res.status}`)
         if (data.role) setMeRole(data.role)
-        if (data.plan) setPlan(data.plan)
+        if (data.permissions) setPermissions(data.permissions)
+        setPreviousPlan(data.previousPlan ?? null)
+        if (data.midYear) setMidYearInfo(data.midYear)
+        if (data.plan) {
+          setPlan(fromServer(data.plan))
+        } else if (data.previousPlan) {
+          const rows = carriedOver(data.previousPlan)
+          if (rows.length) setPlan(p => ({ ...p, rows }))
+        }
       } catch (e: any) {
         setErr(e?.message || 'Failed to load')
       } finally {
@@ -73,39 +167,50 @@ export default function SelfDevelopmentPlanPage() {
   }, [appraisalId])
 
   const addRow = () => setPlan(p => ({ ...p, rows: [...p.rows, emptyRow()] }))
-  const removeRow = (id: string) => setPlan(p => ({ ...p, rows: p.rows.filter(r => r.id !== id) }))
-  const updateRow = (id: string, patch: Partial<PlanRow>) =>
-    setPlan(p => ({ ...p, rows: p.rows.map(r => (r.id === id ? { ...r, ...patch } : r)) }))
-
-  const canSignAsHod = meRole === 'HOD' || meRole === 'ADMIN'
-  const canSignAsDean = meRole === 'DEAN' || meRole === 'ADMIN'
-
-  const sign = async (who: 'HOD' | 'DEAN') => {
-    const nameRes = await fetch('/api/auth/session')
-    const sess = nameRes.ok ? await nameRes.json() : null
-    const signerName = sess?.user?.name ?? who
-
-    const nowIso = new Date().toISOString()
-    setPlan(p => ({
-      ...p,
-      hodSignature: who === 'HOD' ? { name: signerName, signedAt: nowIso } : p.hodSignature,
-      deanSignature: who === 'DEAN' ? { name: signerName, signedAt: nowIso } : p.deanSignature,
-    }))
+  const removeRow = (key: string) => setPlan(p => ({ ...p, rows: p.rows.filter(r => r.key !== key) }))
+  const updateRow = (key: string, patch: Partial<PlanRow>) =>
+    setPlan(p => ({ ...p, rows: p.rows.map(r => (r.key === key ? { ...r, ...patch } : r)) }))
+  const updatePrevious = (id: number, patch: Partial<ServerItem>) =>
+    setPreviousPlan(p => (p ? { ...p, items: p.items.map(i => (i.id === id ? { ...i, ...patch } : i)) } : p))
+
+  const { canEdit } = permissions
+  const canSignAsHod = permissions.canSignAs.includes('HOD')
+  const canSignAsDean = permissions.canSignAs.includes('DEAN')
+  const hodSignature = plan.signatures.find(s => s.role === 'HOD') ?? null
+  const deanSignature = plan.signatures.find(s => s.role === 'DEAN') ?? null
+
+  const sign = async (who: SignerRole) => {
+    setErr(null)
+    const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan/sign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ as: who }),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) {
+      setErr(data.error || `Sign failed (${res.status})`)
+      return
+    }
+    setPlan(fromServer(data.plan))
   }
 
   const onSave = async () => {
     setSaving(true)
     setErr(null)
+    setNotice(null)
     try {
       const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(plan),
+        body: JSON.stringify({
+          items: plan.rows.map(({ key, ...row }) => row),
+          annualComments: plan.annualComments,
+        }),
       })
-      if (!res.ok) {
-        const t = await res.text()
-        throw new Error(t || `Save failed (${res.status})`)
-      }
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Save failed (${res.status})`)
+      setPlan(fromServer(data.plan))
+      if (data.signaturesCleared) setNotice('The plan changed, so existing signatures were cleared and must be signed again.')
     } catch (e: any) {
       setErr(e?.message || 'Save failed')
     } finally {
@@ -113,10 +218,65 @@ export default function SelfDevelopmentPlanPage() {
     }
   }
 
+  const onSaveProgress = async () => {
+    if (!previousPlan) return
+    setSavingProgress(true)
+    setErr(null)
+    try {
+      const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan/progress`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: previousPlan.items.map(i => ({ id: i.id, progress: i.progress, progressNote: i.progressNote })),
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Save failed (${res.status})`)
+      setNotice('Progress on the previous plan was saved.')
+    } catch (e: any) {
+      setErr(e?.message || 'Save failed')
+    } finally {
+      setSavingProgress(false)
+    }
+  }
+
+  const updateMidYear = (id: number, patch: Partial<MidYearEntry>) =>
+    setPlan(p => ({ ...p, midYear: { ...p.midYear, [id]: { ...(p.midYear[id] ?? { progress: '', note: '' }), ...patch } } }))
+
+  const savedRows = plan.rows.filter(r => r.id !== undefined)
+  const canRecordMidYear = canEdit && (midYearInfo.status === 'OVERDUE' || midYearInfo.status === 'AWAITING_ACKNOWLEDGEMENT' || midYearInfo.status === 'ACKNOWLEDGED')
+
+  const onSaveMidYear = async () => {
+    const items = savedRows.map(r => ({ id: r.id as number, ...plan.midYear[r.id as number] }))
+    if (items.some(i => !i.progress)) {
+      setErr('Select the mid-year progress for every plan item')
+      return
+    }
+    setSavingMidYear(true)
+    setErr(null)
+    setNotice(null)
+    try {
+      const res = await fetch(`/api/appraisals/${appraisalId}/self-development-plan/mid-year`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, biAnnualComments: plan.biAnnualComments }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Save failed (${res.status})`)
+      setPlan(fromServer(data.plan))
+      setMidYearInfo(m => ({ ...m, status: 'AWAITING_ACKNOWLEDGEMENT' }))
+      setNotice('Mid-year review recorded. The faculty member has been asked to acknowledge it.')
+    } catch (e: any) {
+      setErr(e?.message || 'Save failed')
+    } finally {
+      setSavingMidYear(false)
+    }
+  }
+
   const onPrint = () => window.print()
 
-  const signatureText = (sig?: { name: string; signedAt: string } | null) =>
-    sig ? `${sig.name} — ${new Date(sig.signedAt).toLocaleDateString()}` : '________________   Date: __________'
+  const signatureText = (sig: Signature | null) =>
+    sig ? `${sig.signer.name} — ${new Date(sig.signedAt).toLocaleDateString()}` : '________________   Date: __________'
 
   return (
     <div className="p-6 space-y-6 print:p-0">
@@ -127,10 +287,12 @@ export default function SelfDevelopmentPlanPage() {
         </div>
         <div className="flex gap-2">
           <Button variant="outline" onClick={onPrint}><Printer className="mr-2 h-4 w-4" /> Print</Button>
-          <Button onClick={onSave} disabled={saving}>
-            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-            Save
-          </Button>
+          {canEdit && (
+            <Button onClick={onSave} disabled={saving}>
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save
+            </Button>
+          )}
         </div>
       </div>
 
@@ -141,6 +303,75 @@ export default function SelfDevelopmentPlanPage() {
         </Card>
       )}
 
+      {notice && (
+        <Card className="border-amber-300 bg-amber-50 print:hidden">
+          <CardContent className="pt-6"><p className="text-sm">{notice}</p></CardContent>
+        </Card>
+      )}
+
+      {previousPlan && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <CardTitle>Progress on previous plan ({previousPlan.appraisal.cycle.academicYear})</CardTitle>
+            <CardDescription>
+              Review each item from last cycle. Items not achieved are carried into a new plan automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/40">
+                    <TableHead className="min-w-[200px]">Development Area</TableHead>
+                    <TableHead className="min-w-[200px]">Expected Results</TableHead>
+                    <TableHead className="min-w-[160px]">Progress</TableHead>
+                    <TableHead className="min-w-[240px]">Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previousPlan.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="align-top">{item.developmentArea || '—'}</TableCell>
+                      <TableCell className="align-top text-sm text-muted-foreground">{item.expectedResults || '—'}</TableCell>
+                      <TableCell className="align-top">
+                        <Select
+                          value={item.progress}
+                          onValueChange={(v) => updatePrevious(item.id, { progress: v as Progress })}
+                          disabled={!canEdit}
+                        >
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(PROGRESS_LABEL) as Progress[]).map(p => (
+                              <SelectItem key={p} value={p}>{PROGRESS_LABEL[p]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <Textarea
+                          rows={2}
+                          value={item.progressNote ?? ''}
+                          readOnly={!canEdit}
+                          onChange={(e) => updatePrevious(item.id, { progressNote: e.target.value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={onSaveProgress} disabled={savingProgress}>
+                  {savingProgress ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save Progress
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle className="print:text-center">Section 3: Self-development Plan</CardTitle>
@@ -164,32 +395,36 @@ export default function SelfDevelopmentPlanPage() {
               </TableHeader>
               <TableBody>
                 {plan.rows.map((row) => (
-                  <TableRow key={row.id}>
+                  <TableRow key={row.key}>
                     <TableCell className="align-top">
-                      <Input value={row.developmentArea} onChange={(e) => updateRow(row.id, { developmentArea: e.target.value })} />
+                      <Input value={row.developmentArea} readOnly={!canEdit} onChange={(e) => updateRow(row.key, { developmentArea: e.target.value })} />
                     </TableCell>
                     <TableCell className="align-top">
-                      <Textarea rows={3} value={row.linkToGoals} onChange={(e) => updateRow(row.id, { linkToGoals: e.target.value })} />
+                      <Textarea rows={3} value={row.linkToGoals} readOnly={!canEdit} onChange={(e) => updateRow(row.key, { linkToGoals: e.target.value })} />
                     </TableCell>
                     <TableCell className="align-top">
-                      <Textarea rows={3} value={row.activities} onChange={(e) => updateRow(row.id, { activities: e.target.value })} />
+                      <Textarea rows={3} value={row.activities} readOnly={!canEdit} onChange={(e) => updateRow(row.key, { activities: e.target.value })} />
                     </TableCell>
                     <TableCell className="align-top">
-                      <Textarea rows={3} value={row.expectedResults} onChange={(e) => updateRow(row.id, { expectedResults: e.target.value })} />
+                      <Textarea rows={3} value={row.expectedResults} readOnly={!canEdit} onChange={(e) => updateRow(row.key, { expectedResults: e.target.value })} />
                     </TableCell>
                     <TableCell className="align-top">
-                      <Input value={row.timeframe} onChange={(e) => updateRow(row.id, { timeframe: e.target.value })} />
+                      <Input value={row.timeframe} readOnly={!canEdit} onChange={(e) => updateRow(row.key, { timeframe: e.target.value })} />
                     </TableCell>
                     <TableCell className="print:hidden text-right">
-                      <Button size="icon" variant="ghost" onClick={() => removeRow(row.id)}><Trash2 className="h-4 w-4" /></Button>
+                      {canEdit && (
+                        <Button size="icon" variant="ghost" onClick={() => removeRow(row.key)}><Trash2 className="h-4 w-4" /></Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))}
-                <TableRow className="print:hidden">
-                  <TableCell colSpan={6} className="text-center py-3">
-                    <Button variant="outline" onClick={addRow}><Plus className="mr-2 h-4 w-4" /> Add Row</Button>
-                  </TableCell>
-                </TableRow>
+                {canEdit && (
+                  <TableRow className="print:hidden">
+                    <TableCell colSpan={6} className="text-center py-3">
+                      <Button variant="outline" onClick={addRow}><Plus className="mr-2 h-4 w-4" /> Add Row</Button>
+                    </TableCell>
+                  </TableRow>
+                )}
 
                 {/* Gray band row like the sample */}
                 <TableRow>
@@ -204,7 +439,8 @@ export default function SelfDevelopmentPlanPage() {
                   <TableCell colSpan={6}>
                     <div className="space-y-2">
                       <div className="text-sm font-medium">Bi-annual Evaluation Comments</div>
-                      <Textarea rows={4} value={plan.biAnnualComments} onChange={(e) => setPlan(p => ({ ...p, biAnnualComments: e.target.value }))} />
+                      {/* تُكتب من قسم المراجعة النصفية */}
+                      <Textarea rows={4} value={plan.biAnnualComments} readOnly />
                     </div>
                   </TableCell>
                 </TableRow>
@@ -212,7 +448,7 @@ export default function SelfDevelopmentPlanPage() {
                   <TableCell colSpan={6}>
                     <div className="space-y-2">
                       <div className="text-sm font-medium">Annual Evaluation Comments</div>
-                      <Textarea rows={4} value={plan.annualComments} onChange={(e) => setPlan(p => ({ ...p, annualComments: e.target.value }))} />
+                      <Textarea rows={4} value={plan.annualComments} readOnly={!canEdit} onChange={(e) => setPlan(p => ({ ...p, annualComments: e.target.value }))} />
                     </div>
                   </TableCell>
                 </TableRow>
@@ -225,7 +461,7 @@ export default function SelfDevelopmentPlanPage() {
             <div className="border rounded-md p-4">
               <div className="mb-2 font-medium">Head of Academic Department Signature</div>
               <div className="flex items-center justify-between">
-                <span className="text-muted-foreground">{signatureText(plan.hodSignature)}</span>
+                <span className="text-muted-foreground">{signatureText(hodSignature)}</span>
                 {canSignAsHod && (
                   <Button size="sm" variant="outline" onClick={() => sign('HOD')} className="print:hidden">Sign as HOD</Button>
                 )}
@@ -234,7 +470,7 @@ export default function SelfDevelopmentPlanPage() {
             <div className="border rounded-md p-4">
               <div className="mb-2 font-medium">Dean of College Signature</div>
               <div className="flex items-center justify-between">
-                <span className="text-muted-foreground">{signatureText(plan.deanSignature)}</span>
+                <span className="text-muted-foreground">{signatureText(deanSignature)}</span>
                 {canSignAsDean && (
                   <Button size="sm" variant="outline" onClick={() => sign('DEAN')} className="print:hidden">Sign as Dean</Button>
                 )}
@@ -249,14 +485,103 @@ export default function SelfDevelopmentPlanPage() {
             </Badge>
             <div className="flex gap-2">
               <Button variant="outline" onClick={() => router.back()}>Back</Button>
-              <Button onClick={onSave} disabled={saving}>
-                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
-                Save
-              </Button>
+              {canEdit && (
+                <Button onClick={onSave} disabled={saving}>
+                  {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  Save
+                </Button>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {midYearInfo.status !== 'NOT_SCHEDULED' && savedRows.length > 0 && (
+        <Card className="print:hidden">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle>Mid-year Review</CardTitle>
+              <Badge variant={midYearInfo.status === 'OVERDUE' ? 'destructive' : 'secondary'}>
+                {MID_YEAR_LABEL[midYearInfo.status]}
+              </Badge>
+            </div>
+            <CardDescription>
+              {midYearInfo.date && `Checkpoint date: ${new Date(midYearInfo.date).toLocaleDateString()}. `}
+              {plan.midYearReviewedAt &&
+                `Recorded by ${plan.midYearReviewedBy?.name ?? 'unknown'} on ${new Date(plan.midYearReviewedAt).toLocaleDateString()}. `}
+              {plan.midYearAcknowledgedAt &&
+                `Acknowledged by the faculty member on ${new Date(plan.midYearAcknowledgedAt).toLocaleDateString()}.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/40">
+                    <TableHead className="min-w-[200px]">Development Area</TableHead>
+                    <TableHead className="min-w-[160px]">Timeframe</TableHead>
+                    <TableHead className="min-w-[160px]">Progress</TableHead>
+                    <TableHead className="min-w-[240px]">Note</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {savedRows.map((row) => {
+                    const entry = plan.midYear[row.id as number] ?? { progress: '', note: '' }
+                    return (
+                      <TableRow key={row.key}>
+                        <TableCell className="align-top">{row.developmentArea || '—'}</TableCell>
+                        <TableCell className="align-top text-sm text-muted-foreground">{row.timeframe || '—'}</TableCell>
+                        <TableCell className="align-top">
+                          <Select
+                            value={entry.progress}
+                            onValueChange={(v) => updateMidYear(row.id as number, { progress: v as Progress })}
+                            disabled={!canRecordMidYear}
+                          >
+                            <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(PROGRESS_LABEL) as Progress[]).map(p => (
+                                <SelectItem key={p} value={p}>{PROGRESS_LABEL[p]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Textarea
+                            rows={2}
+                            value={entry.note}
+                            readOnly={!canRecordMidYear}
+                            onChange={(e) => updateMidYear(row.id as number, { note: e.target.value })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Bi-annual Evaluation Comments</div>
+              <Textarea
+                rows={4}
+                value={plan.biAnnualComments}
+                readOnly={!canRecordMidYear}
+                onChange={(e) => setPlan(p => ({ ...p, biAnnualComments: e.target.value }))}
+              />
+            </div>
+            {midYearInfo.status === 'UPCOMING' && (
+              <p className="text-sm text-muted-foreground">The mid-year review can be recorded from the checkpoint date.</p>
+            )}
+            {canRecordMidYear && (
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={onSaveMidYear} disabled={savingMidYear}>
+                  {savingMidYear ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                  {plan.midYearReviewedAt ? 'Update Mid-year Review' : 'Record Mid-year Review'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
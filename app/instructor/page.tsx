@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Plus, FileText, Award, BookOpen, Microscope, Users, Heart, Eye, AlertCircle } from "lucide-react"
 import { AchievementForm } from "@/components/achievements/achievement-form"
+import { statusLabel } from "@/lib/appraisal-status"
 
 interface Appraisal {
   id: number
@@ -102,7 +103,7 @@ export default function InstructorPage() {
 
     try {
       const response = await fetch(`/api/appraisals/${currentAppraisal.id}`, {
-        method: "PATCH",
+        method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ action: "submit" }),
       })
@@ -118,12 +119,15 @@ export default function InstructorPage() {
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       NEW: "secondary",
-      sent: "outline",
+      submitted: "outline",
+      hod_reviewed: "outline",
+      dean_reviewed: "outline",
+      released: "outline",
       complete: "default",
       returned: "destructive",
       new: "default",
     }
-    return <Badge variant={variants[status] || "secondary"}>{status.replace("_", " ")}</Badge>
+    return <Badge variant={variants[status] || "secondary"}>{statusLabel(status)}</Badge>
   }
 
   if (isLoading) {
@@ -168,7 +172,7 @@ export default function InstructorPage() {
                 <Plus className="mr-2 h-4 w-4" />
                 Start Appraisal
               </Button>
-            ) : currentAppraisal.status === "NEW" ? (
+            ) : currentAppraisal.status === "new" ? (
               <div className="flex gap-2">
                 <Button onClick={() => setShowAchievementForm(true)} variant="outline">
                   <Plus className="mr-2 h-4 w-4" />
@@ -178,7 +182,7 @@ export default function InstructorPage() {
                   Submit for Review
                 </Button>
               </div>
-            ) : currentAppraisal.status === "sent" ? (
+            ) : currentAppraisal.status === "released" ? (
               <div className="flex gap-2">
                 <Button variant="outline" className="text-destructive hover:text-destructive">
                   <AlertCircle className="mr-2 h-4 w-4" />
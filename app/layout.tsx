@@ -4,28 +4,42 @@ import { GeistSans } from "geist/font/sans"
 import { GeistMono } from "geist/font/mono"
 import { Analytics } from "@vercel/analytics/next"
 import { AuthSessionProvider } from "@/components/auth/session-provider"
+import { BrandingProvider } from "@/components/layout/branding"
+import { ImpersonationBanner } from "@/components/layout/impersonation-banner"
+import { getSettings } from "@/lib/settings"
 import { Suspense } from "react"
 import "./globals.css"
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
 
-export const metadata: Metadata = {
-  title: "Faculty Appraisal System",
-  description: "University Faculty Performance Management Portal",
-  generator: "we",
+export async function generateMetadata(): Promise<Metadata> {
+  const branding = await getSettings("branding")
+  return {
+    title: branding.name,
+    description: "University Faculty Performance Management Portal",
+    generator: "we",
+    ...(branding.logo && { icons: { icon: branding.logo } }),
+  }
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const branding = await getSettings("branding")
+
   return (
     <html lang="en">
       <body className={`font-sans ${GeistSans.variable} ${GeistMono.variable}`}>
         <Suspense fallback={<div>Loading...</div>}>
-          <AuthSessionProvider>{children}</AuthSessionProvider>
+          <BrandingProvider branding={branding}>
+            <AuthSessionProvider>
+              {children}
+              <ImpersonationBanner />
+            </AuthSessionProvider>
+          </BrandingProvider>
         </Suspense>
         <Analytics />
       </body>
@@ -43,8 +43,8 @@ export default function ResetPasswordPage() {
     }
 
     // Validate password strength
-    if (password.length < 6) {
-      setError("Password must be at least 6 characters long")
+    if (password.length < 8) {
+      setError("Password must be at least 8 characters long")
       return
     }
 
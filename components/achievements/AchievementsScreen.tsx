@@ -1,10 +1,13 @@
 "use client"
 import useSWR from 'swr'
 import { useMemo, useState, useEffect } from 'react'
-import { Trash2, Edit, CheckCircle, FolderOpen, FileText, LogOut, Menu, X, Printer, Upload, Plus, AlertCircle, RefreshCw } from "lucide-react"
+import { Trash2, Edit, CheckCircle, FileText, LogOut, Menu, X, Printer, Upload, Plus, AlertCircle, RefreshCw } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
+import AttachmentLinks from "@/components/achievements/attachment-links"
+import type { EvidenceAttachment } from "@/lib/evidence"
+import { FLAGGED_STATUSES, verificationBadgeClass, verificationLabel } from "@/lib/verification-status"
 
 const fetcher = (url: string) => fetch(url).then(r => {
   if (!r.ok) {
@@ -202,101 +205,88 @@ function Input(props: any) {
   ) 
 }
 
-// Enhanced FileInput with better error handling and progress tracking
-function FileInput({ 
+const ALLOWED_EXTENSIONS = ['.pdf', '.doc', '.docx', '.jpg', '.jpeg', '.png', '.gif']
+
+// Achievement attachments: each file is uploaded as it is picked and linked on save (attachmentIds)
+function AttachmentsInput({ 
   label, 
-  value, 
+  value = [], 
   onChange, 
-  entityType, 
   entityId, 
   achievementType,
-  required = false
 }: { 
   label: string
-  value?: string
-  onChange: (fileData: { url: string; filename: string; fileKey: string }) => void
-  entityType: string
+  value?: EvidenceAttachment[]
+  onChange: (attachments: EvidenceAttachment[]) => void
   entityId: string
-  achievementType?: string
-  required?: boolean
+  achievementType: string
 }) {
   const [isUploading, setIsUploading] = useState(false)
   const [isDragOver, setIsDragOver] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [uploadError, setUploadError] = useState<string | null>(null)
 
-  const resetUploadState = () => {
-    setIsUploading(false)
-    setUploadProgress(0)
-    setUploadError(null)
+  const uploadFile = async (file: File): Promise<EvidenceAttachment | null> => {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('type', 'achievement')
+    formData.append('entityId', entityId)
+    formData.append('achievementType', achievementType)
+
+    const response = await fetch('/api/upload', {
+      method: 'POST',
+      body: formData,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      setUploadError(`${file.name}: ${errorData.error || `Upload failed with status ${response.status}`}`)
+      return null
+    }
+    const data = await response.json()
+    return data.attachment
   }
 
-  const handleFileUpload = async (file: File) => {
-    if (!file) return
+  const handleFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? [])
+    if (!files.length) return
+
+    // The server checks the actual content and the size limit; this only catches obvious mistakes early
+    const unsupported = files.find(file => !ALLOWED_EXTENSIONS.includes('.' + file.name.split('.').pop()?.toLowerCase()))
+    if (unsupported) {
+      setUploadError(`${unsupported.name} is not supported. Please use: ${ALLOWED_EXTENSIONS.join(', ')}`)
+      return
+    }
 
     setIsUploading(true)
     setUploadProgress(0)
     setUploadError(null)
 
+    const uploaded: EvidenceAttachment[] = []
     try {
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('type', entityType)
-      formData.append('entityId', entityId)
-      if (achievementType) {
-        formData.append('achievementType', achievementType)
-      }
-
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 90))
-      }, 200)
-
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      })
-
-      clearInterval(progressInterval)
-      setUploadProgress(100)
-
-      if (response.ok) {
-        const data = await response.json()
-        onChange({
-          url: data.url,
-          filename: data.filename,
-          fileKey: data.fileKey
-        })
-        resetUploadState()
-      } else {
-        const errorData = await response.json().catch(() => ({}))
-        const errorMessage = errorData.error || `Upload failed with status ${response.status}`
-        setUploadError(errorMessage)
-        console.error('Upload error:', errorMessage)
+      for (const [index, file] of files.entries()) {
+        const attachment = await uploadFile(file)
+        if (attachment) uploaded.push(attachment)
+        setUploadProgress(Math.round(((index + 1) / files.length) * 100))
       }
     } catch (error) {
       console.error('Upload error:', error)
       setUploadError('Failed to upload the file. Please check your internet connection and try again.')
     } finally {
+      if (uploaded.length) onChange([...value, ...uploaded])
       setIsUploading(false)
     }
   }
 
   const handleInputChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      await handleFileSelect(file)
-    }
+    await handleFiles(event.target.files)
+    event.target.value = ''
   }
 
   const handleDrop = async (event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     setIsDragOver(false)
-
-    const file = event.dataTransfer.files?.[0]
-    if (file) {
-      await handleFileSelect(file)
-    }
+    await handleFiles(event.dataTransfer.files)
   }
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -309,44 +299,16 @@ function FileInput({
     setIsDragOver(false)
   }
 
-  const handleRemoveFile = () => {
-    onChange({ url: '', filename: '', fileKey: '' })
-    resetUploadState()
+  // Removed files are unlinked on save and cleaned up later (lib/attachments.ts)
+  const handleRemove = (id: number) => {
+    onChange(value.filter(attachment => attachment.id !== id))
   }
-  
-  const handleFileSelect = (file: File) => {
-    // Validate file type
-    const allowedTypes = ['.pdf', '.doc', '.docx', '.jpg', '.jpeg', '.png']
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase()
-    
-    if (!allowedTypes.includes(fileExtension)) {
-      setUploadError(`File type ${fileExtension} is not supported. Please use: ${allowedTypes.join(', ')}`)
-      return
-    }
 
-    // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
-      setUploadError('File size must be less than 10MB')
-      return
-    }
-
-    if (value) {
-      // Clear existing file first, then upload new one
-      onChange({ url: '', filename: '', fileKey: '' })
-      setTimeout(() => {
-        handleFileUpload(file)
-      }, 100)
-    } else {
-      // No existing file, just upload
-      handleFileUpload(file)
-    }
-  }
+  const inputId = `attachments-${achievementType}`
 
   return (
     <div className="space-y-2">
-      <div className="text-sm font-medium">
-        {label} {required && <span className="text-red-500">*</span>}
-      </div>
+      <div className="text-sm font-medium">{label}</div>
       
       {uploadError && (
         <Alert className="border-red-200 bg-red-50">
@@ -367,7 +329,7 @@ function FileInput({
       >
         <div className="space-y-2">
           <div className="text-sm text-gray-600">
-            {isDragOver ? 'Drop file here' : 'Drag & drop a file here, or click to select'}
+            {isDragOver ? 'Drop files here' : 'Drag & drop files here, or click to select'}
           </div>
           {isUploading && (
             <div className="space-y-2">
@@ -382,34 +344,27 @@ function FileInput({
           )}
           <input
             type="file"
+            multiple
             onChange={handleInputChange}
             disabled={isUploading}
             className="hidden"
-            accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
-            id={`file-input-${label}`}
+            accept={ALLOWED_EXTENSIONS.join(',')}
+            id={inputId}
           />
           <label
-            htmlFor={`file-input-${label}`}
+            htmlFor={inputId}
             className="inline-block px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded cursor-pointer text-sm disabled:opacity-50"
           >
-            Choose File
+            Choose Files
           </label>
         </div>
       </div>
 
-      {value && (
-        <div className="flex items-center justify-between bg-gray-50 p-2 rounded">
-          <a 
-            href={value} 
-            target="_blank" 
-            rel="noopener noreferrer" 
-            className="text-sm text-blue-600 underline flex items-center"
-          >
-            <FolderOpen size={14} className="inline mr-1" />
-            View uploaded file
-          </a>
+      {value.map(attachment => (
+        <div key={attachment.id} className="flex items-center justify-between bg-gray-50 p-2 rounded">
+          <AttachmentLinks attachments={[attachment]} />
           <button
-            onClick={handleRemoveFile}
+            onClick={() => handleRemove(attachment.id)}
             disabled={isUploading}
             className="text-red-500 hover:text-red-700 text-sm underline disabled:opacity-50"
             type="button"
@@ -417,11 +372,16 @@ function FileInput({
             Remove
           </button>
         </div>
-      )}
+      ))}
     </div>
   )
 }
 
+// The API links attachments by id (attachmentIds); the list itself is display-only
+function toRequestBody({ attachments, ...rest }: any) {
+  return JSON.stringify(attachments ? { ...rest, attachmentIds: attachments.map((a: EvidenceAttachment) => a.id) } : rest)
+}
+
 // Main screen -------------------------------------------------------------
 export default function AchievementsScreen() {
   const { data, error, isLoading, mutate } = useSWR<AppraisalsData>('/api/appraisals/current', fetcher, {
@@ -478,7 +438,7 @@ export default function AchievementsScreen() {
       const res = await fetch(`/api/appraisals/current/${resource}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
+        body: toRequestBody(payload)
       })
 
       if (!res.ok) {
@@ -513,7 +473,7 @@ export default function AchievementsScreen() {
       const res = await fetch(`/api/appraisals/current/${resource}/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
+        body: toRequestBody(payload)
       })
 
       if (!res.ok) {
@@ -621,17 +581,55 @@ export default function AchievementsScreen() {
     )
   }
 
+  // الرد على تعليق المقيّم (طلب دليل أو رفض) لا يغيّر الحالة؛ المقيّم يعيد التحقق
+  async function respond(resource: string, row: Achievement) {
+    const response = prompt('Your response to the reviewer:', row.facultyResponse ?? '')
+    if (!response?.trim()) return
+
+    setActionState(`respond-${resource}-${row.id}`, true)
+    try {
+      const res = await fetch(`/api/appraisals/current/${resource}/${row.id}/response`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response })
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        alert(errorData.error || `Failed to send response (${res.status})`)
+        return
+      }
+
+      await mutate()
+    } catch (error) {
+      console.error('Error responding to verification:', error)
+      alert('Failed to send response. Please try again.')
+    } finally {
+      setActionState(`respond-${resource}-${row.id}`, false)
+    }
+  }
+
   // Helpers to render action column
-  const link = (url?: string) => url ? (
-    <a 
-      className="underline cursor-pointer text-blue-600 hover:text-blue-800" 
-      href={url} 
-      target="_blank" 
-      rel="noopener noreferrer"
-    >
-      <FolderOpen size={15} />
-    </a>
-  ) : '—'
+  const files = (attachments?: EvidenceAttachment[]) => <AttachmentLinks attachments={attachments} empty="—" />
+
+  const verification = (res: string) => (value: any, row: any) => (
+    <div className="space-y-1 max-w-xs">
+      <span className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${verificationBadgeClass(value)}`}>
+        {verificationLabel(value ?? 'UNVERIFIED')}
+      </span>
+      {row.verificationComment && <p className="text-xs text-gray-700">Reviewer: {row.verificationComment}</p>}
+      {row.facultyResponse && <p className="text-xs text-gray-500">Your response: {row.facultyResponse}</p>}
+      {FLAGGED_STATUSES.includes(value) && (
+        <button
+          onClick={() => respond(res, row)}
+          className="text-xs text-blue-600 underline disabled:opacity-50"
+          disabled={actionStates[`respond-${res}-${row.id}`]}
+        >
+          {row.facultyResponse ? 'Update response' : 'Respond'}
+        </button>
+      )}
+    </div>
+  )
 
   const editBtn = (res: string) => (value: any, row: any) => (
     <button
@@ -674,7 +672,8 @@ export default function AchievementsScreen() {
     { key: 'area', label: 'Generated Area' },
     { key: 'organization', label: 'Generating Organization' },
     { key: 'dateObtained', label: 'Date Obtained', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
-    { key: 'fileUrl', label: 'Attachment', render: (v: any, row: any) => link(row.fileUrl) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('awards') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         {editBtn('awards')(v, row)}
@@ -709,7 +708,8 @@ export default function AchievementsScreen() {
     { key: 'journalOrPublisher', label: 'Name Of The Journal' },
     { key: 'participation', label: 'Nature Of Participation' },
     { key: 'publicationDate', label: 'Date Of Publication', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
-    { key: 'fileUrl', label: 'Attachment', render: (v: any, row: any) => link(row.fileUrl) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('research') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         <button
@@ -743,7 +743,8 @@ export default function AchievementsScreen() {
     { key: 'refereedArticleRef', label: 'Refereed Article Reference', render: (v: any, r: any) => r.refereedArticleRef || '—' },
     { key: 'journalOrPublisher', label: 'Name Of The Journal' },
     { key: 'publicationDate', label: 'Date Of Submitting', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
-    { key: 'fileUrl', label: 'Attachment', render: (v: any, row: any) => link(row.fileUrl) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('research') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         <button
@@ -778,7 +779,8 @@ export default function AchievementsScreen() {
     { key: 'participation', label: 'Type Of Participation' },
     { key: 'organizingAuth', label: 'Organizing Authority' },
     { key: 'venue', label: 'Venue' },
-    { key: 'fileUrl', label: 'Attachment', render: (v: any, row: any) => link(row.fileUrl) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('scientific') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         {editBtn('scientific')(v, row)}
@@ -794,7 +796,8 @@ export default function AchievementsScreen() {
     { key: 'participation', label: 'Nature Of Participation' },
     { key: 'dateTo', label: 'Date To', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
     { key: 'dateFrom', label: 'Date From', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
-    { key: 'attachment', label: 'Attachment', render: (v: any) => link(v) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('university') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         {editBtn('university')(v, row)}
@@ -810,7 +813,8 @@ export default function AchievementsScreen() {
     { key: 'participation', label: 'Nature Of Participation' },
     { key: 'dateTo', label: 'Date To', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
     { key: 'dateFrom', label: 'Date From', render: (v: any) => v ? new Date(v).toLocaleDateString() : '—' },
-    { key: 'attachment', label: 'Attachment', render: (v: any) => link(v) },
+    { key: 'attachments', label: 'Attachment', render: (v: any) => files(v) },
+    { key: 'verificationStatus', label: 'Verification', render: verification('community') },
     { key: 'action', label: 'Action', render: (v: any, row: any) => (
       <div className="flex gap-2">
         {editBtn('community')(v, row)}
@@ -1169,7 +1173,7 @@ function AwardModal({
         // Validate all fields before submit
         const allErrors: Record<string, string> = {}
         Object.keys(p).forEach(key => {
-          if (key !== 'errors' && key !== 'fileKey' && key !== 'attachment') {
+          if (key !== 'errors' && key !== 'attachments') {
             const fieldErrors = validateField(key, p[key])
             Object.assign(allErrors, fieldErrors)
           }
@@ -1216,11 +1220,10 @@ function AwardModal({
             error={touched.dateObtained && p.errors.dateObtained}
           />
         </Field>
-        <FileInput 
-          label="Attachment" 
-          value={p.fileUrl} 
-          onChange={(fileData) => updateField('fileUrl', fileData.url)} 
-          entityType="achievement" 
+        <AttachmentsInput 
+          label="Attachments" 
+          value={p.attachments} 
+          onChange={(attachments) => updateField('attachments', attachments)} 
           entityId={appraisalId?.toString() || ''} 
           achievementType="awards" 
         />
@@ -1475,11 +1478,10 @@ function ResearchModalPublished({
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('publicationDate', e.target.value)}
           />
         </Field>
-        <FileInput 
-          label="Attachment" 
-          value={p.fileUrl} 
-          onChange={(fileData) => updateField('fileUrl', fileData.url)} 
-          entityType="achievement" 
+        <AttachmentsInput 
+          label="Attachments" 
+          value={p.attachments} 
+          onChange={(attachments) => updateField('attachments', attachments)} 
           entityId={appraisalId?.toString() || ''} 
           achievementType="research" 
         />
@@ -1571,11 +1573,10 @@ function ResearchModalArticle({
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField('publicationDate', e.target.value)}
           />
         </Field>
-        <FileInput 
-          label="Attachment" 
-          value={p.fileUrl} 
-          onChange={(fileData) => updateField('fileUrl', fileData.url)} 
-          entityType="achievement" 
+        <AttachmentsInput 
+          label="Attachments" 
+          value={p.attachments} 
+          onChange={(attachments) => updateField('attachments', attachments)} 
           entityId={appraisalId?.toString() || ''} 
           achievementType="research" 
         />
@@ -1684,11 +1685,10 @@ function ScientificModal({
             placeholder="Event venue"
           />
         </Field>
-        <FileInput 
-          label="Attachment" 
-          value={p.fileUrl} 
-          onChange={(fileData) => updateField('fileUrl', fileData.url)} 
-          entityType="achievement" 
+        <AttachmentsInput 
+          label="Attachments" 
+          value={p.attachments} 
+          onChange={(attachments) => updateField('attachments', attachments)} 
           entityId={appraisalId?.toString() || ''} 
           achievementType="scientific" 
         />
@@ -1779,11 +1779,10 @@ function ServiceModal({
             />
           </Field>
         </div>
-        <FileInput 
-          label="Attachment" 
-          value={p.fileUrl} 
-          onChange={(fileData) => updateField('fileUrl', fileData.url)} 
-          entityType="achievement" 
+        <AttachmentsInput 
+          label="Attachments" 
+          value={p.attachments} 
+          onChange={(attachments) => updateField('attachments', attachments)} 
           entityId={appraisalId?.toString() || ''} 
           achievementType={achievementType || 'university'} 
         />
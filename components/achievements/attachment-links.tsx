@@ -0,0 +1,40 @@
+import { Clock, FolderOpen, ShieldAlert } from 'lucide-react'
+import type { EvidenceAttachment } from '@/lib/evidence'
+
+/** مرفقات إنجاز: رابط لكل ملف سليم، والملف الذي ينتظر الفحص أو المصاب يظهر بلا رابط */
+export default function AttachmentLinks({ attachments, empty = null }: {
+  attachments?: EvidenceAttachment[]
+  empty?: React.ReactNode
+}) {
+  if (!attachments?.length) return <>{empty}</>
+
+  return (
+    <ul className="space-y-1">
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center gap-1 text-sm">
+          {attachment.scanStatus === 'CLEAN' ? (
+            <a
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-blue-600 underline hover:text-blue-800"
+            >
+              <FolderOpen size={14} className="shrink-0" />
+              {attachment.title}
+            </a>
+          ) : attachment.scanStatus === 'PENDING' ? (
+            <span className="flex items-center gap-1 text-gray-500" title="Available once the virus scan completes">
+              <Clock size={14} className="shrink-0" />
+              {attachment.title} (awaiting virus scan)
+            </span>
+          ) : (
+            <span className="flex items-center gap-1 text-red-600" title="The file was removed">
+              <ShieldAlert size={14} className="shrink-0" />
+              {attachment.title} (malware detected)
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import type { AchievementType, VerificationStatus } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MessageSquareReply, ShieldCheck } from 'lucide-react'
+import {
+  FLAGGED_STATUSES,
+  VERIFICATION_STATUSES,
+  hasPendingResponse,
+  verificationBadgeClass,
+  verificationLabel,
+  type AchievementVerification,
+} from '@/lib/verification-status'
+
+/** حالة تحقق المقيّم من إنجاز مع تعليقه، ورد صاحب الاستمارة إن وُجد */
+export default function VerificationPanel<T extends AchievementVerification & { id: number }>({ appraisalId, type, item, onSaved }: {
+  appraisalId: number | string
+  type: AchievementType
+  item: T
+  onSaved: (updated: T) => void
+}) {
+  const [status, setStatus] = useState<VerificationStatus>(item.verificationStatus)
+  const [comment, setComment] = useState(item.verificationComment ?? '')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const flagged = FLAGGED_STATUSES.includes(status)
+  const changed = status !== item.verificationStatus || comment.trim() !== (item.verificationComment ?? '')
+
+  async function save() {
+    if (flagged && !comment.trim()) {
+      setError('A comment is required')
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/appraisals/${appraisalId}/verification`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, achievementId: item.id, status, comment: comment.trim() || null }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || `Request failed (${res.status})`)
+        return
+      }
+      onSaved({ ...item, ...data })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-gray-500" />
+        <Badge className={verificationBadgeClass(item.verificationStatus)}>{verificationLabel(item.verificationStatus)}</Badge>
+        {item.verifiedAt && (
+          <span className="text-xs text-gray-500">
+            {item.verifiedBy ? `by ${item.verifiedBy.name} ` : ''}on {format(new Date(item.verifiedAt), 'PPP')}
+          </span>
+        )}
+      </div>
+
+      {item.facultyResponse && (
+        <div className={`rounded-md border p-2 text-sm ${hasPendingResponse(item) ? 'border-blue-300 bg-blue-50' : 'bg-gray-50'}`}>
+          <p className="flex items-center gap-1 font-medium">
+            <MessageSquareReply className="h-4 w-4" />
+            Faculty response{hasPendingResponse(item) ? ' (awaiting review)' : ''}
+          </p>
+          <p className="whitespace-pre-wrap text-gray-700">{item.facultyResponse}</p>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2 md:flex-row md:items-start">
+        <Select value={status} onValueChange={(value) => setStatus(value as VerificationStatus)}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VERIFICATION_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>{verificationLabel(s)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={flagged ? 'Explain what is missing or why it was rejected (required)' : 'Comment (optional)'}
+          rows={2}
+          className="flex-1"
+        />
+        <Button size="sm" onClick={save} disabled={saving || (!changed && !hasPendingResponse(item))}>
+          {saving ? 'Saving…' : 'Save'}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import type { Appeal } from '@prisma/client'
+import { OUTCOME_LABELS } from '@/lib/appeals'
+
+/** نتيجة آخر تظلّم على الاستمارة كما يراها عضو هيئة التدريس */
+export default function AppealOutcome({ appeal }: { appeal: Appeal | null }) {
+  if (!appeal) return null
+
+  if (!appeal.resolvedAt) {
+    return (
+      <div className="rounded-2xl border p-4 bg-white space-y-1">
+        <h2 className="text-lg font-medium">Appeal</h2>
+        <p className="text-sm text-gray-600">
+          Your appeal submitted on {appeal.createdAt.toLocaleDateString()} is under review
+          {appeal.reopenedAt ? ' and the evaluation has been reopened for revision.' : '.'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-2xl border p-4 bg-white space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium">Appeal Outcome</h2>
+        <span className="text-xs text-gray-600">Resolved {appeal.resolvedAt.toLocaleDateString()}</span>
+      </div>
+      {appeal.outcome && <div className="font-medium">{OUTCOME_LABELS[appeal.outcome]}</div>}
+      {appeal.resolutionNote && <p className="text-sm whitespace-pre-wrap">{appeal.resolutionNote}</p>}
+    </div>
+  )
+}
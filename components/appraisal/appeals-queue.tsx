@@ -0,0 +1,323 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Eye, Gavel, MessageSquare, RotateCcw } from 'lucide-react'
+
+type Outcome = 'UPHOLD' | 'REVISE_SCORES' | 'REJECT'
+type Level = 'HOD' | 'DEAN' | 'ADMIN'
+
+type Escalation = { id: number; fromLevel: Level; toLevel: Level; reason: string; createdAt: string }
+
+export type AppealRow = {
+  id: number
+  message: string
+  createdAt: string
+  reopenedAt: string | null
+  resolvedAt: string | null
+  resolutionNote: string | null
+  outcome: Outcome | null
+  resolvedBy: { id: number; name: string } | null
+  level: Level
+  levelSince: string
+  escalations: Escalation[]
+  /** يحدده الخادم: هل يملك المستخدم المستوى الحالي للتظلّم */
+  canResolve?: boolean
+  appraisal: {
+    id: number
+    status: string
+    faculty: {
+      id: number
+      name: string
+      role: string
+      department: { id: number; name: string; college: { id: number; name: string } | null } | null
+    }
+    cycle: { academicYear: string; appealResolutionDays: number | null }
+  }
+}
+
+export const OUTCOME_LABEL: Record<Outcome, string> = {
+  UPHOLD: 'Uphold',
+  REVISE_SCORES: 'Revise scores',
+  REJECT: 'Reject',
+}
+
+const OUTCOME_BADGE: Record<Outcome, string> = {
+  UPHOLD: 'bg-blue-100 text-blue-800',
+  REVISE_SCORES: 'bg-green-100 text-green-800',
+  REJECT: 'bg-red-100 text-red-800',
+}
+
+export function OutcomeBadge({ outcome }: { outcome: Outcome | null }) {
+  if (!outcome) return <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>
+  return <Badge className={OUTCOME_BADGE[outcome]}>{OUTCOME_LABEL[outcome]}</Badge>
+}
+
+export const LEVEL_LABEL: Record<Level, string> = {
+  HOD: 'HOD',
+  DEAN: 'Dean',
+  ADMIN: 'Admin committee',
+}
+
+/** موعد تصعيد التظلّم من مستواه الحالي، أو null إذا لا تصعيد */
+export function escalationDue(appeal: AppealRow): Date | null {
+  const days = appeal.appraisal.cycle.appealResolutionDays
+  if (appeal.resolvedAt || appeal.level === 'ADMIN' || !days) return null
+  return new Date(new Date(appeal.levelSince).getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/** سلسلة المستويات التي مر بها التظلّم: المستوى الأول ثم كل تصعيد بتاريخه */
+export function EscalationChain({ appeal }: { appeal: AppealRow }) {
+  const first = appeal.escalations[0]?.fromLevel ?? appeal.level
+  const due = escalationDue(appeal)
+  return (
+    <div className="text-xs space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        <Badge variant="secondary">{LEVEL_LABEL[first]}</Badge>
+        {appeal.escalations.map((e) => (
+          <span key={e.id} className="flex items-center gap-1" title={e.reason}>
+            <span className="text-muted-foreground">→</span>
+            <Badge className="bg-red-100 text-red-800">{LEVEL_LABEL[e.toLevel]}</Badge>
+            <span className="text-muted-foreground">{new Date(e.createdAt).toLocaleDateString()}</span>
+          </span>
+        ))}
+      </div>
+      {due && <div className="text-muted-foreground">Escalates on {due.toLocaleDateString()}</div>}
+    </div>
+  )
+}
+
+/** نافذة البت في التظلّم: إعادة الفتح للتعديل ثم اختيار النتيجة مع ملاحظة */
+export function ResolveAppealDialog({
+  appeal,
+  onClose,
+  onChanged,
+}: {
+  appeal: AppealRow | null
+  onClose: () => void
+  onChanged: () => Promise<void> | void
+}) {
+  const [outcome, setOutcome] = useState<Outcome>('UPHOLD')
+  const [note, setNote] = useState('')
+  const [reopened, setReopened] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setOutcome('UPHOLD')
+    setNote('')
+    setError(null)
+    setReopened(!!appeal?.reopenedAt)
+  }, [appeal])
+
+  async function reopen() {
+    if (!appeal) return
+    if (!confirm('Reopen this evaluation for editing? Any active signatures will be revoked.')) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/appeals/${appeal.id}/reopen`, { method: 'POST' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || `Reopen failed (${res.status})`)
+        return
+      }
+      setReopened(true)
+      await onChanged()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function resolve() {
+    if (!appeal) return
+    if (!note.trim()) {
+      setError('A resolution note is required')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/appeals', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ appealId: appeal.id, outcome, resolutionNote: note }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || `Resolve failed (${res.status})`)
+        return
+      }
+      onClose()
+      await onChanged()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!appeal} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve appeal — {appeal?.appraisal.faculty.name}</DialogTitle>
+          <DialogDescription>
+            Resolving returns the appraisal to &quot;released&quot; so the faculty member can review the outcome.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="rounded-md border p-3 text-sm whitespace-pre-wrap">{appeal?.message}</div>
+
+          <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+            <span>
+              {reopened ? 'The evaluation is open for editing.' : 'Reopen the evaluation to revise its scores.'}
+            </span>
+            <Button size="sm" variant="outline" onClick={reopen} disabled={busy || reopened}>
+              <RotateCcw className="h-3 w-3 mr-1" /> Reopen
+            </Button>
+          </div>
+
+          <div>
+            <Label>Outcome</Label>
+            <Select value={outcome} onValueChange={(v) => setOutcome(v as Outcome)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="UPHOLD">{OUTCOME_LABEL.UPHOLD}</SelectItem>
+                <SelectItem value="REVISE_SCORES" disabled={!reopened}>{OUTCOME_LABEL.REVISE_SCORES}</SelectItem>
+                <SelectItem value="REJECT">{OUTCOME_LABEL.REJECT}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="resolution-note">Note to the faculty member (required)</Label>
+            <Textarea id="resolution-note" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={resolve} disabled={busy}>{busy ? 'Saving...' : 'Resolve Appeal'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/** قائمة التظلّمات لصاحب المرحلة (رئيس القسم أو العميد) */
+export default function AppealsQueue({ reviewBasePath }: { reviewBasePath: string }) {
+  const [appeals, setAppeals] = useState<AppealRow[]>([])
+  const [status, setStatus] = useState<'open' | 'resolved' | 'all'>('open')
+  const [resolving, setResolving] = useState<AppealRow | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    const res = await fetch(`/api/appeals?status=${status}`)
+    const data = await res.json().catch(() => null)
+    if (!res.ok) {
+      setError(data?.error || `Failed to load appeals (${res.status})`)
+    } else {
+      setError(null)
+      setAppeals(data ?? [])
+    }
+    setIsLoading(false)
+  }, [status])
+
+  useEffect(() => { load() }, [load])
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Appeals</h1>
+        <p className="text-muted-foreground">Review appeals against released results and record an outcome</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" /> Appeals
+            </CardTitle>
+            <CardDescription>
+              {appeals.length} appeal{appeals.length !== 1 ? 's' : ''} found
+            </CardDescription>
+          </div>
+          <Select value={status} onValueChange={(v) => setStatus(v as typeof status)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : appeals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No appeals.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted At</TableHead>
+                  <TableHead>Faculty</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Cycle</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Escalation</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {appeals.map((appeal) => (
+                  <TableRow key={appeal.id}>
+                    <TableCell>{new Date(appeal.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="font-medium">{appeal.appraisal.faculty.name}</TableCell>
+                    <TableCell>{appeal.appraisal.faculty.department?.name ?? '—'}</TableCell>
+                    <TableCell>{appeal.appraisal.cycle.academicYear}</TableCell>
+                    <TableCell className="max-w-xs truncate">{appeal.message}</TableCell>
+                    <TableCell><EscalationChain appeal={appeal} /></TableCell>
+                    <TableCell>
+                      <OutcomeBadge outcome={appeal.outcome} />
+                      {appeal.resolvedBy && (
+                        <div className="text-xs text-muted-foreground mt-1">by {appeal.resolvedBy.name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Link href={`${reviewBasePath}/${appeal.appraisal.id}`}>
+                        <Button variant="outline" size="sm">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                      {appeal.canResolve && (
+                        <Button size="sm" onClick={() => setResolving(appeal)}>
+                          <Gavel className="h-4 w-4 mr-1" /> Resolve
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ResolveAppealDialog appeal={resolving} onClose={() => setResolving(null)} onChanged={load} />
+    </div>
+  )
+}
@@ -0,0 +1,191 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { PenLine, ShieldCheck, ShieldAlert, Undo2 } from 'lucide-react'
+
+type Capacity = 'FACULTY' | 'HOD' | 'DEAN'
+
+type SignatureRow = {
+  id: number
+  capacity: Capacity
+  signedAt: string | null
+  appraisalStatus: string | null
+  contentHash: string | null
+  note: string | null
+  revokedAt: string | null
+  revokeReason: string | null
+  signer: { id: number; name: string } | null
+  revokedBy: { id: number; name: string } | null
+  valid: boolean
+  canRevoke: boolean
+}
+
+const CAPACITY_LABEL: Record<Capacity, string> = {
+  FACULTY: 'Faculty Member',
+  HOD: 'Head of Department',
+  DEAN: 'Dean',
+}
+
+/** التوقيعات على نسخة التقييم الحالية: التوقيع، التحقق من البصمة، والإلغاء بسبب */
+export default function SignOffPanel({ appraisalId }: { appraisalId: number }) {
+  const [signatures, setSignatures] = useState<SignatureRow[]>([])
+  const [contentHash, setContentHash] = useState('')
+  const [canSignAs, setCanSignAs] = useState<Capacity[]>([])
+  const [revoking, setRevoking] = useState<SignatureRow | null>(null)
+  const [reason, setReason] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const base = `/api/appraisals/${appraisalId}/signatures`
+
+  const load = useCallback(async () => {
+    const res = await fetch(base)
+    if (!res.ok) return
+    const data = await res.json()
+    setSignatures(data.signatures ?? [])
+    setContentHash(data.contentHash ?? '')
+    setCanSignAs(data.canSignAs ?? [])
+  }, [base])
+
+  useEffect(() => { load() }, [load])
+
+  async function sign(capacity: Capacity) {
+    if (!confirm(`Sign this evaluation as ${CAPACITY_LABEL[capacity]}? It cannot be edited until the signature is revoked.`)) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ capacity, contentHash }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) setError(data.error || `Sign failed (${res.status})`)
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function revoke() {
+    if (!revoking) return
+    if (!reason.trim()) {
+      setError('A reason is required')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`${base}/${revoking.id}/revoke`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || `Revoke failed (${res.status})`)
+        return
+      }
+      setRevoking(null)
+      setReason('')
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const active = signatures.filter(s => !s.revokedAt)
+  const revoked = signatures.filter(s => s.revokedAt)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="h-5 w-5" /> Sign-off
+        </CardTitle>
+        <CardDescription>
+          Each party signs the current version of the evaluation at their stage. Signed evaluations are locked until the signature is revoked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {active.length === 0 && <p className="text-sm text-muted-foreground">No signatures yet.</p>}
+        {active.map(s => (
+          <div key={s.id} className="flex items-center justify-between border rounded-md p-3">
+            <div className="text-sm">
+              <div className="font-medium">{CAPACITY_LABEL[s.capacity]}</div>
+              <div className="text-muted-foreground">
+                {s.signer?.name ?? 'Unknown'} · {s.signedAt ? new Date(s.signedAt).toLocaleString() : '—'}
+                {s.appraisalStatus && ` · at ${s.appraisalStatus}`}
+              </div>
+              {s.note && <div className="text-muted-foreground mt-1">{s.note}</div>}
+            </div>
+            <div className="flex items-center gap-2">
+              {s.valid ? (
+                <Badge className="bg-green-100 text-green-800"><ShieldCheck className="h-3 w-3 mr-1" /> Matches content</Badge>
+              ) : (
+                <Badge className="bg-red-100 text-red-800"><ShieldAlert className="h-3 w-3 mr-1" /> Content differs</Badge>
+              )}
+              {s.canRevoke && (
+                <Button size="sm" variant="outline" onClick={() => { setRevoking(s); setReason(''); setError(null) }}>
+                  <Undo2 className="h-3 w-3 mr-1" /> Revoke
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {canSignAs.length > 0 && (
+          <div className="flex gap-2">
+            {canSignAs.map(c => (
+              <Button key={c} onClick={() => sign(c)} disabled={busy || !contentHash}>
+                Sign as {CAPACITY_LABEL[c]}
+              </Button>
+            ))}
+          </div>
+        )}
+        {error && !revoking && <p className="text-sm text-red-600">{error}</p>}
+
+        {revoked.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Revoked signatures</h4>
+            <div className="space-y-2">
+              {revoked.map(s => (
+                <div key={s.id} className="text-sm border rounded-md p-2 text-muted-foreground">
+                  {CAPACITY_LABEL[s.capacity]} · {s.signer?.name ?? 'Unknown'} · revoked by {s.revokedBy?.name ?? 'Unknown'}
+                  {s.revokedAt && ` on ${new Date(s.revokedAt).toLocaleString()}`}
+                  {s.revokeReason && <p className="mt-1">{s.revokeReason}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!revoking} onOpenChange={(open) => { if (!open) setRevoking(null) }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke {revoking ? CAPACITY_LABEL[revoking.capacity] : ''} signature</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">The evaluation becomes editable again and will need to be signed anew.</p>
+            <div>
+              <Label htmlFor="revoke-reason">Reason (required)</Label>
+              <Textarea id="revoke-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={revoke} disabled={busy}>{busy ? 'Revoking...' : 'Revoke Signature'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -44,7 +44,7 @@ export function ForgotPasswordModal({ isOpen, onClose }: ForgotPasswordModalProp
       }
 
       setIsSuccess(true)
-      setMessage("Password reset email has been sent! Please check your inbox and follow the instructions.")
+      setMessage(data.message)
     } catch (error) {
       setError(error instanceof Error ? error.message : "An error occurred. Please try again.")
     } finally {
@@ -0,0 +1,86 @@
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+export interface LoginHistoryEvent {
+  id: number
+  method: string
+  success: boolean
+  reason: string | null
+  ip: string | null
+  userAgent: string | null
+  createdAt: string | Date
+}
+
+// أسباب الفشل المخزنة في LoginEvent.reason (lib/login-security.ts)
+const REASON_LABELS: Record<string, string> = {
+  unknown_user: "Unknown account",
+  inactive: "Account disabled",
+  locked: "Account locked",
+  invalid_password: "Wrong password",
+  invalid_2fa: "Wrong authentication code",
+  sso_not_linked: "No linked account",
+  sso_required: "Single sign-on required",
+}
+
+// ملخص مقروء للمتصفح ونظام التشغيل بدل نص user agent كاملاً
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown"
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Chrome\//.test(userAgent)
+      ? "Chrome"
+      : /Firefox\//.test(userAgent)
+        ? "Firefox"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : null
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null
+  return browser && os ? `${browser} on ${os}` : userAgent.slice(0, 60)
+}
+
+export function LoginHistoryTable({ events }: { events: LoginHistoryEvent[] }) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">No sign-in activity recorded yet.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Time</TableHead>
+          <TableHead>Result</TableHead>
+          <TableHead>Method</TableHead>
+          <TableHead>IP Address</TableHead>
+          <TableHead>Device</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.map((event) => (
+          <TableRow key={event.id}>
+            <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+            <TableCell>
+              {event.success ? (
+                <Badge className="bg-green-100 text-green-800">Success</Badge>
+              ) : (
+                <Badge variant="destructive">{REASON_LABELS[event.reason ?? ""] ?? "Failed"}</Badge>
+              )}
+            </TableCell>
+            <TableCell>{event.method === "sso" ? "Single sign-on" : "Password"}</TableCell>
+            <TableCell className="font-mono text-xs">{event.ip ?? "—"}</TableCell>
+            <TableCell title={event.userAgent ?? undefined}>{describeDevice(event.userAgent)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
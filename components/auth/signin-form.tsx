@@ -4,23 +4,57 @@ import type React from "react"
 
 import { useState } from "react"
 import { signIn } from "next-auth/react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { Loader2 } from "lucide-react"
-import ResetPasswordModal from "@/components/ResetPasswordModal";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Loader2, ShieldCheck } from "lucide-react"
+import { ForgotPasswordModal } from "@/components/auth/forgot-password-modal"
+import type { LoginMethod } from "@/lib/settings-schema"
 
-export function SignInForm() {
+// أخطاء الدخول الموحد تصل في ?error= (callback signIn في lib/auth.ts وصفحة الأخطاء في NextAuth)
+const SSO_ERRORS: Record<string, string> = {
+  SsoAccountNotFound: "No account is registered for your university email. Contact your administrator.",
+  SsoAccountDisabled: "Your account has been disabled. Contact your administrator.",
+  SsoAccountLocked: "This account is temporarily locked after too many failed sign-in attempts. Try again later or contact your administrator.",
+  SsoEmailMissing: "Your identity provider did not share a verified email address.",
+  OAuthSignin: "Single sign-on could not be started. Please try again.",
+  OAuthCallback: "Single sign-on failed. Please try again.",
+  Callback: "Single sign-on failed. Please try again.",
+  AccessDenied: "Access denied.",
+}
+
+interface SignInFormProps {
+  loginMethod?: LoginMethod
+  /** اسم مزوّد SSO، أو null إذا لم يُضبط */
+  ssoName?: string | null
+}
+
+export function SignInForm({ loginMethod = "credentials", ssoName = null }: SignInFormProps) {
+  const searchParams = useSearchParams()
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
-  const [error, setError] = useState("")
+  const [error, setError] = useState(() => SSO_ERRORS[searchParams.get("error") ?? ""] ?? "")
   const [isLoading, setIsLoading] = useState(false)
   const [showReset, setShowReset] = useState(false);
+  // الخطوة الثانية تظهر عندما يرد authorize بـ 2FA_REQUIRED (lib/auth.ts)
+  const [needsOtp, setNeedsOtp] = useState(false)
+  const [otp, setOtp] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const showSso = Boolean(ssoName) && loginMethod !== "credentials"
+  // في وضع SSO فقط يبقى نموذج كلمة المرور للمدير خلف رابط
+  const [showPasswordForm, setShowPasswordForm] = useState(!showSso || loginMethod === "both")
   const router = useRouter()
 
+  const handleSsoSignIn = async () => {
+    setIsLoading(true)
+    setError("")
+    await signIn("sso", { callbackUrl: "/dashboard" })
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
@@ -30,10 +64,21 @@ export function SignInForm() {
       const result = await signIn("credentials", {
         email,
         password,
+        ...(needsOtp ? { otp } : {}),
         redirect: false,
       })
 
-      if (result?.error) {
+      if (result?.error === "2FA_REQUIRED") {
+        setNeedsOtp(true)
+      } else if (result?.error === "2FA_INVALID") {
+        setOtp("")
+        setError(useRecoveryCode ? "Invalid recovery code" : "Invalid authentication code")
+      } else if (result?.error === "ACCOUNT_LOCKED") {
+        setOtp("")
+        setError("This account is temporarily locked after too many failed sign-in attempts. Try again later or contact your administrator.")
+      } else if (result?.error === "SSO_REQUIRED") {
+        setError(`Please sign in with ${ssoName ?? "single sign-on"}.`)
+      } else if (result?.error) {
         setError("Invalid email or password")
       } else {
         router.push("/dashboard")
@@ -46,15 +91,135 @@ export function SignInForm() {
     }
   }
 
-  return (
-    <div>
+  const handleBack = () => {
+    setNeedsOtp(false)
+    setOtp("")
+    setUseRecoveryCode(false)
+    setPassword("")
+    setError("")
+  }
+
+  if (needsOtp) {
+    return (
       <form onSubmit={handleSubmit} className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2 text-center">
+          <ShieldCheck className="mx-auto h-10 w-10 text-blue-600" />
+          <p className="text-gray-900 font-medium text-base">Two-factor authentication</p>
+          <p className="text-sm text-gray-500">
+            {useRecoveryCode
+              ? "Enter one of your recovery codes. Each code can be used once."
+              : "Enter the 6-digit code from your authenticator app."}
+          </p>
+        </div>
+
+        {useRecoveryCode ? (
+          <Input
+            id="otp"
+            value={otp}
+            onChange={(e) => setOtp(e.target.value)}
+            required
+            autoFocus
+            autoComplete="off"
+            disabled={isLoading}
+            className="h-12 rounded-xl border-gray-300 text-base text-center font-mono"
+            placeholder="xxxxx-xxxxx"
+          />
+        ) : (
+          <div className="flex justify-center">
+            <InputOTP maxLength={6} value={otp} onChange={setOtp} autoFocus disabled={isLoading}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full h-12 bg-blue-600 hover:bg-blue-700 text-white font-medium text-base rounded-xl"
+          disabled={isLoading || (!useRecoveryCode && otp.length !== 6) || !otp.trim()}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            "VERIFY"
+          )}
+        </Button>
+
+        <div className="flex justify-between text-sm">
+          <button type="button" onClick={handleBack} className="text-gray-500 hover:text-gray-700 transition-colors">
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode)
+              setOtp("")
+              setError("")
+            }}
+            className="text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+          </button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
       {error && (
         <Alert variant="destructive">
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
 
+      {showSso && (
+        <Button
+          type="button"
+          onClick={handleSsoSignIn}
+          className="w-full h-12 bg-blue-600 hover:bg-blue-700 text-white font-medium text-base rounded-xl"
+          disabled={isLoading}
+        >
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Sign in with {ssoName}
+        </Button>
+      )}
+
+      {showSso && (
+        showPasswordForm ? (
+          <div className="flex items-center gap-3 text-xs text-gray-500">
+            <div className="h-px flex-1 bg-gray-300" />
+            OR
+            <div className="h-px flex-1 bg-gray-300" />
+          </div>
+        ) : (
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => setShowPasswordForm(true)}
+              className="text-gray-500 text-sm hover:text-gray-700 transition-colors"
+            >
+              Administrator sign-in
+            </button>
+          </div>
+        )
+      )}
+
+      {showPasswordForm && (
+      <form onSubmit={handleSubmit} className="space-y-6">
+
       <div className="space-y-2">
         <Label htmlFor="email" className="text-gray-900 font-medium text-base">
           Email
@@ -113,8 +278,9 @@ export function SignInForm() {
         )}
       </Button>
     </form>
+      )}
 
-    <ResetPasswordModal open={showReset} onClose={() => setShowReset(false)} />
+    <ForgotPasswordModal isOpen={showReset} onClose={() => setShowReset(false)} />
 
   </div>
   )
@@ -0,0 +1,246 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { signOut, useSession } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { Copy, Loader2, ShieldCheck, Smartphone } from "lucide-react"
+import type { TwoFactorStatus } from "@/lib/two-factor"
+
+type Stage = "status" | "setup" | "codes"
+
+// تسجيل التحقق بخطوتين وإدارته (lib/two-factor.ts)؛ middleware يوجّه هنا من يفرض دوره التسجيل
+export function TwoFactorSettings({ initialStatus }: { initialStatus: TwoFactorStatus }) {
+  const { update } = useSession()
+  const [status, setStatus] = useState(initialStatus)
+  const [stage, setStage] = useState<Stage>("status")
+  const [setup, setSetup] = useState<{ secret: string; uri: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+  const [code, setCode] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const mustEnroll = status.required && !status.enabled
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Request failed")
+      return data
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "An error occurred. Please try again.")
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const data = await request("/api/account/two-factor/setup", "POST")
+    if (!data) return
+    setSetup(data)
+    setCode("")
+    setStage("setup")
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = await request("/api/account/two-factor/enable", "POST", { code })
+    if (!data) return
+    setRecoveryCodes(data.recoveryCodes)
+    setStatus({ ...status, enabled: true, recoveryCodesRemaining: data.recoveryCodes.length })
+    setSetup(null)
+    setCode("")
+    setStage("codes")
+  }
+
+  const handleRegenerate = async () => {
+    const data = await request("/api/account/two-factor/recovery-codes", "POST", { code })
+    if (!data) return
+    setRecoveryCodes(data.recoveryCodes)
+    setStatus({ ...status, recoveryCodesRemaining: data.recoveryCodes.length })
+    setCode("")
+    setStage("codes")
+  }
+
+  const handleDisable = async () => {
+    if (!confirm("Turn off two-factor authentication for your account?")) return
+    const data = await request("/api/account/two-factor", "DELETE", { code })
+    if (!data) return
+    setStatus({ ...status, enabled: false, recoveryCodesRemaining: 0 })
+    setCode("")
+  }
+
+  const handleContinue = async () => {
+    // يحدّث الرمز حتى يرفع middleware قيد التسجيل، ثم تحميل كامل للوحة
+    await update()
+    window.location.href = "/dashboard"
+  }
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="mx-auto w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mb-4">
+          <ShieldCheck className="h-6 w-6 text-blue-600" />
+        </div>
+        <CardTitle className="text-xl font-semibold text-gray-900">Two-Factor Authentication</CardTitle>
+        <CardDescription className="text-gray-600">
+          Protect your account with a code from an authenticator app in addition to your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {mustEnroll && stage !== "codes" && (
+          <Alert>
+            <AlertDescription>
+              Your role requires two-factor authentication. Set it up to continue using the system.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {stage === "status" && !status.enabled && (
+          <>
+            {status.allowed ? (
+              <Button onClick={handleStartSetup} disabled={isLoading} className="w-full h-11 bg-blue-600 hover:bg-blue-700">
+                {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Smartphone className="mr-2 h-4 w-4" />}
+                Set up authenticator app
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-600 text-center">
+                Two-factor authentication is not enabled for your account. Contact your administrator.
+              </p>
+            )}
+          </>
+        )}
+
+        {stage === "status" && status.enabled && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <span className="text-sm font-medium">Status</span>
+              <Badge className="bg-green-100 text-green-800">Enabled</Badge>
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <span className="text-sm font-medium">Recovery codes remaining</span>
+              <span className="text-sm">{status.recoveryCodesRemaining}</span>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manage-code">Authentication or recovery code</Label>
+              <Input
+                id="manage-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="off"
+                disabled={isLoading}
+                placeholder="Required to change these settings"
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button variant="outline" className="flex-1" onClick={handleRegenerate} disabled={isLoading || !code.trim()}>
+                New recovery codes
+              </Button>
+              {!status.required && (
+                <Button variant="destructive" className="flex-1" onClick={handleDisable} disabled={isLoading || !code.trim()}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {stage === "setup" && setup && (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-700">
+              <li>Open your authenticator app (Google Authenticator, Microsoft Authenticator, 1Password…).</li>
+              <li>Add an account using the setup key below, or open the link on your phone.</li>
+              <li>Enter the 6-digit code the app shows.</li>
+            </ol>
+            <div className="rounded-lg bg-gray-50 border p-3 text-center space-y-2">
+              <p className="text-xs text-gray-500">Setup key</p>
+              <p className="font-mono text-sm break-all select-all">{setup.secret.match(/.{1,4}/g)?.join(" ")}</p>
+              <a href={setup.uri} className="text-xs text-blue-600 hover:underline">
+                Open in authenticator app
+              </a>
+            </div>
+            <div className="flex justify-center">
+              <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isLoading}>
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} className="h-11 w-11 text-lg" />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setStage("status")} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1 bg-blue-600 hover:bg-blue-700" disabled={isLoading || code.length !== 6}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Verify and enable
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {stage === "codes" && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose access to your
+              authenticator app. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-lg bg-gray-50 border p-3 font-mono text-sm text-center">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" className="w-full" onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy codes
+            </Button>
+            <Button className="w-full h-11 bg-blue-600 hover:bg-blue-700" onClick={handleContinue}>
+              I have saved my recovery codes
+            </Button>
+          </div>
+        )}
+
+        {stage === "status" && (
+          <div className="text-center text-sm">
+            {mustEnroll ? (
+              <button
+                type="button"
+                onClick={() => signOut({ callbackUrl: "/auth/signin" })}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Sign out
+              </button>
+            ) : (
+              <Link href="/dashboard" className="text-gray-500 hover:text-gray-700 transition-colors">
+                Back to dashboard
+              </Link>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
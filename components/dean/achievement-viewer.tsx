@@ -5,7 +5,7 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { ExternalLink } from 'lucide-react';
+import AttachmentLinks from '@/components/achievements/attachment-links';
 
 // A generic function to render a table for any achievement type
 const renderTable = (title: string, data: any[], columns: { key: string; label: string }[], setSelectedItem: (item: any) => void) => (
@@ -31,6 +31,9 @@ const renderTable = (title: string, data: any[], columns: { key: string; label:
     </AccordionItem>
 );
 
+// المرفقات تُعرض كقائمة روابط تحت التفاصيل (روابط التنزيل المحمية من lib/evidence.ts)
+const HIDDEN_FIELDS = new Set(['attachments']);
+
 export default function AchievementViewer({ appraisal }: { appraisal: any }) {
     const [selectedItem, setSelectedItem] = useState<any>(null);
 
@@ -58,18 +61,17 @@ export default function AchievementViewer({ appraisal }: { appraisal: any }) {
                     <SheetTitle>Achievement Details</SheetTitle>
                 </SheetHeader>
                 <div className="py-4 space-y-2">
-                    {selectedItem && Object.entries(selectedItem).map(([key, value]) => (
+                    {selectedItem && Object.entries(selectedItem).filter(([key]) => !HIDDEN_FIELDS.has(key)).map(([key, value]) => (
                         <div key={key} className="grid grid-cols-3 gap-2">
                             <strong className="capitalize col-span-1">{key.replace(/([A-Z])/g, ' $1')}</strong>
                             <span className="col-span-2">{value?.toString() ?? 'N/A'}</span>
                         </div>
                     ))}
-                    {selectedItem?.fileUrl && (
-                        <Button asChild className="mt-4">
-                            <a href={selectedItem.fileUrl} target="_blank" rel="noopener noreferrer">
-                                <ExternalLink className="mr-2 h-4 w-4" /> View Attachment
-                            </a>
-                        </Button>
+                    {selectedItem?.attachments?.length > 0 && (
+                        <div className="pt-4 space-y-2">
+                            <strong>Attachments</strong>
+                            <AttachmentLinks attachments={selectedItem.attachments} />
+                        </div>
                     )}
                 </div>
             </SheetContent>
@@ -84,7 +84,7 @@ function downloadBlob(filename: string, content: string, mime = 'text/csv;charse
 function getStatusColor(status: string) {
    switch (status) {
      case "new": return "bg-blue-100 text-blue-800"
-     case "sent": return "bg-orange-100 text-orange-800"
+     case "released": return "bg-orange-100 text-orange-800"
      case "complete": return "bg-green-100 text-green-800"
      case "returned": return "bg-red-100 text-red-800"
      default: return "bg-gray-100 text-gray-800"
@@ -214,7 +214,10 @@ export default function DeanAchievements() {
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="submitted">Submitted</SelectItem>
+                  <SelectItem value="hod_reviewed">HOD Reviewed</SelectItem>
+                  <SelectItem value="dean_reviewed">Dean Reviewed</SelectItem>
+                  <SelectItem value="released">Scores Released</SelectItem>
                   <SelectItem value="complete">Complete</SelectItem>
                   <SelectItem value="returned">Returned</SelectItem>
                 </SelectContent>
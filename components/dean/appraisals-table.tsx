@@ -10,9 +10,10 @@ import { Button } from '@/components/ui/button'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
-import { Loader2, AlertCircle, Eye, Edit, Trophy, Printer } from 'lucide-react'
-import { Appraisal, AppraisalCycle, User, Department, EvaluationStatus } from '@prisma/client'
+import { Loader2, AlertCircle, Eye, Edit, Trophy, Printer, ClipboardCheck, Send } from 'lucide-react'
+import { Appraisal, AppraisalCycle, User, Department } from '@prisma/client'
 import { useDebounce } from '@/hooks/use-debounce'
+import { STATUS_ORDER, statusBadgeClass, statusLabel } from '@/lib/appraisal-status'
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import Papa from 'papaparse'
@@ -59,11 +60,14 @@ export default function AppraisalsTable() {
   const [data, setData] = useState<AppraisalsData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [filters, setFilters] = useState({ cycle: '', status: '', search: '' })
+  const [filters, setFilters] = useState({ cycle: '', status: '', search: '', facultyRole: 'HOD' })
+  const [transitioning, setTransitioning] = useState<number | null>(null)
   const debouncedSearch = useDebounce(filters.search, 300)
 
+  // The Dean scores HOD appraisals; instructor appraisals are only signed off after the HOD review
   const shouldEnableEvaluation = (appraisal: AppraisalWithDetails) => {
-    if (appraisal.status === 'complete') return false
+    if (appraisal.faculty.role !== 'HOD') return false
+    if (appraisal.status === 'submitted' || appraisal.status === 'returned') return true
     if (appraisal.status === 'new') {
       const cycleEndDate = new Date(appraisal.cycle.endDate)
       const oneMonthBeforeEnd = new Date(cycleEndDate)
@@ -71,7 +75,7 @@ export default function AppraisalsTable() {
       const now = new Date()
       return now >= oneMonthBeforeEnd && now <= cycleEndDate
     }
-    return true
+    return false
   }
 
   const fetchData = async () => {
@@ -80,6 +84,7 @@ export default function AppraisalsTable() {
     if (filters.cycle) params.append('cycleId', filters.cycle)
     if (filters.status) params.append('status', filters.status)
     if (debouncedSearch) params.append('search', debouncedSearch)
+    params.append('facultyRole', filters.facultyRole)
 
     try {
       const res = await fetch(`/api/dean/appraisals?${params.toString()}`)
@@ -98,12 +103,36 @@ export default function AppraisalsTable() {
 
   useEffect(() => {
     fetchData()
-  }, [filters.cycle, filters.status, debouncedSearch])
+  }, [filters.cycle, filters.status, filters.facultyRole, debouncedSearch])
 
-  const handleFilterChange = (key: 'cycle' | 'status' | 'search', value: string) => {
+  const handleFilterChange = (key: 'cycle' | 'status' | 'search' | 'facultyRole', value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }))
   }
 
+  // Dean sign-off (dean_review) and release of the final scores (send_scores)
+  const runTransition = async (appraisal: AppraisalWithDetails, action: 'dean_review' | 'send_scores') => {
+    const prompt = action === 'dean_review'
+      ? `Sign off the HOD review for ${appraisal.faculty.name}?`
+      : `Release the final scores to ${appraisal.faculty.name}?`
+    if (!confirm(prompt)) return
+    setTransitioning(appraisal.id)
+    try {
+      const res = await fetch(`/api/appraisals/${appraisal.id}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      })
+      const result = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        alert(result.error || `Request failed (${res.status})`)
+        return
+      }
+      await fetchData()
+    } finally {
+      setTransitioning(null)
+    }
+  }
+
  // --- Print Achievements PDF ---
 const printAchievements = (appraisal: AppraisalWithDetails & {
   awards?: any[],
@@ -251,8 +280,12 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
     <div className="p-6 space-y-4">
       <Card>
         <CardHeader>
-          <CardTitle>HOD Appraisals</CardTitle>
-          <CardDescription>Browse and evaluate HOD appraisals in your college.</CardDescription>
+          <CardTitle>{filters.facultyRole === 'HOD' ? 'HOD Appraisals' : 'Instructor Appraisals'}</CardTitle>
+          <CardDescription>
+            {filters.facultyRole === 'HOD'
+              ? 'Browse and evaluate HOD appraisals in your college.'
+              : 'Sign off HOD reviews and release instructor scores in your college.'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-between gap-2 mb-4">
@@ -266,6 +299,13 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
  
 </div>
             <div className="flex gap-2">
+              <Select value={filters.facultyRole} onValueChange={(v) => handleFilterChange('facultyRole', v)}>
+                <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="HOD">HODs</SelectItem>
+                  <SelectItem value="INSTRUCTOR">Instructors</SelectItem>
+                </SelectContent>
+              </Select>
               <Select value={filters.cycle} onValueChange={(v) => handleFilterChange('cycle', v)}>
                 <SelectTrigger className="w-[180px]"><SelectValue placeholder="Select Cycle" /></SelectTrigger>
                 <SelectContent>
@@ -276,7 +316,7 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
                 <SelectTrigger className="w-[180px]"><SelectValue placeholder="All Statuses" /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
-                  {Object.values(EvaluationStatus).map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                  {STATUS_ORDER.map(s => <SelectItem key={s} value={s}>{statusLabel(s)}</SelectItem>)}
                 </SelectContent>
               </Select>
               <div className="flex items-center justify-between gap-2 mb-4">
@@ -298,7 +338,7 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>HOD</TableHead>
+                  <TableHead>{filters.facultyRole === 'HOD' ? 'HOD' : 'Instructor'}</TableHead>
                   <TableHead>Department</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Total Score</TableHead>
@@ -316,7 +356,7 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
                     <TableRow key={appraisal.id}>
                       <TableCell className="font-medium">{appraisal.faculty.name}</TableCell>
                       <TableCell>{appraisal.faculty.department?.name ?? 'N/A'}</TableCell>
-                      <TableCell><Badge variant="outline">{appraisal.status}</Badge></TableCell>
+                      <TableCell><Badge className={statusBadgeClass(appraisal.status)}>{statusLabel(appraisal.status)}</Badge></TableCell>
                       <TableCell>{appraisal.totalScore?.toFixed(2) ?? '-'}</TableCell>
                       <TableCell>{new Date(appraisal.updatedAt).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right flex gap-2 justify-end">
@@ -333,6 +373,12 @@ const printAchievements = (appraisal: AppraisalWithDetails & {
                         </Sheet>
                         <Button variant="ghost" size="icon" title="View" onClick={() => router.push(`/dean/view/${appraisal.id}`)}><Eye className="h-4 w-4" /></Button>
                         <Button variant="ghost" size="icon" title="Evaluate" disabled={!shouldEnableEvaluation(appraisal)} onClick={() => router.push(`/dean/reviews/${appraisal.id}`)}><Edit className="h-4 w-4" /></Button>
+                        {appraisal.status === 'hod_reviewed' && (
+                          <Button variant="ghost" size="icon" title="Sign Off HOD Review" disabled={transitioning === appraisal.id} onClick={() => runTransition(appraisal, 'dean_review')}><ClipboardCheck className="h-4 w-4" /></Button>
+                        )}
+                        {appraisal.status === 'dean_reviewed' && (
+                          <Button variant="ghost" size="icon" title="Release Scores" disabled={transitioning === appraisal.id} onClick={() => runTransition(appraisal, 'send_scores')}><Send className="h-4 w-4" /></Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
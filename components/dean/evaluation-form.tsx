@@ -748,8 +748,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Checkbox } from '@/components/ui/checkbox'
-import { Eye, Save, Calculator, Info, FolderOpen } from 'lucide-react'
+import { Eye, Save, Calculator, Info, Send } from 'lucide-react'
 import router from 'next/router'
+import AttachmentLinks from '@/components/achievements/attachment-links'
 
 // ---------- Types ----------
 type EvalRole = 'HOD' | 'DEAN'
@@ -770,8 +771,17 @@ type PerfState = Record<PerfKey, {
   points?: number
   note?: string
   explanation?: string
+  justification?: string // عند مخالفة مستوى البحث المقترح
 }>
 
+type ResearchSuggestion = {
+  band: BandKey
+  rule: string
+  points: number
+  items: { source: string; id: number; title: string; detail: string }[]
+  current: { decision: { justification?: string | null } | null } | null
+}
+
 type CapState = Record<string, {
   band?: BandKey
   points?: number
@@ -1160,6 +1170,23 @@ export default function EvaluationForm({ appraisalId, role }: Props) {
     Object.fromEntries(cfg.cap.keys.map(k => [k, {}]))
   )
   const [saving, setSaving] = useState(false)
+  const [sending, setSending] = useState(false)
+  // Section 1 points per band from the cycle's grading config (falls back to the rubric defaults)
+  const [gradingPoints, setGradingPoints] = useState<Record<string, Record<BandKey, number>> | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/grading/effective?appraisalId=${appraisalId}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setGradingPoints(data?.bandPoints ?? null))
+      .catch(() => setGradingPoints(null))
+  }, [appraisalId])
+
+  const perfPoints = (k: PerfKey, band: BandKey): number =>
+    gradingPoints?.[S1_API_KEY[k]]?.[band] ?? cfg.perf[k]?.bands?.[band]?.points ?? 0
+  const perfWeight = (k: PerfKey): number => gradingPoints?.[S1_API_KEY[k]]?.HIGH ?? cfg.perf[k].weight
+
+  // Research band proposed from the recorded research/scientific activities
+  const [researchSuggestion, setResearchSuggestion] = useState<ResearchSuggestion | null>(null)
 
   // Achievements viewing state
   const [achievementsData, setAchievementsData] = useState<any>(null)
@@ -1200,6 +1227,10 @@ export default function EvaluationForm({ appraisalId, role }: Props) {
           throw new Error(`Failed to load achievements: ${res.status}`)
         }
 
+        const suggestionRes = await fetch(`/api/appraisals/${appraisalId}/evaluation/research-suggestion`)
+        const suggestion: ResearchSuggestion | null = suggestionRes.ok ? await suggestionRes.json() : null
+        setResearchSuggestion(suggestion)
+
         // Load existing evaluation data
         const evalRes = await fetch(`/api/appraisals/${appraisalId}/evaluation/criterion`)
 // في جزء تحميل evaluations:
@@ -1244,6 +1275,19 @@ if (evalRes.ok) {
     }
   })
 
+  // البحث: الاقتراح الآلي كقيمة مبدئية، والمبرر السابق إن وُجد
+  if (suggestion) {
+    if (!newPerf.research.band) {
+      newPerf.research = {
+        band: suggestion.band,
+        points: suggestion.points,
+        explanation: [`${BAND_LABEL[suggestion.band]} (${suggestion.points} pts)`, `Suggested by rule: ${suggestion.rule}`]
+          .concat(suggestion.items.map(i => i.title)).join('\n'),
+      }
+    }
+    newPerf.research.justification = suggestion.current?.decision?.justification ?? ''
+  }
+
   console.log('Final performance state:', newPerf)
   setPerf(newPerf)
 } else {
@@ -1342,7 +1386,7 @@ if (evalRes.ok) {
       return
     }
 
-    const points = b.points
+    const points = perfPoints(key, band)
     console.log(`Setting ${key} to band: ${band}, points: ${points}`)
 
     setPerf(prev => ({
@@ -1391,6 +1435,7 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
     score: v.points,
     explanation: v.explanation,
     note: v.note ?? undefined,
+    justification: k === 'research' ? v.justification || undefined : undefined,
     role,
   }
 
@@ -1445,6 +1490,11 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
     try {
       console.log('Starting save process...')
 
+      if (researchSuggestion && perf.research.band && perf.research.band !== researchSuggestion.band && !perf.research.justification?.trim()) {
+        alert(`Please justify choosing ${BAND_LABEL[perf.research.band]} instead of the suggested ${BAND_LABEL[researchSuggestion.band]} research band.`)
+        return
+      }
+
       // Save Section 1 criteria
       await Promise.all(
         (Object.keys(perf) as PerfKey[]).map((k) => patchCriterion(k, perf[k]))
@@ -1467,6 +1517,27 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
     }
   }
 
+  // Close this reviewer's stage; the workflow rejects it (409) if a section is incomplete
+  async function submitReview() {
+    if (!confirm('Submit your review? Scores cannot be edited afterwards.')) return
+    setSending(true)
+    try {
+      const res = await fetch(`/api/appraisals/${appraisalId}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: role === 'DEAN' ? 'dean_review' : 'hod_review' }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        alert(data.error || `Submit failed (${res.status})`)
+        return
+      }
+      alert('Review submitted.')
+    } finally {
+      setSending(false)
+    }
+  }
+
   // Fetch achievements data for a specific table (already loaded on mount)
   async function fetchAchievements(table: string) {
     setAchievementsLoading(true)
@@ -1529,8 +1600,8 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
       return new Date(value).toLocaleDateString()
     }
 
-    if (field === 'attachment' && value) {
-      return '📎 Available'
+    if (field === 'attachments') {
+      return value.length ? `📎 ${value.length}` : '—'
     }
 
     return String(value)
@@ -1777,11 +1848,10 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
     showAchievements?: boolean
   }) {
     const { k, title, showView, showAchievements } = props
-    const w = cfg.perf[k].weight
+    const w = perfWeight(k)
     const state = perf[k]
     const selectedBand = state.band
-    const bandConfig = selectedBand && cfg.perf[k]?.bands?.[selectedBand]
-    const score = bandConfig ? bandConfig.points : 0
+    const score = selectedBand ? perfPoints(k, selectedBand) : 0
 
     // Map performance keys to achievements table names (matching API response)
     const achievementsTableMap: Record<PerfKey, { table: string, title: string }> = {
@@ -1823,7 +1893,7 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
                         </TabsList>
                         {BAND_ORDER.map(b => (
                           <TabsContent key={b} value={b} className="mt-4 space-y-3">
-                            <Badge className="capitalize">{BAND_LABEL[b]} — {cfg.perf[k]?.bands?.[b]?.points || 0} pts</Badge>
+                            <Badge className="capitalize">{BAND_LABEL[b]} — {perfPoints(k, b)} pts</Badge>
                             <div className="prose text-sm whitespace-pre-wrap">
                               {formatNumbered(cfg.perf[k].bands[b].summary)}
                             </div>
@@ -1881,6 +1951,33 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
         </CardHeader>
 
         <CardContent className="pt-0">
+          {k === 'research' && researchSuggestion && (
+            <div className="mt-3 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm">
+              <div className="font-medium">
+                Suggested: {BAND_LABEL[researchSuggestion.band]} ({researchSuggestion.points} pts)
+              </div>
+              <div className="text-muted-foreground">Rule: {researchSuggestion.rule}</div>
+              <div className="text-xs text-muted-foreground">Co-authored papers, contract projects and patents count as half an item.</div>
+              {researchSuggestion.items.length > 0 && (
+                <ul className="mt-1 list-disc pl-5">
+                  {researchSuggestion.items.map(item => (
+                    <li key={`${item.source}-${item.id}`}>{item.title} <span className="text-muted-foreground">({item.detail})</span></li>
+                  ))}
+                </ul>
+              )}
+              {selectedBand && selectedBand !== researchSuggestion.band && (
+                <div className="mt-3">
+                  <label className="text-sm font-medium">Justification for overriding the suggestion</label>
+                  <Textarea
+                    placeholder="Explain why a different band applies..."
+                    value={state.justification ?? ''}
+                    onChange={(e)=> setPerf(prev => ({ ...prev, research: { ...prev.research, justification: e.target.value } }))}
+                    className="mt-1 bg-white"
+                  />
+                </div>
+              )}
+            </div>
+          )}
           <div className="mt-3">
             <label className="text-sm font-medium">Note</label>
             <Textarea
@@ -2083,16 +2180,7 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
                           </TableCell>
                         ))}
                         <TableCell>
-                          {item.attachment && (
-                            <a
-                              href={item.attachment}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 hover:underline"
-                            >
-                              <FolderOpen className="h-4 w-4" />
-                            </a>
-                          )}
+                          <AttachmentLinks attachments={item.attachments} />
                         </TableCell>
                         <TableCell>
                           {selectedAchievements.has(item.id) && (
@@ -2236,6 +2324,10 @@ async function patchCriterion(k: PerfKey, v: PerfState[PerfKey]) {
               <Save className="h-4 w-4 mr-2" />
               {saving ? 'Saving…' : 'Save'}
             </Button>
+            <Button type="button" variant="secondary" onClick={submitReview} disabled={saving || sending}>
+              <Send className="h-4 w-4 mr-2" />
+              {sending ? 'Submitting…' : 'Submit Review'}
+            </Button>
           </div>
         </CardContent>
       </Card>
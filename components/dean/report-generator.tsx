@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Download, FileText, BarChart3, Award, Loader2, Users, Building } from "lucide-react"
+import { useBranding } from "@/components/layout/branding"
 
 interface ReportGeneratorProps {
   userRole: string
@@ -15,6 +16,7 @@ interface ReportGeneratorProps {
 }
 
 export default function ReportGenerator({ userRole, departments, collegeId }: ReportGeneratorProps) {
+  const branding = useBranding()
   const [reportType, setReportType] = useState("appraisals")
   const [format, setFormat] = useState("csv")
   const [academicYear, setAcademicYear] = useState("all")
@@ -258,9 +260,13 @@ export default function ReportGenerator({ userRole, departments, collegeId }: Re
               `}</style>
 
               <div className="report-content">
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+                  {branding.logo && <img src={branding.logo} alt="" style={{ height: '40px' }} />}
+                  <strong style={{ color: branding.primaryColor }}>{branding.name}</strong>
+                </div>
                 <h1 style={{
                   color: '#333',
-                  borderBottom: '2px solid #333',
+                  borderBottom: `2px solid ${branding.primaryColor}`,
                   paddingBottom: '10px',
                   marginBottom: '20px',
                   fontSize: '18px'
@@ -360,7 +366,7 @@ export default function ReportGenerator({ userRole, departments, collegeId }: Re
                   borderTop: '1px solid #ddd',
                   paddingTop: '10px'
                 }}>
-                  <p>Generated by Faculty Appraisal System | {new Date().toLocaleDateString()}</p>
+                  <p>Generated by {branding.name} | {new Date().toLocaleDateString()}</p>
                 </div>
               </div>
             </div>
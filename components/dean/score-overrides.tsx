@@ -0,0 +1,202 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { History, Pencil, RotateCcw } from 'lucide-react'
+import type { Pillar, ScoreDiffRow } from '@/lib/score-history'
+
+type HistoryEntry = {
+  id: number
+  pillar: Pillar
+  source: 'COMPUTED' | 'OVERRIDE' | 'OVERRIDE_CLEARED'
+  previousPts: number | null
+  newPts: number | null
+  computedPts: number | null
+  reason: string | null
+  createdAt: string
+  changedBy: { id: number; name: string } | null
+}
+
+const SOURCE_LABEL: Record<HistoryEntry['source'], string> = {
+  COMPUTED: 'Computed',
+  OVERRIDE: 'Override',
+  OVERRIDE_CLEARED: 'Override cleared',
+}
+
+const fmt = (n: number | null) => (n === null ? '—' : n.toFixed(2))
+
+/** المحسوبة مقابل النهائية لكل بند، مع التجاوز (بمبرر إلزامي) وسجل التغييرات */
+export default function ScoreOverrides({ appraisalId }: { appraisalId: number }) {
+  const [rows, setRows] = useState<ScoreDiffRow[]>([])
+  const [history, setHistory] = useState<HistoryEntry[]>([])
+  const [editing, setEditing] = useState<ScoreDiffRow | null>(null)
+  const [points, setPoints] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const base = `/api/appraisals/${appraisalId}/evaluation/override`
+
+  const load = useCallback(async () => {
+    const res = await fetch(base)
+    if (!res.ok) return
+    const data = await res.json()
+    setRows(data.scores ?? [])
+    setHistory(data.history ?? [])
+  }, [base])
+
+  useEffect(() => { load() }, [load])
+
+  function openEditor(row: ScoreDiffRow) {
+    setEditing(row)
+    setPoints(row.final !== null ? String(row.final) : '')
+    setReason('')
+    setError(null)
+  }
+
+  // يعيد رسالة الخطأ أو null عند النجاح
+  async function submit(body: { pillar: Pillar; points: number | null; reason: string | null }): Promise<string | null> {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(base, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) return data.error || `Request failed (${res.status})`
+      await load()
+      return null
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function saveOverride() {
+    if (!editing) return
+    const value = Number(points)
+    if (points.trim() === '' || !Number.isFinite(value)) {
+      setError('Enter a valid score')
+      return
+    }
+    if (!reason.trim()) {
+      setError('A reason is required')
+      return
+    }
+    const failure = await submit({ pillar: editing.pillar, points: value, reason })
+    if (failure) setError(failure)
+    else setEditing(null)
+  }
+
+  async function clearOverride(row: ScoreDiffRow) {
+    if (!confirm(`Revert ${row.label} to the computed score?`)) return
+    const failure = await submit({ pillar: row.pillar, points: null, reason: null })
+    if (failure) alert(failure)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" /> Computed vs Final Scores
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Section</TableHead>
+              <TableHead className="text-right">Computed</TableHead>
+              <TableHead className="text-right">Final</TableHead>
+              <TableHead className="text-right">Difference</TableHead>
+              <TableHead>Override reason</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.pillar}>
+                <TableCell className="font-medium">
+                  {row.label}
+                  {row.override !== null && <Badge className="ml-2 bg-amber-100 text-amber-800">Overridden</Badge>}
+                </TableCell>
+                <TableCell className="text-right">{fmt(row.computed)}</TableCell>
+                <TableCell className="text-right font-semibold">{fmt(row.final)}</TableCell>
+                <TableCell className={`text-right ${row.delta ? (row.delta > 0 ? 'text-green-700' : 'text-red-700') : ''}`}>
+                  {row.delta ? `${row.delta > 0 ? '+' : ''}${row.delta.toFixed(2)}` : '—'}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{row.reason ?? '—'}</TableCell>
+                <TableCell className="text-right space-x-1">
+                  <Button size="sm" variant="outline" onClick={() => openEditor(row)} disabled={row.computed === null && row.final === null}>
+                    <Pencil className="h-3 w-3 mr-1" /> Override
+                  </Button>
+                  {row.override !== null && (
+                    <Button size="sm" variant="ghost" onClick={() => clearOverride(row)} disabled={saving}>
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Score history</h4>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No score changes recorded yet.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {history.map(h => (
+                <div key={h.id} className="text-sm border rounded-md p-2">
+                  <div className="flex justify-between">
+                    <span>
+                      <Badge variant="secondary" className="mr-2">{SOURCE_LABEL[h.source]}</Badge>
+                      {rows.find(r => r.pillar === h.pillar)?.label ?? h.pillar}: {fmt(h.previousPts)} → {fmt(h.newPts)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {h.changedBy?.name ?? 'System'} · {new Date(h.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {h.reason && <p className="text-muted-foreground mt-1">{h.reason}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => { if (!open) setEditing(null) }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Override {editing?.label} score</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">Computed score: {fmt(editing?.computed ?? null)}</p>
+            <div>
+              <Label htmlFor="override-points">Final score</Label>
+              <Input id="override-points" type="number" min="0" step="0.5" value={points} onChange={(e) => setPoints(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="override-reason">Reason (required)</Label>
+              <Textarea id="override-reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Why does the computed score not apply?" />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={saveOverride} disabled={saving}>{saving ? 'Saving...' : 'Save Override'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -12,19 +12,12 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Loader2, AlertCircle, Eye, Edit, Printer } from 'lucide-react'
 import { Appraisal, AppraisalCycle } from '@prisma/client'
 import { useDebounce } from '@/hooks/use-debounce'
+import { STATUS_ORDER, statusBadgeClass, statusLabel } from '@/lib/appraisal-status'
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import Papa from 'papaparse'
 import { saveAs } from 'file-saver'
 
-// Define EvaluationStatus locally
-const EvaluationStatus = {
-  NEW: 'new',
-  IN_PROGRESS: 'in_progress',
-  COMPLETE: 'complete',
-  SENT:'sent',
-} as const
-
 // Updated type with evaluation included
 type AppraisalWithDetails = Appraisal & {
   faculty: { name: string; department: { name: string } | null };
@@ -59,9 +52,9 @@ export default function HODAppraisalsTable() {
   const [filters, setFilters] = useState({ cycle: '', status: '', search: '' })
   const debouncedSearch = useDebounce(filters.search, 300)
 
-  // Helper to check if evaluation should be enabled
+  // Helper to check if evaluation should be enabled: only while the appraisal sits at the HOD stage
   const shouldEnableEvaluation = (appraisal: AppraisalWithDetails) => {
-    if (appraisal.status === 'complete') return false
+    if (appraisal.status === 'submitted' || appraisal.status === 'returned') return true
     if (appraisal.status === 'new') {
       const cycleEndDate = new Date(appraisal.cycle.endDate)
       const oneMonthBeforeEnd = new Date(cycleEndDate)
@@ -69,7 +62,7 @@ export default function HODAppraisalsTable() {
       const now = new Date()
       return now >= oneMonthBeforeEnd && now <= cycleEndDate
     }
-    return true
+    return false
   }
 
   // Fetch appraisals from API
@@ -286,10 +279,8 @@ export default function HODAppraisalsTable() {
                 <SelectTrigger className="w-[180px]"><SelectValue placeholder="All Statuses" /></SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Statuses</SelectItem>
-                  {Object.values(EvaluationStatus).map(s => (
-                    <SelectItem key={s} value={s}>
-                      {s.replace('_', ' ').replace(/\b\w/g, c => c.toUpperCase())}
-                    </SelectItem>
+                  {STATUS_ORDER.map(s => (
+                    <SelectItem key={s} value={s}>{statusLabel(s)}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -332,7 +323,7 @@ export default function HODAppraisalsTable() {
                   data.appraisals.map(appraisal => (
                     <TableRow key={appraisal.id}>
                       <TableCell className="font-medium">{appraisal.faculty.name}</TableCell>
-                      <TableCell><Badge variant="outline">{appraisal.status}</Badge></TableCell>
+                      <TableCell><Badge className={statusBadgeClass(appraisal.status)}>{statusLabel(appraisal.status)}</Badge></TableCell>
                       <TableCell>{appraisal.evaluation?.totalScore?.toFixed(2) ?? '-'}</TableCell>
                       <TableCell>{new Date(appraisal.updatedAt).toLocaleDateString()}</TableCell>
                       <TableCell className="text-right flex gap-2 justify-end">
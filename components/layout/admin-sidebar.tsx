@@ -12,6 +12,8 @@ import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { cn } from "@/lib/utils"
+import { NotificationBell } from "@/components/layout/notification-bell"
+import { BrandMark } from "@/components/layout/branding"
 import {
   Home,
   Users,
@@ -134,8 +136,12 @@ export function AdminSidebar() {
     <div className={cn("flex h-full flex-col bg-white", isCollapsed ? "w-16" : "w-64")}>
       {/* Header */}
       <div className="px-5 py-4 border-b">
-        <div className="text-[11px] font-semibold tracking-wider text-muted-foreground">
-          Admin
+        <BrandMark />
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-[11px] font-semibold tracking-wider text-muted-foreground">
+            Admin
+          </div>
+          <NotificationBell />
         </div>
         <div className="mt-2 flex items-center gap-3">
           <div className="h-9 w-9 rounded-full bg-muted/60 ring-1 ring-border" />
@@ -204,6 +210,22 @@ export function AdminSidebar() {
               Change Password
             </button>
           </li>
+          <li>
+            <Link
+              href="/auth/two-factor"
+              className="block w-full text-left px-5 py-3 text-[15px] text-muted-foreground hover:bg-muted/30 hover:text-foreground"
+            >
+              Two-Factor Authentication
+            </Link>
+          </li>
+          <li>
+            <Link
+              href="/auth/login-history"
+              className="block w-full text-left px-5 py-3 text-[15px] text-muted-foreground hover:bg-muted/30 hover:text-foreground"
+            >
+              Login History
+            </Link>
+          </li>
         </ul>
       </ScrollArea>
 
@@ -0,0 +1,33 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext } from "react"
+import { DEFAULT_SETTINGS, type BrandingSettings } from "@/lib/settings-schema"
+
+// الهوية البصرية من إعدادات النظام؛ تُقرأ مرة في app/layout.tsx وتصل لمكونات العميل من هنا
+const BrandingContext = createContext<BrandingSettings>(DEFAULT_SETTINGS.branding)
+
+export function BrandingProvider({ branding, children }: { branding: BrandingSettings; children: React.ReactNode }) {
+  return <BrandingContext.Provider value={branding}>{children}</BrandingContext.Provider>
+}
+
+export function useBranding() {
+  return useContext(BrandingContext)
+}
+
+/** الشعار واسم النظام في رأس الشريط الجانبي */
+export function BrandMark() {
+  const { name, logo, primaryColor } = useBranding()
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      {logo ? (
+        <img src={logo} alt="" className="h-6 w-6 object-contain flex-shrink-0" />
+      ) : (
+        <span className="h-6 w-6 rounded flex-shrink-0" style={{ backgroundColor: primaryColor }} />
+      )}
+      <span className="text-sm font-semibold truncate" style={{ color: primaryColor }}>
+        {name}
+      </span>
+    </div>
+  )
+}
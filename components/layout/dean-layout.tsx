@@ -1,5 +1,6 @@
 import type React from "react"
-import { requireDean } from "@/lib/auth-utils"
+import { UserRole } from "@prisma/client"
+import { requireRole } from "@/lib/auth-utils"
 import { DeanSidebar } from "./dean-sidebar"
 
 export default async function DeanLayout({
@@ -7,7 +8,7 @@ export default async function DeanLayout({
 }: {
   children: React.ReactNode
 }) {
-  await requireDean()
+  await requireRole([UserRole.ADMIN, UserRole.DEAN])
 
   return (
     <div className="flex h-screen bg-background ml-2 divide-x divide-border">
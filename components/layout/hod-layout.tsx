@@ -1,5 +1,6 @@
 import type React from "react"
-import { requireHOD } from "@/lib/auth-utils"
+import { UserRole } from "@prisma/client"
+import { requireRole } from "@/lib/auth-utils"
 import { HODSidebar } from "./hod-sidebar"
 
 export default async function HODLayout({
@@ -7,7 +8,7 @@ export default async function HODLayout({
 }: {
   children: React.ReactNode
 }) {
-  await requireHOD()
+  await requireRole([UserRole.ADMIN, UserRole.DEAN, UserRole.HOD])
 
   return (
     <div className="flex h-screen bg-background ml-2 divide-x divide-border">
@@ -7,12 +7,15 @@ import { signOut } from "next-auth/react"
 import { Button } from "@/components/ui/button"
 import { useSession } from "next-auth/react"
 import { cn } from "@/lib/utils"
-import { History, ClipboardList, Award, FileText, LogOut, BarChart3, User } from "lucide-react"
+import { NotificationBell } from "@/components/layout/notification-bell"
+import { BrandMark } from "@/components/layout/branding"
+import { History, ClipboardList, Award, FileText, LogOut, BarChart3, User, MessageSquare, ShieldCheck, KeyRound } from "lucide-react"
 import { ScrollArea } from "@radix-ui/react-scroll-area"
 
 const hodNavItems = [
   { href: "/hod/dashboard", icon: BarChart3, label: "Dashboard" },
   { href: "/hod/appraisals", icon: ClipboardList, label: "Appraisal List" },
+  { href: "/hod/appeals", icon: MessageSquare, label: "Appeals" },
   { href: "/hod/achievements", icon: Award, label: "Faculty Achievements" },
   { href: "/hod/analytics", icon: History, label: "Department Analytics" },
   { href: "/hod/reports", icon: FileText, label: "Reports & Downloads" },
@@ -41,8 +44,12 @@ export function HODSidebar() {
     >
       {/* Header */}
       <div className="px-5 py-4 border-b">
-        <div className="text-[11px] font-semibold tracking-wider text-muted-foreground">
-          Head of Department
+        <BrandMark />
+        <div className="mt-3 flex items-center justify-between">
+          <div className="text-[11px] font-semibold tracking-wider text-muted-foreground">
+            Head of Department
+          </div>
+          <NotificationBell />
         </div>
         <div className="mt-2 flex items-center gap-3">
           <div className="h-9 w-9 rounded-full bg-muted/60 ring-1 ring-border" />
@@ -118,6 +125,26 @@ export function HODSidebar() {
 
       {/* Footer */}
       <div className="p-4 border-t border-sidebar-border">
+        <Link
+          href="/auth/two-factor"
+          className={cn(
+            "flex items-center gap-3 rounded-md px-4 py-2 mb-1 text-sm text-sidebar-foreground hover:bg-muted/30",
+            isCollapsed && "justify-center",
+          )}
+        >
+          <ShieldCheck className="h-4 w-4 flex-shrink-0" />
+          {!isCollapsed && <span>Two-Factor Authentication</span>}
+        </Link>
+        <Link
+          href="/auth/login-history"
+          className={cn(
+            "flex items-center gap-3 rounded-md px-4 py-2 mb-1 text-sm text-sidebar-foreground hover:bg-muted/30",
+            isCollapsed && "justify-center",
+          )}
+        >
+          <KeyRound className="h-4 w-4 flex-shrink-0" />
+          {!isCollapsed && <span>Login History</span>}
+        </Link>
         <Button
           variant="ghost"
           onClick={() => signOut()}
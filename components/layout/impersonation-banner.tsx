@@ -0,0 +1,38 @@
+"use client"
+
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { Eye, LogOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+// شريط ثابت طوال "العرض كمستخدم" مع زر الخروج (lib/impersonation.ts)
+export function ImpersonationBanner() {
+  const { data: session, update } = useSession()
+  const [isExiting, setIsExiting] = useState(false)
+
+  if (!session?.impersonator) return null
+
+  const handleExit = async () => {
+    setIsExiting(true)
+    try {
+      await fetch("/api/admin/impersonation", { method: "DELETE" })
+      await update({ impersonationId: null })
+    } finally {
+      // إعادة تحميل كاملة حتى تُعرض صفحات الخادم بهوية المدير
+      window.location.href = "/admin/users"
+    }
+  }
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900 shadow-lg">
+      <Eye className="h-4 w-4 flex-shrink-0" />
+      <span>
+        Viewing as <span className="font-semibold">{session.user.name}</span> ({session.user.role}) — read-only
+      </span>
+      <Button size="sm" variant="outline" className="h-7 rounded-full" onClick={handleExit} disabled={isExiting}>
+        <LogOut className="mr-1 h-3 w-3" />
+        Exit
+      </Button>
+    </div>
+  )
+}
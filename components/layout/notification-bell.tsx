@@ -0,0 +1,105 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+
+type NotificationRow = {
+  id: number
+  type: string
+  title: string
+  body: string | null
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+// تحديث العدد دورياً بدون إعادة تحميل الصفحة
+const POLL_MS = 60_000
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<NotificationRow[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+
+  const load = useCallback(async () => {
+    const res = await fetch("/api/notifications").catch(() => null)
+    if (!res?.ok) return
+    const data = await res.json()
+    setNotifications(data.notifications ?? [])
+    setUnreadCount(data.unreadCount ?? 0)
+  }, [])
+
+  useEffect(() => {
+    load()
+    const timer = setInterval(load, POLL_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  async function markRead(body: { ids: number[] } | { all: true }) {
+    const res = await fetch("/api/notifications", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (res.ok) await load()
+  }
+
+  async function openNotification(n: NotificationRow) {
+    if (!n.readAt) await markRead({ ids: [n.id] })
+    if (n.link) {
+      setOpen(false)
+      router.push(n.link)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(o) => { setOpen(o); if (o) load() }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] leading-4 text-white text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-2 border-b">
+          <div className="text-sm font-semibold">Notifications</div>
+          {unreadCount > 0 && (
+            <button className="text-xs text-muted-foreground hover:text-foreground" onClick={() => markRead({ all: true })}>
+              Mark all read
+            </button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto divide-y">
+          {notifications.length === 0 && (
+            <div className="px-4 py-6 text-sm text-muted-foreground text-center">No notifications</div>
+          )}
+          {notifications.map((n) => (
+            <button
+              key={n.id}
+              onClick={() => openNotification(n)}
+              className={cn("block w-full text-left px-4 py-3 hover:bg-muted/40", !n.readAt && "bg-muted/20")}
+            >
+              <div className="flex items-start gap-2">
+                {!n.readAt && <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <div className={cn("text-sm", !n.readAt && "font-medium")}>{n.title}</div>
+                  {n.body && <div className="text-xs text-muted-foreground line-clamp-2">{n.body}</div>}
+                  <div className="text-[11px] text-muted-foreground mt-1">{new Date(n.createdAt).toLocaleString()}</div>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -7,7 +7,13 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { Upload, File, X, CheckCircle, Loader2 } from "lucide-react"
+import { Upload, File, X, CheckCircle, Clock, Loader2 } from "lucide-react"
+
+interface UploadedFile {
+  filename: string
+  /** ينتظر فحص البرمجيات الخبيثة؛ لا يُنزَّل حتى يجتازه */
+  pending: boolean
+}
 
 interface FileUploadProps {
   entityId: string
@@ -20,17 +26,11 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
   const [uploadProgress, setUploadProgress] = useState(0)
   const [isUploading, setIsUploading] = useState(false)
   const [error, setError] = useState("")
-  const [uploadedFiles, setUploadedFiles] = useState<string[]>([])
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  const allowedTypes = [
-    "application/pdf",
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "application/msword",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-  ]
+  // فحص أولي بالامتداد فقط؛ الخادم يتحقق من المحتوى الفعلي والحجم والحصص (lib/upload-security.ts)
+  const allowedExtensions = ["pdf", "jpg", "jpeg", "png", "gif", "doc", "docx"]
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
@@ -60,20 +60,25 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
     }
   }
 
+  // رسالة الخادم كما هي؛ الاستجابة قد لا تكون JSON (مثلاً حد حجم الطلب في الوكيل العكسي)
+  const uploadErrorMessage = (file: File, status: number, responseText: string) => {
+    let message: string | undefined
+    try {
+      message = JSON.parse(responseText).error
+    } catch {}
+    if (message) return `${file.name}: ${message}`
+    if (status === 413) return `${file.name}: The file is too large or your storage quota is full.`
+    if (status === 401 || status === 403) return `${file.name}: You are not allowed to upload files to this appraisal.`
+    return `${file.name}: Upload failed (status ${status}). Please try again.`
+  }
+
   const uploadFile = async (file: File) => {
-    // Validate file type
-    if (!allowedTypes.includes(file.type)) {
+    const extension = file.name.split(".").pop()?.toLowerCase() ?? ""
+    if (!allowedExtensions.includes(extension)) {
       setError(`Invalid file type: ${file.name}. Please upload PDF, images, or Word documents.`)
       return
     }
 
-    // Validate file size (10MB max)
-    const maxSize = 10 * 1024 * 1024
-    if (file.size > maxSize) {
-      setError(`File too large: ${file.name}. Maximum size is 10MB.`)
-      return
-    }
-
     setIsUploading(true)
     setError("")
     setUploadProgress(0)
@@ -96,18 +101,17 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
       xhr.addEventListener("load", () => {
         if (xhr.status === 200) {
           const response = JSON.parse(xhr.responseText)
-          setUploadedFiles((prev) => [...prev, response.filename])
+          setUploadedFiles((prev) => [...prev, { filename: response.filename, pending: response.scanStatus === "PENDING" }])
           onUploadComplete?.(response.filename)
           setUploadProgress(100)
         } else {
-          const error = JSON.parse(xhr.responseText)
-          setError(error.error || "Upload failed")
+          setError(uploadErrorMessage(file, xhr.status, xhr.responseText))
         }
         setIsUploading(false)
       })
 
       xhr.addEventListener("error", () => {
-        setError("Upload failed")
+        setError(`${file.name}: Upload failed. Please check your internet connection and try again.`)
         setIsUploading(false)
       })
 
@@ -120,7 +124,7 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
   }
 
   const removeUploadedFile = (filename: string) => {
-    setUploadedFiles((prev) => prev.filter((f) => f !== filename))
+    setUploadedFiles((prev) => prev.filter((f) => f.filename !== filename))
   }
 
   return (
@@ -131,7 +135,7 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
           Upload Evidence Files
         </CardTitle>
         <CardDescription>
-          Upload supporting documents (PDF, images, Word documents). Maximum file size: 10MB.
+          Upload supporting documents (PDF, images, Word documents). Files are checked for viruses before they can be opened.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -180,11 +184,18 @@ export function FileUpload({ entityId, entityType, onUploadComplete }: FileUploa
           <div className="space-y-2">
             <h4 className="font-medium text-card-foreground">Uploaded Files:</h4>
             <div className="space-y-2">
-              {uploadedFiles.map((filename) => (
+              {uploadedFiles.map(({ filename, pending }) => (
                 <div key={filename} className="flex items-center justify-between p-2 bg-muted rounded-lg">
                   <div className="flex items-center gap-2">
-                    <CheckCircle className="h-4 w-4 text-green-600" />
+                    {pending ? (
+                      <Clock className="h-4 w-4 text-amber-600" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                    )}
                     <span className="text-sm">{filename}</span>
+                    {pending && (
+                      <span className="text-xs text-muted-foreground">Awaiting virus scan; available once it completes</span>
+                    )}
                   </div>
                   <Button variant="ghost" size="sm" onClick={() => removeUploadedFile(filename)}>
                     <X className="h-4 w-4" />
@@ -0,0 +1,8 @@
+// يُستدعى مرة عند بدء الخادم (Next.js instrumentation)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  // بلا ماسح تبقى كل المرفقات محجوزة (PENDING)؛ ننبّه عند البدء بدل اكتشاف ذلك من المستخدمين
+  const { SCANNER_NOT_CONFIGURED, malwareScannerName } = await import('@/lib/malware-scan')
+  if (!malwareScannerName()) console.error(SCANNER_NOT_CONFIGURED)
+}
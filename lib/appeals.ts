@@ -0,0 +1,307 @@
+import { prisma } from '@/lib/prisma'
+import { AppealLevel, AppealOutcome, EvaluationStatus, Prisma, UserRole, type Appeal } from '@prisma/client'
+import { appealOwner, resolveAppraisalAccess, transitionAppraisal, type WorkflowAppraisal } from '@/lib/workflow'
+import { logAudit } from '@/lib/audit'
+import { notifyEscalation } from '@/lib/notifications'
+import { ownerWhere, toPolicyUser } from '@/lib/policy'
+import { policyUserSelect } from '@/lib/permissions'
+
+/**
+ * تقديم التظلّم (fileAppeal) من صاحب التقييم، ثم البت فيه: صاحب المرحلة (رئيس القسم للمدرّس، العميد لرئيس القسم) أو المدير.
+ * يمكن إعادة فتح التقييم للتعديل (تُلغى التوقيعات السارية)، ثم البت بإحدى النتائج فيعود التقييم إلى released.
+ * إذا تجاوز التظلّم مهلة البت (AppraisalCycle.appealResolutionDays) يُصعَّد: رئيس القسم → العميد → لجنة الإدارة.
+ */
+
+export const appealInclude = {
+  resolvedBy: { select: { id: true, name: true } },
+  escalations: { orderBy: { createdAt: 'asc' } },
+  appraisal: {
+    select: {
+      id: true,
+      status: true,
+      faculty: {
+        select: {
+          id: true,
+          name: true,
+          role: true,
+          department: { select: { id: true, name: true, college: { select: { id: true, name: true } } } },
+        },
+      },
+      cycle: { select: { academicYear: true, appealResolutionDays: true } },
+    },
+  },
+} satisfies Prisma.AppealInclude
+
+export type AppealWithDetails = Prisma.AppealGetPayload<{ include: typeof appealInclude }>
+
+export const OUTCOME_LABELS: Record<AppealOutcome, string> = {
+  UPHOLD: 'Original scores upheld',
+  REVISE_SCORES: 'Scores revised',
+  REJECT: 'Appeal rejected',
+}
+
+interface AppealUser {
+  id: string | number
+  role: UserRole
+}
+
+/** نطاق التظلّمات التي يراها المستخدم (قاعدة appeal.review في lib/policy.ts)، أو null إذا لم يكن مقيّماً */
+export async function appealScope(user: AppealUser): Promise<Prisma.AppealWhereInput | null> {
+  const me = await prisma.user.findUnique({ where: { id: Number(user.id) }, select: policyUserSelect })
+  if (!me) return null
+  const actor = toPolicyUser(me)
+  const faculty = ownerWhere(actor, 'review', 'appeal')
+  if (!faculty) return null
+
+  // العميد: تظلّمات رؤساء الأقسام، وتظلّمات المدرّسين بعد تصعيدها من رئيس القسم
+  if (actor.role === UserRole.DEAN) {
+    return {
+      appraisal: { faculty },
+      OR: [
+        { appraisal: { faculty: { role: UserRole.HOD } } },
+        { level: { in: [AppealLevel.DEAN, AppealLevel.ADMIN] } },
+      ],
+    }
+  }
+  return { appraisal: { faculty } }
+}
+
+/** هل يملك المستخدم المستوى الحالي للتظلّم؟ (يُكمل appealScope الذي يحدد النطاق) */
+export function canResolveAt(user: AppealUser, level: AppealLevel): boolean {
+  return user.role === UserRole.ADMIN || user.role === level
+}
+
+/** مهلة بالأيام: فارغة = بلا حد، وإلا عدد صحيح موجب */
+export function validateAppealDays(value: unknown, label: string): { ok: true; days: number | null } | { ok: false; error: string } {
+  if (value === null || value === undefined || value === '') return { ok: true, days: null }
+  const days = Number(value)
+  if (!Number.isInteger(days) || days < 1 || days > 365) {
+    return { ok: false, error: `${label} must be a whole number of days between 1 and 365` }
+  }
+  return { ok: true, days }
+}
+
+type Failure = { ok: false; status: 400 | 403 | 404 | 409; error: string }
+
+async function loadOpenAppeal(appealId: number, user: AppealUser): Promise<
+  { ok: true; appeal: Appeal; appraisal: WorkflowAppraisal } | Failure
+> {
+  const appeal = await prisma.appeal.findUnique({ where: { id: appealId } })
+  if (!appeal) return { ok: false, status: 404, error: 'Appeal not found' }
+  if (appeal.resolvedAt) return { ok: false, status: 409, error: 'Appeal is already resolved' }
+
+  const access = await resolveAppraisalAccess(appeal.appraisalId, user)
+  if (!access) return { ok: false, status: 404, error: 'Appraisal not found' }
+  if (!access.actors.includes(appeal.level) && !access.actors.includes('ADMIN')) {
+    return { ok: false, status: 403, error: `This appeal is currently with the ${appeal.level}` }
+  }
+  return { ok: true, appeal, appraisal: access.appraisal }
+}
+
+export interface FileAppealInput {
+  appraisalId: number
+  user: AppealUser & { email?: string | null }
+  message: string
+  req?: Request
+}
+
+export type FileAppealResult =
+  | { ok: true; appeal: Appeal; appraisal: WorkflowAppraisal; from: EvaluationStatus; to: EvaluationStatus }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+/**
+ * صاحب التقييم يتظلّم: انتقال appeal (من released ضمن مهلة الدورة) مع إنشاء التظلّم في نفس المعاملة
+ * عند مستوى المقيّم المباشر، ثم سجل التدقيق. كل مسارات التظلّم تمر من هنا.
+ */
+export async function fileAppeal(input: FileAppealInput): Promise<FileAppealResult> {
+  const { appraisalId, user, message, req } = input
+
+  let appeal: Appeal | null = null
+  const result = await transitionAppraisal({
+    appraisalId,
+    action: 'appeal',
+    user,
+    reason: message,
+    effects: async (tx, current) => {
+      appeal = await tx.appeal.create({
+        data: { appraisalId, byUserId: Number(user.id), message, level: appealOwner(current) },
+      })
+    },
+  })
+  if (!result.ok) return result
+  const created = appeal!
+
+  await logAudit({
+    actor: user,
+    action: 'APPEAL_CREATE',
+    target: { type: 'appraisal', id: appraisalId },
+    before: { status: result.from },
+    after: { status: result.to },
+    metadata: { appealId: created.id, message },
+    req,
+  })
+
+  return { ok: true, appeal: created, appraisal: result.appraisal, from: result.from, to: result.to }
+}
+
+export type ReopenResult = { ok: true; appeal: Appeal; revokedSignatureIds: number[] } | Failure
+
+/** يعيد فتح التقييم للتعديل: يلغي التوقيعات السارية حتى تقبل مسارات التقييم التعديل */
+export async function reopenForAppeal(appealId: number, user: AppealUser): Promise<ReopenResult> {
+  const loaded = await loadOpenAppeal(appealId, user)
+  if (!loaded.ok) return loaded
+  const { appeal, appraisal } = loaded
+  if (appraisal.status !== EvaluationStatus.returned) {
+    return { ok: false, status: 409, error: `Cannot reopen an appraisal in status "${appraisal.status}"` }
+  }
+
+  const actorId = Number(user.id)
+  return prisma.$transaction(async (tx) => {
+    const active = await tx.signature.findMany({
+      where: { appraisalId: appeal.appraisalId, revokedAt: null },
+      select: { id: true },
+    })
+    if (active.length) {
+      await tx.signature.updateMany({
+        where: { id: { in: active.map(s => s.id) } },
+        data: { revokedAt: new Date(), revokedById: actorId, revokeReason: `Reopened for appeal #${appeal.id}` },
+      })
+    }
+    const updated = await tx.appeal.update({
+      where: { id: appeal.id },
+      data: { reopenedAt: new Date(), reopenedById: actorId },
+    })
+    return { ok: true as const, appeal: updated, revokedSignatureIds: active.map(s => s.id) }
+  })
+}
+
+export interface ResolveInput {
+  appealId: number
+  user: AppealUser
+  outcome: AppealOutcome
+  note: string
+}
+
+export type ResolveResult =
+  | { ok: true; appeal: Appeal; from: EvaluationStatus; to: EvaluationStatus }
+  | Failure
+
+export async function resolveAppeal(input: ResolveInput): Promise<ResolveResult> {
+  const { appealId, user, outcome, note } = input
+  const loaded = await loadOpenAppeal(appealId, user)
+  if (!loaded.ok) return loaded
+  const { appeal } = loaded
+
+  if (outcome === AppealOutcome.REVISE_SCORES && !appeal.reopenedAt) {
+    return { ok: false, status: 409, error: 'Reopen the evaluation and revise the scores before resolving with "revise scores"' }
+  }
+
+  let resolved: Appeal | null = null
+  const result = await transitionAppraisal({
+    appraisalId: appeal.appraisalId,
+    action: 'resolve_appeal',
+    user,
+    reason: note,
+    effects: async (tx) => {
+      resolved = await tx.appeal.update({
+        where: { id: appeal.id },
+        data: { resolvedAt: new Date(), resolvedById: Number(user.id), outcome, resolutionNote: note },
+      })
+    },
+  })
+  if (!result.ok) return result
+
+  return { ok: true, appeal: resolved!, from: result.from, to: result.to }
+}
+
+// ===================== التصعيد =====================
+
+const NEXT_LEVEL: Record<AppealLevel, AppealLevel | null> = {
+  HOD: AppealLevel.DEAN,
+  DEAN: AppealLevel.ADMIN,
+  ADMIN: null,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface EscalationEvent {
+  appealId: number
+  appraisalId: number
+  fromLevel: AppealLevel
+  toLevel: AppealLevel
+}
+
+/**
+ * يصعّد التظلّمات المفتوحة التي تجاوزت مهلة البت في مستواها الحالي.
+ * يُستدعى عند عرض قوائم التظلّمات، وكل ساعة من /api/cron/escalate-appeals، ومن scripts/escalate-appeals.ts، ولذلك لا يعتمد على من استدعاه.
+ * تظلّم متأخر جداً قد يتخطى أكثر من مستوى في نفس المرة؛ كل مستوى يحصل على مهلته كاملة.
+ */
+export async function escalateOverdueAppeals(now = new Date()): Promise<EscalationEvent[]> {
+  const open = await prisma.appeal.findMany({
+    where: {
+      resolvedAt: null,
+      level: { not: AppealLevel.ADMIN },
+      appraisal: { cycle: { appealResolutionDays: { not: null } } },
+    },
+    select: {
+      id: true,
+      appraisalId: true,
+      level: true,
+      levelSince: true,
+      appraisal: {
+        select: {
+          cycle: { select: { appealResolutionDays: true } },
+          faculty: { select: { name: true, role: true, departmentId: true, department: { select: { collegeId: true } } } },
+        },
+      },
+    },
+  })
+
+  const events: EscalationEvent[] = []
+  for (const appeal of open) {
+    const sla = appeal.appraisal.cycle.appealResolutionDays! * DAY_MS
+    let level = appeal.level
+    let since = appeal.levelSince
+    const steps: { from: AppealLevel; to: AppealLevel; at: Date }[] = []
+    for (let next = NEXT_LEVEL[level]; next && since.getTime() + sla <= now.getTime(); next = NEXT_LEVEL[level]) {
+      since = new Date(since.getTime() + sla)
+      steps.push({ from: level, to: next, at: since })
+      level = next
+    }
+    if (!steps.length) continue
+
+    const applied = await prisma.$transaction(async (tx) => {
+      // الشرط على المستوى السابق يمنع تصعيداً مزدوجاً من عمليتين متزامنتين
+      const { count } = await tx.appeal.updateMany({
+        where: { id: appeal.id, level: appeal.level, resolvedAt: null },
+        data: { level, levelSince: since },
+      })
+      if (count === 0) return false
+      await tx.appealEscalation.createMany({
+        data: steps.map(s => ({
+          appealId: appeal.id,
+          fromLevel: s.from,
+          toLevel: s.to,
+          reason: `Not resolved by the ${s.from} within ${appeal.appraisal.cycle.appealResolutionDays} days`,
+          createdAt: s.at,
+        })),
+      })
+      return true
+    })
+    if (!applied) continue
+
+    for (const step of steps) {
+      events.push({ appealId: appeal.id, appraisalId: appeal.appraisalId, fromLevel: step.from, toLevel: step.to })
+      await logAudit({
+        actor: null,
+        action: 'APPEAL_ESCALATE',
+        target: { type: 'appeal', id: appeal.id },
+        before: { level: step.from },
+        after: { level: step.to },
+        metadata: { appraisalId: appeal.appraisalId, overdueSince: step.at },
+      })
+    }
+    await notifyEscalation(appeal, level)
+  }
+  return events
+}
@@ -0,0 +1,40 @@
+import type { EvaluationStatus } from '@prisma/client'
+
+/** ترتيب المراحل كما تمر بها الاستمارة (returned فرع جانبي من released) */
+export const STATUS_ORDER: EvaluationStatus[] = [
+  'new',
+  'submitted',
+  'hod_reviewed',
+  'dean_reviewed',
+  'released',
+  'complete',
+  'returned',
+]
+
+export const STATUS_LABELS: Record<EvaluationStatus, string> = {
+  new: 'New',
+  submitted: 'Submitted',
+  hod_reviewed: 'HOD Reviewed',
+  dean_reviewed: 'Dean Reviewed',
+  released: 'Scores Released',
+  complete: 'Complete',
+  returned: 'Returned',
+}
+
+export const STATUS_BADGE_CLASSES: Record<EvaluationStatus, string> = {
+  new: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-blue-100 text-blue-800',
+  hod_reviewed: 'bg-indigo-100 text-indigo-800',
+  dean_reviewed: 'bg-purple-100 text-purple-800',
+  released: 'bg-yellow-100 text-yellow-800',
+  complete: 'bg-green-100 text-green-800',
+  returned: 'bg-red-100 text-red-800',
+}
+
+export function statusLabel(status: string): string {
+  return STATUS_LABELS[status as EvaluationStatus] ?? status
+}
+
+export function statusBadgeClass(status: string): string {
+  return STATUS_BADGE_CLASSES[status as EvaluationStatus] ?? 'bg-gray-100 text-gray-800'
+}
@@ -0,0 +1,115 @@
+import type { AchievementType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { deleteFile } from '@/lib/storage'
+import { ACHIEVEMENT_LINKS, ACHIEVEMENT_TYPES } from '@/lib/evidence'
+
+/**
+ * مرفقات الإنجازات: الملف يُرفع أولاً (app/api/upload) كسجل Evidence بنوع الإنجاز دون ربط،
+ * ثم يُربط عند حفظ الإنجاز بقائمة attachmentIds. الملفات التي لم تُربط خلال ORPHAN_GRACE_HOURS
+ * (رفع أُلغي، مرفق أُزيل، إنجاز حُذف) تُحذف من التخزين بـ collectOrphanAttachments.
+ */
+
+export const ORPHAN_GRACE_HOURS = 24
+
+type Client = Prisma.TransactionClient | typeof prisma
+
+const linkedTo = (type: AchievementType, achievementId: number | null) =>
+  ({ [ACHIEVEMENT_LINKS[type]]: achievementId }) as Prisma.EvidenceWhereInput
+
+/** مرفق لم يُربط بأي إنجاز (القيد في الترحيل يمنع ربطه بغير عمود نوعه) */
+const UNLINKED: Prisma.EvidenceWhereInput = Object.fromEntries(
+  ACHIEVEMENT_TYPES.map((type) => [ACHIEVEMENT_LINKS[type], null]),
+)
+
+interface AttachmentTarget {
+  appraisalId: number
+  type: AchievementType
+  /** null عند إنشاء الإنجاز */
+  achievementId: number | null
+  evidenceIds: number[]
+}
+
+/** المرفقات يجب أن تكون من الاستمارة نفسها ونوع الإنجاز نفسه، وغير مربوطة بإنجاز آخر؛ رسالة الخطأ أو null */
+export async function checkAttachments(
+  client: Client,
+  { appraisalId, type, achievementId, evidenceIds }: AttachmentTarget,
+): Promise<string | null> {
+  const ids = [...new Set(evidenceIds)]
+  if (!ids.length) return null
+  const linkable = await client.evidence.count({
+    where: {
+      id: { in: ids },
+      appraisalId,
+      achievementType: type,
+      OR: achievementId == null ? [UNLINKED] : [UNLINKED, linkedTo(type, achievementId)],
+    },
+  })
+  return linkable === ids.length ? null : 'Some attachments were not found or belong to another achievement'
+}
+
+/** يجعل مرفقات الإنجاز هي evidenceIds بالضبط (بعد checkAttachments): يربط الجديدة ويفك ربط ما أُزيل فيصبح يتيماً */
+export async function setAttachments(
+  client: Client,
+  { type, achievementId, evidenceIds }: AttachmentTarget & { achievementId: number },
+): Promise<void> {
+  const ids = [...new Set(evidenceIds)]
+  await client.evidence.updateMany({
+    where: { ...linkedTo(type, achievementId), id: { notIn: ids } },
+    data: linkedTo(type, null) as Prisma.EvidenceUncheckedUpdateManyInput,
+  })
+  if (!ids.length) return
+  await client.evidence.updateMany({
+    where: { id: { in: ids } },
+    data: linkedTo(type, achievementId) as Prisma.EvidenceUncheckedUpdateManyInput,
+  })
+}
+
+/** attachmentIds من جسم الطلب: undefined = لا تغيير، وإلا قائمة أرقام */
+export function parseAttachmentIds(value: unknown): number[] | undefined | null {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || !value.every((id) => Number.isInteger(id) && id > 0)) return null
+  return value as number[]
+}
+
+export interface OrphanAttachment {
+  id: number
+  appraisalId: number
+  title: string
+  size: number | null
+  fileKey: string | null
+}
+
+/**
+ * يحذف المرفقات اليتيمة الأقدم من المهلة (سجلاتها ثم ملفاتها). appraisalId يقصر الجمع على استمارة
+ * (يُستدعى قبل فحص الحصة عند الرفع)؛ الجمع الكامل بـ scripts/gc-attachments.ts.
+ */
+export async function collectOrphanAttachments(
+  options: { appraisalId?: number; dryRun?: boolean } = {},
+): Promise<OrphanAttachment[]> {
+  const cutoff = new Date(Date.now() - ORPHAN_GRACE_HOURS * 60 * 60 * 1000)
+  const orphans = await prisma.evidence.findMany({
+    where: {
+      ...UNLINKED,
+      ...(options.appraisalId ? { appraisalId: options.appraisalId } : {}),
+      achievementType: { not: null },
+      createdAt: { lt: cutoff },
+    },
+    select: { id: true, appraisalId: true, title: true, size: true, fileKey: true },
+    orderBy: { id: 'asc' },
+  })
+  if (options.dryRun) return orphans
+
+  const collected: OrphanAttachment[] = []
+  for (const orphan of orphans) {
+    try {
+      // السجل أولاً وبشرط عدم الربط: قد يكون رُبط بعد القراءة، فلا يُحذف ملفه
+      const { count } = await prisma.evidence.deleteMany({ where: { id: orphan.id, ...UNLINKED } })
+      if (!count) continue
+      if (orphan.fileKey) await deleteFile(orphan.fileKey)
+      collected.push(orphan)
+    } catch (error) {
+      console.error(`Failed to collect orphan attachment #${orphan.id}:`, error)
+    }
+  }
+  return collected
+}
@@ -0,0 +1,154 @@
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@prisma/client'
+
+export type AuditAction =
+  | 'USER_CREATE'
+  | 'USER_UPDATE'
+  | 'USER_DISABLE'
+  | 'USER_DELETE'
+  | 'CYCLE_CREATE'
+  | 'CYCLE_ACTIVATE'
+  | 'CYCLE_DEACTIVATE'
+  | 'CYCLE_UPDATE'
+  | 'EVALUATION_UPDATE'
+  | 'APPRAISAL_APPROVE'
+  | 'APPEAL_CREATE'
+  | 'APPEAL_REOPEN'
+  | 'APPEAL_RESOLVE'
+  | 'APPEAL_ESCALATE'
+  | 'GRADING_UPDATE'
+  | 'SCORE_OVERRIDE'
+  | 'PLAN_UPDATE'
+  | 'PLAN_SIGN'
+  | 'PLAN_PROGRESS_UPDATE'
+  | 'PLAN_MID_YEAR_REVIEW'
+  | 'PLAN_MID_YEAR_ACKNOWLEDGE'
+  | 'APPRAISAL_SIGN'
+  | 'SIGNATURE_REVOKE'
+  | 'EMAIL_TEMPLATE_UPDATE'
+  | 'SETTINGS_UPDATE'
+  | 'APPRAISAL_FORCE_STATUS'
+  | 'IMPERSONATION_START'
+  | 'IMPERSONATION_END'
+  | 'PASSWORD_RESET_REQUEST'
+  | 'PASSWORD_RESET'
+  | 'TWO_FACTOR_ENABLE'
+  | 'TWO_FACTOR_DISABLE'
+  | 'TWO_FACTOR_RESET'
+  | 'SESSIONS_REVOKE'
+  | 'USER_UNLOCK'
+  | 'EVIDENCE_DOWNLOAD'
+  | 'ACHIEVEMENT_VERIFY'
+  | 'ACHIEVEMENT_RESPOND'
+
+export type AuditTargetType = 'user' | 'cycle' | 'appraisal' | 'evaluation' | 'appeal' | 'grading' | 'development_plan' | 'signature' | 'email_template' | 'settings' | 'evidence'
+
+type AuditActor = { id?: string | number | null; email?: string | null } | null | undefined
+
+export interface AuditInput {
+  actor: AuditActor
+  action: AuditAction
+  target: { type: AuditTargetType; id?: string | number | null }
+  before?: unknown
+  after?: unknown
+  metadata?: Record<string, unknown>
+  req?: Request
+}
+
+// حقول لا تُخزَّن في السجل أبداً
+const REDACTED_KEYS = new Set(['passwordHash', 'password', 'token'])
+// حقول تتغير مع كل تحديث ولا فائدة من مقارنتها
+const IGNORED_KEYS = new Set(['createdAt', 'updatedAt'])
+
+/** أول IP من x-forwarded-for (خلف البروكسي) وإلا x-real-ip */
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim() || null
+  return req.headers.get('x-real-ip')
+}
+
+function snapshot(value: unknown): Prisma.InputJsonValue | undefined {
+  if (value === undefined || value === null) return undefined
+  const plain = JSON.parse(JSON.stringify(value))
+  if (plain && typeof plain === 'object' && !Array.isArray(plain)) {
+    for (const key of Object.keys(plain)) {
+      if (REDACTED_KEYS.has(key)) delete plain[key]
+    }
+  }
+  return plain
+}
+
+/**
+ * Reduces two row snapshots to the fields that actually changed, so the log
+ * shows a diff rather than two full copies of the record.
+ */
+export function diffFields(before: unknown, after: unknown) {
+  const b = (snapshot(before) ?? {}) as Record<string, unknown>
+  const a = (snapshot(after) ?? {}) as Record<string, unknown>
+  const changedBefore: Record<string, unknown> = {}
+  const changedAfter: Record<string, unknown> = {}
+
+  for (const key of new Set([...Object.keys(b), ...Object.keys(a)])) {
+    if (IGNORED_KEYS.has(key)) continue
+    if (JSON.stringify(b[key]) === JSON.stringify(a[key])) continue
+    changedBefore[key] = b[key] ?? null
+    changedAfter[key] = a[key] ?? null
+  }
+
+  return { before: changedBefore, after: changedAfter }
+}
+
+/**
+ * جلسة الطلب الحالي إن كانت "عرضاً كمستخدم" (lib/impersonation.ts)، وإلا null.
+ * الاستيراد داخل الدالة لأن lib/auth يستورد lib/impersonation الذي يستورد هذا الملف؛
+ * وخارج طلب (السكربتات) يفشل getServerSession فلا يوجد مدير.
+ */
+async function impersonatedSession() {
+  try {
+    const { getServerSession } = await import('next-auth/next')
+    const { authOptions } = await import('@/lib/auth')
+    const session = await getServerSession(authOptions)
+    return session?.impersonator ? { user: session.user, impersonator: session.impersonator } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * يسجّل حدث تدقيق. لا يرمي أخطاء: فشل التسجيل يجب ألا يُفشل العملية الأصلية.
+ * أثناء "العرض كمستخدم" الفاعل هو المدير الحقيقي، والمستخدم المعروض في metadata.impersonation.
+ */
+export async function logAudit(input: AuditInput): Promise<void> {
+  const { action, target, before, after, req } = input
+
+  try {
+    const viewAs = await impersonatedSession()
+    const actor = viewAs ? viewAs.impersonator : input.actor
+    const metadata = viewAs
+      ? {
+          ...input.metadata,
+          impersonation: { id: viewAs.impersonator.impersonationId, userId: viewAs.user.id, email: viewAs.user.email },
+        }
+      : input.metadata
+    const actorId = actor?.id !== undefined && actor?.id !== null ? Number(actor.id) : null
+    const hasDiff = before !== undefined && after !== undefined
+    const diff = hasDiff ? diffFields(before, after) : null
+
+    await prisma.auditEvent.create({
+      data: {
+        actorId: Number.isFinite(actorId) ? actorId : null,
+        actorEmail: actor?.email ?? null,
+        action,
+        targetType: target.type,
+        targetId: target.id !== undefined && target.id !== null ? String(target.id) : null,
+        before: diff ? diff.before as Prisma.InputJsonValue : snapshot(before),
+        after: diff ? diff.after as Prisma.InputJsonValue : snapshot(after),
+        metadata: snapshot(metadata),
+        ip: req ? getClientIp(req) : null,
+        userAgent: req?.headers.get('user-agent') ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to write audit event:', action, error)
+  }
+}
@@ -31,30 +31,3 @@ export async function requireRole(allowedRoles: UserRole[]) {
 export async function requireAdmin() {
   return await requireRole([UserRole.ADMIN])
 }
-
-export async function requireDean() {
-  return await requireRole([UserRole.ADMIN, UserRole.DEAN])
-}
-
-export async function requireHOD() {
-  return await requireRole([UserRole.ADMIN, UserRole.DEAN, UserRole.HOD])
-}
-
-export function canManageCollege(userRole: UserRole, userCollegeId: string | null, targetCollegeId: string) {
-  if (userRole === UserRole.ADMIN) return true
-  if (userRole === UserRole.DEAN && userCollegeId === targetCollegeId) return true
-  return false
-}
-
-export function canManageMajor(
-  userRole: UserRole,
-  userCollegeId: string | null,
-  userMajorId: string | null,
-  targetCollegeId: string,
-  targetMajorId: string,
-) {
-  if (userRole === UserRole.ADMIN) return true
-  if (userRole === UserRole.DEAN && userCollegeId === targetCollegeId) return true
-  if (userRole === UserRole.HOD && userCollegeId === targetCollegeId && userMajorId === targetMajorId) return true
-  return false
-}
@@ -2,7 +2,22 @@ import type { NextAuthOptions } from "next-auth"
 import CredentialsProvider from "next-auth/providers/credentials"
 import bcrypt from "bcryptjs"
 import { prisma } from "@/lib/prisma"
+import type { User as AuthUser } from "next-auth"
 import type { UserRole } from "@prisma/client"
+import { getSettings } from "@/lib/settings"
+import { activeImpersonation } from "@/lib/impersonation"
+import { twoFactorSetupRequired, verifySecondFactor } from "@/lib/two-factor"
+import { SSO_PROVIDER_ID, resolveSsoUser, ssoProvider, type SsoError, type SsoUser } from "@/lib/sso"
+import {
+  clearFailedLogins,
+  isLocked,
+  isSessionRevoked,
+  loginContext,
+  recordLogin,
+  registerFailedLogin,
+  type LoginContext,
+  type LoginFailureReason,
+} from "@/lib/login-security"
 
 declare module "next-auth" {
   interface Session {
@@ -16,6 +31,8 @@ declare module "next-auth" {
       collegeId: string | null
       collegeName: string | null
     }
+    /** المدير الحقيقي أثناء "العرض كمستخدم"؛ user عندها هو المستخدم المعروض */
+    impersonator?: { id: string; name: string; email: string; impersonationId: number } | null
   }
 
   interface User {
@@ -27,6 +44,7 @@ declare module "next-auth" {
     departmentName: string | null
     collegeId: string | null
     collegeName: string | null
+    sessionVersion?: number
   }
 }
 
@@ -37,9 +55,63 @@ declare module "next-auth/jwt" {
     departmentName: string | null
     collegeId: string | null
     collegeName: string | null
+    /** وقت تسجيل الدخول (ثوانٍ)، لفرض مدة الجلسة من الإعدادات */
+    authTime?: number
+    /** جلسة ImpersonationSession النشطة؛ sub يبقى معرّف المدير */
+    impersonation?: { id: number; userId: string }
+    /** الدور يفرض التحقق بخطوتين ولم يُسجَّل بعد؛ middleware يحصر المستخدم في صفحة التسجيل */
+    twoFactorSetupRequired?: boolean
+    /** User.sessionVersion وقت الدخول؛ زيادته تلغي الجلسة (lib/login-security.ts) */
+    sessionVersion?: number
   }
 }
 
+// الحد الأعلى لمدة الجلسة في الإعدادات (securitySchema)؛ المدة الفعلية تُفرض في callback jwt
+const MAX_SESSION_AGE = 30 * 24 * 60 * 60
+
+const sso = ssoProvider()
+
+function toAuthUser(user: SsoUser): AuthUser {
+  return {
+    id: user.id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    departmentId: user.departmentId?.toString() ?? null,
+    departmentName: user.department?.name ?? null,
+    collegeId: user.department?.collegeId?.toString() ?? null,
+    collegeName: user.department?.college?.name ?? null,
+    sessionVersion: user.sessionVersion,
+  }
+}
+
+const SSO_FAILURE_REASONS: Record<SsoError, LoginFailureReason> = {
+  SsoEmailMissing: "sso_not_linked",
+  SsoAccountNotFound: "sso_not_linked",
+  SsoAccountDisabled: "inactive",
+  SsoAccountLocked: "locked",
+}
+
+/** الدخول عبر SSO: مطابقة الحساب وتسجيل المحاولة؛ context من طلب /api/auth عند توفره (getAuthOptions) */
+async function ssoSignIn(user: AuthUser, profile: unknown, context?: LoginContext): Promise<boolean | string> {
+  const result = await resolveSsoUser(user, profile as Parameters<typeof resolveSsoUser>[1])
+  if (!result.ok) {
+    await recordLogin({
+      email: user.email ?? "",
+      method: "sso",
+      success: false,
+      reason: SSO_FAILURE_REASONS[result.error],
+      context,
+    })
+    return `/auth/signin?error=${result.error}`
+  }
+  await clearFailedLogins(result.user.id)
+  await recordLogin({ userId: result.user.id, email: result.user.email, method: "sso", success: true, context })
+  // user هو نفس الكائن الذي يبني منه NextAuth الرمز: sub وباقي الحقول تصبح من User المطابق
+  Object.assign(user, toAuthUser(result.user))
+  return true
+}
+
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
@@ -47,12 +119,17 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: "Email", type: "email" },
         password: { label: "Password", type: "password" },
+        otp: { label: "Authentication code", type: "text" },
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
           return null
         }
 
+        const context = loginContext(req?.headers)
+        const fail = async (reason: Parameters<typeof recordLogin>[0]["reason"], userId?: number) =>
+          recordLogin({ userId, email: credentials.email, method: "credentials", success: false, reason, context })
+
         const user = await prisma.user.findUnique({
           where: {
             email: credentials.email,
@@ -63,45 +140,95 @@ export const authOptions: NextAuthOptions = {
                 college: true,
               },
             },
+            twoFactor: { select: { enabledAt: true } },
           },
         })
 
         if (!user || user.status !== "ACTIVE") {
-          console.log('User not found or not active:', credentials.email)
+          await fail(user ? "inactive" : "unknown_user", user?.id)
           return null
         }
 
+        // الحساب المقفل لا تُفحص كلمة مروره حتى انتهاء القفل
+        if (isLocked(user)) {
+          await fail("locked", user.id)
+          throw new Error("ACCOUNT_LOCKED")
+        }
+
         const isPasswordValid = await bcrypt.compare(credentials.password, user.passwordHash || "")
 
         if (!isPasswordValid) {
-          console.log('Invalid password for user:', credentials.email)
+          await fail("invalid_password", user.id)
+          if (await registerFailedLogin(user.id)) throw new Error("ACCOUNT_LOCKED")
           return null
         }
 
-        return {
-          id: user.id.toString(),
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          departmentId: user.departmentId?.toString() ?? null,
-          departmentName: user.department?.name ?? null,
-          collegeId: user.department?.collegeId?.toString() ?? null,
-          collegeName: user.department?.college?.name ?? null,
+        // وضع SSO فقط: كلمة المرور للمدير وحده حتى لا يُغلق النظام إذا تعطل مزوّد الهوية
+        const { loginMethod } = await getSettings("security")
+        if (loginMethod === "sso" && user.role !== "ADMIN") {
+          await fail("sso_required", user.id)
+          throw new Error("SSO_REQUIRED")
+        }
+
+        // الخطوة الثانية: signin-form يعرض حقل الرمز عند 2FA_REQUIRED ويعيد الإرسال مع otp
+        if (user.twoFactor?.enabledAt) {
+          if (!credentials.otp) throw new Error("2FA_REQUIRED")
+          if (!(await verifySecondFactor(user.id, credentials.otp))) {
+            await fail("invalid_2fa", user.id)
+            if (await registerFailedLogin(user.id)) throw new Error("ACCOUNT_LOCKED")
+            throw new Error("2FA_INVALID")
+          }
         }
+
+        await clearFailedLogins(user.id)
+        await recordLogin({ userId: user.id, email: user.email, method: "credentials", success: true, context })
+        return toAuthUser(user)
       },
     }),
+    ...(sso ? [sso] : []),
   ],
   session: {
     strategy: "jwt",
+    maxAge: MAX_SESSION_AGE,
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (account?.provider !== SSO_PROVIDER_ID) return true
+      return ssoSignIn(user, profile)
+    },
+    async jwt({ token, user, account, trigger, session }) {
       if (user) {
         token.role = user.role
         token.departmentId = user.departmentId
         token.departmentName = user.departmentName
         token.collegeId = user.collegeId
         token.collegeName = user.collegeName
+        token.authTime = Math.floor(Date.now() / 1000)
+        token.sessionVersion = user.sessionVersion ?? 0
+        // الدخول عبر SSO يعتمد على التحقق متعدد العوامل لدى مزوّد الهوية
+        token.twoFactorSetupRequired =
+          account?.provider !== SSO_PROVIDER_ID && (await twoFactorSetupRequired({ id: parseInt(user.id), role: user.role }))
+      }
+
+      // مدة الجلسة مطلقة من وقت الدخول؛ رمي الخطأ يجعل NextAuth يحذف الكوكي ويعيد جلسة فارغة
+      const { sessionLifetime } = await getSettings("security")
+      const authTime = token.authTime ?? token.iat
+      if (typeof authTime === "number" && Date.now() / 1000 - authTime > sessionLifetime * 60) {
+        throw new Error("Session expired")
+      }
+
+      // بدء/إنهاء العرض كمستخدم: العميل يرسل معرّف الجلسة عبر update() بعد /api/admin/impersonation
+      // صفحة /auth/two-factor تستدعي update() بعد التسجيل لرفع القيد
+      if (trigger === "update" && token.twoFactorSetupRequired && token.sub) {
+        token.twoFactorSetupRequired = await twoFactorSetupRequired({ id: parseInt(token.sub), role: token.role })
+      }
+      if (trigger === "update" && session && typeof session === "object" && "impersonationId" in session) {
+        const id = Number(session.impersonationId)
+        token.impersonation = session.impersonationId && Number.isInteger(id) ? { id, userId: "" } : undefined
+      }
+      if (token.impersonation && token.sub) {
+        const active = await activeImpersonation(token.impersonation.id, parseInt(token.sub))
+        token.impersonation = active ? { id: active.id, userId: String(active.targetId) } : undefined
       }
       return token
     },
@@ -109,10 +236,16 @@ export const authOptions: NextAuthOptions = {
        console.log("Session callback - token:", token)
        console.log("Session callback - token.sub:", token?.sub)
 
+       // جلسة ملغاة (إلغاء من المدير، تعطيل، تغيير كلمة المرور): الخطأ يجعل NextAuth يحذف الكوكي ويعيد جلسة فارغة
+       if (token?.sub && (await isSessionRevoked(parseInt(token.sub), token.sessionVersion))) {
+         throw new Error("Session revoked")
+       }
+
        if (token?.sub) {
          try {
+           const userId = token.impersonation?.userId || token.sub
            const user = await prisma.user.findUnique({
-             where: { id: parseInt(token.sub) },
+             where: { id: parseInt(userId) },
              include: {
                department: {
                  include: {
@@ -134,6 +267,10 @@ export const authOptions: NextAuthOptions = {
              session.user.collegeId = user.department?.collegeId?.toString() ?? null;
              session.user.collegeName = user.department?.college?.name ?? null;
 
+             session.impersonator = token.impersonation
+               ? { id: token.sub, name: token.name ?? "", email: token.email ?? "", impersonationId: token.impersonation.id }
+               : null
+
              console.log("Session callback - set user id:", session.user.id)
            } else {
              console.log("Session callback - user not found for id:", token.sub)
@@ -158,5 +295,28 @@ export const authOptions: NextAuthOptions = {
   },
   pages: {
     signIn: "/auth/signin",
+    error: "/auth/signin",
   },
 }
+
+/** خيارات NextAuth لمعالج /api/auth: عمر الكوكي ومزوّدات الدخول تتبع الإعدادات، وreq لسجل الدخول */
+export async function getAuthOptions(req?: Request): Promise<NextAuthOptions> {
+  const { sessionLifetime, loginMethod } = await getSettings("security")
+  // مزوّد SSO يُخفى في وضع "كلمة المرور فقط" فيرفض NextAuth أي دخول عبره
+  const providers = loginMethod === "credentials"
+    ? authOptions.providers.filter((provider) => provider.id !== SSO_PROVIDER_ID)
+    : authOptions.providers
+  return {
+    ...authOptions,
+    providers,
+    session: { ...authOptions.session, maxAge: sessionLifetime * 60 },
+    callbacks: {
+      ...authOptions.callbacks,
+      // callbacks لا تستقبل الطلب؛ IP والمتصفح لسجل دخول SSO من طلب /api/auth نفسه
+      async signIn({ user, account, profile }) {
+        if (account?.provider !== SSO_PROVIDER_ID) return true
+        return ssoSignIn(user, profile, req ? loginContext(req.headers) : undefined)
+      },
+    },
+  }
+}
@@ -0,0 +1,241 @@
+import { prisma } from '@/lib/prisma'
+import { DevelopmentItemProgress, EvaluationRole, Prisma, UserRole } from '@prisma/client'
+import type { WorkflowActor, WorkflowAppraisal } from '@/lib/workflow'
+
+/**
+ * Section 3: خطة التطوير الذاتي. الخطة مرتبطة بالاستمارة، والتوقيعات تُنشأ من الجلسة فقط.
+ * بنود الخطة السابقة تُراجع (progress) في استمارة الدورة التالية، وغير المنجز منها يُنقل للخطة الجديدة.
+ * خلال الدورة نفسها توجد مراجعة نصفية في AppraisalCycle.midYearReviewDate (midYearProgress + biAnnualComments).
+ */
+
+export const planInclude = {
+  items: { orderBy: { position: 'asc' } },
+  signatures: { include: { signer: { select: { id: true, name: true } } } },
+  midYearReviewedBy: { select: { id: true, name: true } },
+} satisfies Prisma.DevelopmentPlanInclude
+
+export type PlanWithDetails = Prisma.DevelopmentPlanGetPayload<{ include: typeof planInclude }>
+
+export interface PlanItemInput {
+  id?: number
+  developmentArea: string
+  linkToGoals: string
+  activities: string
+  expectedResults: string
+  timeframe: string
+  carriedFromItemId?: number | null
+}
+
+// biAnnualComments تُكتب من المراجعة النصفية فقط
+export interface PlanInput {
+  items: PlanItemInput[]
+  annualComments: string
+}
+
+export interface PlanPermissions {
+  canView: boolean
+  canEdit: boolean
+  /** الأدوار التي يمكن للمستخدم التوقيع بها على هذه الخطة */
+  canSignAs: EvaluationRole[]
+}
+
+export function planPermissions(appraisal: WorkflowAppraisal, actors: WorkflowActor[]): PlanPermissions {
+  const isAdmin = actors.includes('ADMIN')
+  // رئيس القسم لا يوقّع على خطته بنفسه: خطط رؤساء الأقسام يوقّعها العميد فقط
+  const hodSignApplies = appraisal.faculty.role !== UserRole.HOD
+  const canSignAs: EvaluationRole[] = []
+  if (hodSignApplies && (actors.includes('HOD') || isAdmin)) canSignAs.push(EvaluationRole.HOD)
+  if (actors.includes('DEAN') || isAdmin) canSignAs.push(EvaluationRole.DEAN)
+
+  const canEdit = actors.includes('HOD') || actors.includes('DEAN') || isAdmin
+  return { canView: canEdit || actors.includes('FACULTY'), canEdit, canSignAs }
+}
+
+/** آخر خطة لنفس عضو هيئة التدريس في دورة سابقة */
+export async function findPreviousPlan(appraisal: Pick<WorkflowAppraisal, 'id' | 'facultyId' | 'cycleId'>) {
+  const cycle = await prisma.appraisalCycle.findUnique({ where: { id: appraisal.cycleId }, select: { startDate: true } })
+  if (!cycle) return null
+  return prisma.developmentPlan.findFirst({
+    where: {
+      appraisal: {
+        facultyId: appraisal.facultyId,
+        id: { not: appraisal.id },
+        cycle: { startDate: { lt: cycle.startDate } },
+      },
+    },
+    orderBy: { appraisal: { cycle: { startDate: 'desc' } } },
+    include: { ...planInclude, appraisal: { select: { id: true, cycle: { select: { academicYear: true } } } } },
+  })
+}
+
+const CONTENT_FIELDS = ['developmentArea', 'linkToGoals', 'activities', 'expectedResults', 'timeframe'] as const
+
+function contentChanged(existing: PlanWithDetails | null, input: PlanInput): boolean {
+  if (!existing) return true
+  if ((existing.annualComments ?? '') !== input.annualComments) return true
+  if (existing.items.length !== input.items.length) return true
+  return input.items.some((item, i) => {
+    const prev = existing.items[i]
+    return prev.id !== item.id || CONTENT_FIELDS.some(f => prev[f] !== item[f])
+  })
+}
+
+export type SavePlanResult =
+  | { ok: true; before: PlanWithDetails | null; plan: PlanWithDetails; signaturesCleared: boolean }
+  | { ok: false; status: number; error: string }
+
+/** يحفظ محتوى الخطة؛ أي تعديل على المحتوى يُلغي التوقيعات السابقة */
+export async function savePlan(appraisal: WorkflowAppraisal, input: PlanInput): Promise<SavePlanResult> {
+  const before = await prisma.developmentPlan.findUnique({ where: { appraisalId: appraisal.id }, include: planInclude })
+
+  const ownIds = new Set(before?.items.map(i => i.id) ?? [])
+  const foreign = input.items.find(i => i.id !== undefined && !ownIds.has(i.id))
+  if (foreign) return { ok: false, status: 400, error: `Item ${foreign.id} does not belong to this plan` }
+
+  // النقل مسموح فقط من خطة الدورة السابقة لنفس الشخص
+  const previous = await findPreviousPlan(appraisal)
+  const previousIds = new Set(previous?.items.map(i => i.id) ?? [])
+  const badCarry = input.items.find(i => i.carriedFromItemId != null && !previousIds.has(i.carriedFromItemId))
+  if (badCarry) return { ok: false, status: 400, error: 'Carried-over items must come from the previous cycle plan' }
+
+  const changed = contentChanged(before, input)
+
+  const plan = await prisma.$transaction(async (tx) => {
+    const saved = await tx.developmentPlan.upsert({
+      where: { appraisalId: appraisal.id },
+      update: { annualComments: input.annualComments },
+      create: {
+        appraisalId: appraisal.id,
+        annualComments: input.annualComments,
+        carriedFromId: previous?.id ?? null,
+      },
+    })
+
+    const keep = input.items.filter(i => i.id !== undefined).map(i => i.id as number)
+    await tx.developmentPlanItem.deleteMany({ where: { planId: saved.id, id: { notIn: keep } } })
+
+    for (const [position, item] of input.items.entries()) {
+      const data = {
+        position,
+        developmentArea: item.developmentArea,
+        linkToGoals: item.linkToGoals,
+        activities: item.activities,
+        expectedResults: item.expectedResults,
+        timeframe: item.timeframe,
+      }
+      if (item.id !== undefined) {
+        await tx.developmentPlanItem.update({ where: { id: item.id }, data })
+      } else {
+        await tx.developmentPlanItem.create({
+          data: { ...data, planId: saved.id, carriedFromItemId: item.carriedFromItemId ?? null },
+        })
+      }
+    }
+
+    if (changed && before?.signatures.length) {
+      await tx.developmentPlanSignature.deleteMany({ where: { planId: saved.id } })
+    }
+
+    return tx.developmentPlan.findUniqueOrThrow({ where: { id: saved.id }, include: planInclude })
+  })
+
+  return { ok: true, before, plan, signaturesCleared: changed && !!before?.signatures.length }
+}
+
+// ===================== المراجعة النصفية =====================
+
+export type MidYearStatus =
+  | 'NOT_SCHEDULED'            // لا يوجد موعد في الدورة
+  | 'UPCOMING'                 // الموعد لم يحن بعد
+  | 'OVERDUE'                  // حان الموعد ولم تُسجل المراجعة
+  | 'AWAITING_ACKNOWLEDGEMENT' // سُجلت وتنتظر تأكيد عضو هيئة التدريس
+  | 'ACKNOWLEDGED'
+
+type MidYearPlan = Pick<PlanWithDetails, 'midYearReviewedAt' | 'midYearAcknowledgedAt'> | null
+
+export function midYearStatus(reviewDate: Date | null, plan: MidYearPlan, now = new Date()): MidYearStatus {
+  if (plan?.midYearAcknowledgedAt) return 'ACKNOWLEDGED'
+  if (plan?.midYearReviewedAt) return 'AWAITING_ACKNOWLEDGEMENT'
+  if (!reviewDate) return 'NOT_SCHEDULED'
+  return reviewDate <= now ? 'OVERDUE' : 'UPCOMING'
+}
+
+/** موعد المراجعة النصفية يجب أن يقع داخل الدورة */
+export function validateMidYearDate(date: Date | null, startDate: Date, endDate: Date): string | null {
+  if (!date) return null
+  if (Number.isNaN(date.getTime())) return 'Invalid mid-year review date'
+  if (date <= startDate || date >= endDate) return 'Mid-year review date must fall between the cycle start and end dates'
+  return null
+}
+
+export interface MidYearInput {
+  items: { id: number; progress: DevelopmentItemProgress; note?: string | null }[]
+  biAnnualComments: string
+}
+
+export type MidYearResult =
+  | { ok: true; before: PlanWithDetails; plan: PlanWithDetails }
+  | { ok: false; status: number; error: string }
+
+/** يسجّل المراجعة النصفية؛ إعادة التسجيل تلغي تأكيد الاطلاع السابق */
+export async function recordMidYearReview(
+  appraisal: WorkflowAppraisal,
+  input: MidYearInput,
+  actorId: number,
+): Promise<MidYearResult> {
+  const cycle = await prisma.appraisalCycle.findUnique({
+    where: { id: appraisal.cycleId },
+    select: { midYearReviewDate: true },
+  })
+  if (!cycle?.midYearReviewDate) return { ok: false, status: 409, error: 'No mid-year review is scheduled for this cycle' }
+  if (cycle.midYearReviewDate > new Date()) {
+    return { ok: false, status: 409, error: `The mid-year review opens on ${cycle.midYearReviewDate.toDateString()}` }
+  }
+
+  const before = await prisma.developmentPlan.findUnique({ where: { appraisalId: appraisal.id }, include: planInclude })
+  if (!before) return { ok: false, status: 409, error: 'Save the development plan before recording its mid-year review' }
+
+  const ownIds = new Set(before.items.map(i => i.id))
+  const foreign = input.items.find(i => !ownIds.has(i.id))
+  if (foreign) return { ok: false, status: 400, error: `Item ${foreign.id} does not belong to this plan` }
+  const missing = before.items.find(i => !input.items.some(x => x.id === i.id))
+  if (missing) return { ok: false, status: 400, error: 'Record progress for every plan item' }
+
+  const plan = await prisma.$transaction(async (tx) => {
+    for (const item of input.items) {
+      await tx.developmentPlanItem.update({
+        where: { id: item.id },
+        data: { midYearProgress: item.progress, midYearNote: item.note?.trim() || null },
+      })
+    }
+    return tx.developmentPlan.update({
+      where: { id: before.id },
+      data: {
+        biAnnualComments: input.biAnnualComments,
+        midYearReviewedAt: new Date(),
+        midYearReviewedById: actorId,
+        midYearAcknowledgedAt: null,
+      },
+      include: planInclude,
+    })
+  })
+
+  return { ok: true, before, plan }
+}
+
+/** قائمة المراجعات النصفية المتأخرة (للوحة رئيس القسم) ضمن الدورات الجارية */
+export async function findOverdueMidYearReviews(faculty: Prisma.UserWhereInput, now = new Date()) {
+  return prisma.appraisal.findMany({
+    where: {
+      faculty,
+      cycle: { midYearReviewDate: { lte: now }, endDate: { gte: now } },
+      OR: [{ developmentPlan: null }, { developmentPlan: { midYearReviewedAt: null } }],
+    },
+    select: {
+      id: true,
+      faculty: { select: { id: true, name: true, email: true } },
+      cycle: { select: { academicYear: true, midYearReviewDate: true } },
+    },
+    orderBy: { cycle: { midYearReviewDate: 'asc' } },
+  })
+}
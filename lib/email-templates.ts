@@ -0,0 +1,146 @@
+import { prisma } from '@/lib/prisma'
+import { AppealLevel, UserRole } from '@prisma/client'
+import { appUrl, sendEmail } from '@/lib/email'
+import { appealsLink, levelUsers, resultsLink, type Recipient } from '@/lib/notifications'
+import type { WorkflowAction, WorkflowAppraisal } from '@/lib/workflow'
+
+/**
+ * قوالب البريد: نص عادي مع متغيرات {placeholder}. القيم الافتراضية هنا، والتعديلات محفوظة في EmailTemplate.
+ * الإرسال مرتبط بانتقالات الحالة (lib/workflow.ts) مثل الإشعارات، وفشله لا يُفشل العملية الأصلية.
+ */
+
+export const EMAIL_TEMPLATE_KEYS = ['scoresSent', 'appealReceived', 'approvalConfirmation'] as const
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number]
+
+export interface EmailTemplateContent {
+  subject: string
+  body: string
+}
+
+interface TemplateDefinition extends EmailTemplateContent {
+  label: string
+  placeholders: string[]
+}
+
+export const TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, TemplateDefinition> = {
+  scoresSent: {
+    label: 'Scores Sent',
+    placeholders: ['faculty_name', 'total_score', 'appraisal_id', 'results_url'],
+    subject: 'Your appraisal scores have been released',
+    body: 'Dear {faculty_name},\n\nYour appraisal scores have been sent. Total: {total_score}\n\nReview them at {results_url}\n\nBest regards,\nAdmin',
+  },
+  appealReceived: {
+    label: 'Appeal Received',
+    placeholders: ['evaluator_name', 'faculty_name', 'appraisal_id', 'appeal_message', 'appeals_url'],
+    subject: 'New appeal from {faculty_name}',
+    body: 'Dear {evaluator_name},\n\nAn appeal has been submitted for appraisal {appraisal_id}.\n\nMessage: {appeal_message}\n\nPlease review: {appeals_url}\n\nBest regards,\nSystem',
+  },
+  approvalConfirmation: {
+    label: 'Approval Confirmation',
+    placeholders: ['faculty_name', 'appraisal_id', 'total_score'],
+    subject: 'Your appraisal has been approved',
+    body: 'Dear {faculty_name},\n\nYour appraisal has been approved.\n\nBest regards,\nAdmin',
+  },
+}
+
+export function isTemplateKey(key: string): key is EmailTemplateKey {
+  return (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(key)
+}
+
+/** يستبدل {name} بقيمته؛ المتغيرات غير المعروفة تبقى كما هي ليظهر الخطأ في القالب */
+export function renderTemplate(text: string, vars: Record<string, string | number | null | undefined>): string {
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = vars[name]
+    return value === undefined || value === null ? match : String(value)
+  })
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+function textToHtml(text: string): string {
+  const escaped = text.replace(/[&<>"']/g, c => HTML_ESCAPES[c])
+  return `<div style="font-family: sans-serif; line-height: 1.6">${escaped.replace(/\n/g, '<br>')}</div>`
+}
+
+/** القوالب الحالية: المحفوظة إن وُجدت وإلا الافتراضية */
+export async function getEmailTemplates(): Promise<Record<EmailTemplateKey, EmailTemplateContent>> {
+  const stored = await prisma.emailTemplate.findMany()
+  const byKey = new Map(stored.map(t => [t.key, t]))
+  return Object.fromEntries(
+    EMAIL_TEMPLATE_KEYS.map(key => {
+      const row = byKey.get(key)
+      const { subject, body } = row ?? TEMPLATE_DEFINITIONS[key]
+      return [key, { subject, body }]
+    }),
+  ) as Record<EmailTemplateKey, EmailTemplateContent>
+}
+
+export async function saveEmailTemplates(templates: Partial<Record<EmailTemplateKey, EmailTemplateContent>>) {
+  await prisma.$transaction(
+    Object.entries(templates).map(([key, { subject, body }]) =>
+      prisma.emailTemplate.upsert({ where: { key }, update: { subject, body }, create: { key, subject, body } }),
+    ),
+  )
+  return getEmailTemplates()
+}
+
+/** يرسل القالب لكل مستلم بمتغيراته الخاصة (مثل evaluator_name) */
+async function sendTemplate(
+  key: EmailTemplateKey,
+  recipients: Recipient[],
+  vars: (recipient: Recipient) => Record<string, string | number | null | undefined>,
+): Promise<void> {
+  if (!recipients.length) return
+  const template = (await getEmailTemplates())[key]
+  for (const recipient of recipients) {
+    const values = vars(recipient)
+    const text = renderTemplate(template.body, values)
+    try {
+      await sendEmail({
+        to: recipient.email,
+        subject: renderTemplate(template.subject, values),
+        text,
+        html: textToHtml(text),
+        template: key,
+      })
+    } catch (error) {
+      console.error('Failed to send email:', key, recipient.email, error)
+    }
+  }
+}
+
+/** بريد الأحداث: إرسال الدرجات، التظلّم، والموافقة */
+export async function emailTransition(appraisal: WorkflowAppraisal, action: WorkflowAction): Promise<void> {
+  const { faculty } = appraisal
+  const common = {
+    faculty_name: faculty.name,
+    appraisal_id: appraisal.id,
+    total_score: appraisal.totalScore != null ? appraisal.totalScore.toFixed(2) : '—',
+  }
+
+  try {
+    switch (action) {
+      case 'send_scores':
+        return await sendTemplate('scoresSent', [faculty], () => ({
+          ...common,
+          results_url: appUrl(resultsLink(faculty.role)),
+        }))
+      case 'appeal': {
+        const [appeal] = appraisal.appeals
+        const level = appeal?.level ?? (faculty.role === UserRole.HOD ? AppealLevel.DEAN : AppealLevel.HOD)
+        return await sendTemplate('appealReceived', await levelUsers(faculty, level), (evaluator) => ({
+          ...common,
+          evaluator_name: evaluator.name,
+          appeal_message: appeal?.message ?? '',
+          appeals_url: appUrl(appealsLink(level)),
+        }))
+      }
+      case 'approve':
+        return await sendTemplate('approvalConfirmation', [faculty], () => common)
+      default:
+        return
+    }
+  } catch (error) {
+    console.error('Failed to send workflow email:', action, error)
+  }
+}
@@ -1,22 +1,168 @@
 import { Resend } from 'resend'
+import nodemailer from 'nodemailer'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { getSettings } from '@/lib/settings'
+
+/**
+ * إرسال البريد عبر ناقل قابل للتبديل (EMAIL_TRANSPORT):
+ *   resend — Resend API (RESEND_API_KEY)
+ *   smtp   — خادم SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ *   outbox — جدول EmailOutbox في قاعدة البيانات، للاختبارات والتشغيل دون اتصال
+ *   file   — ملف JSON لكل رسالة في EMAIL_OUTBOX_DIR (الافتراضي .outbox)
+ * بدون EMAIL_TRANSPORT: resend إذا وُجد المفتاح، ثم smtp إذا وُجد الخادم، وإلا outbox.
+ * المرسل من إعدادات النظام (email.fromAddress/fromName)، وإلا FROM_EMAIL.
+ */
+
+export type EmailTransportName = 'resend' | 'smtp' | 'outbox' | 'file'
+
+export interface EmailMessage {
+  to: string | string[]
+  subject: string
+  text: string
+  html?: string
+  /** مفتاح القالب المستخدم (يُحفظ في outbox للتتبع) */
+  template?: string
+}
+
+export interface SendEmailResult {
+  transport: EmailTransportName
+  id: string | null
+}
+
+interface EmailTransport {
+  name: EmailTransportName
+  send(message: EmailMessage & { from: string; to: string[] }): Promise<string | null>
+}
+
+const TRANSPORTS: EmailTransportName[] = ['resend', 'smtp', 'outbox', 'file']
+
+export function emailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT as EmailTransportName | undefined
+  if (configured && TRANSPORTS.includes(configured)) return configured
+  if (process.env.RESEND_API_KEY) return 'resend'
+  if (process.env.SMTP_HOST) return 'smtp'
+  return 'outbox'
+}
+
+function createTransport(name: EmailTransportName): EmailTransport {
+  switch (name) {
+    case 'resend': {
+      const resend = new Resend(process.env.RESEND_API_KEY)
+      return {
+        name,
+        async send(message) {
+          const result = await resend.emails.send({
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            ...(message.html ? { html: message.html } : {}),
+          })
+          if (result.error) throw new Error(result.error.message)
+          return result.data?.id ?? null
+        },
+      }
+    }
+    case 'smtp': {
+      const transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST!,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD ?? '' } : undefined,
+      })
+      return {
+        name,
+        async send(message) {
+          const info = await transporter.sendMail({
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            text: message.text,
+            html: message.html,
+          })
+          return info.messageId
+        },
+      }
+    }
+    case 'file': {
+      const dir = path.resolve(process.env.EMAIL_OUTBOX_DIR || '.outbox')
+      return {
+        name,
+        async send(message) {
+          const id = `${Date.now()}-${randomUUID()}`
+          await fs.mkdir(dir, { recursive: true })
+          await fs.writeFile(
+            path.join(dir, `${id}.json`),
+            JSON.stringify({ ...message, createdAt: new Date().toISOString() }, null, 2),
+          )
+          return id
+        },
+      }
+    }
+    case 'outbox':
+      return {
+        name,
+        async send(message) {
+          const row = await prisma.emailOutbox.create({
+            data: {
+              to: message.to,
+              from: message.from,
+              subject: message.subject,
+              text: message.text,
+              html: message.html ?? null,
+              template: message.template ?? null,
+            },
+          })
+          return String(row.id)
+        },
+      }
+  }
+}
+
+let transport: EmailTransport | null = null
+
+async function senderAddress(): Promise<string> {
+  const { fromName, fromAddress } = await getSettings('email')
+  const address = fromAddress || process.env.FROM_EMAIL || 'onboarding@resend.dev'
+  return fromName && !address.includes('<') ? `"${fromName.replace(/"/g, '')}" <${address}>` : address
+}
+
+/** يرسل الرسالة عبر الناقل المُعد؛ يرمي خطأ عند الفشل ويترك قرار التجاهل للمستدعي */
+export async function sendEmail(message: EmailMessage): Promise<SendEmailResult> {
+  const name = emailTransportName()
+  if (!transport || transport.name !== name) transport = createTransport(name)
+
+  const to = Array.isArray(message.to) ? message.to : [message.to]
+  const id = await transport.send({ ...message, to, from: await senderAddress() })
+  return { transport: name, id }
+}
+
+/** رابط مطلق داخل التطبيق للاستخدام في رسائل البريد */
+export function appUrl(pathname: string): string {
+  const base = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return new URL(pathname, base).toString()
+}
 
 interface PasswordResetEmailData {
   to: string
   name: string
-  resetToken: string
   resetUrl: string
+  /** مدة صلاحية الرابط كنص، مثل "1 hour" */
+  expiresIn: string
 }
 
-const resend = new Resend(process.env.RESEND_API_KEY)
-
 export async function sendPasswordResetEmail(data: PasswordResetEmailData): Promise<void> {
-  const { to, name, resetUrl } = data
+  const { to, name, resetUrl, expiresIn } = data
 
   try {
-    const result = await resend.emails.send({
-      from: process.env.FROM_EMAIL || 'onboarding@resend.dev',
-      to: [to],
+    const result = await sendEmail({
+      to,
       subject: 'Password Reset - Faculty Appraisal System',
+      text: `Dear ${name},\n\nReset your Faculty Appraisal System password here: ${resetUrl}\n\nThis link will expire in ${expiresIn} and can only be used once. If you didn't request this, ignore this email.`,
+      template: 'passwordReset',
       html: `
         <!DOCTYPE html>
         <html>
@@ -79,13 +225,13 @@ export async function sendPasswordResetEmail(data: PasswordResetEmailData): Prom
                 <a href="${resetUrl}" class="button">Reset Password</a>
               </div>
               
-              <p><strong>This link will expire in 24 hours.</strong></p>
+              <p><strong>This link will expire in ${expiresIn} and can only be used once.</strong></p>
               
               <p>If you didn't request this password reset, please ignore this email and your password will remain unchanged.</p>
               
               <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
               
-              <p><small>For security reasons, this link will expire after 24 hours. If you need to reset your password after this time, please make a new request.</small></p>
+              <p><small>For security reasons, this link will expire after ${expiresIn}. If you need to reset your password after this time, please make a new request.</small></p>
             </div>
             <div class="footer">
               <p>Best regards,<br>Faculty Appraisal System Team</p>
@@ -95,12 +241,12 @@ export async function sendPasswordResetEmail(data: PasswordResetEmailData): Prom
       `,
     })
 
-    console.log('Password reset email sent successfully:', result.data?.id)
+    console.log('Password reset email sent successfully:', result.transport, result.id)
   } catch (error) {
     console.error('Failed to send password reset email:', error)
     throw new Error('Failed to send password reset email')
   }
 }
 
-// Check if email is configured
-export const isEmailConfigured = !!process.env.RESEND_API_KEY
\ No newline at end of file
+// Check if email is configured (outbox/file only store messages, they don't deliver them)
+export const isEmailConfigured = ['resend', 'smtp'].includes(emailTransportName())
\ No newline at end of file
@@ -1,6 +1,20 @@
 import { prisma } from '@/lib/prisma'
+import { EvaluationRole, UserRole } from '@prisma/client'
+import { can, toPolicyUser, type PolicyUser } from '@/lib/policy'
+import { policyUserSelect } from '@/lib/permissions'
+
+/** دور التقييم الذي يكتبه المقيّم: العميد → DEAN، رئيس القسم → HOD، والمدير حسب صاحب الاستمارة */
+function evaluatorRoleFor(actor: PolicyUser, faculty: PolicyUser): EvaluationRole {
+  if (actor.role === UserRole.DEAN) return EvaluationRole.DEAN
+  if (actor.role === UserRole.HOD) return EvaluationRole.HOD
+  return faculty.role === UserRole.HOD ? EvaluationRole.DEAN : EvaluationRole.HOD
+}
+
+/** إدخال درجات التقييم: قاعدة appraisal.evaluate في lib/policy.ts */
+export async function assertEvaluatorAccess(appraisalId: number, user: { id: string | number }) {
+  const me = await prisma.user.findUnique({ where: { id: Number(user.id) }, select: policyUserSelect })
+  if (!me) return { ok: false as const, status: 401 as const, error: 'Unauthorized' }
 
-export async function assertEvaluatorAccess(appraisalId: number, user: any) {
   const appraisal = await prisma.appraisal.findUnique({
     where: { id: appraisalId },
     include: {
@@ -8,25 +22,12 @@ export async function assertEvaluatorAccess(appraisalId: number, user: any) {
       cycle: true,
     },
   })
-  if (!appraisal) return { ok: false as const }
-
-  const facultyRole = appraisal.faculty.role
-  const facultyDeptId = appraisal.faculty.departmentId
-  const facultyCollegeId = appraisal.faculty.department?.collegeId ?? null
+  if (!appraisal) return { ok: false as const, status: 404 as const, error: 'Not found' }
 
-  if (user.role === 'HOD') {
-    const sameDept = user.departmentId === facultyDeptId
-    const targetIsInstructor = facultyRole === 'INSTRUCTOR'
-    const notSelf = appraisal.facultyId !== user.id
-    if (sameDept && targetIsInstructor && notSelf) {
-      return { ok: true as const, appraisal, evaluatorRole: 'HOD' as const }
-    }
-  } else if (user.role === 'DEAN') {
-    const managesCollege = user.managedCollegeId && user.managedCollegeId === facultyCollegeId
-    const targetIsHod = facultyRole === 'HOD'
-    if (managesCollege && targetIsHod) {
-      return { ok: true as const, appraisal, evaluatorRole: 'DEAN' as const }
-    }
+  const actor = toPolicyUser(me)
+  const faculty = toPolicyUser(appraisal.faculty)
+  if (!can(actor, 'evaluate', 'appraisal', faculty)) {
+    return { ok: false as const, status: 403 as const, error: 'Forbidden' }
   }
-  return { ok: false as const }
+  return { ok: true as const, appraisal, actor, evaluatorRole: evaluatorRoleFor(actor, faculty) }
 }
@@ -0,0 +1,104 @@
+import type { AchievementType, EvidenceScanStatus } from '@prisma/client'
+
+/**
+ * روابط ملفات الأدلة: الملفات لا تُعرض بروابط التخزين المباشرة، بل عبر app/api/evidence/[id]/download
+ * الذي يتحقق من صلاحية قراءة الاستمارة ويسجّل كل تنزيل.
+ * مرفقات الإنجازات سجلات Evidence مربوطة بالإنجاز (lib/attachments.ts).
+ */
+
+export function evidenceDownloadUrl(evidenceId: number): string {
+  return `/api/evidence/${evidenceId}/download`
+}
+
+export const ACHIEVEMENT_TYPES: AchievementType[] = ['awards', 'research', 'scientific', 'university', 'community']
+
+export function isAchievementType(value: unknown): value is AchievementType {
+  return ACHIEVEMENT_TYPES.includes(value as AchievementType)
+}
+
+// Evidence.achievementType ← اسم علاقة الإنجازات في Appraisal
+export const ACHIEVEMENT_RELATIONS = {
+  awards: 'awards',
+  research: 'researchActivities',
+  scientific: 'scientificActivities',
+  university: 'universityServices',
+  community: 'communityServices',
+} as const satisfies Record<AchievementType, string>
+
+// Evidence.achievementType ← عمود الربط بالإنجاز في Evidence
+export const ACHIEVEMENT_LINKS = {
+  awards: 'awardId',
+  research: 'researchActivityId',
+  scientific: 'scientificActivityId',
+  university: 'universityServiceId',
+  community: 'communityServiceId',
+} as const satisfies Record<AchievementType, string>
+
+/** لتضمين المرفقات مع الإنجازات: awards: WITH_ATTACHMENTS */
+export const WITH_ATTACHMENTS = { include: { attachments: { orderBy: { createdAt: 'asc' } } } } as const
+
+type AchievementRelation = (typeof ACHIEVEMENT_RELATIONS)[AchievementType]
+
+interface EvidenceFile {
+  id: number
+  title: string
+  url: string | null
+  fileKey: string | null
+  contentType: string | null
+  size: number | null
+  scanStatus: EvidenceScanStatus
+  createdAt: Date
+}
+
+/** المرفق كما يصل للواجهات */
+export interface EvidenceAttachment {
+  id: number
+  title: string
+  url: string
+  contentType: string | null
+  size: number | null
+  scanStatus: EvidenceScanStatus
+  createdAt: Date | string
+}
+
+export function toAttachment(evidence: EvidenceFile): EvidenceAttachment {
+  return {
+    id: evidence.id,
+    title: evidence.title,
+    url: evidenceDownloadUrl(evidence.id),
+    contentType: evidence.contentType,
+    size: evidence.size,
+    scanStatus: evidence.scanStatus,
+    createdAt: evidence.createdAt,
+  }
+}
+
+type WithAttachments = { attachments: EvidenceFile[] }
+type WithEvidence = { evidences: EvidenceFile[] } & Partial<Record<AchievementRelation, WithAttachments[]>>
+
+type Linked<T> = {
+  [K in keyof T]: K extends 'evidences'
+    ? T[K]
+    : T[K] extends (infer Item)[]
+      ? Item extends WithAttachments
+        ? (Omit<Item, 'attachments'> & { attachments: EvidenceAttachment[] })[]
+        : T[K]
+      : T[K]
+}
+
+/** يستبدل روابط الملفات في الاستمارة (الأدلة ومرفقات الإنجازات) برابط التنزيل المحمي ويخفي مفاتيح التخزين */
+export function withEvidenceLinks<T extends WithEvidence>(appraisal: T): Linked<T> {
+  const result: Record<string, unknown> = {
+    ...appraisal,
+    evidences: appraisal.evidences.map((evidence) => ({ ...evidence, url: evidenceDownloadUrl(evidence.id), fileKey: null })),
+  }
+  for (const relation of Object.values(ACHIEVEMENT_RELATIONS)) {
+    const items = appraisal[relation]
+    if (items) result[relation] = items.map(withAttachmentLinks)
+  }
+  return result as Linked<T>
+}
+
+export function withAttachmentLinks<T extends WithAttachments>(item: T): Omit<T, 'attachments'> & { attachments: EvidenceAttachment[] } {
+  return { ...item, attachments: item.attachments.map(toAttachment) }
+}
@@ -0,0 +1,217 @@
+import { prisma } from '@/lib/prisma'
+import type { GradingConfig, ResearchKind, VerificationStatus } from '@prisma/client'
+import type { UiBand } from '@/lib/rating'
+import { countsTowardScore } from '@/lib/verification-status'
+
+/**
+ * محرك الدرجات: كل الحسابات (Section 1) تقرأ GradingConfig الفعّال للدورة
+ * بدل الثوابت المكتوبة في الكود. الأولوية: إعداد الدورة ← الإعداد العام ← القيم الافتراضية.
+ */
+
+export type Criterion = 'research' | 'universityService' | 'communityService' | 'teaching'
+
+export interface TeachingBand {
+  min: number
+  band: UiBand
+  /** نقاط صريحة؛ إن غابت تُحسب من وزن التدريس */
+  points?: number
+}
+
+export interface EffectiveGrading {
+  id: number | null
+  scope: 'GLOBAL' | 'CYCLE' | 'DEFAULT'
+  cycleId: number | null
+  weights: Record<Criterion, number>
+  serviceParams: { pointsPerItem: number; maxPoints: number }
+  teachingBands: TeachingBand[]
+  researchMap: Record<string, number>
+  /** احتساب الإنجازات المتحقق منها فقط (المرفوضة لا تُحتسب في الحالتين) */
+  verifiedOnly: boolean
+  updatedAt: Date | null
+}
+
+export const BAND_ORDER: UiBand[] = ['HIGH', 'EXCEEDS', 'MEETS', 'PARTIAL', 'NEEDS']
+
+/** نسبة كل مستوى من وزن البند (30 → 30/24/18/12/6) */
+export const BAND_RATIO: Record<UiBand, number> = { HIGH: 1, EXCEEDS: 0.8, MEETS: 0.6, PARTIAL: 0.4, NEEDS: 0.2 }
+
+const DEFAULT_TEACHING_BANDS: TeachingBand[] = [
+  { min: 90, band: 'HIGH' },
+  { min: 80, band: 'EXCEEDS' },
+  { min: 60, band: 'MEETS' },
+  { min: 50, band: 'PARTIAL' },
+  { min: 0, band: 'NEEDS' },
+]
+
+const DEFAULT_RESEARCH_MAP: Record<ResearchKind, number> = {
+  PUBLISHED: 10,
+  ACCEPTED: 8,
+  REFEREED_PAPER: 4,
+  IN_PROCESS: 2,
+  ARBITRATION: 2,
+  THESIS_SUPERVISION: 2,
+  FUNDED_PROJECT: 2,
+  CONTRACTUAL_RESEARCH: 2,
+  REGISTERED_PATENT: 2,
+  OTHER: 2,
+}
+
+export const DEFAULT_GRADING: EffectiveGrading = {
+  id: null,
+  scope: 'DEFAULT',
+  cycleId: null,
+  weights: { research: 30, universityService: 20, communityService: 20, teaching: 30 },
+  serviceParams: { pointsPerItem: 4, maxPoints: 20 },
+  teachingBands: DEFAULT_TEACHING_BANDS,
+  researchMap: DEFAULT_RESEARCH_MAP,
+  verifiedOnly: false,
+  updatedAt: null,
+}
+
+// teachingBands مخزّنة كـ JSON وقد تحمل أسماء RatingBand أو UI
+const BAND_ALIASES: Record<string, UiBand> = {
+  HIGH: 'HIGH', HIGHLY_EXCEEDS: 'HIGH',
+  EXCEEDS: 'EXCEEDS',
+  MEETS: 'MEETS', FULLY_MEETS: 'MEETS',
+  PARTIAL: 'PARTIAL', PARTIALLY_MEETS: 'PARTIAL',
+  NEEDS: 'NEEDS', NEEDS_IMPROVEMENT: 'NEEDS',
+}
+
+function parseTeachingBands(value: unknown): TeachingBand[] {
+  if (!Array.isArray(value)) return DEFAULT_TEACHING_BANDS
+  const bands: TeachingBand[] = []
+  for (const b of value as any[]) {
+    const band = BAND_ALIASES[String(b?.band ?? '').toUpperCase()]
+    const min = Number(b?.min)
+    if (!band || !Number.isFinite(min)) continue
+    const points = b?.points === undefined || b?.points === null || b?.points === '' ? undefined : Number(b.points)
+    bands.push({ min, band, points })
+  }
+  bands.sort((a, b) => b.min - a.min)
+  return bands.length ? bands : DEFAULT_TEACHING_BANDS
+}
+
+function parseResearchMap(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_RESEARCH_MAP
+  const entries = Object.entries(value as Record<string, unknown>)
+    .map(([kind, pts]) => [kind, Number(pts)] as const)
+    .filter(([, pts]) => Number.isFinite(pts))
+  return entries.length ? { ...DEFAULT_RESEARCH_MAP, ...Object.fromEntries(entries) } : DEFAULT_RESEARCH_MAP
+}
+
+export function toEffectiveGrading(config: GradingConfig): EffectiveGrading {
+  return {
+    id: config.id,
+    scope: config.scope === 'CYCLE' ? 'CYCLE' : 'GLOBAL',
+    cycleId: config.cycleId,
+    weights: {
+      research: config.researchWeight,
+      universityService: config.universityServiceWeight,
+      communityService: config.communityServiceWeight,
+      teaching: config.teachingQualityWeight,
+    },
+    serviceParams: { pointsPerItem: config.servicePointsPerItem, maxPoints: config.serviceMaxPoints },
+    teachingBands: parseTeachingBands(config.teachingBands),
+    researchMap: parseResearchMap(config.researchMap),
+    verifiedOnly: config.verifiedOnly,
+    updatedAt: config.updatedAt,
+  }
+}
+
+/** الإعداد الفعّال لدورة: آخر إعداد للدورة، وإلا آخر إعداد عام، وإلا الافتراضي */
+export async function getEffectiveGrading(cycleId: number | null | undefined): Promise<EffectiveGrading> {
+  const cycleConfig = cycleId
+    ? await prisma.gradingConfig.findFirst({
+        where: { scope: 'CYCLE', cycleId },
+        orderBy: { updatedAt: 'desc' },
+      })
+    : null
+  const config = cycleConfig ?? await prisma.gradingConfig.findFirst({
+    where: { scope: 'GLOBAL' },
+    orderBy: { updatedAt: 'desc' },
+  })
+  return config ? toEffectiveGrading(config) : DEFAULT_GRADING
+}
+
+export async function getGradingForAppraisal(appraisalId: number): Promise<EffectiveGrading> {
+  const appraisal = await prisma.appraisal.findUnique({ where: { id: appraisalId }, select: { cycleId: true } })
+  return getEffectiveGrading(appraisal?.cycleId)
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** نقاط مستوى معيّن في بند معيّن حسب وزنه */
+export function bandPoints(grading: EffectiveGrading, criterion: Criterion, band: UiBand): number {
+  return round2(grading.weights[criterion] * BAND_RATIO[band])
+}
+
+/** جدول النقاط لكل بند ومستوى (تعرضه الواجهة بدل الأرقام الثابتة) */
+export function bandPointsTable(grading: EffectiveGrading): Record<Criterion, Record<UiBand, number>> {
+  const table = {} as Record<Criterion, Record<UiBand, number>>
+  for (const criterion of Object.keys(grading.weights) as Criterion[]) {
+    table[criterion] = Object.fromEntries(
+      BAND_ORDER.map(band => [band, bandPoints(grading, criterion, band)]),
+    ) as Record<UiBand, number>
+  }
+  return table
+}
+
+/** نسبة النقاط من السقف → أعلى مستوى لا تتجاوز نسبته (1 HIGH، 0.8 EXCEEDS ... أقل من 0.4 NEEDS) */
+export function bandFromRatio(ratio: number): UiBand {
+  // هامش صغير لأخطاء الكسور العشرية (3 × 0.2 مثلاً)
+  return BAND_ORDER.find(band => ratio + 1e-9 >= BAND_RATIO[band]) ?? 'NEEDS'
+}
+
+export function scoreService(
+  grading: EffectiveGrading,
+  criterion: 'universityService' | 'communityService',
+  count: number,
+): { band: UiBand; points: number } {
+  const { pointsPerItem, maxPoints } = grading.serviceParams
+  const raw = Math.min(count * pointsPerItem, maxPoints)
+  // السقف يمثل كامل وزن البند، والمستوى من النسبة نفسها حتى لا يختلف عن النقاط إذا تغيّرت المعاملات
+  const ratio = maxPoints > 0 ? raw / maxPoints : 0
+  return { band: bandFromRatio(ratio), points: round2(ratio * grading.weights[criterion]) }
+}
+
+export function scoreTeaching(grading: EffectiveGrading, average: number): { band: UiBand; points: number } {
+  const match = grading.teachingBands.find(b => average >= b.min)
+    ?? grading.teachingBands[grading.teachingBands.length - 1]
+  const band = match?.band ?? 'NEEDS'
+  const points = match?.points !== undefined ? match.points : bandPoints(grading, 'teaching', band)
+  return { band, points: round2(Math.min(points, grading.weights.teaching)) }
+}
+
+export function scoreResearch(grading: EffectiveGrading, kinds: string[]): number {
+  const sum = kinds.reduce((acc, kind) => acc + (grading.researchMap[kind] ?? grading.researchMap.OTHER ?? 0), 0)
+  return round2(Math.min(sum, grading.weights.research))
+}
+
+export function averageStudentsEval(courses: { studentsEvalAvg: number | null }[]): number {
+  const vals = courses.map(c => c.studentsEvalAvg ?? 0)
+  return vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : 0
+}
+
+type Verifiable = { verificationStatus: VerificationStatus }
+
+/** الإنجازات التي تدخل في الدرجات حسب حالة تحققها (lib/verification-status.ts) */
+export function scoredItems<T extends Verifiable>(grading: EffectiveGrading, items: T[]): T[] {
+  return items.filter(item => countsTowardScore(item.verificationStatus, grading.verifiedOnly))
+}
+
+interface ScorableAppraisal {
+  researchActivities: ({ kind: string } & Verifiable)[]
+  universityServices: Verifiable[]
+  communityServices: Verifiable[]
+  courses: { studentsEvalAvg: number | null }[]
+}
+
+/** درجات Section 1 الأربع محسوبة من الإنجازات المسجّلة */
+export function computePerformanceScores(grading: EffectiveGrading, appraisal: ScorableAppraisal) {
+  return {
+    research: scoreResearch(grading, scoredItems(grading, appraisal.researchActivities).map(r => r.kind)),
+    universityService: scoreService(grading, 'universityService', scoredItems(grading, appraisal.universityServices).length),
+    communityService: scoreService(grading, 'communityService', scoredItems(grading, appraisal.communityServices).length),
+    teaching: scoreTeaching(grading, averageStudentsEval(appraisal.courses)),
+  }
+}
@@ -0,0 +1,108 @@
+import { prisma } from '@/lib/prisma'
+import { UserRole, UserStatus, type ImpersonationSession } from '@prisma/client'
+import { getClientIp, logAudit } from '@/lib/audit'
+import { isFeatureEnabled } from '@/lib/settings'
+
+/**
+ * "العرض كمستخدم": المدير يرى النظام كما يراه مدرّس أو رئيس قسم أو عميد لمتابعة بلاغات الدعم.
+ * الجلسة تُسجَّل في ImpersonationSession، ورمز NextAuth يحمل معرّفها فقط (lib/auth.ts)،
+ * ويُتحقق منها في كل طلب: انتهاؤها أو إيقاف features.impersonation يعيد المدير لهويته.
+ * الكتابة ممنوعة أثناء الجلسة في middleware.ts.
+ */
+
+export const IMPERSONATION_MAX_MINUTES = 60
+
+type EndReason = 'exit' | 'expired' | 'disabled' | 'replaced'
+
+type Failure = { ok: false; status: 400 | 403 | 404 | 409; error: string }
+
+interface StartInput {
+  admin: { id: string | number; email?: string | null; role: UserRole }
+  targetId: number
+  reason: string
+  req?: Request
+}
+
+export async function startImpersonation(input: StartInput): Promise<{ ok: true; session: ImpersonationSession } | Failure> {
+  const { admin, targetId, reason, req } = input
+  const adminId = Number(admin.id)
+  if (admin.role !== UserRole.ADMIN) return { ok: false, status: 403, error: 'Only admins can view as another user' }
+  if (!(await isFeatureEnabled('impersonation'))) {
+    return { ok: false, status: 403, error: 'Impersonation is disabled in system settings' }
+  }
+  if (targetId === adminId) return { ok: false, status: 400, error: 'You cannot view as yourself' }
+
+  const target = await prisma.user.findUnique({ where: { id: targetId }, select: { id: true, role: true, status: true } })
+  if (!target) return { ok: false, status: 404, error: 'User not found' }
+  if (target.role === UserRole.ADMIN) return { ok: false, status: 403, error: 'Admins cannot be impersonated' }
+  if (target.status !== UserStatus.ACTIVE) return { ok: false, status: 409, error: 'Only active users can be impersonated' }
+
+  // جلسة واحدة مفتوحة لكل مدير
+  const open = await prisma.impersonationSession.findMany({ where: { adminId, endedAt: null }, select: { id: true } })
+  for (const { id } of open) await endImpersonation(id, 'replaced', admin, req)
+
+  const session = await prisma.impersonationSession.create({
+    data: {
+      adminId,
+      targetId,
+      reason,
+      ip: req ? getClientIp(req) : null,
+      userAgent: req?.headers.get('user-agent') ?? null,
+    },
+  })
+  await logAudit({
+    actor: admin,
+    action: 'IMPERSONATION_START',
+    target: { type: 'user', id: targetId },
+    metadata: { impersonationId: session.id, reason },
+    req,
+  })
+  return { ok: true, session }
+}
+
+/** يغلق الجلسة إن كانت مفتوحة؛ يعيد false إذا كانت مغلقة مسبقاً */
+export async function endImpersonation(
+  id: number,
+  endReason: EndReason,
+  actor?: { id?: string | number | null; email?: string | null } | null,
+  req?: Request,
+): Promise<boolean> {
+  const session = await prisma.impersonationSession.findUnique({ where: { id } })
+  if (!session || session.endedAt) return false
+
+  const endedAt = new Date()
+  const { count } = await prisma.impersonationSession.updateMany({
+    where: { id, endedAt: null },
+    data: { endedAt, endReason },
+  })
+  if (count === 0) return false
+
+  await logAudit({
+    actor: actor ?? { id: session.adminId },
+    action: 'IMPERSONATION_END',
+    target: { type: 'user', id: session.targetId },
+    metadata: {
+      impersonationId: id,
+      endReason,
+      durationSeconds: Math.round((endedAt.getTime() - session.startedAt.getTime()) / 1000),
+    },
+    req,
+  })
+  return true
+}
+
+/** الجلسة إن كانت ما تزال سارية لهذا المدير؛ المنتهية تُغلق هنا */
+export async function activeImpersonation(id: number, adminId: number): Promise<ImpersonationSession | null> {
+  const session = await prisma.impersonationSession.findUnique({ where: { id } })
+  if (!session || session.adminId !== adminId || session.endedAt) return null
+
+  if (Date.now() - session.startedAt.getTime() > IMPERSONATION_MAX_MINUTES * 60 * 1000) {
+    await endImpersonation(id, 'expired')
+    return null
+  }
+  if (!(await isFeatureEnabled('impersonation'))) {
+    await endImpersonation(id, 'disabled')
+    return null
+  }
+  return session
+}
@@ -0,0 +1,125 @@
+import { prisma } from '@/lib/prisma'
+import { getSettings } from '@/lib/settings'
+
+/**
+ * حماية الدخول: قفل مؤقت بعد محاولات فاشلة متتالية (حسب إعدادات الأمان)، سجل الدخول لكل مستخدم،
+ * وإلغاء الجلسات عبر User.sessionVersion — الرمز يحمل النسخة من وقت الدخول، وcallback session
+ * في lib/auth.ts يرفضه إذا زادت النسخة المخزنة (إلغاء من المدير، تعطيل الحساب، تغيير كلمة المرور).
+ */
+
+export type LoginEventMethod = 'credentials' | 'sso'
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'inactive'
+  | 'locked'
+  | 'invalid_password'
+  | 'invalid_2fa'
+  | 'sso_not_linked'
+  | 'sso_required'
+
+export interface LoginContext {
+  ip: string | null
+  userAgent: string | null
+}
+
+type HeaderSource = Headers | Record<string, unknown> | undefined
+
+function header(headers: HeaderSource, name: string): string | null {
+  if (!headers) return null
+  if (headers instanceof Headers) return headers.get(name)
+  const value = headers[name]
+  return typeof value === 'string' ? value : Array.isArray(value) ? String(value[0]) : null
+}
+
+/** من ترويسات الطلب (Request في المسارات، أو كائن ترويسات في authorize) */
+export function loginContext(headers: HeaderSource): LoginContext {
+  const forwarded = header(headers, 'x-forwarded-for')
+  return {
+    ip: forwarded?.split(',')[0].trim() || header(headers, 'x-real-ip'),
+    userAgent: header(headers, 'user-agent')?.slice(0, 500) ?? null,
+  }
+}
+
+/** لا يرمي أبداً: فشل التسجيل يجب ألا يمنع الدخول */
+export async function recordLogin(input: {
+  userId?: number | null
+  email: string
+  method: LoginEventMethod
+  success: boolean
+  reason?: LoginFailureReason
+  context?: LoginContext
+}): Promise<void> {
+  try {
+    await prisma.loginEvent.create({
+      data: {
+        userId: input.userId ?? null,
+        email: input.email.slice(0, 320),
+        method: input.method,
+        success: input.success,
+        reason: input.reason ?? null,
+        ip: input.context?.ip ?? null,
+        userAgent: input.context?.userAgent ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('Failed to record login event:', input.email, error)
+  }
+}
+
+export function isLocked(user: { lockedUntil: Date | null }): boolean {
+  return Boolean(user.lockedUntil && user.lockedUntil > new Date())
+}
+
+/** يزيد عدّاد الفشل، ويقفل الحساب عند بلوغ الحد؛ يعيد true إذا قُفل الآن */
+export async function registerFailedLogin(userId: number): Promise<boolean> {
+  const { maxLoginAttempts, lockoutMinutes } = await getSettings('security')
+  const { failedLoginCount } = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 } },
+    select: { failedLoginCount: true },
+  })
+  if (failedLoginCount < maxLoginAttempts) return false
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: 0, lockedUntil: new Date(Date.now() + lockoutMinutes * 60 * 1000) },
+  })
+  return true
+}
+
+export async function clearFailedLogins(userId: number): Promise<void> {
+  await prisma.user.updateMany({
+    where: { id: userId, OR: [{ failedLoginCount: { gt: 0 } }, { lockedUntil: { not: null } }] },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  })
+}
+
+/** فك القفل من المدير؛ يعيد false إذا لم يكن الحساب مقفلاً */
+export async function unlockUser(userId: number): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, lockedUntil: { gt: new Date() } },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  })
+  return count > 0
+}
+
+/** يلغي كل الجلسات القائمة للمستخدم (تُرفض في الطلب التالي) */
+export async function revokeSessions(userId: number): Promise<void> {
+  await prisma.user.update({ where: { id: userId }, data: { sessionVersion: { increment: 1 } } })
+}
+
+/** هل أُلغيت الجلسة التي تحمل هذه النسخة؟ (رموز ما قبل الميزة بلا نسخة = 0) */
+export async function isSessionRevoked(userId: number, tokenVersion: number | undefined): Promise<boolean> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { sessionVersion: true } })
+  return !user || user.sessionVersion !== (tokenVersion ?? 0)
+}
+
+export async function getLoginHistory(userId: number, take = 50) {
+  return prisma.loginEvent.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take,
+    select: { id: true, method: true, success: true, reason: true, ip: true, userAgent: true, createdAt: true },
+  })
+}
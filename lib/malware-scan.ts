@@ -0,0 +1,141 @@
+import net from 'net'
+import { prisma } from '@/lib/prisma'
+import { deleteFile, readFile } from '@/lib/storage'
+
+/**
+ * فحص ملفات الأدلة بماسح قابل للتبديل (MALWARE_SCANNER):
+ *   clamav — clamd عبر مقبس: CLAMAV_SOCKET (مقبس يونكس) أو CLAMAV_HOST/CLAMAV_PORT (الافتراضي 3310)
+ *   none   — لا فحص، كل ملف سليم (للاختبارات والتطوير)
+ * بدون MALWARE_SCANNER: clamav إذا وُجد CLAMAV_SOCKET أو CLAMAV_HOST، وإلا لا ماسح: كل ملف يبقى PENDING
+ * ويُسجَّل خطأ عند بدء الخادم (instrumentation.ts)؛ تخطي الفحص يتطلب MALWARE_SCANNER=none صراحة.
+ * الملف يبقى محجوزاً (PENDING، لا يُنزَّل) حتى يجتاز الفحص؛ المصاب يُحذف من التخزين.
+ */
+
+export type MalwareScannerName = 'clamav' | 'none'
+
+export type ScanVerdict =
+  | { status: 'CLEAN' }
+  | { status: 'INFECTED'; signature: string }
+  | { status: 'ERROR'; reason: string }
+
+interface MalwareScanner {
+  name: MalwareScannerName
+  scan(body: Buffer): Promise<ScanVerdict>
+}
+
+const SCANNERS: MalwareScannerName[] = ['clamav', 'none']
+
+/** null = لم يُضبط ماسح (أو قيمة MALWARE_SCANNER غير معروفة) */
+export function malwareScannerName(): MalwareScannerName | null {
+  const configured = process.env.MALWARE_SCANNER
+  if (configured) return SCANNERS.includes(configured as MalwareScannerName) ? configured as MalwareScannerName : null
+  if (process.env.CLAMAV_SOCKET || process.env.CLAMAV_HOST) return 'clamav'
+  return null
+}
+
+export const SCANNER_NOT_CONFIGURED =
+  'No malware scanner configured: set MALWARE_SCANNER=clamav (with CLAMAV_SOCKET or CLAMAV_HOST), or MALWARE_SCANNER=none to skip scanning'
+
+const CLAMAV_TIMEOUT_MS = 30_000
+const CLAMAV_CHUNK_SIZE = 64 * 1024
+
+/** أمر INSTREAM: أجزاء يسبق كلاً منها طوله (4 بايت big-endian) ثم جزء بطول صفر */
+function clamavScan(body: Buffer): Promise<ScanVerdict> {
+  return new Promise((resolve) => {
+    const socket = process.env.CLAMAV_SOCKET
+      ? net.createConnection({ path: process.env.CLAMAV_SOCKET })
+      : net.createConnection({ host: process.env.CLAMAV_HOST || '127.0.0.1', port: Number(process.env.CLAMAV_PORT || 3310) })
+    let reply = ''
+    let settled = false
+    const finish = (verdict: ScanVerdict) => {
+      if (settled) return
+      settled = true
+      socket.destroy()
+      resolve(verdict)
+    }
+
+    socket.setTimeout(CLAMAV_TIMEOUT_MS, () => finish({ status: 'ERROR', reason: 'ClamAV timed out' }))
+    socket.on('error', (error) => finish({ status: 'ERROR', reason: `ClamAV unavailable: ${error.message}` }))
+    socket.on('data', (chunk) => {
+      reply += chunk.toString('utf8')
+    })
+    socket.on('end', () => {
+      // "stream: OK" | "stream: Eicar-Signature FOUND" | "INSTREAM size limit exceeded. ERROR"
+      const result = reply.replace(/\0/g, '').trim()
+      const found = /^stream: (.+) FOUND$/.exec(result)
+      if (result === 'stream: OK') finish({ status: 'CLEAN' })
+      else if (found) finish({ status: 'INFECTED', signature: found[1] })
+      else finish({ status: 'ERROR', reason: `ClamAV: ${result || 'no reply'}` })
+    })
+    socket.on('connect', () => {
+      socket.write('zINSTREAM\0')
+      for (let offset = 0; offset < body.length; offset += CLAMAV_CHUNK_SIZE) {
+        const chunk = body.subarray(offset, offset + CLAMAV_CHUNK_SIZE)
+        const length = Buffer.alloc(4)
+        length.writeUInt32BE(chunk.length)
+        socket.write(length)
+        socket.write(chunk)
+      }
+      socket.write(Buffer.alloc(4))
+    })
+  })
+}
+
+function createScanner(name: MalwareScannerName | null): MalwareScanner | null {
+  switch (name) {
+    case 'clamav':
+      return { name, scan: clamavScan }
+    case 'none':
+      return { name, scan: async () => ({ status: 'CLEAN' }) }
+    default:
+      return null
+  }
+}
+
+let scanner: MalwareScanner | null = null
+
+export async function scanBuffer(body: Buffer): Promise<ScanVerdict> {
+  scanner ??= createScanner(malwareScannerName())
+  // بلا ماسح يبقى الملف محجوزاً بدل اعتباره سليماً
+  if (!scanner) return { status: 'ERROR', reason: SCANNER_NOT_CONFIGURED }
+  try {
+    return await scanner.scan(body)
+  } catch (error) {
+    return { status: 'ERROR', reason: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * يفحص ملف دليل محفوظاً ويحدّث حالته: CLEAN يتيح التنزيل، INFECTED يحذف الملف،
+ * وتعذّر الفحص يُبقيه PENDING ليعاد بـ scripts/rescan-evidence.ts.
+ * body اختياري لتجنّب إعادة القراءة من التخزين مباشرة بعد الرفع.
+ */
+export async function scanEvidence(evidenceId: number, body?: Buffer): Promise<ScanVerdict> {
+  const evidence = await prisma.evidence.findUnique({ where: { id: evidenceId }, select: { fileKey: true } })
+  if (!evidence?.fileKey) return { status: 'ERROR', reason: 'Evidence has no stored file' }
+
+  const content = body ?? (await readFile(evidence.fileKey))?.body
+  if (!content) return { status: 'ERROR', reason: 'Stored file not found' }
+
+  const verdict = await scanBuffer(content)
+  switch (verdict.status) {
+    case 'CLEAN':
+      await prisma.evidence.update({
+        where: { id: evidenceId },
+        data: { scanStatus: 'CLEAN', scanResult: null, scannedAt: new Date() },
+      })
+      break
+    case 'INFECTED':
+      await deleteFile(evidence.fileKey)
+      await prisma.evidence.update({
+        where: { id: evidenceId },
+        data: { scanStatus: 'INFECTED', scanResult: verdict.signature, scannedAt: new Date() },
+      })
+      break
+    case 'ERROR':
+      console.error(`Malware scan failed for evidence #${evidenceId}:`, verdict.reason)
+      await prisma.evidence.update({ where: { id: evidenceId }, data: { scanResult: verdict.reason } })
+      break
+  }
+  return verdict
+}
@@ -0,0 +1,249 @@
+import { prisma } from '@/lib/prisma'
+import { AppealLevel, NotificationType, Prisma, UserRole, UserStatus, type AppraisalCycle } from '@prisma/client'
+import type { WorkflowAction, WorkflowAppraisal } from '@/lib/workflow'
+
+/**
+ * إشعارات داخل التطبيق. تُرسل من انتقالات الحالة (lib/workflow.ts) ومن تصعيد التظلّمات وتفعيل الدورات.
+ * مثل logAudit: فشل الإرسال لا يُفشل العملية الأصلية.
+ */
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  body?: string | null
+  link?: string | null
+}
+
+export async function notify(userIds: number[], input: NotificationInput): Promise<void> {
+  const recipients = [...new Set(userIds)]
+  if (!recipients.length) return
+  try {
+    await prisma.notification.createMany({
+      data: recipients.map(userId => ({
+        userId,
+        type: input.type,
+        title: input.title,
+        body: input.body ?? null,
+        link: input.link ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', input.type, error)
+  }
+}
+
+// ===================== المستلمون =====================
+
+export type Recipient = { id: number; name: string; email: string }
+
+async function activeUsers(where: Prisma.UserWhereInput): Promise<Recipient[]> {
+  return prisma.user.findMany({
+    where: { ...where, status: UserStatus.ACTIVE },
+    select: { id: true, name: true, email: true },
+  })
+}
+
+function hodsOf(departmentId: number | null) {
+  if (departmentId == null) return Promise.resolve([])
+  return activeUsers({ role: UserRole.HOD, departmentId })
+}
+
+// العميد قد يُربط بالكلية مباشرة أو عبر قسمه (كما في resolveActors)
+function deansOf(collegeId: number | null | undefined) {
+  if (collegeId == null) return Promise.resolve([])
+  return activeUsers({
+    role: UserRole.DEAN,
+    OR: [{ collegeId }, { collegeId: null, department: { collegeId } }],
+  })
+}
+
+function admins() {
+  return activeUsers({ role: UserRole.ADMIN })
+}
+
+type FacultyRef = { role: UserRole; departmentId: number | null; department: { collegeId: number } | null }
+
+/** مستخدمو مستوى معيّن بالنسبة لصاحب التقييم (رئيس قسمه، عميد كليته، أو المدراء) */
+export function levelUsers(faculty: FacultyRef, level: AppealLevel): Promise<Recipient[]> {
+  if (level === AppealLevel.HOD) return hodsOf(faculty.departmentId)
+  if (level === AppealLevel.DEAN) return deansOf(faculty.department?.collegeId)
+  return admins()
+}
+
+async function levelRecipients(faculty: FacultyRef, level: AppealLevel): Promise<number[]> {
+  return (await levelUsers(faculty, level)).map(u => u.id)
+}
+
+// ===================== الروابط =====================
+
+export function resultsLink(role: UserRole) {
+  return role === UserRole.HOD ? '/hod/appraisal/results' : '/faculty/appraisal/results'
+}
+
+function reviewLink(level: AppealLevel, appraisalId: number) {
+  if (level === AppealLevel.HOD) return `/hod/reviews/${appraisalId}`
+  if (level === AppealLevel.DEAN) return `/dean/reviews/${appraisalId}`
+  return `/admin/appraisals`
+}
+
+// صفحة إنجازات صاحب التقييم حسب دوره
+export function achievementsLink(role: UserRole) {
+  if (role === UserRole.HOD) return '/hod/appraisal/achievements'
+  if (role === UserRole.DEAN) return '/dean/appraisal/achievements'
+  return '/faculty/appraisal/achievements'
+}
+
+// صفحة عرض الاستمارة للمقيّم الذي تحقق من الإنجاز
+function viewLink(role: UserRole, appraisalId: number) {
+  if (role === UserRole.HOD) return `/hod/view/${appraisalId}`
+  if (role === UserRole.DEAN) return `/dean/view/${appraisalId}`
+  return '/admin/appraisals'
+}
+
+export function appealsLink(level: AppealLevel) {
+  if (level === AppealLevel.HOD) return '/hod/appeals'
+  if (level === AppealLevel.DEAN) return '/dean/appeals'
+  return '/admin/appeals'
+}
+
+// ===================== الأحداث =====================
+
+type Message = [recipients: number[], input: NotificationInput]
+
+async function transitionMessage(appraisal: WorkflowAppraisal, action: WorkflowAction): Promise<Message | null> {
+  const { faculty } = appraisal
+  // المقيّم المباشر: رئيس القسم للمدرّس، والعميد لرئيس القسم
+  const evaluator = faculty.role === UserRole.HOD ? AppealLevel.DEAN : AppealLevel.HOD
+
+  switch (action) {
+    case 'submit':
+      return [await levelRecipients(faculty, evaluator), {
+        type: NotificationType.APPRAISAL_SUBMITTED,
+        title: `${faculty.name} submitted their appraisal`,
+        body: 'The achievements are ready for your review.',
+        link: reviewLink(evaluator, appraisal.id),
+      }]
+    case 'hod_review':
+      return [await levelRecipients(faculty, AppealLevel.DEAN), {
+        type: NotificationType.HOD_REVIEWED,
+        title: `HOD review completed for ${faculty.name}`,
+        body: 'The appraisal is ready for your review.',
+        link: reviewLink(AppealLevel.DEAN, appraisal.id),
+      }]
+    case 'send_scores':
+      return [[faculty.id], {
+        type: NotificationType.SCORES_RELEASED,
+        title: 'Your appraisal scores have been released',
+        body: 'Review your results and approve them or file an appeal.',
+        link: resultsLink(faculty.role),
+      }]
+    case 'approve':
+      return [await levelRecipients(faculty, evaluator), {
+        type: NotificationType.APPRAISAL_APPROVED,
+        title: `${faculty.name} approved their appraisal`,
+        link: reviewLink(evaluator, appraisal.id),
+      }]
+    case 'appeal': {
+      const level = appraisal.appeals[0]?.level ?? evaluator
+      return [await levelRecipients(faculty, level), {
+        type: NotificationType.APPEAL_FILED,
+        title: `${faculty.name} filed an appeal`,
+        body: appraisal.appeals[0]?.message ?? null,
+        link: appealsLink(level),
+      }]
+    }
+    case 'resolve_appeal':
+      return [[faculty.id], {
+        type: NotificationType.APPEAL_RESOLVED,
+        title: 'Your appeal has been resolved',
+        body: 'See the outcome on your results page.',
+        link: resultsLink(faculty.role),
+      }]
+    default:
+      return null
+  }
+}
+
+/** إشعار الأطراف المعنية بعد انتقال حالة ناجح */
+export async function notifyTransition(appraisal: WorkflowAppraisal, action: WorkflowAction): Promise<void> {
+  try {
+    const message = await transitionMessage(appraisal, action)
+    if (message) await notify(...message)
+  } catch (error) {
+    console.error('Failed to send notification:', action, error)
+  }
+}
+
+/** تفعيل/إيقاف دورة: يُبلَّغ جميع المستخدمين النشطين عدا المدراء */
+export async function notifyCycle(cycle: Pick<AppraisalCycle, 'academicYear'>, opened: boolean): Promise<void> {
+  try {
+    const recipients = await activeUsers({ role: { not: UserRole.ADMIN } })
+    await notify(recipients.map(u => u.id), opened
+      ? {
+          type: NotificationType.CYCLE_OPENED,
+          title: `The ${cycle.academicYear} appraisal cycle is open`,
+          body: 'You can now update your achievements for this cycle.',
+        }
+      : {
+          type: NotificationType.CYCLE_CLOSED,
+          title: `The ${cycle.academicYear} appraisal cycle is closed`,
+        })
+  } catch (error) {
+    console.error('Failed to send notification:', opened ? 'CYCLE_OPENED' : 'CYCLE_CLOSED', error)
+  }
+}
+
+/** التظلّم وصل إلى مستوى جديد بعد تجاوز مهلة البت */
+export async function notifyEscalation(
+  appeal: { appraisalId: number; appraisal: { faculty: FacultyRef & { name: string } } },
+  level: AppealLevel,
+): Promise<void> {
+  try {
+    await notify(await levelRecipients(appeal.appraisal.faculty, level), {
+      type: NotificationType.APPEAL_ESCALATED,
+      title: `An appeal by ${appeal.appraisal.faculty.name} was escalated to you`,
+      body: 'It was not resolved within the deadline at the previous level.',
+      link: appealsLink(level),
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', 'APPEAL_ESCALATED', error)
+  }
+}
+
+/** المقيّم طلب دليلاً إضافياً لإنجاز أو رفضه */
+export async function notifyAchievementFlagged(
+  faculty: { id: number; role: UserRole },
+  achievement: { title: string; status: 'NEEDS_EVIDENCE' | 'REJECTED'; comment: string },
+): Promise<void> {
+  try {
+    await notify([faculty.id], {
+      type: NotificationType.ACHIEVEMENT_FLAGGED,
+      title: achievement.status === 'REJECTED'
+        ? `Your achievement "${achievement.title}" was rejected`
+        : `More evidence is needed for "${achievement.title}"`,
+      body: achievement.comment,
+      link: achievementsLink(faculty.role),
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', 'ACHIEVEMENT_FLAGGED', error)
+  }
+}
+
+/** صاحب التقييم ردّ على ملاحظة المقيّم */
+export async function notifyAchievementResponse(
+  reviewer: { id: number; role: UserRole },
+  appraisalId: number,
+  faculty: { name: string },
+  achievement: { title: string; response: string },
+): Promise<void> {
+  try {
+    await notify([reviewer.id], {
+      type: NotificationType.ACHIEVEMENT_RESPONSE,
+      title: `${faculty.name} responded about "${achievement.title}"`,
+      body: achievement.response,
+      link: viewLink(reviewer.role, appraisalId),
+    })
+  } catch (error) {
+    console.error('Failed to send notification:', 'ACHIEVEMENT_RESPONSE', error)
+  }
+}
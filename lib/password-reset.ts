@@ -0,0 +1,143 @@
+import { prisma } from '@/lib/prisma'
+import { UserStatus } from '@prisma/client'
+import { after } from 'next/server'
+import { createHash, randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { appUrl, sendPasswordResetEmail } from '@/lib/email'
+import { getClientIp, logAudit } from '@/lib/audit'
+import { rateLimit, rateLimitKey } from '@/lib/rate-limit'
+import { checkPasswordPolicy } from '@/lib/settings'
+
+/**
+ * استعادة كلمة المرور على خطوتين:
+ *   1) طلب بالبريد: رمز عشوائي يُرسل في الرابط، ويُخزَّن SHA-256 له فقط مع وقت انتهاء.
+ *   2) التعيين بالرمز: يُتحقق منه، تُطبَّق سياسة كلمة المرور، ويُعلَّم usedAt (استخدام واحد).
+ * الرد على الطلب واحد دائماً حتى لا يكشف وجود البريد، والإرسال بعد الرد (after) حتى لا يكشفه التوقيت.
+ */
+
+const TOKEN_TTL_MINUTES = 60
+const HOUR_MS = 60 * 60 * 1000
+
+const LIMITS = {
+  requestPerEmail: { limit: 3, windowMs: HOUR_MS },
+  requestPerIp: { limit: 10, windowMs: HOUR_MS },
+  resetPerIp: { limit: 10, windowMs: 15 * 60 * 1000 },
+}
+
+export const RESET_REQUESTED_MESSAGE = 'If an account exists for that email, a password reset link has been sent.'
+
+type Failure = { ok: false; status: 400 | 429; error: string; retryAfterSeconds?: number }
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function tooManyRequests(retryAfterSeconds: number): Failure {
+  return { ok: false, status: 429, error: 'Too many password reset attempts. Please try again later.', retryAfterSeconds }
+}
+
+async function limitByIp(scope: string, req: Request, limit: { limit: number; windowMs: number }) {
+  return rateLimit(rateLimitKey(scope, getClientIp(req) ?? 'unknown'), limit.limit, limit.windowMs)
+}
+
+export async function requestPasswordReset(email: string, req: Request): Promise<{ ok: true } | Failure> {
+  // الحدود تُطبَّق قبل البحث عن المستخدم حتى تتصرف بنفس الطريقة لأي بريد
+  const byIp = await limitByIp('password-reset:request-ip', req, LIMITS.requestPerIp)
+  if (!byIp.ok) return tooManyRequests(byIp.retryAfterSeconds)
+  const byEmail = await rateLimit(
+    rateLimitKey('password-reset:email', email),
+    LIMITS.requestPerEmail.limit,
+    LIMITS.requestPerEmail.windowMs,
+  )
+  if (!byEmail.ok) return tooManyRequests(byEmail.retryAfterSeconds)
+
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    select: { id: true, name: true, email: true, status: true },
+  })
+  if (!user || user.status !== UserStatus.ACTIVE) return { ok: true }
+
+  const token = randomBytes(32).toString('base64url')
+  await prisma.$transaction([
+    // طلب جديد يُبطل الروابط السابقة
+    prisma.passwordResetToken.updateMany({
+      where: { userId: user.id, usedAt: null },
+      data: { usedAt: new Date() },
+    }),
+    prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        token: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MINUTES * 60 * 1000),
+      },
+    }),
+  ])
+
+  await logAudit({
+    actor: { id: user.id, email: user.email },
+    action: 'PASSWORD_RESET_REQUEST',
+    target: { type: 'user', id: user.id },
+    req,
+  })
+
+  after(async () => {
+    try {
+      await sendPasswordResetEmail({
+        to: user.email,
+        name: user.name,
+        resetUrl: appUrl(`/auth/reset-password?token=${encodeURIComponent(token)}`),
+        expiresIn: `${TOKEN_TTL_MINUTES} minutes`,
+      })
+    } catch (error) {
+      console.error('Failed to send password reset email:', user.id, error)
+    }
+  })
+  return { ok: true }
+}
+
+export async function resetPassword(token: string, newPassword: string, req: Request): Promise<{ ok: true } | Failure> {
+  const limited = await limitByIp('password-reset:reset-ip', req, LIMITS.resetPerIp)
+  if (!limited.ok) return tooManyRequests(limited.retryAfterSeconds)
+
+  const invalid: Failure = { ok: false, status: 400, error: 'This reset link is invalid or has expired. Please request a new one.' }
+  const record = await prisma.passwordResetToken.findUnique({
+    where: { token: hashToken(token) },
+    include: { user: { select: { id: true, email: true, status: true } } },
+  })
+  if (!record || record.usedAt || record.expiresAt < new Date() || record.user.status !== UserStatus.ACTIVE) {
+    return invalid
+  }
+
+  const policyError = await checkPasswordPolicy(newPassword)
+  if (policyError) return { ok: false, status: 400, error: policyError }
+
+  const passwordHash = await bcrypt.hash(newPassword, 12)
+  const used = await prisma.$transaction(async (tx) => {
+    // الشرط على usedAt يمنع استخدام الرمز مرتين من طلبين متزامنين
+    const { count } = await tx.passwordResetToken.updateMany({
+      where: { id: record.id, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    if (count === 0) return false
+    // كلمة المرور الجديدة تلغي الجلسات القائمة وقفل المحاولات الفاشلة
+    await tx.user.update({
+      where: { id: record.userId },
+      data: { passwordHash, sessionVersion: { increment: 1 }, failedLoginCount: 0, lockedUntil: null },
+    })
+    await tx.passwordResetToken.updateMany({
+      where: { userId: record.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    return true
+  })
+  if (!used) return invalid
+
+  await logAudit({
+    actor: { id: record.user.id, email: record.user.email },
+    action: 'PASSWORD_RESET',
+    target: { type: 'user', id: record.userId },
+    metadata: { tokenId: record.id },
+    req,
+  })
+  return { ok: true }
+}
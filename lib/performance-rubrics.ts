@@ -85,31 +85,15 @@ export const communityServiceItems = [
   'Participating in other community service activities.'
 ] as const
 
-export const SERVICE_POINTS_PER_ITEM = 4
-export const UNIVERSITY_SERVICE_WEIGHT = 20
-export const COMMUNITY_SERVICE_WEIGHT = 20
-
-/** تحويل العدّ إلى باند/نقاط (ينطبق على سكشن 2 وسكشن 3) */
-export function bandFromCount(count: number): BandKey {
-  if (count >= 5) return 'HIGH'
-  if (count === 4) return 'EXCEEDS'
-  if (count === 3) return 'MEETS'
-  if (count === 2) return 'PARTIAL'
-  return count >= 1 ? 'NEEDS' : 'NEEDS'
-}
-export function scoreFromCount(count: number, maxPoints: number): number {
-  const raw = count * SERVICE_POINTS_PER_ITEM
-  return Math.min(raw, maxPoints)
-}
+// النقاط لكل عنصر وسقف القسم يأتيان من GradingConfig (lib/grading.ts)
 
 export function buildServiceExplanation(
   sectionLabel: 'University Service'|'Community Service',
   band: BandKey,
   count: number,
   items: readonly string[],
-  maxPoints: number
+  score: number
 ): string {
-  const score = scoreFromCount(count, maxPoints)
   // صيغة العنوان حسب الباند
   const header =
     band === 'HIGH' ? 'Completion of 5 or more of the following:'
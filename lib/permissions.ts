@@ -1,110 +1,60 @@
-import { UserRole } from "@prisma/client"
+import type { Prisma } from "@prisma/client"
+import type { Session } from "next-auth"
 import { prisma } from "./prisma"
-
-export interface UserContext {
-  id: string
-  role: UserRole
-  departmentId?: string | null
-  collegeId?: string | null
-}
-
-export async function getUserContext(session: any): Promise<UserContext | null> {
-  if (!session?.user?.id) return null
-
-  const user = await prisma.user.findUnique({
-    where: { id: parseInt(session.user.id) },
-    include: {
-      department: {
-        include: {
-          college: true,
-        },
-      },
-    },
+import { can, toPolicyUser, type Action, type PolicyUser, type Resource } from "./policy"
+
+/**
+ * ربط السياسة (lib/policy.ts) بالمسارات: المنفّذ يُقرأ من قاعدة البيانات لأن الجلسة لا تحمل كلية العميد،
+ * والنتيجة اتحاد { ok } يحوّله المسار إلى NextResponse كما في بقية lib.
+ */
+
+export type UserContext = PolicyUser
+
+export const policyUserSelect = {
+  id: true,
+  role: true,
+  departmentId: true,
+  collegeId: true,
+  department: { select: { collegeId: true } },
+} satisfies Prisma.UserSelect
+
+export async function getUserContext(session: Session | null): Promise<UserContext | null> {
+  const id = Number(session?.user?.id)
+  if (!Number.isInteger(id)) return null
+
+  const user = await prisma.user.findUnique({ where: { id }, select: policyUserSelect })
+  return user ? toPolicyUser(user) : null
+}
+
+/** user = مستخدم الجلسة (للتدقيق والرسائل)، actor = نفسه كما تفحصه السياسة */
+export type Authorization<T = object> =
+  | ({ ok: true; user: Session["user"]; actor: UserContext } & T)
+  | { ok: false; status: 401 | 403 | 404; error: string }
+
+/** هل يملك دور المستخدم هذا الإجراء؟ النطاق يُطبّق بعدها بـ ownerWhere أو authorizeAppraisal */
+export async function authorizeRequest(session: Session | null, action: Action, resource: Resource): Promise<Authorization> {
+  const actor = await getUserContext(session)
+  if (!session || !actor) return { ok: false, status: 401, error: "Unauthorized" }
+  if (!can(actor, action, resource)) return { ok: false, status: 403, error: "Forbidden" }
+  return { ok: true, user: session.user, actor }
+}
+
+/** الإجراء على تقييم محدد: صاحب المورد هو عضو هيئة التدريس صاحب الاستمارة */
+export async function authorizeAppraisal(
+  session: Session | null,
+  appraisalId: number,
+  action: Action,
+): Promise<Authorization<{ owner: PolicyUser }>> {
+  const actor = await getUserContext(session)
+  if (!session || !actor) return { ok: false, status: 401, error: "Unauthorized" }
+
+  const appraisal = await prisma.appraisal.findUnique({
+    where: { id: appraisalId },
+    select: { faculty: { select: policyUserSelect } },
   })
+  if (!appraisal) return { ok: false, status: 404, error: "Appraisal not found" }
 
-  if (!user) return null
-
-  return {
-    id: user.id.toString(),
-    role: user.role,
-    departmentId: user.departmentId?.toString(),
-    collegeId: user.department?.collegeId?.toString(),
-  }
-}
-
-export function canAccessAdminFeatures(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN
-}
-
-export function canAccessDeanFeatures(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN || user.role === UserRole.DEAN
-}
-
-export function canAccessHodFeatures(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN || user.role === UserRole.DEAN || user.role === UserRole.HOD
-}
-
-export function canAccessInstructorFeatures(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN ||
-         user.role === UserRole.DEAN ||
-         user.role === UserRole.HOD ||
-         user.role === UserRole.INSTRUCTOR
-}
-
-export function canManageUsers(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN
-}
-
-export function canManageColleges(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN
+  const owner = toPolicyUser(appraisal.faculty)
+  if (!can(actor, action, "appraisal", owner)) return { ok: false, status: 403, error: "Access denied" }
+  return { ok: true, user: session.user, actor, owner }
 }
-
-export function canManageDepartments(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN
-}
-
-export function canManageCycles(user: UserContext): boolean {
-  return user.role === UserRole.ADMIN
-}
-
-export function canViewCollegeAppraisals(user: UserContext, collegeId?: string): boolean {
-  if (user.role === UserRole.ADMIN) return true
-  if (user.role === UserRole.DEAN && user.collegeId === collegeId) return true
-  return false
-}
-
-export function canViewDepartmentAppraisals(user: UserContext, departmentId?: string): boolean {
-  if (user.role === UserRole.ADMIN) return true
-  if (user.role === UserRole.DEAN && user.collegeId) {
-    // Check if department belongs to dean's college
-    return true // We'll check in query
-  }
-  if (user.role === UserRole.HOD && user.departmentId === departmentId) return true
-  return false
-}
-
-export function canEvaluateAppraisal(user: UserContext, appraisal: any): boolean {
-  if (user.role === UserRole.ADMIN) return true
-
-  if (user.role === UserRole.DEAN) {
-    // Can evaluate HOD appraisals in their college
-    return appraisal.faculty.role === UserRole.HOD &&
-           appraisal.faculty.department?.collegeId?.toString() === user.collegeId
-  }
-
-  if (user.role === UserRole.HOD) {
-    // Can evaluate instructor appraisals in their department
-    return appraisal.faculty.role === UserRole.INSTRUCTOR &&
-           appraisal.faculty.departmentId?.toString() === user.departmentId
-  }
-
-  return false
-}
-
-export function canViewOwnAppraisal(user: UserContext, appraisal: any): boolean {
-  return appraisal.facultyId.toString() === user.id
-}
-
-export function canManageOwnAchievements(user: UserContext, appraisal: any): boolean {
-  return appraisal.facultyId.toString() === user.id && user.role === UserRole.INSTRUCTOR
-}
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { UserRole, type Prisma } from '@prisma/client'
+
+/**
+ * سياسة الصلاحيات: لكل دور قواعد على (المورد، الإجراء)، وكل قاعدة نطاقها own | department | college | all
+ * مع تقييد اختياري بدور صاحب المورد (رئيس القسم يقيّم المدرّسين فقط). ما لم تذكره السياسة ممنوع.
+ * الملف نقي (بدون قاعدة بيانات) ليُختبر بـ scripts/permission-matrix.ts؛ التحميل من الجلسة في lib/permissions.ts.
+ */
+
+export type Scope = 'own' | 'department' | 'college' | 'all'
+
+export type Resource =
+  | 'appraisal'     // الاستمارة ومحتواها (الإنجازات، الأدلة، خطة التطوير)
+  | 'appeal'
+  | 'report'        // التقارير والتحليلات ولوحات المتابعة
+  | 'notification'
+  | 'user'
+  | 'organization'  // الكليات والأقسام
+  | 'cycle'
+  | 'grading'       // إعداد الدرجات والمعايير والأدلة الإرشادية
+  | 'settings'
+  | 'audit'
+  | 'emailTemplate'
+  | 'impersonation'
+
+/** review: مراحل سير العمل والبت في التظلّم؛ evaluate: إدخال درجات التقييم */
+export type Action = 'read' | 'create' | 'update' | 'delete' | 'review' | 'evaluate'
+
+export interface Rule {
+  scope: Scope
+  /** تنطبق القاعدة فقط إذا كان صاحب المورد بأحد هذه الأدوار */
+  ownerRoles?: UserRole[]
+}
+
+export type Policy = Partial<Record<Resource, Partial<Record<Action, Rule[]>>>>
+
+/** المنفّذ أو صاحب المورد؛ collegeId = كلية المستخدم المباشرة (العميد) وإلا كلية قسمه */
+export interface PolicyUser {
+  id: number
+  role: UserRole
+  departmentId: number | null
+  collegeId: number | null
+}
+
+const OWN: Rule[] = [{ scope: 'own' }]
+const ALL: Rule[] = [{ scope: 'all' }]
+const FULL = { read: ALL, create: ALL, update: ALL, delete: ALL }
+
+export const POLICY: Record<UserRole, Policy> = {
+  ADMIN: {
+    appraisal: { read: ALL, update: ALL, delete: ALL, review: ALL, evaluate: ALL },
+    appeal: { read: ALL, review: ALL },
+    report: { read: ALL },
+    notification: { read: OWN, update: OWN },
+    user: FULL,
+    organization: FULL,
+    cycle: FULL,
+    grading: { read: ALL, update: ALL },
+    settings: { read: ALL, update: ALL },
+    audit: { read: ALL },
+    emailTemplate: { read: ALL, update: ALL },
+    impersonation: { create: ALL },
+  },
+  DEAN: {
+    appraisal: {
+      read: [{ scope: 'own' }, { scope: 'college' }],
+      create: OWN,
+      update: OWN,
+      // العميد يعتمد تقييمات الكلية، لكنه يُدخل درجات رؤساء الأقسام فقط (المدرّسون يقيّمهم رئيس القسم)
+      review: [{ scope: 'college', ownerRoles: [UserRole.HOD, UserRole.INSTRUCTOR] }],
+      evaluate: [{ scope: 'college', ownerRoles: [UserRole.HOD] }],
+    },
+    appeal: {
+      read: [{ scope: 'own' }, { scope: 'college' }],
+      review: [{ scope: 'college', ownerRoles: [UserRole.HOD, UserRole.INSTRUCTOR] }],
+    },
+    report: { read: [{ scope: 'own' }, { scope: 'college' }] },
+    notification: { read: OWN, update: OWN },
+    cycle: { read: ALL },
+    grading: { read: ALL },
+  },
+  HOD: {
+    appraisal: {
+      read: [{ scope: 'own' }, { scope: 'department' }],
+      create: OWN,
+      update: OWN,
+      review: [{ scope: 'department', ownerRoles: [UserRole.INSTRUCTOR] }],
+      evaluate: [{ scope: 'department', ownerRoles: [UserRole.INSTRUCTOR] }],
+    },
+    appeal: {
+      read: [{ scope: 'own' }, { scope: 'department' }],
+      create: OWN,
+      review: [{ scope: 'department', ownerRoles: [UserRole.INSTRUCTOR] }],
+    },
+    report: { read: [{ scope: 'own' }, { scope: 'department' }] },
+    notification: { read: OWN, update: OWN },
+    cycle: { read: ALL },
+    grading: { read: ALL },
+  },
+  INSTRUCTOR: {
+    appraisal: { read: OWN, create: OWN, update: OWN },
+    appeal: { read: OWN, create: OWN },
+    report: { read: OWN },
+    notification: { read: OWN, update: OWN },
+    cycle: { read: ALL },
+    grading: { read: ALL },
+  },
+}
+
+export function rulesFor(role: UserRole, action: Action, resource: Resource): Rule[] {
+  return POLICY[role]?.[resource]?.[action] ?? []
+}
+
+/** من سجل User (مع قسمه) إلى الشكل الذي تفحصه السياسة */
+export function toPolicyUser(user: {
+  id: number | string
+  role: UserRole
+  departmentId?: number | null
+  collegeId?: number | null
+  department?: { collegeId: number } | null
+}): PolicyUser {
+  return {
+    id: Number(user.id),
+    role: user.role,
+    departmentId: user.departmentId ?? null,
+    collegeId: user.collegeId ?? user.department?.collegeId ?? null,
+  }
+}
+
+function ruleMatches(actor: PolicyUser, rule: Rule, owner: PolicyUser): boolean {
+  if (rule.ownerRoles && !rule.ownerRoles.includes(owner.role)) return false
+  switch (rule.scope) {
+    case 'all':
+      return true
+    case 'own':
+      return owner.id === actor.id
+    case 'department':
+      return actor.departmentId != null && owner.departmentId === actor.departmentId
+    case 'college':
+      return actor.collegeId != null && owner.collegeId === actor.collegeId
+  }
+}
+
+/**
+ * هل يملك المنفّذ الإجراء؟ مع owner: تجاه مورد هذا المستخدم تحديداً؛
+ * بدونه: هل يملك الدور أي قاعدة له (للموارد غير المملوكة والقوائم التي تُرشّح بـ ownerWhere).
+ */
+export function can(actor: PolicyUser, action: Action, resource: Resource, owner?: PolicyUser): boolean {
+  const rules = rulesFor(actor.role, action, resource)
+  if (!owner) return rules.length > 0
+  return rules.some((rule) => ruleMatches(actor, rule, owner))
+}
+
+function ruleWhere(actor: PolicyUser, rule: Rule): Prisma.UserWhereInput | null {
+  const roles: Prisma.UserWhereInput = rule.ownerRoles ? { role: { in: rule.ownerRoles } } : {}
+  switch (rule.scope) {
+    case 'all':
+      return roles
+    case 'own':
+      return { id: actor.id, ...roles }
+    case 'department':
+      return actor.departmentId == null ? null : { departmentId: actor.departmentId, ...roles }
+    case 'college':
+      // نفس ترتيب toPolicyUser: كلية المستخدم المباشرة أولاً ثم كلية قسمه
+      return actor.collegeId == null
+        ? null
+        : {
+            OR: [{ collegeId: actor.collegeId }, { collegeId: null, department: { collegeId: actor.collegeId } }],
+            ...roles,
+          }
+  }
+}
+
+/** شرط Prisma على صاحب المورد يطابق can()؛ null = لا شيء ضمن النطاق */
+export function ownerWhere(actor: PolicyUser, action: Action, resource: Resource): Prisma.UserWhereInput | null {
+  const clauses = rulesFor(actor.role, action, resource)
+    .map((rule) => ruleWhere(actor, rule))
+    .filter((clause): clause is Prisma.UserWhereInput => clause !== null)
+  if (!clauses.length) return null
+  if (clauses.some((clause) => Object.keys(clause).length === 0)) return {}
+  return clauses.length === 1 ? clauses[0] : { OR: clauses }
+}
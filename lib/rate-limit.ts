@@ -0,0 +1,34 @@
+import { prisma } from '@/lib/prisma'
+import { createHash } from 'crypto'
+
+/**
+ * تحديد المعدل بنافذة منزلقة محفوظة في RateLimitEvent، حتى يعمل عبر أكثر من نسخة من الخادم.
+ * كل استدعاء مسموح يُسجَّل كحدث؛ الأحداث الأقدم من النافذة تُحذف لنفس المفتاح.
+ */
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSeconds: number }
+
+export async function rateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const now = Date.now()
+  const since = new Date(now - windowMs)
+
+  await prisma.rateLimitEvent.deleteMany({ where: { key, createdAt: { lt: since } } })
+  const recent = await prisma.rateLimitEvent.findMany({
+    where: { key, createdAt: { gte: since } },
+    orderBy: { createdAt: 'asc' },
+    select: { createdAt: true },
+    take: limit,
+  })
+  if (recent.length >= limit) {
+    const retryAt = recent[0].createdAt.getTime() + windowMs
+    return { ok: false, retryAfterSeconds: Math.max(1, Math.ceil((retryAt - now) / 1000)) }
+  }
+
+  await prisma.rateLimitEvent.create({ data: { key } })
+  return { ok: true }
+}
+
+/** مفتاح لا يخزّن القيمة نفسها (مثل البريد) في قاعدة البيانات */
+export function rateLimitKey(scope: string, value: string): string {
+  return `${scope}:${createHash('sha256').update(value.trim().toLowerCase()).digest('hex').slice(0, 32)}`
+}
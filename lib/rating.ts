@@ -43,18 +43,6 @@ export function toRatingBand(ui: UiBand): RatingBand {
   }
 }
 
-export const S1_POINTS = {
-  research:          { HIGH:30, EXCEEDS:24, MEETS:18, PARTIAL:12, NEEDS:6  } as Record<UiBand,number>,
-  universityService: { HIGH:20, EXCEEDS:16, MEETS:12, PARTIAL: 8, NEEDS:4  } as Record<UiBand,number>,
-  communityService:  { HIGH:20, EXCEEDS:16, MEETS:12, PARTIAL: 8, NEEDS:4  } as Record<UiBand,number>,
-  teachingQuality:   { HIGH:30, EXCEEDS:24, MEETS:18, PARTIAL:12, NEEDS:6  } as Record<UiBand,number>,
-}
-
-export function s1PointsFor(criterion: 'research'|'universityService'|'communityService'|'teaching'|'teachingQuality', band: UiBand) {
-  const key = criterion === 'teaching' ? 'teachingQuality' : criterion
-  return (S1_POINTS as any)[key][band]
-}
-
 /** من مجموع القدرات (0-100) إلى UI band */
 export function capabilitiesBandFromTotal(total: number): UiBand {
   if (total >= 90) return 'HIGH'
@@ -2,7 +2,7 @@ import { prisma } from '@/lib/prisma'
 
 /**
  * يعيد احتساب totalScore = Section1(أربع بنود) + Section2(capabilities.total من rubric JSON)
- * ويُحدّث Appraisal.totalScore. إن كانت الحالة NEW يُحوّلها إلى IN_REVIEW.
+ * ويُحدّث Appraisal.totalScore. لا يغيّر الحالة: الانتقالات تمر عبر lib/workflow.ts.
  * ملاحظة: نحسب من تقييم الدور الذي قام بالحفظ (HOD أو DEAN).
  */
 export async function recalcTotal(appraisalId: number, role: 'HOD'|'DEAN') {
@@ -25,14 +25,8 @@ export async function recalcTotal(appraisalId: number, role: 'HOD'|'DEAN') {
 
   const total = section1 + capTotal
 
-  const app = await prisma.appraisal.findUnique({ where: { id: appraisalId } })
-  if (!app) return
-
   await prisma.appraisal.update({
     where: { id: appraisalId },
-    data: {
-      totalScore: total,
-      status: app.status === 'new' ? 'sent' : app.status
-    }
+    data: { totalScore: total }
   })
 }
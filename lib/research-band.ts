@@ -0,0 +1,233 @@
+import type { ResearchActivity, ScientificActivity } from '@prisma/client'
+import type { UiBand } from '@/lib/rating'
+
+/**
+ * اقتراح مستوى البحث (Section 1) من الأنشطة المسجّلة بدل اختياره يدوياً.
+ * القواعد تتبع performanceRubric في lib/performance-rubrics.ts بالترتيب (الكتب غير مسجّلة كنوع مستقل فلا قاعدة لها)،
+ * وأول قاعدة تتحقق من الأعلى للأدنى هي الاقتراح. المقيّم يستطيع تجاوزه بمبرر.
+ * البحث والمشروع والبراءة بمشاركة ثانوية (مؤلف مشارك، عضو فريق…) يُحتسب نصف عنصر (CONTRIBUTOR_WEIGHT).
+ */
+
+type ResearchRow = Pick<ResearchActivity, 'id' | 'title' | 'kind' | 'type' | 'participation'>
+type ScientificRow = Pick<ScientificActivity, 'id' | 'title' | 'type' | 'participation'>
+
+export type ResearchItemCategory =
+  | 'paper'        // بحث منشور/مقبول في مجلة
+  | 'contract'     // مشروع تعاقدي أو ممول
+  | 'patent'       // براءة اختراع مسجلة
+  | 'review'       // تحكيم بحث
+  | 'speaker'      // متحدث في مؤتمر
+  | 'conference'   // مشاركة في مؤتمر
+  | 'article'      // نشر محلي أو مقالات تثقيفية
+
+export interface MatchedItem {
+  source: 'research' | 'scientific'
+  id: number
+  title: string
+  category: ResearchItemCategory
+  detail: string
+  /** 1، أو CONTRIBUTOR_WEIGHT للمشاركة الثانوية */
+  weight: number
+}
+
+export interface ResearchBandSuggestion {
+  band: UiBand
+  rule: string
+  items: MatchedItem[]
+  /** كل العناصر المصنّفة، لعرضها بجانب القاعدة */
+  considered: MatchedItem[]
+}
+
+const describe = (...parts: (string | null | undefined)[]) => parts.filter(Boolean).join(' · ')
+
+export const CONTRIBUTOR_WEIGHT = 0.5
+
+// الفئات التي يتقاسمها المشاركون؛ التحكيم والمؤتمرات والمقالات فردية أو مصنّفة بنوع المشاركة أصلاً
+const SHARED_CATEGORIES: ResearchItemCategory[] = ['paper', 'contract', 'patent']
+
+// participation نص حر (MAIN_AUTHOR/CO_AUTHOR…)؛ ما لا يطابق يُعامل كمشاركة رئيسية
+const CONTRIBUTOR_PATTERN = /\bco[-_\s]?(author|investigator|inventor|researcher)|contributor|member|participant/i
+
+function participationWeight(category: ResearchItemCategory, participation: string | null): number {
+  if (!SHARED_CATEGORIES.includes(category) || !participation) return 1
+  return CONTRIBUTOR_PATTERN.test(participation) ? CONTRIBUTOR_WEIGHT : 1
+}
+
+function classifyResearch(r: ResearchRow): ResearchItemCategory | null {
+  switch (r.kind) {
+    case 'PUBLISHED':
+    case 'ACCEPTED':
+      if (r.type === 'JOURNAL') return 'paper'
+      if (r.type === 'CONFERENCE') return 'conference'
+      return 'article'
+    case 'CONTRACTUAL_RESEARCH':
+    case 'FUNDED_PROJECT':
+      return 'contract'
+    case 'REGISTERED_PATENT':
+      return 'patent'
+    case 'ARBITRATION':
+    case 'REFEREED_PAPER':
+      return 'review'
+    default:
+      // IN_PROCESS / THESIS_SUPERVISION / OTHER لا تُحتسب في سلم البحث
+      return null
+  }
+}
+
+function classifyScientific(s: ScientificRow): ResearchItemCategory | null {
+  if (s.type !== 'CONFERENCE') return null
+  return s.participation === 'PRESENTER' || s.participation === 'PAPER' ? 'speaker' : 'conference'
+}
+
+export function classifyResearchItems(research: ResearchRow[], scientific: ScientificRow[]): MatchedItem[] {
+  const items: MatchedItem[] = []
+  for (const r of research) {
+    const category = classifyResearch(r)
+    if (category) {
+      const weight = participationWeight(category, r.participation)
+      items.push({
+        source: 'research',
+        id: r.id,
+        title: r.title,
+        category,
+        detail: describe(r.kind, r.type, r.participation, weight < 1 ? 'counts as half' : null),
+        weight,
+      })
+    }
+  }
+  for (const s of scientific) {
+    const category = classifyScientific(s)
+    if (category) {
+      items.push({ source: 'scientific', id: s.id, title: s.title, category, detail: describe(s.type, s.participation), weight: 1 })
+    }
+  }
+  return items
+}
+
+type Pool = Record<ResearchItemCategory, MatchedItem[]>
+
+interface Rule {
+  band: UiBand
+  label: string
+  /** يعيد العناصر التي حققت القاعدة أو null */
+  match: (pool: Pool) => MatchedItem[] | null
+}
+
+// أقل عدد من عناصر الفئة (الأثقل أولاً) مجموع أوزانها n على الأقل، أو null
+function take(items: MatchedItem[], n: number): MatchedItem[] | null {
+  const picked: MatchedItem[] = []
+  let total = 0
+  for (const item of items) {
+    if (total >= n) break
+    picked.push(item)
+    total += item.weight
+  }
+  return total >= n ? picked : null
+}
+
+// n عناصر على الأقل من فئة واحدة
+const atLeast = (category: ResearchItemCategory, n: number) => (pool: Pool) => take(pool[category], n)
+
+// تركيبة: عدد مطلوب من كل فئة، دون استخدام العنصر نفسه مرتين
+const combination = (needs: Partial<Record<ResearchItemCategory, number>>) => (pool: Pool) => {
+  const picked: MatchedItem[] = []
+  for (const [category, n] of Object.entries(needs) as [ResearchItemCategory, number][]) {
+    const items = take(pool[category], n)
+    if (!items) return null
+    picked.push(...items)
+  }
+  return picked
+}
+
+const MEETS_RULES: Rule[] = [
+  { band: 'MEETS', label: 'An international research paper', match: atLeast('paper', 1) },
+  { band: 'MEETS', label: 'A contract project', match: atLeast('contract', 1) },
+  { band: 'MEETS', label: 'Reviewing 2+ international research papers', match: atLeast('review', 2) },
+  { band: 'MEETS', label: 'Speaker at an international conference', match: atLeast('speaker', 1) },
+  { band: 'MEETS', label: 'Registration of a patent', match: atLeast('patent', 1) },
+]
+
+const EXCEEDS_RULES: Rule[] = [
+  { band: 'EXCEEDS', label: '2 international research papers', match: atLeast('paper', 2) },
+  { band: 'EXCEEDS', label: '2 contract projects', match: atLeast('contract', 2) },
+  { band: 'EXCEEDS', label: 'An international paper + a contract project', match: combination({ paper: 1, contract: 1 }) },
+  { band: 'EXCEEDS', label: 'An international paper + reviewing an international paper', match: combination({ paper: 1, review: 1 }) },
+  { band: 'EXCEEDS', label: 'An international paper + speaker at an international conference', match: combination({ paper: 1, speaker: 1 }) },
+  { band: 'EXCEEDS', label: 'Registration of one or more patents', match: atLeast('patent', 1) },
+]
+
+// لا يوجد حقل يميّز البراءة المسجلة دولياً، لذا تُقترح البراءات عند Exceeds ويرفعها المقيّم عند الحاجة
+const HIGH_RULES: Rule[] = [
+  { band: 'HIGH', label: '3+ international research papers', match: atLeast('paper', 3) },
+  { band: 'HIGH', label: '3+ contract projects', match: atLeast('contract', 3) },
+  {
+    band: 'HIGH',
+    label: '2 international papers + a contract project + reviewing an international paper',
+    match: combination({ paper: 2, contract: 1, review: 1 }),
+  },
+]
+
+const PARTIAL_RULES: Rule[] = [
+  // لا يبلغ نصف العنصر قاعدة Meets وحده، لكنه لا ينزل بصاحبه إلى Needs
+  { band: 'PARTIAL', label: 'A co-authored international paper, contract project or patent', match: (pool) => {
+      const items = SHARED_CATEGORIES.flatMap(category => pool[category])
+      return items.length ? items.slice(0, 1) : null
+    },
+  },
+  { band: 'PARTIAL', label: 'Local journal publication or informative articles', match: atLeast('article', 1) },
+  { band: 'PARTIAL', label: 'Participation in one or more conferences', match: (pool) => {
+      const items = [...pool.conference, ...pool.speaker]
+      return items.length ? items.slice(0, 1) : null
+    },
+  },
+]
+
+// "3 items from the lower column": ثلاث قواعد مختلفة من المستوى الأدنى بعناصر غير متكررة
+function threeFrom(rules: Rule[], pool: Pool): MatchedItem[] | null {
+  const used = new Set<string>()
+  const picked: MatchedItem[] = []
+  let count = 0
+  for (const rule of rules) {
+    const items = rule.match(pool)
+    if (!items || items.some(i => used.has(`${i.source}:${i.id}`))) continue
+    items.forEach(i => used.add(`${i.source}:${i.id}`))
+    picked.push(...items)
+    if (++count === 3) return picked
+  }
+  return null
+}
+
+export function suggestResearchBand(research: ResearchRow[], scientific: ScientificRow[]): ResearchBandSuggestion {
+  const considered = classifyResearchItems(research, scientific)
+  const pool: Pool = { paper: [], contract: [], patent: [], review: [], speaker: [], conference: [], article: [] }
+  // المشاركة الرئيسية أولاً حتى تُستهلك قبل النصفية
+  for (const item of [...considered].sort((a, b) => b.weight - a.weight)) pool[item.category].push(item)
+
+  const ordered: Rule[] = [
+    ...HIGH_RULES,
+    { band: 'HIGH', label: '3 items from the "Exceeds expectations" column', match: (p) => threeFrom(EXCEEDS_RULES, p) },
+    ...EXCEEDS_RULES,
+    { band: 'EXCEEDS', label: '3 items from the "Fully meets expectations" column', match: (p) => threeFrom(MEETS_RULES, p) },
+    ...MEETS_RULES,
+    ...PARTIAL_RULES,
+  ]
+
+  for (const rule of ordered) {
+    const items = rule.match(pool)
+    if (items) return { band: rule.band, rule: rule.label, items, considered }
+  }
+
+  return {
+    band: 'NEEDS',
+    rule: 'No accomplishments as per "Partially meets expectations"',
+    items: [],
+    considered,
+  }
+}
+
+/** نص الشرح الذي يُحفظ مع التقييم */
+export function buildResearchSuggestionExplanation(s: ResearchBandSuggestion): string {
+  const lines = [`Suggested by rule: ${s.rule}`]
+  for (const item of s.items) lines.push(`${item.title} (${item.detail})`)
+  return lines.join('\n')
+}
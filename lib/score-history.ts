@@ -0,0 +1,167 @@
+import { prisma } from '@/lib/prisma'
+import type { Evaluation, EvaluationRole, Prisma } from '@prisma/client'
+import type { Criterion } from '@/lib/grading'
+
+/**
+ * درجات بنود Section 1: القيمة المحسوبة والقيمة المتجاوزة يدوياً تُحفظان منفصلتين،
+ * و xxxPts هي النهائية دائماً (التجاوز إن وُجد وإلا المحسوبة). كل تغيير يُسجَّل في ScoreHistory.
+ * أي مسار يكتب هذه الدرجات يمر من هنا بدل الكتابة المباشرة على Evaluation.
+ */
+
+export const PILLARS = ['research', 'universityService', 'communityService', 'teachingQuality'] as const
+export type Pillar = typeof PILLARS[number]
+
+export const PILLAR_LABELS: Record<Pillar, string> = {
+  research: 'Research',
+  universityService: 'University Service',
+  communityService: 'Community Service',
+  teachingQuality: 'Teaching Quality',
+}
+
+export function pillarFromCriterion(criterion: Criterion): Pillar {
+  return criterion === 'teaching' ? 'teachingQuality' : criterion
+}
+
+export function criterionFromPillar(pillar: Pillar): Criterion {
+  return pillar === 'teachingQuality' ? 'teaching' : pillar
+}
+
+const fieldsFor = (pillar: Pillar) => ({
+  pts: `${pillar}Pts`,
+  computed: `${pillar}ComputedPts`,
+  override: `${pillar}OverridePts`,
+  overriddenBy: `${pillar}OverriddenById`,
+  reason: `${pillar}OverrideReason`,
+}) as const
+
+const read = (ev: Evaluation | null, key: string): number | null =>
+  ev ? ((ev as unknown as Record<string, number | null>)[key] ?? null) : null
+
+export interface SaveComputedInput {
+  appraisalId: number
+  role: EvaluationRole
+  actorId: number | null
+  scores: Partial<Record<Pillar, number>>
+  /** حقول أخرى تُحفظ مع الدرجات (Band / Explanation / notes / rubric) */
+  extra?: Record<string, unknown>
+}
+
+/** يحفظ الدرجات المحسوبة؛ التجاوز القائم يبقى هو النهائي حتى يُلغى صراحة */
+export async function saveComputedScores(input: SaveComputedInput) {
+  const { appraisalId, role, actorId, scores, extra = {} } = input
+
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.evaluation.findUnique({ where: { appraisalId_role: { appraisalId, role } } })
+
+    const data: Record<string, unknown> = { ...extra }
+    const changes: Omit<Prisma.ScoreHistoryCreateManyInput, 'evaluationId'>[] = []
+    for (const pillar of PILLARS) {
+      const value = scores[pillar]
+      if (value === undefined) continue
+      const f = fieldsFor(pillar)
+      const final = read(before, f.override) ?? value
+      data[f.computed] = value
+      data[f.pts] = final
+
+      if (read(before, f.computed) !== value || read(before, f.pts) !== final) {
+        changes.push({
+          pillar,
+          source: 'COMPUTED',
+          previousPts: read(before, f.pts),
+          newPts: final,
+          computedPts: value,
+          changedById: actorId,
+        })
+      }
+    }
+
+    const after = await tx.evaluation.upsert({
+      where: { appraisalId_role: { appraisalId, role } },
+      update: data as Prisma.EvaluationUncheckedUpdateInput,
+      create: { appraisalId, role, ...data } as Prisma.EvaluationUncheckedCreateInput,
+    })
+    if (changes.length) {
+      await tx.scoreHistory.createMany({ data: changes.map(c => ({ ...c, evaluationId: after.id })) })
+    }
+    return { before, after }
+  })
+}
+
+export interface OverrideInput {
+  appraisalId: number
+  role: EvaluationRole
+  actorId: number
+  pillar: Pillar
+  /** null يلغي التجاوز ويعيد المحسوبة */
+  points: number | null
+  reason?: string | null
+}
+
+export type OverrideResult =
+  | { ok: true; before: Evaluation; after: Evaluation }
+  | { ok: false; status: number; error: string }
+
+export async function overrideScore(input: OverrideInput): Promise<OverrideResult> {
+  const { appraisalId, role, actorId, pillar, points } = input
+  const reason = input.reason?.trim() || null
+  const f = fieldsFor(pillar)
+
+  const before = await prisma.evaluation.findUnique({ where: { appraisalId_role: { appraisalId, role } } })
+  if (!before) return { ok: false, status: 404, error: 'No evaluation to override yet' }
+
+  const computed = read(before, f.computed)
+  let data: Record<string, unknown>
+  let source: 'OVERRIDE' | 'OVERRIDE_CLEARED'
+  if (points !== null) {
+    if (!reason) return { ok: false, status: 400, error: 'A reason is required to override a score' }
+    data = { [f.override]: points, [f.overriddenBy]: actorId, [f.reason]: reason, [f.pts]: points }
+    source = 'OVERRIDE'
+  } else {
+    if (read(before, f.override) === null) return { ok: false, status: 400, error: 'This score is not overridden' }
+    data = { [f.override]: null, [f.overriddenBy]: null, [f.reason]: null, [f.pts]: computed }
+    source = 'OVERRIDE_CLEARED'
+  }
+
+  const after = await prisma.$transaction(async (tx) => {
+    const updated = await tx.evaluation.update({
+      where: { id: before.id },
+      data: data as Prisma.EvaluationUncheckedUpdateInput,
+    })
+    await tx.scoreHistory.create({
+      data: {
+        evaluationId: before.id,
+        pillar,
+        source,
+        previousPts: read(before, f.pts),
+        newPts: read(updated, f.pts),
+        computedPts: computed,
+        reason,
+        changedById: actorId,
+      },
+    })
+    return updated
+  })
+
+  return { ok: true, before, after }
+}
+
+/** المحسوبة مقابل النهائية لكل بند (للعرض في صفحات المراجعة) */
+export function scoreDiff(ev: Evaluation | null) {
+  return PILLARS.map(pillar => {
+    const f = fieldsFor(pillar)
+    const computed = read(ev, f.computed)
+    const final = read(ev, f.pts)
+    return {
+      pillar,
+      label: PILLAR_LABELS[pillar],
+      computed,
+      override: read(ev, f.override),
+      final,
+      delta: computed !== null && final !== null ? Math.round((final - computed) * 100) / 100 : null,
+      overriddenById: read(ev, f.overriddenBy),
+      reason: ev ? ((ev as unknown as Record<string, string | null>)[f.reason] ?? null) : null,
+    }
+  })
+}
+
+export type ScoreDiffRow = ReturnType<typeof scoreDiff>[number]
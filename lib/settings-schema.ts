@@ -0,0 +1,148 @@
+import { z } from 'zod'
+
+/**
+ * مخطط إعدادات النظام والقيم الافتراضية. لا يعتمد على prisma حتى تستخدمه صفحات العميل أيضاً،
+ * أما القراءة والحفظ فهي في lib/settings.ts.
+ */
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+export const brandingSchema = z.object({
+  name: z.string().trim().min(1, 'System name is required').max(100),
+  // رابط كامل أو مسار داخل public/
+  logo: z.union([z.literal(''), z.string().trim().url(), z.string().trim().regex(/^\/[^\s]*$/, 'Logo must be a URL or a path starting with /')]),
+  primaryColor: z.string().regex(HEX_COLOR, 'Primary color must be a hex color like #007bff'),
+})
+
+export const emailSettingsSchema = z.object({
+  fromName: z.string().trim().max(100),
+  // فارغ = FROM_EMAIL من البيئة
+  fromAddress: z.union([z.literal(''), z.string().trim().email('From address must be a valid email')]),
+})
+
+// المشغّلات في lib/storage.ts؛ الحاوية = bucket في S3/GCS، ومجلد أو بادئة في Local/VercelBlob
+export const STORAGE_PROVIDERS = ['Local', 'S3', 'GCS', 'VercelBlob'] as const
+export type StorageProvider = (typeof STORAGE_PROVIDERS)[number]
+
+export const storageSchema = z.object({
+  provider: z.enum(STORAGE_PROVIDERS),
+  baseBucket: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/, 'Bucket must be 3-63 lowercase letters, digits, dots or dashes'),
+  // بالميغابايت؛ الحصص تُحسب من أحجام الأدلة المحفوظة، و0 = بلا حد
+  maxFileSizeMb: z.number().int().min(1).max(100),
+  appraisalQuotaMb: z.number().int().min(0).max(100_000),
+  userQuotaMb: z.number().int().min(0).max(100_000),
+})
+
+export const PASSWORD_POLICIES = ['min8chars', 'strong'] as const
+export type PasswordPolicy = (typeof PASSWORD_POLICIES)[number]
+
+// نفس قيم UserRole، كنصوص حتى يبقى الملف صالحاً لمكونات العميل
+export const ROLES = ['ADMIN', 'DEAN', 'HOD', 'INSTRUCTOR'] as const
+
+export const LOGIN_METHODS = ['credentials', 'sso', 'both'] as const
+export type LoginMethod = (typeof LOGIN_METHODS)[number]
+
+export const securitySchema = z.object({
+  passwordPolicy: z.enum(PASSWORD_POLICIES),
+  // بالدقائق: من 5 دقائق إلى 30 يوماً (الحد الأقصى الافتراضي لـ NextAuth)
+  sessionLifetime: z.number().int().min(5).max(30 * 24 * 60),
+  // قفل الحساب مؤقتاً بعد هذا العدد من المحاولات الفاشلة المتتالية
+  maxLoginAttempts: z.number().int().min(3).max(20),
+  lockoutMinutes: z.number().int().min(1).max(24 * 60),
+  // يسمح لأي مستخدم بتفعيل التحقق بخطوتين من صفحة الحساب
+  enable2FA: z.boolean(),
+  // أدوار يُفرض عليها التحقق بخطوتين عند الدخول (تسجيل إجباري لمن لم يفعّله)
+  require2FARoles: z.array(z.enum(ROLES)),
+  // طرق الدخول (lib/sso.ts)؛ في وضع sso يبقى الدخول بكلمة المرور للمدير فقط
+  loginMethod: z.enum(LOGIN_METHODS),
+  // إنشاء حساب تلقائياً عند أول دخول SSO لبريد غير مسجّل
+  ssoAutoProvision: z.boolean(),
+  ssoDefaultRole: z.enum(['INSTRUCTOR', 'HOD', 'DEAN']),
+})
+
+export const featureFlagsSchema = z.object({
+  impersonation: z.boolean(),
+  forceStatus: z.boolean(),
+})
+
+export const SETTINGS_SCHEMAS = {
+  branding: brandingSchema,
+  email: emailSettingsSchema,
+  storage: storageSchema,
+  security: securitySchema,
+  features: featureFlagsSchema,
+}
+
+export type SettingsSection = keyof typeof SETTINGS_SCHEMAS
+export const SETTINGS_SECTIONS = Object.keys(SETTINGS_SCHEMAS) as SettingsSection[]
+
+export type SystemSettings = { [S in SettingsSection]: z.infer<(typeof SETTINGS_SCHEMAS)[S]> }
+export type BrandingSettings = SystemSettings['branding']
+export type FeatureFlag = keyof SystemSettings['features']
+
+export const DEFAULT_SETTINGS: SystemSettings = {
+  branding: { name: 'Faculty Appraisal System', logo: '', primaryColor: '#007bff' },
+  email: { fromName: '', fromAddress: '' },
+  storage: { provider: 'Local', baseBucket: 'faculty-appraisals', maxFileSizeMb: 10, appraisalQuotaMb: 100, userQuotaMb: 500 },
+  security: {
+    passwordPolicy: 'min8chars',
+    sessionLifetime: 480,
+    maxLoginAttempts: 5,
+    lockoutMinutes: 15,
+    enable2FA: false,
+    require2FARoles: [],
+    loginMethod: 'credentials',
+    ssoAutoProvision: false,
+    ssoDefaultRole: 'INSTRUCTOR',
+  },
+  features: { impersonation: false, forceStatus: false },
+}
+
+export function isSettingsSection(value: string): value is SettingsSection {
+  return (SETTINGS_SECTIONS as string[]).includes(value)
+}
+
+export const LOGIN_METHOD_LABELS: Record<LoginMethod, string> = {
+  credentials: 'Email and password only',
+  sso: 'Single sign-on only (admins keep password sign-in)',
+  both: 'Single sign-on and email/password',
+}
+
+export const PASSWORD_POLICY_LABELS: Record<PasswordPolicy, string> = {
+  min8chars: 'Minimum 8 characters',
+  strong: 'Strong (uppercase, lowercase, number, symbol)',
+}
+
+/** يعيد سبب رفض كلمة المرور حسب السياسة، أو null إذا كانت مقبولة */
+export function passwordPolicyError(password: string, policy: PasswordPolicy): string | null {
+  if (password.length < 8) return 'Password must be at least 8 characters'
+  if (policy === 'strong') {
+    const missing = [
+      !/[a-z]/.test(password) && 'a lowercase letter',
+      !/[A-Z]/.test(password) && 'an uppercase letter',
+      !/[0-9]/.test(password) && 'a number',
+      !/[^A-Za-z0-9]/.test(password) && 'a symbol',
+    ].filter(Boolean)
+    if (missing.length) return `Password must contain ${missing.join(', ')}`
+  }
+  return null
+}
+
+const PASSWORD_CHARSETS = ['abcdefghijkmnpqrstuvwxyz', 'ABCDEFGHJKLMNPQRSTUVWXYZ', '23456789', '!@#$%*?-']
+
+/** كلمة مرور مؤقتة تحقق السياسة "strong" (وبالتالي كل السياسات) */
+export function generateTemporaryPassword(length = 14): string {
+  const all = PASSWORD_CHARSETS.join('')
+  const random = (max: number) => crypto.getRandomValues(new Uint32Array(1))[0] % max
+  const chars = PASSWORD_CHARSETS.map(set => set[random(set.length)])
+  while (chars.length < length) chars.push(all[random(all.length)])
+  // خلط Fisher–Yates حتى لا تكون الفئات الإلزامية في البداية دائماً
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = random(i + 1)
+    ;[chars[i], chars[j]] = [chars[j], chars[i]]
+  }
+  return chars.join('')
+}
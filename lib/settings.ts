@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma'
+import type { Prisma } from '@prisma/client'
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_SCHEMAS,
+  SETTINGS_SECTIONS,
+  passwordPolicyError,
+  type FeatureFlag,
+  type SettingsSection,
+  type SystemSettings,
+} from '@/lib/settings-schema'
+
+/**
+ * إعدادات النظام المحفوظة في SystemSetting (صف لكل قسم).
+ * تُقرأ في كل طلب تقريباً (الجلسة، التخطيط)، لذلك تُخزَّن مؤقتاً لفترة قصيرة وتُمسح عند الحفظ.
+ * القيمة المحفوظة تُدمج فوق الافتراضية: حقل جديد في المخطط لا يكسر صفاً قديماً.
+ */
+
+const CACHE_MS = 30_000
+
+let cache: { settings: SystemSettings; at: number } | null = null
+
+function parseSection<S extends SettingsSection>(section: S, stored: unknown): SystemSettings[S] {
+  const merged = { ...DEFAULT_SETTINGS[section], ...(stored && typeof stored === 'object' ? stored : {}) }
+  const parsed = SETTINGS_SCHEMAS[section].safeParse(merged)
+  if (!parsed.success) {
+    console.error('Invalid stored settings, using defaults:', section, parsed.error.flatten())
+    return DEFAULT_SETTINGS[section]
+  }
+  return parsed.data as SystemSettings[S]
+}
+
+/** كل الأقسام؛ عند تعذر القراءة تُستخدم القيم الافتراضية حتى لا تتعطل الصفحات */
+export async function getAllSettings(): Promise<SystemSettings> {
+  if (cache && Date.now() - cache.at < CACHE_MS) return cache.settings
+  try {
+    const rows = await prisma.systemSetting.findMany()
+    const byKey = new Map(rows.map(r => [r.key, r.value]))
+    const settings = Object.fromEntries(
+      SETTINGS_SECTIONS.map(section => [section, parseSection(section, byKey.get(section))]),
+    ) as SystemSettings
+    cache = { settings, at: Date.now() }
+    return settings
+  } catch (error) {
+    console.error('Failed to load system settings:', error)
+    return cache?.settings ?? DEFAULT_SETTINGS
+  }
+}
+
+export async function getSettings<S extends SettingsSection>(section: S): Promise<SystemSettings[S]> {
+  return (await getAllSettings())[section]
+}
+
+export type SaveSettingsResult<S extends SettingsSection> =
+  | { ok: true; before: SystemSettings[S]; after: SystemSettings[S] }
+  | { ok: false; status: 400; error: string }
+
+export async function saveSettings<S extends SettingsSection>(
+  section: S,
+  value: unknown,
+  actorId: number | null,
+): Promise<SaveSettingsResult<S>> {
+  const parsed = SETTINGS_SCHEMAS[section].safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { ok: false, status: 400, error: issue ? `${issue.path.join('.') || section}: ${issue.message}` : 'Invalid settings' }
+  }
+
+  cache = null
+  const before = await getSettings(section)
+  const after = parsed.data as SystemSettings[S]
+  const json = after as unknown as Prisma.InputJsonValue
+  await prisma.systemSetting.upsert({
+    where: { key: section },
+    update: { value: json, updatedById: actorId },
+    create: { key: section, value: json, updatedById: actorId },
+  })
+  cache = null
+  return { ok: true, before, after }
+}
+
+export async function isFeatureEnabled(flag: FeatureFlag): Promise<boolean> {
+  return (await getSettings('features'))[flag]
+}
+
+/** يفحص كلمة المرور مقابل السياسة الحالية؛ يعيد سبب الرفض أو null */
+export async function checkPasswordPolicy(password: string): Promise<string | null> {
+  const { passwordPolicy } = await getSettings('security')
+  return passwordPolicyError(password, passwordPolicy)
+}
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { EvaluationStatus, Prisma, SignatureCapacity, type Evaluation } from '@prisma/client'
+import { resolveAppraisalAccess, type WorkflowActor } from '@/lib/workflow'
+
+/**
+ * التوقيع الرقمي على التقييم: كل طرف يوقّع في مرحلته فقط، والتوقيع يحمل بصمة (sha256) لمحتوى التقييمات.
+ * أي تعديل على تقييم عليه توقيع ساري مرفوض حتى يُلغى التوقيع صراحة (revoke) مع ذكر السبب.
+ */
+
+/** المراحل التي يحق لكل طرف التوقيع فيها */
+export const SIGN_STAGES: Record<SignatureCapacity, EvaluationStatus[]> = {
+  HOD: [EvaluationStatus.hod_reviewed],
+  DEAN: [EvaluationStatus.dean_reviewed],
+  FACULTY: [EvaluationStatus.released, EvaluationStatus.complete],
+}
+
+const CAPACITY_FOR_ACTOR: Partial<Record<WorkflowActor, SignatureCapacity>> = {
+  FACULTY: SignatureCapacity.FACULTY,
+  HOD: SignatureCapacity.HOD,
+  DEAN: SignatureCapacity.DEAN,
+}
+
+export const signatureInclude = {
+  signer: { select: { id: true, name: true } },
+  revokedBy: { select: { id: true, name: true } },
+} satisfies Prisma.SignatureInclude
+
+export type SignatureWithPeople = Prisma.SignatureGetPayload<{ include: typeof signatureInclude }>
+
+// حقول لا تُعد جزءاً من المحتوى الموقّع
+const IGNORED_FIELDS = new Set(['id', 'appraisalId', 'startedAt', 'submittedAt', 'createdAt', 'updatedAt'])
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical)
+  if (value instanceof Date) return value.toISOString()
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(k => [k, canonical((value as Record<string, unknown>)[k])]),
+    )
+  }
+  return value ?? null
+}
+
+/** بصمة محتوى تقييمات الاستمارة (HOD/DEAN) بترتيب ثابت */
+export function evaluationContentHash(evaluations: Evaluation[]): string {
+  const content = [...evaluations]
+    .sort((a, b) => a.role.localeCompare(b.role))
+    .map(ev => Object.fromEntries(Object.entries(ev).filter(([k]) => !IGNORED_FIELDS.has(k))))
+  return createHash('sha256').update(JSON.stringify(canonical(content))).digest('hex')
+}
+
+/** سبب منع تعديل التقييم، أو null إذا لم يكن عليه توقيع ساري */
+export async function evaluationLockReason(appraisalId: number): Promise<string | null> {
+  const active = await prisma.signature.findMany({
+    where: { appraisalId, revokedAt: null },
+    select: { capacity: true },
+  })
+  if (!active.length) return null
+  const by = [...new Set(active.map(s => s.capacity))].join(', ')
+  return `This evaluation is signed (${by}). Revoke the signature before editing it.`
+}
+
+export function signableCapacities(status: EvaluationStatus, actors: WorkflowActor[]): SignatureCapacity[] {
+  return actors
+    .map(a => CAPACITY_FOR_ACTOR[a])
+    .filter((c): c is SignatureCapacity => !!c && SIGN_STAGES[c].includes(status))
+}
+
+interface Signer {
+  id: string | number
+  role: Prisma.SignatureCreateInput['signerRole']
+}
+
+export interface SignInput {
+  appraisalId: number
+  user: Signer
+  capacity?: SignatureCapacity
+  /** البصمة التي رآها الموقّع؛ تُرفض إذا تغيّر المحتوى بعد تحميله */
+  contentHash: string
+  note?: string | null
+}
+
+export type SignResult =
+  | { ok: true; signature: SignatureWithPeople }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+export async function signAppraisal(input: SignInput): Promise<SignResult> {
+  const { appraisalId, user } = input
+  const access = await resolveAppraisalAccess(appraisalId, user)
+  if (!access) return { ok: false, status: 404, error: 'Appraisal not found' }
+
+  const { appraisal, actors } = access
+  const mine = actors.map(a => CAPACITY_FOR_ACTOR[a]).filter((c): c is SignatureCapacity => !!c)
+  const capacity = input.capacity ?? mine[0]
+  if (!capacity || !mine.includes(capacity)) {
+    return { ok: false, status: 403, error: 'You are not a signer on this appraisal' }
+  }
+  if (!SIGN_STAGES[capacity].includes(appraisal.status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `${capacity} cannot sign an appraisal in status "${appraisal.status}"`,
+    }
+  }
+
+  const hash = evaluationContentHash(appraisal.evaluations)
+  if (hash !== input.contentHash) {
+    return { ok: false, status: 409, error: 'The evaluation changed since you loaded it. Review it again before signing.' }
+  }
+
+  const existing = await prisma.signature.findFirst({ where: { appraisalId, capacity, revokedAt: null } })
+  if (existing) return { ok: false, status: 409, error: `This appraisal is already signed as ${capacity}` }
+
+  const signature = await prisma.signature.create({
+    data: {
+      appraisalId,
+      signerId: Number(user.id),
+      signerRole: user.role,
+      capacity,
+      appraisalStatus: appraisal.status,
+      contentHash: hash,
+      signedAt: new Date(),
+      note: input.note?.trim() || null,
+    },
+    include: signatureInclude,
+  })
+  return { ok: true, signature }
+}
+
+export type RevokeResult =
+  | { ok: true; before: SignatureWithPeople; signature: SignatureWithPeople }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+/** الموقّع نفسه أو المدير فقط يمكنه إلغاء التوقيع */
+export async function revokeSignature(
+  appraisalId: number,
+  signatureId: number,
+  user: Signer,
+  reason: string,
+): Promise<RevokeResult> {
+  const before = await prisma.signature.findUnique({ where: { id: signatureId }, include: signatureInclude })
+  if (!before || before.appraisalId !== appraisalId) return { ok: false, status: 404, error: 'Signature not found' }
+  if (before.revokedAt) return { ok: false, status: 409, error: 'This signature is already revoked' }
+  if (before.signerId !== Number(user.id) && user.role !== 'ADMIN') {
+    return { ok: false, status: 403, error: 'Only the signer or an administrator can revoke this signature' }
+  }
+
+  const signature = await prisma.signature.update({
+    where: { id: signatureId },
+    data: { revokedAt: new Date(), revokedById: Number(user.id), revokeReason: reason },
+    include: signatureInclude,
+  })
+  return { ok: true, before, signature }
+}
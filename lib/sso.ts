@@ -0,0 +1,111 @@
+import { prisma } from '@/lib/prisma'
+import { UserStatus, type Prisma } from '@prisma/client'
+import type { OAuthConfig } from 'next-auth/providers/oauth'
+import type { User } from 'next-auth'
+import { logAudit } from '@/lib/audit'
+import { getSettings } from '@/lib/settings'
+import { isLocked } from '@/lib/login-security'
+
+/**
+ * الدخول الموحد عبر OIDC (بوابة الجامعة). الاتصال من البيئة: SSO_ISSUER, SSO_CLIENT_ID, SSO_CLIENT_SECRET
+ * (واسم الزر SSO_PROVIDER_NAME)، والسياسة من إعدادات الأمان: loginMethod, ssoAutoProvision, ssoDefaultRole.
+ * الحساب يُطابق بالبريد مع User؛ الحسابات المعطلة والمقفلة مرفوضة كما في دخول كلمة المرور. للتجربة محلياً: scripts/mock-oidc-idp.ts
+ */
+
+export const SSO_PROVIDER_ID = 'sso'
+
+// نفس قاعدة البريد في إضافة المستخدمين والاستيراد الجماعي
+const EMAIL_RE = /^[A-Za-z0-9._%+-]+@uob\.edu$/i
+
+interface OidcClaims {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+  preferred_username?: string
+}
+
+export function ssoConfig() {
+  const { SSO_ISSUER, SSO_CLIENT_ID, SSO_CLIENT_SECRET } = process.env
+  if (!SSO_ISSUER || !SSO_CLIENT_ID || !SSO_CLIENT_SECRET) return null
+  return {
+    issuer: SSO_ISSUER.replace(/\/$/, ''),
+    clientId: SSO_CLIENT_ID,
+    clientSecret: SSO_CLIENT_SECRET,
+    name: process.env.SSO_PROVIDER_NAME || 'University SSO',
+  }
+}
+
+/** مزوّد NextAuth؛ null إذا لم تُضبط متغيرات البيئة */
+export function ssoProvider(): OAuthConfig<OidcClaims> | null {
+  const config = ssoConfig()
+  if (!config) return null
+  return {
+    id: SSO_PROVIDER_ID,
+    name: config.name,
+    type: 'oauth',
+    wellKnown: `${config.issuer}/.well-known/openid-configuration`,
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    authorization: { params: { scope: 'openid email profile' } },
+    idToken: true,
+    checks: ['pkce', 'state'],
+    // الحقول الأخرى تُملأ من User المطابق في callback signIn (lib/auth.ts)
+    profile(profile) {
+      return {
+        id: profile.sub,
+        email: profile.email ?? '',
+        name: profile.name ?? profile.preferred_username ?? profile.email ?? '',
+        role: 'INSTRUCTOR',
+        departmentId: null,
+        departmentName: null,
+        collegeId: null,
+        collegeName: null,
+      }
+    },
+  }
+}
+
+/** رموز الأخطاء تُمرر إلى /auth/signin?error= ويعرضها signin-form */
+export type SsoError = 'SsoEmailMissing' | 'SsoAccountNotFound' | 'SsoAccountDisabled' | 'SsoAccountLocked'
+
+const userInclude = { department: { include: { college: true } } } satisfies Prisma.UserInclude
+
+export type SsoUser = Prisma.UserGetPayload<{ include: typeof userInclude }>
+
+/** يطابق هوية المزوّد مع User بالبريد، أو ينشئه إذا كان الإنشاء التلقائي مفعّلاً */
+export async function resolveSsoUser(
+  user: User,
+  claims: Partial<OidcClaims> | undefined,
+): Promise<{ ok: true; user: SsoUser } | { ok: false; error: SsoError }> {
+  const email = user.email?.trim().toLowerCase()
+  if (!email || claims?.email_verified === false) return { ok: false, error: 'SsoEmailMissing' }
+
+  const existing = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' } },
+    include: userInclude,
+  })
+  if (existing) {
+    if (existing.status !== UserStatus.ACTIVE) return { ok: false, error: 'SsoAccountDisabled' }
+    // القفل (من المدير أو بعد محاولات فاشلة) يسري على SSO أيضاً، ولا يُرفع بدخول ناجح عبر المزوّد
+    if (isLocked(existing)) return { ok: false, error: 'SsoAccountLocked' }
+    return { ok: true, user: existing }
+  }
+
+  const { ssoAutoProvision, ssoDefaultRole } = await getSettings('security')
+  if (!ssoAutoProvision || !EMAIL_RE.test(email)) return { ok: false, error: 'SsoAccountNotFound' }
+
+  // بدون كلمة مرور: الدخول عبر SSO فقط حتى يعيّن المدير كلمة مرور أو يطلب المستخدم استعادتها
+  const created = await prisma.user.create({
+    data: { email, name: user.name || email, role: ssoDefaultRole, status: UserStatus.ACTIVE },
+    include: userInclude,
+  })
+  await logAudit({
+    actor: { id: created.id, email: created.email },
+    action: 'USER_CREATE',
+    target: { type: 'user', id: created.id },
+    after: created,
+    metadata: { via: 'sso', subject: claims?.sub },
+  })
+  return { ok: true, user: created }
+}
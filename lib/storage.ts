@@ -0,0 +1,293 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash, createHmac, randomUUID } from 'crypto'
+import { BlobNotFoundError, del, head, put } from '@vercel/blob'
+import { getSettings } from '@/lib/settings'
+import type { StorageProvider } from '@/lib/settings-schema'
+
+/**
+ * تخزين الملفات عبر مشغّل قابل للتبديل (storage.provider في إعدادات النظام):
+ *   Local      — مجلد على القرص (STORAGE_LOCAL_DIR، الافتراضي uploads)
+ *   S3         — أي خدمة متوافقة مع S3 (S3_ENDPOINT, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)
+ *   GCS        — Google Cloud Storage بواجهة S3 ومفاتيح HMAC (GCS_ACCESS_KEY_ID, GCS_SECRET_ACCESS_KEY)
+ *   VercelBlob — Vercel Blob (BLOB_READ_WRITE_TOKEN)
+ * مفتاح الملف (fileKey) يحمل المشغّل والحاوية: "local:faculty-appraisals/evidence/12/....pdf"،
+ * فتبقى الملفات القديمة مقروءة بعد تغيير الإعدادات؛ الإعدادات تحدد مكان الملفات الجديدة فقط.
+ */
+
+export interface StoredFile {
+  body: Buffer
+  contentType: string
+}
+
+interface StorageDriver {
+  /** يعيد مسار الملف كما حُفظ (قد يضيف المشغّل لاحقة) */
+  put(bucket: string, objectPath: string, body: Buffer, contentType: string): Promise<string>
+  get(bucket: string, objectPath: string): Promise<StoredFile | null>
+  delete(bucket: string, objectPath: string): Promise<void>
+}
+
+const SCHEMES: Record<StorageProvider, string> = {
+  Local: 'local',
+  S3: 's3',
+  GCS: 'gcs',
+  VercelBlob: 'vercelblob',
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+}
+
+/** امتداد ملف لنوع المحتوى (للملفات التي لا تحمل اسماً، مثل روابط data: القديمة) */
+export function extensionFor(contentType: string): string {
+  return Object.keys(CONTENT_TYPES).find((ext) => CONTENT_TYPES[ext] === contentType) ?? 'bin'
+}
+
+function contentTypeFor(objectPath: string): string {
+  return CONTENT_TYPES[path.extname(objectPath).slice(1).toLowerCase()] ?? 'application/octet-stream'
+}
+
+// ---------- Local ----------
+
+function localDriver(): StorageDriver {
+  const root = path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads')
+  const resolve = (bucket: string, objectPath: string) => {
+    const file = path.resolve(root, bucket, objectPath)
+    if (!file.startsWith(root + path.sep)) throw new Error('Invalid storage path')
+    return file
+  }
+  return {
+    async put(bucket, objectPath, body) {
+      const file = resolve(bucket, objectPath)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, body)
+      return objectPath
+    },
+    async get(bucket, objectPath) {
+      try {
+        return { body: await fs.readFile(resolve(bucket, objectPath)), contentType: contentTypeFor(objectPath) }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async delete(bucket, objectPath) {
+      await fs.rm(resolve(bucket, objectPath), { force: true })
+    },
+  }
+}
+
+// ---------- S3 / GCS (توقيع AWS Signature V4 مباشرة دون SDK) ----------
+
+interface S3Config {
+  endpoint: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+}
+
+function s3Config(provider: 'S3' | 'GCS'): S3Config {
+  const env = provider === 'S3'
+    ? {
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      }
+    : {
+        endpoint: 'https://storage.googleapis.com',
+        region: 'auto',
+        accessKeyId: process.env.GCS_ACCESS_KEY_ID,
+        secretAccessKey: process.env.GCS_SECRET_ACCESS_KEY,
+      }
+  if (!env.accessKeyId || !env.secretAccessKey) throw new Error(`${provider} storage credentials are not configured`)
+  return { ...env, accessKeyId: env.accessKeyId, secretAccessKey: env.secretAccessKey }
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex')
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest()
+// ترميز RFC 3986 كما تطلبه صيغة التوقيع
+const encodeSegment = (segment: string) =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+
+async function s3Request(
+  config: S3Config,
+  method: 'PUT' | 'GET' | 'DELETE',
+  bucket: string,
+  objectPath: string,
+  body?: Buffer,
+  contentType?: string,
+): Promise<Response> {
+  const url = new URL(`${config.endpoint.replace(/\/$/, '')}/${bucket}/${objectPath.split('/').map(encodeSegment).join('/')}`)
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+  const day = amzDate.slice(0, 8)
+  const payloadHash = sha256(body ?? '')
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    ...(contentType ? { 'content-type': contentType } : {}),
+  }
+  const signedHeaders = Object.keys(headers).sort()
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n')
+  const scope = `${day}/${config.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region), 's3'), 'aws4_request')
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  const { host: _host, ...requestHeaders } = headers
+  return fetch(url, {
+    method,
+    headers: {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+  })
+}
+
+function s3Driver(provider: 'S3' | 'GCS'): StorageDriver {
+  const config = s3Config(provider)
+  const fail = async (action: string, res: Response) =>
+    new Error(`${provider} ${action} failed (${res.status}): ${(await res.text()).slice(0, 200)}`)
+  return {
+    async put(bucket, objectPath, body, contentType) {
+      const res = await s3Request(config, 'PUT', bucket, objectPath, body, contentType)
+      if (!res.ok) throw await fail('upload', res)
+      return objectPath
+    },
+    async get(bucket, objectPath) {
+      const res = await s3Request(config, 'GET', bucket, objectPath)
+      if (res.status === 404) return null
+      if (!res.ok) throw await fail('download', res)
+      return {
+        body: Buffer.from(await res.arrayBuffer()),
+        contentType: res.headers.get('content-type') ?? contentTypeFor(objectPath),
+      }
+    },
+    async delete(bucket, objectPath) {
+      const res = await s3Request(config, 'DELETE', bucket, objectPath)
+      if (!res.ok && res.status !== 404) throw await fail('delete', res)
+    },
+  }
+}
+
+// ---------- Vercel Blob (الحاوية بادئة في اسم الملف؛ الملفات عامة في هذا الإصدار فتُضاف لاحقة عشوائية ولا يُكشف رابطها) ----------
+
+function vercelBlobDriver(): StorageDriver {
+  const token = process.env.BLOB_READ_WRITE_TOKEN
+  if (!token) throw new Error('BLOB_READ_WRITE_TOKEN is not configured')
+  return {
+    async put(bucket, objectPath, body, contentType) {
+      const blob = await put(`${bucket}/${objectPath}`, body, { access: 'public', contentType, token, addRandomSuffix: true })
+      return blob.pathname.slice(bucket.length + 1)
+    },
+    async get(bucket, objectPath) {
+      try {
+        const blob = await head(`${bucket}/${objectPath}`, { token })
+        const res = await fetch(blob.url)
+        if (!res.ok) return null
+        return { body: Buffer.from(await res.arrayBuffer()), contentType: blob.contentType }
+      } catch (error) {
+        if (error instanceof BlobNotFoundError) return null
+        throw error
+      }
+    },
+    async delete(bucket, objectPath) {
+      await del(`${bucket}/${objectPath}`, { token })
+    },
+  }
+}
+
+function createDriver(provider: StorageProvider): StorageDriver {
+  switch (provider) {
+    case 'Local':
+      return localDriver()
+    case 'S3':
+    case 'GCS':
+      return s3Driver(provider)
+    case 'VercelBlob':
+      return vercelBlobDriver()
+  }
+}
+
+const drivers = new Map<StorageProvider, StorageDriver>()
+
+function driverFor(provider: StorageProvider): StorageDriver {
+  let driver = drivers.get(provider)
+  if (!driver) {
+    driver = createDriver(provider)
+    drivers.set(provider, driver)
+  }
+  return driver
+}
+
+// ---------- مفاتيح الملفات ----------
+
+export interface ParsedFileKey {
+  provider: StorageProvider
+  bucket: string
+  objectPath: string
+}
+
+/** null للمفاتيح القديمة (اسم ملف فقط، قبل مشغّلات التخزين) */
+export function parseFileKey(fileKey: string): ParsedFileKey | null {
+  const match = /^([a-z]+):([^/]+)\/(.+)$/.exec(fileKey)
+  if (!match) return null
+  const provider = (Object.keys(SCHEMES) as StorageProvider[]).find((p) => SCHEMES[p] === match[1])
+  if (!provider || match[3].split('/').some((segment) => segment === '..' || segment === '.' || segment === '')) return null
+  return { provider, bucket: match[2], objectPath: match[3] }
+}
+
+export function formatFileKey({ provider, bucket, objectPath }: ParsedFileKey): string {
+  return `${SCHEMES[provider]}:${bucket}/${objectPath}`
+}
+
+/** مسار ملف دليل داخل الحاوية: evidence/<appraisalId>/<وقت>-<عشوائي>.<امتداد> */
+export function evidencePath(appraisalId: number, fileName: string): string {
+  const extension = (path.extname(fileName).slice(1).toLowerCase().replace(/[^a-z0-9]/g, '') || 'bin').slice(0, 10)
+  return `evidence/${appraisalId}/${Date.now()}-${randomUUID().slice(0, 8)}.${extension}`
+}
+
+// ---------- الواجهة العامة ----------
+
+/** يحفظ الملف في المشغّل والحاوية المحددين في الإعدادات ويعيد مفتاحه (يُعرض للمستخدمين عبر lib/evidence.ts) */
+export async function saveFile(objectPath: string, body: Buffer, contentType: string): Promise<string> {
+  const { provider, baseBucket } = await getSettings('storage')
+  const storedPath = await driverFor(provider).put(baseBucket, objectPath, body, contentType)
+  return formatFileKey({ provider, bucket: baseBucket, objectPath: storedPath })
+}
+
+/** روابط data: التي حفظها أسلوب الرفع الاحتياطي القديم في Evidence.url */
+export function parseDataUrl(url: string): StoredFile | null {
+  const match = /^data:([^;,]+)?(;base64)?,([\s\S]*)$/.exec(url)
+  if (!match) return null
+  const body = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]))
+  return { body, contentType: match[1] || 'application/octet-stream' }
+}
+
+export async function readFile(fileKey: string): Promise<StoredFile | null> {
+  const parsed = parseFileKey(fileKey)
+  if (!parsed) return null
+  return driverFor(parsed.provider).get(parsed.bucket, parsed.objectPath)
+}
+
+export async function deleteFile(fileKey: string): Promise<void> {
+  const parsed = parseFileKey(fileKey)
+  if (!parsed) return
+  await driverFor(parsed.provider).delete(parsed.bucket, parsed.objectPath)
+}
@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+/**
+ * TOTP حسب RFC 6238 (HMAC-SHA1، 6 أرقام، خطوة 30 ثانية) — متوافق مع Google Authenticator وأمثاله.
+ * السر بترميز Base32 (RFC 4648) كما تتوقعه التطبيقات.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const STEP_SECONDS = 30
+const DIGITS = 6
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 character')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+/** سر جديد بطول 160 بت (الطول الموصى به لـ HMAC-SHA1) */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+  const hmac = createHmac('sha1', key).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS
+  return code.toString().padStart(DIGITS, '0')
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS)
+}
+
+export function generateTotp(secret: string, step = currentTotpStep()): string {
+  return hotp(base32Decode(secret), step)
+}
+
+/**
+ * يعيد الخطوة المطابقة أو null. يقبل خطوة واحدة قبل/بعد الحالية لفرق الساعة،
+ * ويرفض أي خطوة لا تتجاوز afterStep (الرمز المستخدم سابقاً).
+ */
+export function verifyTotp(secret: string, code: string, options: { window?: number; afterStep?: number | null } = {}): number | null {
+  const { window = 1, afterStep = null } = options
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  const key = base32Decode(secret)
+  const current = currentTotpStep()
+  for (let step = current - window; step <= current + window; step++) {
+    if (afterStep !== null && step <= afterStep) continue
+    if (timingSafeEqual(Buffer.from(hotp(key, step)), Buffer.from(normalized))) return step
+  }
+  return null
+}
+
+/** رابط otpauth:// الذي تقرؤه تطبيقات المصادقة (كرمز QR أو بفتحه مباشرة على الجوال) */
+export function totpUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`)
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,194 @@
+import { prisma } from '@/lib/prisma'
+import type { UserRole } from '@prisma/client'
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt } from 'crypto'
+import { getSettings } from '@/lib/settings'
+import { rateLimit } from '@/lib/rate-limit'
+import { generateTotpSecret, totpUri, verifyTotp } from '@/lib/totp'
+
+/**
+ * التحقق بخطوتين (TOTP) مع رموز استرداد.
+ * السياسة من إعدادات الأمان: enable2FA يسمح لأي مستخدم بالتفعيل، وrequire2FARoles يفرضه على أدوار محددة
+ * (من لم يسجّل بعد يُوجَّه إلى /auth/two-factor بعد الدخول، انظر middleware.ts).
+ * السر مشفّر بمفتاح مشتق من NEXTAUTH_SECRET، ورموز الاسترداد مخزنة كـ SHA-256.
+ */
+
+const RECOVERY_CODE_COUNT = 10
+// محاولات التحقق لكل مستخدم (دخول، تفعيل، إلغاء)
+const VERIFY_LIMIT = { limit: 10, windowMs: 15 * 60 * 1000 }
+
+export interface TwoFactorPolicy {
+  allowed: boolean
+  required: boolean
+}
+
+export async function twoFactorPolicy(role: UserRole): Promise<TwoFactorPolicy> {
+  const { enable2FA, require2FARoles } = await getSettings('security')
+  const required = require2FARoles.includes(role)
+  return { allowed: enable2FA || required, required }
+}
+
+// ===================== تشفير السر =====================
+
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET || process.env.AUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET is required to store two-factor secrets')
+  return createHash('sha256').update(`two-factor:${secret}`).digest()
+}
+
+function seal(plain: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const data = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()])
+  return ['v1', iv, cipher.getAuthTag(), data].map(p => (typeof p === 'string' ? p : p.toString('base64url'))).join(':')
+}
+
+function unseal(sealed: string): string {
+  const [version, iv, tag, data] = sealed.split(':')
+  if (version !== 'v1' || !iv || !tag || !data) throw new Error('Unsupported two-factor secret format')
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64url'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8')
+}
+
+// ===================== رموز الاسترداد =====================
+
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex')
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]).join('')
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`
+  })
+}
+
+// ===================== الحالة =====================
+
+export interface TwoFactorStatus extends TwoFactorPolicy {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+export async function getTwoFactorStatus(user: { id: number; role: UserRole }): Promise<TwoFactorStatus> {
+  const [policy, record] = await Promise.all([
+    twoFactorPolicy(user.role),
+    prisma.twoFactorAuth.findUnique({ where: { userId: user.id } }),
+  ])
+  return {
+    ...policy,
+    enabled: Boolean(record?.enabledAt),
+    recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodes.length : 0,
+  }
+}
+
+/** هل يجب على المستخدم تسجيل التحقق بخطوتين قبل استخدام النظام؟ */
+export async function twoFactorSetupRequired(user: { id: number; role: UserRole }): Promise<boolean> {
+  const status = await getTwoFactorStatus(user)
+  return status.required && !status.enabled
+}
+
+type Failure = { ok: false; status: 400 | 403 | 409 | 429; error: string }
+
+const TOO_MANY: Failure = { ok: false, status: 429, error: 'Too many verification attempts. Please try again later.' }
+
+// ===================== التسجيل =====================
+
+/** يولّد سراً جديداً بانتظار التأكيد؛ السر الحالي (إن وُجد) يبقى فعالاً حتى التأكيد */
+export async function beginEnrollment(user: { id: number; email: string; role: UserRole }): Promise<
+  { ok: true; secret: string; uri: string } | Failure
+> {
+  const policy = await twoFactorPolicy(user.role)
+  if (!policy.allowed) return { ok: false, status: 403, error: 'Two-factor authentication is not enabled for your account' }
+
+  const secret = generateTotpSecret()
+  await prisma.twoFactorAuth.upsert({
+    where: { userId: user.id },
+    update: { pendingSecret: seal(secret) },
+    create: { userId: user.id, pendingSecret: seal(secret) },
+  })
+  const { name } = await getSettings('branding')
+  return { ok: true, secret, uri: totpUri(secret, user.email, name) }
+}
+
+/** يؤكد أول رمز من السر المعلّق ويفعّل التحقق؛ يعيد رموز الاسترداد (تظهر مرة واحدة) */
+export async function confirmEnrollment(userId: number, code: string): Promise<{ ok: true; recoveryCodes: string[] } | Failure> {
+  const limited = await rateLimit(`two-factor:${userId}`, VERIFY_LIMIT.limit, VERIFY_LIMIT.windowMs)
+  if (!limited.ok) return TOO_MANY
+
+  const record = await prisma.twoFactorAuth.findUnique({ where: { userId } })
+  if (!record?.pendingSecret) return { ok: false, status: 409, error: 'Start the setup again to get a new secret' }
+
+  const secret = unseal(record.pendingSecret)
+  const step = verifyTotp(secret, code)
+  if (step === null) return { ok: false, status: 400, error: 'The code is incorrect. Check the time on your device and try again.' }
+
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.twoFactorAuth.update({
+    where: { userId },
+    data: {
+      secret: record.pendingSecret,
+      pendingSecret: null,
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+  })
+  return { ok: true, recoveryCodes }
+}
+
+// ===================== التحقق =====================
+
+/**
+ * يتحقق من رمز TOTP أو رمز استرداد (يُستهلك عند استخدامه).
+ * يعيد طريقة التحقق أو null عند الفشل.
+ */
+export async function verifySecondFactor(userId: number, code: string): Promise<'totp' | 'recovery' | null> {
+  const limited = await rateLimit(`two-factor:${userId}`, VERIFY_LIMIT.limit, VERIFY_LIMIT.windowMs)
+  if (!limited.ok) return null
+
+  const record = await prisma.twoFactorAuth.findUnique({ where: { userId } })
+  if (!record?.enabledAt || !record.secret) return null
+
+  const step = verifyTotp(unseal(record.secret), code, { afterStep: record.lastUsedStep })
+  if (step !== null) {
+    // الشرط على lastUsedStep يمنع قبول نفس الرمز في طلبين متزامنين
+    const { count } = await prisma.twoFactorAuth.updateMany({
+      where: { userId, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+      data: { lastUsedStep: step },
+    })
+    return count > 0 ? 'totp' : null
+  }
+
+  const hash = hashRecoveryCode(code)
+  if (!record.recoveryCodes.includes(hash)) return null
+  const { count } = await prisma.twoFactorAuth.updateMany({
+    where: { userId, recoveryCodes: { has: hash } },
+    data: { recoveryCodes: record.recoveryCodes.filter(c => c !== hash) },
+  })
+  return count > 0 ? 'recovery' : null
+}
+
+export async function regenerateRecoveryCodes(userId: number, code: string): Promise<{ ok: true; recoveryCodes: string[] } | Failure> {
+  if (!(await verifySecondFactor(userId, code))) return { ok: false, status: 400, error: 'The code is incorrect' }
+  const recoveryCodes = generateRecoveryCodes()
+  await prisma.twoFactorAuth.update({ where: { userId }, data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) } })
+  return { ok: true, recoveryCodes }
+}
+
+/** إلغاء ذاتي بعد التحقق برمز؛ غير متاح إذا كان الدور يفرض التحقق بخطوتين */
+export async function disableTwoFactor(user: { id: number; role: UserRole }, code: string): Promise<{ ok: true } | Failure> {
+  const { required } = await twoFactorPolicy(user.role)
+  if (required) return { ok: false, status: 403, error: 'Two-factor authentication is required for your role' }
+  if (!(await verifySecondFactor(user.id, code))) return { ok: false, status: 400, error: 'The code is incorrect' }
+  await prisma.twoFactorAuth.delete({ where: { userId: user.id } })
+  return { ok: true }
+}
+
+/** إعادة ضبط من المدير (فقدان الجهاز ورموز الاسترداد)؛ يعيد false إذا لم يكن مفعّلاً */
+export async function resetTwoFactor(userId: number): Promise<boolean> {
+  const { count } = await prisma.twoFactorAuth.deleteMany({ where: { userId } })
+  return count > 0
+}
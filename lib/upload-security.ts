@@ -0,0 +1,95 @@
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { getSettings } from '@/lib/settings'
+
+/**
+ * فحص ملفات الأدلة قبل حفظها: النوع يُستنتج من أول بايتات الملف لا من file.type أو الامتداد اللذين يرسلهما المتصفح،
+ * والاسم يُنظَّف ويأخذ امتداد النوع المكتشف، والحصص من إعدادات التخزين (storage.*Mb).
+ * فحص البرمجيات الخبيثة في lib/malware-scan.ts.
+ */
+
+export interface SniffedType {
+  contentType: string
+  extension: string
+  label: string
+}
+
+const PDF: SniffedType = { contentType: 'application/pdf', extension: 'pdf', label: 'PDF' }
+const JPEG: SniffedType = { contentType: 'image/jpeg', extension: 'jpg', label: 'JPEG image' }
+const PNG: SniffedType = { contentType: 'image/png', extension: 'png', label: 'PNG image' }
+const GIF: SniffedType = { contentType: 'image/gif', extension: 'gif', label: 'GIF image' }
+const DOC: SniffedType = { contentType: 'application/msword', extension: 'doc', label: 'Word document' }
+const DOCX: SniffedType = {
+  contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extension: 'docx',
+  label: 'Word document',
+}
+
+export const ALLOWED_UPLOAD_TYPES = [PDF, JPEG, PNG, GIF, DOC, DOCX]
+
+const startsWith = (buffer: Buffer, bytes: number[]) =>
+  buffer.length >= bytes.length && bytes.every((byte, i) => buffer[i] === byte)
+
+const PDF_LEADING_WHITESPACE = new Set([0x09, 0x0a, 0x0c, 0x0d, 0x20])
+
+/** %PDF- في أول الملف؛ لا يُسمح قبله إلا بـ BOM أو مسافات (وليس في أي موضع كتعليق داخل HTML) */
+function isPdf(buffer: Buffer): boolean {
+  let offset = startsWith(buffer, [0xef, 0xbb, 0xbf]) ? 3 : 0
+  while (offset < buffer.length && PDF_LEADING_WHITESPACE.has(buffer[offset])) offset++
+  return buffer.subarray(offset, offset + 5).toString('latin1') === '%PDF-'
+}
+
+/** null = ليس من الأنواع المسموح بها (أو محتوى لا يطابق أي توقيع معروف) */
+export function sniffContentType(buffer: Buffer): SniffedType | null {
+  if (isPdf(buffer)) return PDF
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return JPEG
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return PNG
+  if (buffer.subarray(0, 6).toString('latin1') === 'GIF87a' || buffer.subarray(0, 6).toString('latin1') === 'GIF89a') return GIF
+  // ملف OLE مركّب (doc)؛ قد يكون xls/ppt أيضاً، والتمييز يتطلب قراءة الدليل الداخلي
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return DOC
+  // docx أرشيف zip يحوي word/document.xml؛ أي zip آخر مرفوض
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]) && buffer.includes('word/document.xml')) return DOCX
+  return null
+}
+
+const MAX_NAME_LENGTH = 120
+
+/** اسم عرض آمن: بلا مسار ولا محارف تحكم أو محجوزة، وبامتداد النوع المكتشف */
+export function sanitizeFileName(name: string, extension: string): string {
+  const base = path
+    .basename(name.replace(/\\/g, '/'))
+    .normalize('NFC')
+    .replace(/[\u0000-\u001f\u007f<>:"/\\|?*]/g, '')
+    .replace(/\.[^.]*$/, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, MAX_NAME_LENGTH - extension.length - 1)
+  return `${base || 'file'}.${extension}`
+}
+
+const MB = 1024 * 1024
+
+export async function maxUploadBytes(): Promise<number> {
+  const { maxFileSizeMb } = await getSettings('storage')
+  return maxFileSizeMb * MB
+}
+
+async function storedBytes(where: { appraisalId: number } | { appraisal: { facultyId: number } }): Promise<number> {
+  const { _sum } = await prisma.evidence.aggregate({
+    where: { ...where, scanStatus: { not: 'INFECTED' } },
+    _sum: { size: true },
+  })
+  return _sum.size ?? 0
+}
+
+/** رسالة الخطأ إذا تجاوز الملف حصة الاستمارة أو حصة المستخدم، وإلا null */
+export async function checkUploadQuota(appraisalId: number, facultyId: number, size: number): Promise<string | null> {
+  const { appraisalQuotaMb, userQuotaMb } = await getSettings('storage')
+  if (appraisalQuotaMb > 0 && (await storedBytes({ appraisalId })) + size > appraisalQuotaMb * MB) {
+    return `Storage quota exceeded: evidence files for this appraisal are limited to ${appraisalQuotaMb}MB. Remove some files and try again.`
+  }
+  if (userQuotaMb > 0 && (await storedBytes({ appraisal: { facultyId } })) + size > userQuotaMb * MB) {
+    return `Storage quota exceeded: your evidence files are limited to ${userQuotaMb}MB in total. Remove some files and try again.`
+  }
+  return null
+}
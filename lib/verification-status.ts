@@ -0,0 +1,74 @@
+import type { VerificationStatus } from '@prisma/client'
+import { WITH_ATTACHMENTS } from '@/lib/evidence'
+
+/**
+ * حالات تحقق المقيّم من الإنجازات (الجوائز والبحث والنشاط العلمي والخدمات). لا يعتمد على prisma
+ * حتى تستخدمه صفحات العميل؛ التعديل والإشعارات في lib/verification.ts.
+ */
+
+export const VERIFICATION_STATUSES: VerificationStatus[] = ['UNVERIFIED', 'VERIFIED', 'NEEDS_EVIDENCE', 'REJECTED']
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  UNVERIFIED: 'Unverified',
+  VERIFIED: 'Verified',
+  NEEDS_EVIDENCE: 'Needs evidence',
+  REJECTED: 'Rejected',
+}
+
+export const VERIFICATION_BADGE_CLASSES: Record<VerificationStatus, string> = {
+  UNVERIFIED: 'bg-gray-100 text-gray-800',
+  VERIFIED: 'bg-green-100 text-green-800',
+  NEEDS_EVIDENCE: 'bg-yellow-100 text-yellow-800',
+  REJECTED: 'bg-red-100 text-red-800',
+}
+
+/** حالات تتطلب تعليق المقيّم ويستطيع عضو هيئة التدريس الرد عليها */
+export const FLAGGED_STATUSES: VerificationStatus[] = ['NEEDS_EVIDENCE', 'REJECTED']
+
+// لا يضعها إلا المقيّم؛ تُحذف من بيانات الإنجاز التي يرسلها صاحبه
+export const VERIFICATION_FIELDS = [
+  'verificationStatus',
+  'verificationComment',
+  'verifiedById',
+  'verifiedBy',
+  'verifiedAt',
+  'facultyResponse',
+  'respondedAt',
+] as const
+
+/** للصفحات التي تعرض التحقق: المرفقات واسم المقيّم */
+export const WITH_VERIFICATION = {
+  include: { ...WITH_ATTACHMENTS.include, verifiedBy: { select: { id: true, name: true } } },
+} as const
+
+export interface AchievementVerification {
+  verificationStatus: VerificationStatus
+  verificationComment: string | null
+  verifiedAt: Date | string | null
+  verifiedBy?: { id: number; name: string } | null
+  facultyResponse: string | null
+  respondedAt: Date | string | null
+}
+
+export function isVerificationStatus(value: unknown): value is VerificationStatus {
+  return VERIFICATION_STATUSES.includes(value as VerificationStatus)
+}
+
+export function verificationLabel(status: string): string {
+  return VERIFICATION_LABELS[status as VerificationStatus] ?? status
+}
+
+export function verificationBadgeClass(status: string): string {
+  return VERIFICATION_BADGE_CLASSES[status as VerificationStatus] ?? 'bg-gray-100 text-gray-800'
+}
+
+/** الإنجاز يُحتسب في الدرجات: المرفوض لا يُحتسب أبداً، ومع verifiedOnly يُحتسب المتحقق منه فقط */
+export function countsTowardScore(status: VerificationStatus, verifiedOnly: boolean): boolean {
+  return verifiedOnly ? status === 'VERIFIED' : status !== 'REJECTED'
+}
+
+/** الرد ينتظر المقيّم إذا جاء بعد آخر تحقق */
+export function hasPendingResponse(item: Pick<AchievementVerification, 'respondedAt' | 'verifiedAt'>): boolean {
+  if (!item.respondedAt) return false
+  return !item.verifiedAt || new Date(item.respondedAt) > new Date(item.verifiedAt)
+}
@@ -0,0 +1,165 @@
+import { prisma } from '@/lib/prisma'
+import type { AchievementType, Prisma, UserRole, VerificationStatus } from '@prisma/client'
+import { logAudit } from '@/lib/audit'
+import { evaluationLockReason } from '@/lib/signatures'
+import { withAttachmentLinks, type EvidenceAttachment } from '@/lib/evidence'
+import { FLAGGED_STATUSES, WITH_VERIFICATION } from '@/lib/verification-status'
+import { notifyAchievementFlagged, notifyAchievementResponse } from '@/lib/notifications'
+
+/**
+ * تحقق المقيّم من إنجازات الاستمارة: يضع الحالة (مع تعليق إلزامي عند طلب دليل أو الرفض) ويُبلَّغ صاحبها،
+ * وصاحب الاستمارة يرد على التعليق ما دامت الدورة نشطة فيُبلَّغ المقيّم. الحالة تؤثر في الدرجات (scoredItems في lib/grading.ts).
+ */
+
+interface VerifiableRow {
+  id: number
+  appraisalId: number
+  verificationStatus: VerificationStatus
+  verificationComment: string | null
+  verifiedById: number | null
+  facultyResponse: string | null
+  name?: string
+  title?: string
+  committeeOrTask?: string
+}
+
+type VerifiedRow =
+  | Prisma.AwardGetPayload<typeof WITH_VERIFICATION>
+  | Prisma.ResearchActivityGetPayload<typeof WITH_VERIFICATION>
+  | Prisma.ScientificActivityGetPayload<typeof WITH_VERIFICATION>
+  | Prisma.UniversityServiceGetPayload<typeof WITH_VERIFICATION>
+  | Prisma.CommunityServiceGetPayload<typeof WITH_VERIFICATION>
+
+/** الإنجاز كما يصل للواجهات بعد التحقق أو الرد: المرفقات بروابط التنزيل المحمية */
+export type VerifiedAchievement = Omit<VerifiedRow, 'attachments'> & { attachments: EvidenceAttachment[] }
+
+// الحد الأدنى المشترك بين جداول الإنجازات الخمسة
+interface VerifiableModel {
+  findUnique(args: { where: { id: number } }): Promise<VerifiableRow | null>
+  update(args: { where: { id: number }; data: Record<string, unknown> } & typeof WITH_VERIFICATION): Promise<VerifiedRow>
+}
+
+const MODELS: Record<AchievementType, unknown> = {
+  awards: prisma.award,
+  research: prisma.researchActivity,
+  scientific: prisma.scientificActivity,
+  university: prisma.universityService,
+  community: prisma.communityService,
+}
+
+const modelFor = (type: AchievementType) => MODELS[type] as VerifiableModel
+
+/** عنوان الإنجاز للإشعارات: الجوائز name، والبحث والنشاط العلمي title، والخدمات committeeOrTask */
+function achievementTitle(row: VerifiableRow): string {
+  return row.name ?? row.title ?? row.committeeOrTask ?? `#${row.id}`
+}
+
+type Failure = { ok: false; status: 400 | 404 | 409; error: string }
+
+type Actor = { id: number; role: UserRole }
+
+export interface VerifyInput {
+  appraisalId: number
+  type: AchievementType
+  achievementId: number
+  status: VerificationStatus
+  comment?: string | null
+  actor: Actor
+  faculty: { id: number; role: UserRole }
+  req?: Request
+}
+
+export type VerifyResult = { ok: true; achievement: VerifiedAchievement } | Failure
+
+/** المقيّم (بعد assertEvaluatorAccess) يضع حالة التحقق لإنجاز في الاستمارة */
+export async function verifyAchievement(input: VerifyInput): Promise<VerifyResult> {
+  const { appraisalId, type, achievementId, status, actor, faculty } = input
+  const model = modelFor(type)
+  const before = await model.findUnique({ where: { id: achievementId } })
+  if (!before || before.appraisalId !== appraisalId) return { ok: false, status: 404, error: 'Achievement not found' }
+
+  const lock = await evaluationLockReason(appraisalId)
+  if (lock) return { ok: false, status: 409, error: lock }
+
+  const comment = input.comment?.trim() || null
+  if (FLAGGED_STATUSES.includes(status) && !comment) {
+    return { ok: false, status: 400, error: 'A comment is required when requesting evidence or rejecting an achievement' }
+  }
+
+  const updated = await model.update({
+    where: { id: achievementId },
+    data: { verificationStatus: status, verificationComment: comment, verifiedById: actor.id, verifiedAt: new Date() },
+    ...WITH_VERIFICATION,
+  })
+
+  await logAudit({
+    actor,
+    action: 'ACHIEVEMENT_VERIFY',
+    target: { type: 'appraisal', id: appraisalId },
+    before: { verificationStatus: before.verificationStatus, verificationComment: before.verificationComment },
+    after: { verificationStatus: status, verificationComment: comment },
+    metadata: { achievementType: type, achievementId },
+    req: input.req,
+  })
+
+  if (status === 'NEEDS_EVIDENCE' || status === 'REJECTED') {
+    await notifyAchievementFlagged(faculty, { title: achievementTitle(before), status, comment: comment! })
+  }
+
+  return { ok: true, achievement: withAttachmentLinks(updated) }
+}
+
+export interface RespondInput {
+  userId: number
+  type: AchievementType
+  achievementId: number
+  response: string
+  req?: Request
+}
+
+export type RespondResult = { ok: true; achievement: VerifiedAchievement } | Failure
+
+/** صاحب الاستمارة يرد على تعليق المقيّم؛ الرد لا يغيّر الحالة، والمقيّم يعيد التحقق */
+export async function respondToVerification(input: RespondInput): Promise<RespondResult> {
+  const { userId, type, achievementId } = input
+  const model = modelFor(type)
+  const row = await model.findUnique({ where: { id: achievementId } })
+  const appraisal = row
+    ? await prisma.appraisal.findUnique({
+        where: { id: row.appraisalId },
+        select: { id: true, facultyId: true, faculty: { select: { name: true } }, cycle: { select: { isActive: true } } },
+      })
+    : null
+  if (!row || !appraisal || appraisal.facultyId !== userId) return { ok: false, status: 404, error: 'Achievement not found' }
+
+  if (!appraisal.cycle.isActive) return { ok: false, status: 409, error: 'Responses are only accepted while the cycle is active' }
+  if (!FLAGGED_STATUSES.includes(row.verificationStatus)) {
+    return { ok: false, status: 409, error: 'Only achievements that need evidence or were rejected can be responded to' }
+  }
+
+  const response = input.response.trim()
+  const updated = await model.update({
+    where: { id: achievementId },
+    data: { facultyResponse: response, respondedAt: new Date() },
+    ...WITH_VERIFICATION,
+  })
+
+  await logAudit({
+    actor: { id: userId },
+    action: 'ACHIEVEMENT_RESPOND',
+    target: { type: 'appraisal', id: appraisal.id },
+    before: { facultyResponse: row.facultyResponse },
+    after: { facultyResponse: response },
+    metadata: { achievementType: type, achievementId },
+    req: input.req,
+  })
+
+  const reviewer = row.verifiedById
+    ? await prisma.user.findUnique({ where: { id: row.verifiedById }, select: { id: true, role: true } })
+    : null
+  if (reviewer) {
+    await notifyAchievementResponse(reviewer, appraisal.id, appraisal.faculty, { title: achievementTitle(row), response })
+  }
+
+  return { ok: true, achievement: withAttachmentLinks(updated) }
+}
@@ -0,0 +1,322 @@
+import { prisma } from '@/lib/prisma'
+import { EvaluationRole, EvaluationStatus, Prisma, UserRole } from '@prisma/client'
+import { notifyTransition } from '@/lib/notifications'
+import { emailTransition } from '@/lib/email-templates'
+import { isFeatureEnabled } from '@/lib/settings'
+import { can, toPolicyUser } from '@/lib/policy'
+import { policyUserSelect } from '@/lib/permissions'
+
+/**
+ * آلة حالات التقييم: كل تغيير على Appraisal.status يجب أن يمر من هنا.
+ * الانتقالات المسموحة، ومن يحق له تنفيذها، والشروط المسبقة معرّفة في TRANSITIONS.
+ */
+
+export type WorkflowActor = 'FACULTY' | 'HOD' | 'DEAN' | 'ADMIN'
+export type WorkflowAction =
+  | 'submit'
+  | 'hod_review'
+  | 'dean_review'
+  | 'send_scores'
+  | 'approve'
+  | 'appeal'
+  | 'resolve_appeal'
+
+const workflowInclude = {
+  faculty: { include: { department: true } },
+  cycle: { select: { appealWindowDays: true } },
+  evaluations: true,
+  appeals: { where: { resolvedAt: null } },
+} satisfies Prisma.AppraisalInclude
+
+export type WorkflowAppraisal = Prisma.AppraisalGetPayload<{ include: typeof workflowInclude }>
+
+interface TransitionRule {
+  from: EvaluationStatus[]
+  to: EvaluationStatus
+  by: WorkflowActor[]
+  /** يعيد سبب الرفض، أو null إذا تحقق الشرط */
+  precondition?: (appraisal: WorkflowAppraisal, actor: WorkflowActor) => string | null
+  /** حقول إضافية تُكتب مع الحالة (طوابع زمنية) */
+  stamp?: (appraisal: WorkflowAppraisal, actor: WorkflowActor) => Prisma.AppraisalUpdateManyMutationInput
+}
+
+const SCORE_FIELDS = [
+  'researchPts',
+  'universityServicePts',
+  'communityServicePts',
+  'teachingQualityPts',
+  'capabilitiesPts',
+] as const
+
+/** دور التقييم الذي يملكه المنفّذ: HOD يقيّم المدرّسين، Dean يقيّم رؤساء الأقسام */
+export function evaluationRoleFor(appraisal: WorkflowAppraisal, actor: WorkflowActor): EvaluationRole {
+  if (actor === 'HOD') return EvaluationRole.HOD
+  if (actor === 'DEAN') return EvaluationRole.DEAN
+  return appraisal.faculty.role === UserRole.HOD ? EvaluationRole.DEAN : EvaluationRole.HOD
+}
+
+/** المستوى الأول للبت في التظلّم: رئيس القسم لتقييم المدرّس، والعميد لتقييم رئيس القسم */
+export function appealOwner(appraisal: Pick<WorkflowAppraisal, 'faculty'>): 'HOD' | 'DEAN' {
+  return appraisal.faculty.role === UserRole.HOD ? 'DEAN' : 'HOD'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** آخر موعد لتقديم التظلّم، أو null إذا لم تحدد الدورة مهلة */
+export function appealDeadline(appraisal: Pick<WorkflowAppraisal, 'releasedAt' | 'cycle'>): Date | null {
+  const days = appraisal.cycle.appealWindowDays
+  if (days == null || !appraisal.releasedAt) return null
+  return new Date(appraisal.releasedAt.getTime() + days * DAY_MS)
+}
+
+function scoresComplete(appraisal: WorkflowAppraisal, actor: WorkflowActor): string | null {
+  const role = evaluationRoleFor(appraisal, actor)
+  const ev = appraisal.evaluations.find(e => e.role === role)
+  if (!ev) return `No ${role} evaluation has been recorded yet`
+  const missing = SCORE_FIELDS.filter(f => ev[f] === null || ev[f] === undefined)
+  return missing.length ? `${role} evaluation is missing scores: ${missing.join(', ')}` : null
+}
+
+/**
+ * المدرّس: new → submitted → hod_reviewed → dean_reviewed → released
+ * رئيس القسم: new → submitted → dean_reviewed → released (لا توجد مرحلة HOD)
+ * ثم released → complete (موافقة) أو returned (تظلّم ضمن مهلة الدورة) → released بعد البت فيه.
+ */
+export const TRANSITIONS: Record<WorkflowAction, TransitionRule> = {
+  submit: {
+    from: [EvaluationStatus.new],
+    to: EvaluationStatus.submitted,
+    by: ['FACULTY'],
+    stamp: () => ({ submittedAt: new Date() }),
+  },
+  hod_review: {
+    from: [EvaluationStatus.submitted],
+    to: EvaluationStatus.hod_reviewed,
+    by: ['HOD', 'ADMIN'],
+    precondition: (appraisal, actor) =>
+      appraisal.faculty.role === UserRole.HOD
+        ? 'HOD appraisals are reviewed by the Dean only'
+        : scoresComplete(appraisal, actor),
+    stamp: () => ({ hodReviewedAt: new Date() }),
+  },
+  dean_review: {
+    from: [EvaluationStatus.submitted, EvaluationStatus.hod_reviewed],
+    to: EvaluationStatus.dean_reviewed,
+    by: ['DEAN', 'ADMIN'],
+    // العميد يقيّم رئيس القسم بنفسه، أما تقييم المدرّس فيعتمد مراجعة رئيس القسم
+    precondition: (appraisal, actor) => {
+      if (appraisal.faculty.role === UserRole.HOD) return scoresComplete(appraisal, actor)
+      return appraisal.status === EvaluationStatus.hod_reviewed ? null : 'Awaiting HOD review'
+    },
+    stamp: () => ({ deanReviewedAt: new Date() }),
+  },
+  send_scores: {
+    from: [EvaluationStatus.dean_reviewed],
+    to: EvaluationStatus.released,
+    by: ['DEAN', 'ADMIN'],
+    // مهلة التظلّم تبدأ من أول إرسال فقط، ولا تتجدد بعد البت في تظلّم
+    stamp: (appraisal) => (appraisal.releasedAt ? {} : { releasedAt: new Date() }),
+  },
+  approve: {
+    from: [EvaluationStatus.released],
+    to: EvaluationStatus.complete,
+    by: ['FACULTY'],
+  },
+  appeal: {
+    from: [EvaluationStatus.released],
+    to: EvaluationStatus.returned,
+    by: ['FACULTY'],
+    precondition: (appraisal) => {
+      if (appraisal.appeals.length) return 'An appeal for this appraisal is already open'
+      const deadline = appealDeadline(appraisal)
+      return deadline && deadline < new Date()
+        ? `The appeal window closed on ${deadline.toDateString()}`
+        : null
+    },
+  },
+  resolve_appeal: {
+    from: [EvaluationStatus.returned],
+    to: EvaluationStatus.released,
+    by: ['HOD', 'DEAN', 'ADMIN'],
+    precondition: (appraisal, actor) => {
+      const [open] = appraisal.appeals
+      if (!open) return 'There is no open appeal to resolve'
+      return actor === open.level || actor === 'ADMIN' ? null : `This appeal is currently with the ${open.level}`
+    },
+  },
+}
+
+interface WorkflowUser {
+  id: string | number
+  role: UserRole
+}
+
+/**
+ * الصفات التي يملكها المستخدم تجاه هذا التقييم (قد تكون أكثر من صفة، مثل مدير هو صاحب التقييم).
+ * صفة المراجع من قاعدة appraisal.review في lib/policy.ts؛ نقرأ المستخدم من قاعدة البيانات لأن الجلسة لا تحمل كلية العميد.
+ */
+export async function resolveActors(user: WorkflowUser, appraisal: WorkflowAppraisal): Promise<WorkflowActor[]> {
+  const userId = Number(user.id)
+  const actors: WorkflowActor[] = []
+
+  if (appraisal.facultyId === userId) actors.push('FACULTY')
+  if (user.role === UserRole.ADMIN) actors.push('ADMIN')
+
+  if (user.role === UserRole.HOD || user.role === UserRole.DEAN) {
+    const me = await prisma.user.findUnique({ where: { id: userId }, select: policyUserSelect })
+    if (me && can(toPolicyUser(me), 'review', 'appraisal', toPolicyUser(appraisal.faculty))) {
+      actors.push(user.role === UserRole.HOD ? 'HOD' : 'DEAN')
+    }
+  }
+
+  return actors
+}
+
+/** التقييم مع صفات المستخدم تجاهه، لفحص الصلاحيات خارج انتقالات الحالة */
+export async function resolveAppraisalAccess(appraisalId: number, user: WorkflowUser) {
+  const appraisal = await prisma.appraisal.findUnique({ where: { id: appraisalId }, include: workflowInclude })
+  if (!appraisal) return null
+  return { appraisal, actors: await resolveActors(user, appraisal) }
+}
+
+export type TransitionResult =
+  | { ok: true; appraisal: WorkflowAppraisal; from: EvaluationStatus; to: EvaluationStatus; actor: WorkflowActor }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+/** فحص بدون كتابة: هل يمكن لهذا المستخدم تنفيذ هذا الإجراء الآن؟ */
+export function checkTransition(
+  appraisal: WorkflowAppraisal,
+  action: WorkflowAction,
+  actors: WorkflowActor[],
+): { ok: true; actor: WorkflowActor } | { ok: false; status: 403 | 409; error: string } {
+  const rule = TRANSITIONS[action]
+  const actor = rule.by.find(a => actors.includes(a))
+  if (!actor) {
+    return { ok: false, status: 403, error: `You are not allowed to ${action.replace('_', ' ')} this appraisal` }
+  }
+  if (!rule.from.includes(appraisal.status)) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Cannot ${action.replace('_', ' ')} an appraisal in status "${appraisal.status}"`,
+    }
+  }
+  const reason = rule.precondition?.(appraisal, actor) ?? null
+  if (reason) return { ok: false, status: 409, error: reason }
+  return { ok: true, actor }
+}
+
+interface TransitionInput {
+  appraisalId: number
+  action: WorkflowAction
+  user: WorkflowUser
+  reason?: string | null
+  /** تعديلات تُنفّذ في نفس المعاملة (إنشاء تظلّم، إغلاقه...) */
+  effects?: (tx: Prisma.TransactionClient, appraisal: WorkflowAppraisal) => Promise<void>
+}
+
+export async function transitionAppraisal(input: TransitionInput): Promise<TransitionResult> {
+  const { appraisalId, action, user, reason, effects } = input
+
+  const appraisal = await prisma.appraisal.findUnique({ where: { id: appraisalId }, include: workflowInclude })
+  if (!appraisal) return { ok: false, status: 404, error: 'Appraisal not found' }
+
+  const actors = await resolveActors(user, appraisal)
+  const check = checkTransition(appraisal, action, actors)
+  if (!check.ok) return check
+
+  const rule = TRANSITIONS[action]
+  const from = appraisal.status
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // الشرط على الحالة السابقة يمنع انتقالين متزامنين من نفس الحالة
+    const { count } = await tx.appraisal.updateMany({
+      where: { id: appraisalId, status: from },
+      data: { status: rule.to, ...rule.stamp?.(appraisal, check.actor) },
+    })
+    if (count === 0) return null
+
+    await tx.appraisalTransition.create({
+      data: {
+        appraisalId,
+        action,
+        fromStatus: from,
+        toStatus: rule.to,
+        actorId: Number(user.id),
+        actorRole: check.actor,
+        reason: reason ?? null,
+      },
+    })
+    if (effects) await effects(tx, appraisal)
+
+    return tx.appraisal.findUnique({ where: { id: appraisalId }, include: workflowInclude })
+  })
+
+  if (!updated) {
+    return { ok: false, status: 409, error: 'The appraisal status changed while processing this request' }
+  }
+
+  await notifyTransition(updated, action)
+  await emailTransition(updated, action)
+
+  return { ok: true, appraisal: updated, from, to: rule.to, actor: check.actor }
+}
+
+export type ForceStatusResult =
+  | { ok: true; appraisal: WorkflowAppraisal; from: EvaluationStatus; to: EvaluationStatus }
+  | { ok: false; status: 403 | 404 | 409; error: string }
+
+/**
+ * تصحيح إداري خارج TRANSITIONS: المدير يضبط الحالة مباشرة، بشرط تفعيل features.forceStatus في الإعدادات.
+ * يُسجَّل كانتقال force_status مع السبب، ولا يرسل إشعارات أو بريداً.
+ */
+export async function forceAppraisalStatus(input: {
+  appraisalId: number
+  status: EvaluationStatus
+  user: WorkflowUser
+  reason: string
+}): Promise<ForceStatusResult> {
+  const { appraisalId, status, user, reason } = input
+  if (user.role !== UserRole.ADMIN) return { ok: false, status: 403, error: 'Only admins can force a status' }
+  if (!(await isFeatureEnabled('forceStatus'))) {
+    return { ok: false, status: 403, error: 'Force status actions are disabled in system settings' }
+  }
+
+  const appraisal = await prisma.appraisal.findUnique({ where: { id: appraisalId }, include: workflowInclude })
+  if (!appraisal) return { ok: false, status: 404, error: 'Appraisal not found' }
+  const from = appraisal.status
+  if (from === status) return { ok: false, status: 409, error: `The appraisal is already "${status}"` }
+  // تظلّم مفتوح سيبقى معلقاً (ويستمر تصعيده) إذا خرج التقييم من returned
+  if (appraisal.appeals.length && status !== EvaluationStatus.returned) {
+    return { ok: false, status: 409, error: 'Resolve the open appeal before changing the status' }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.appraisal.updateMany({
+      where: { id: appraisalId, status: from },
+      data: {
+        status,
+        ...(status === EvaluationStatus.released && !appraisal.releasedAt && { releasedAt: new Date() }),
+      },
+    })
+    if (count === 0) return null
+
+    await tx.appraisalTransition.create({
+      data: {
+        appraisalId,
+        action: 'force_status',
+        fromStatus: from,
+        toStatus: status,
+        actorId: Number(user.id),
+        actorRole: 'ADMIN',
+        reason,
+      },
+    })
+    return tx.appraisal.findUnique({ where: { id: appraisalId }, include: workflowInclude })
+  })
+
+  if (!updated) {
+    return { ok: false, status: 409, error: 'The appraisal status changed while processing this request' }
+  }
+  return { ok: true, appraisal: updated, from, to: status }
+}
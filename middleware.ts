@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getToken } from "next-auth/jwt"
+
+// أثناء "العرض كمستخدم" (lib/impersonation.ts) كل طلب كتابة مرفوض ما عدا الجلسة نفسها والخروج
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"])
+const IMPERSONATION_WRITE_ALLOWLIST = ["/api/auth/", "/api/admin/impersonation"]
+
+// من يفرض دوره التحقق بخطوتين ولم يسجّل بعد (lib/two-factor.ts) لا يصل إلا لصفحة التسجيل
+const TWO_FACTOR_SETUP_PAGE = "/auth/two-factor"
+const TWO_FACTOR_SETUP_ALLOWLIST = ["/api/auth/", "/api/account/two-factor", TWO_FACTOR_SETUP_PAGE]
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const isRead = READ_METHODS.has(request.method)
+  // الملفات الثابتة في public (صور الشعار مثلاً) لا تحتاج فحص الجلسة
+  if (isRead && /\.\w+$/.test(pathname)) return NextResponse.next()
+
+  const token = await getToken({ req: request })
+
+  if (token?.twoFactorSetupRequired && !TWO_FACTOR_SETUP_ALLOWLIST.some((prefix) => pathname.startsWith(prefix))) {
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ error: "Set up two-factor authentication to continue." }, { status: 403 })
+    }
+    return NextResponse.redirect(new URL(TWO_FACTOR_SETUP_PAGE, request.url))
+  }
+
+  if (isRead || IMPERSONATION_WRITE_ALLOWLIST.some((prefix) => pathname.startsWith(prefix))) return NextResponse.next()
+
+  if (token?.impersonation) {
+    return NextResponse.json(
+      { error: "Changes are disabled while viewing as another user. Exit to make changes." },
+      { status: 403 },
+    )
+  }
+  return NextResponse.next()
+}
+
+export const config = {
+  // يشمل server actions (POST على مسار الصفحة)
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+}
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "AppraisalTransition" (
+    "id" SERIAL NOT NULL,
+    "appraisalId" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "fromStatus" "EvaluationStatus" NOT NULL,
+    "toStatus" "EvaluationStatus" NOT NULL,
+    "actorId" INTEGER,
+    "actorRole" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppraisalTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppraisalTransition_appraisalId_createdAt_idx" ON "AppraisalTransition"("appraisalId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AppraisalTransition" ADD CONSTRAINT "AppraisalTransition_appraisalId_fkey" FOREIGN KEY ("appraisalId") REFERENCES "Appraisal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppraisalTransition" ADD CONSTRAINT "AppraisalTransition_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
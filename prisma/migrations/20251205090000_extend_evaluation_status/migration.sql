@@ -0,0 +1,7 @@
+-- "sent" becomes "released"; rows without any evaluation are moved back to submitted in the next migration
+ALTER TYPE "EvaluationStatus" RENAME VALUE 'sent' TO 'released';
+
+-- AlterEnum
+ALTER TYPE "EvaluationStatus" ADD VALUE 'submitted' BEFORE 'released';
+ALTER TYPE "EvaluationStatus" ADD VALUE 'hod_reviewed' BEFORE 'released';
+ALTER TYPE "EvaluationStatus" ADD VALUE 'dean_reviewed' BEFORE 'released';
@@ -0,0 +1,14 @@
+-- Kept apart from the enum change: new enum values cannot be used in the transaction that adds them.
+
+-- Appraisals the faculty member already submitted but nobody has reviewed yet
+UPDATE "Appraisal"
+SET "status" = 'submitted'
+WHERE "status" = 'new' AND "submittedAt" IS NOT NULL;
+
+-- "sent" rows predate AppraisalTransition, so there is no record of how they got there. The old results pages
+-- showed the scores to the faculty member (and allowed approving or appealing) as soon as the status was "sent",
+-- so they stay released. Only rows with no evaluation at all have nothing to show and go back to submitted.
+UPDATE "Appraisal" a
+SET "status" = 'submitted'
+WHERE a."status" = 'released'
+  AND NOT EXISTS (SELECT 1 FROM "Evaluation" e WHERE e."appraisalId" = a."id");
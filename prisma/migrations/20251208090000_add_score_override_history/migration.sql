@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ScoreChangeSource" AS ENUM ('COMPUTED', 'OVERRIDE', 'OVERRIDE_CLEARED');
+
+-- AlterTable
+ALTER TABLE "Evaluation" ADD COLUMN     "researchComputedPts" DOUBLE PRECISION,
+ADD COLUMN     "researchOverridePts" DOUBLE PRECISION,
+ADD COLUMN     "researchOverriddenById" INTEGER,
+ADD COLUMN     "researchOverrideReason" TEXT,
+ADD COLUMN     "universityServiceComputedPts" DOUBLE PRECISION,
+ADD COLUMN     "universityServiceOverridePts" DOUBLE PRECISION,
+ADD COLUMN     "universityServiceOverriddenById" INTEGER,
+ADD COLUMN     "universityServiceOverrideReason" TEXT,
+ADD COLUMN     "communityServiceComputedPts" DOUBLE PRECISION,
+ADD COLUMN     "communityServiceOverridePts" DOUBLE PRECISION,
+ADD COLUMN     "communityServiceOverriddenById" INTEGER,
+ADD COLUMN     "communityServiceOverrideReason" TEXT,
+ADD COLUMN     "teachingQualityComputedPts" DOUBLE PRECISION,
+ADD COLUMN     "teachingQualityOverridePts" DOUBLE PRECISION,
+ADD COLUMN     "teachingQualityOverriddenById" INTEGER,
+ADD COLUMN     "teachingQualityOverrideReason" TEXT;
+
+-- Backfill: الدرجات الحالية تُعتبر محسوبة
+UPDATE "Evaluation" SET
+  "researchComputedPts" = "researchPts",
+  "universityServiceComputedPts" = "universityServicePts",
+  "communityServiceComputedPts" = "communityServicePts",
+  "teachingQualityComputedPts" = "teachingQualityPts";
+
+-- CreateTable
+CREATE TABLE "ScoreHistory" (
+    "id" SERIAL NOT NULL,
+    "evaluationId" INTEGER NOT NULL,
+    "pillar" TEXT NOT NULL,
+    "source" "ScoreChangeSource" NOT NULL,
+    "previousPts" DOUBLE PRECISION,
+    "newPts" DOUBLE PRECISION,
+    "computedPts" DOUBLE PRECISION,
+    "reason" TEXT,
+    "changedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScoreHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScoreHistory_evaluationId_pillar_createdAt_idx" ON "ScoreHistory"("evaluationId", "pillar", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ScoreHistory" ADD CONSTRAINT "ScoreHistory_evaluationId_fkey" FOREIGN KEY ("evaluationId") REFERENCES "Evaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScoreHistory" ADD CONSTRAINT "ScoreHistory_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,112 @@
+-- CreateEnum
+CREATE TYPE "DevelopmentItemProgress" AS ENUM ('NOT_STARTED', 'IN_PROGRESS', 'ACHIEVED', 'NOT_ACHIEVED');
+
+-- CreateTable
+CREATE TABLE "DevelopmentPlan" (
+    "id" SERIAL NOT NULL,
+    "appraisalId" INTEGER NOT NULL,
+    "biAnnualComments" TEXT,
+    "annualComments" TEXT,
+    "carriedFromId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DevelopmentPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DevelopmentPlanItem" (
+    "id" SERIAL NOT NULL,
+    "planId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "developmentArea" TEXT NOT NULL DEFAULT '',
+    "linkToGoals" TEXT NOT NULL DEFAULT '',
+    "activities" TEXT NOT NULL DEFAULT '',
+    "expectedResults" TEXT NOT NULL DEFAULT '',
+    "timeframe" TEXT NOT NULL DEFAULT '',
+    "progress" "DevelopmentItemProgress" NOT NULL DEFAULT 'NOT_STARTED',
+    "progressNote" TEXT,
+    "carriedFromItemId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DevelopmentPlanItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DevelopmentPlanSignature" (
+    "id" SERIAL NOT NULL,
+    "planId" INTEGER NOT NULL,
+    "role" "EvaluationRole" NOT NULL,
+    "signerId" INTEGER NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DevelopmentPlanSignature_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DevelopmentPlan_appraisalId_key" ON "DevelopmentPlan"("appraisalId");
+
+-- CreateIndex
+CREATE INDEX "DevelopmentPlanItem_planId_position_idx" ON "DevelopmentPlanItem"("planId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DevelopmentPlanSignature_planId_role_key" ON "DevelopmentPlanSignature"("planId", "role");
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlan" ADD CONSTRAINT "DevelopmentPlan_appraisalId_fkey" FOREIGN KEY ("appraisalId") REFERENCES "Appraisal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlan" ADD CONSTRAINT "DevelopmentPlan_carriedFromId_fkey" FOREIGN KEY ("carriedFromId") REFERENCES "DevelopmentPlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlanItem" ADD CONSTRAINT "DevelopmentPlanItem_planId_fkey" FOREIGN KEY ("planId") REFERENCES "DevelopmentPlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlanItem" ADD CONSTRAINT "DevelopmentPlanItem_carriedFromItemId_fkey" FOREIGN KEY ("carriedFromItemId") REFERENCES "DevelopmentPlanItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlanSignature" ADD CONSTRAINT "DevelopmentPlanSignature_planId_fkey" FOREIGN KEY ("planId") REFERENCES "DevelopmentPlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlanSignature" ADD CONSTRAINT "DevelopmentPlanSignature_signerId_fkey" FOREIGN KEY ("signerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- نقل الخطط المخزّنة في Evaluation.notes (sdp) إلى الجداول الجديدة.
+-- التوقيعات القديمة لا تُنقل: كانت أسماءً يرسلها المتصفح بدون هوية موقّع.
+-- notes قد تكون نصاً عادياً، لذلك نتجاهل ما لا يُقرأ كـ JSON.
+DO $$
+DECLARE
+  ev RECORD;
+  sdp JSONB;
+  new_plan_id INTEGER;
+BEGIN
+  FOR ev IN
+    SELECT "appraisalId", "notes" FROM "Evaluation"
+    WHERE "role" = 'HOD' AND "notes" LIKE '%"sdp"%'
+  LOOP
+    BEGIN
+      sdp := (ev."notes")::jsonb -> 'sdp';
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+    IF sdp IS NULL OR jsonb_typeof(sdp) <> 'object' THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO "DevelopmentPlan" ("appraisalId", "biAnnualComments", "annualComments", "updatedAt")
+    VALUES (ev."appraisalId", NULLIF(sdp ->> 'biAnnualComments', ''), NULLIF(sdp ->> 'annualComments', ''), CURRENT_TIMESTAMP)
+    ON CONFLICT ("appraisalId") DO NOTHING
+    RETURNING "id" INTO new_plan_id;
+
+    IF new_plan_id IS NULL OR jsonb_typeof(sdp -> 'rows') <> 'array' THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO "DevelopmentPlanItem" ("planId", "position", "developmentArea", "linkToGoals", "activities", "expectedResults", "timeframe", "updatedAt")
+    SELECT new_plan_id, (r.ord - 1)::int,
+           COALESCE(r.row ->> 'developmentArea', ''), COALESCE(r.row ->> 'linkToGoals', ''),
+           COALESCE(r.row ->> 'activities', ''), COALESCE(r.row ->> 'expectedResults', ''),
+           COALESCE(r.row ->> 'timeframe', ''), CURRENT_TIMESTAMP
+    FROM jsonb_array_elements(sdp -> 'rows') WITH ORDINALITY AS r(row, ord);
+  END LOOP;
+END $$;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "AppraisalCycle" ADD COLUMN "midYearReviewDate" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "DevelopmentPlan" ADD COLUMN "midYearReviewedAt" TIMESTAMP(3),
+ADD COLUMN "midYearReviewedById" INTEGER,
+ADD COLUMN "midYearAcknowledgedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "DevelopmentPlanItem" ADD COLUMN "midYearProgress" "DevelopmentItemProgress",
+ADD COLUMN "midYearNote" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentPlan" ADD CONSTRAINT "DevelopmentPlan_midYearReviewedById_fkey" FOREIGN KEY ("midYearReviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SignatureCapacity" AS ENUM ('FACULTY', 'HOD', 'DEAN');
+
+-- AlterTable
+ALTER TABLE "Signature" ADD COLUMN "capacity" "SignatureCapacity",
+ADD COLUMN "appraisalStatus" "EvaluationStatus",
+ADD COLUMN "contentHash" TEXT,
+ADD COLUMN "revokedAt" TIMESTAMP(3),
+ADD COLUMN "revokedById" INTEGER,
+ADD COLUMN "revokeReason" TEXT;
+
+-- التوقيعات القديمة: صاحب التقييم = FACULTY، وإلا حسب دور الموقّع
+UPDATE "Signature" s
+SET "capacity" = CASE
+  WHEN s."signerId" = a."facultyId" THEN 'FACULTY'::"SignatureCapacity"
+  WHEN s."signerRole" = 'DEAN' THEN 'DEAN'::"SignatureCapacity"
+  WHEN s."signerRole" = 'HOD' THEN 'HOD'::"SignatureCapacity"
+  ELSE 'FACULTY'::"SignatureCapacity"
+END
+FROM "Appraisal" a
+WHERE a."id" = s."appraisalId";
+
+ALTER TABLE "Signature" ALTER COLUMN "capacity" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Signature_appraisalId_idx" ON "Signature"("appraisalId");
+
+-- AddForeignKey
+ALTER TABLE "Signature" ADD CONSTRAINT "Signature_signerId_fkey" FOREIGN KEY ("signerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Signature" ADD CONSTRAINT "Signature_revokedById_fkey" FOREIGN KEY ("revokedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "AppealOutcome" AS ENUM ('UPHOLD', 'REVISE_SCORES', 'REJECT');
+
+-- AlterTable
+ALTER TABLE "Appeal" ADD COLUMN "reopenedAt" TIMESTAMP(3),
+ADD COLUMN "reopenedById" INTEGER,
+ADD COLUMN "resolvedById" INTEGER,
+ADD COLUMN "outcome" "AppealOutcome";
+
+-- AddForeignKey
+ALTER TABLE "Appeal" ADD CONSTRAINT "Appeal_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "AppealLevel" AS ENUM ('HOD', 'DEAN', 'ADMIN');
+
+-- AlterTable
+ALTER TABLE "AppraisalCycle" ADD COLUMN "appealWindowDays" INTEGER,
+ADD COLUMN "appealResolutionDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Appraisal" ADD COLUMN "releasedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Appeal" ADD COLUMN "level" "AppealLevel" NOT NULL DEFAULT 'HOD',
+ADD COLUMN "levelSince" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "AppealEscalation" (
+    "id" SERIAL NOT NULL,
+    "appealId" INTEGER NOT NULL,
+    "fromLevel" "AppealLevel" NOT NULL,
+    "toLevel" "AppealLevel" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AppealEscalation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppealEscalation_appealId_idx" ON "AppealEscalation"("appealId");
+
+-- AddForeignKey
+ALTER TABLE "AppealEscalation" ADD CONSTRAINT "AppealEscalation_appealId_fkey" FOREIGN KEY ("appealId") REFERENCES "Appeal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: أول إرسال للدرجات من سجل الانتقالات (send_scores، أو البت في تظلّم قُدّم قبل تسجيل الانتقالات)
+UPDATE "Appraisal" a SET "releasedAt" = t."firstRelease"
+FROM (
+    SELECT "appraisalId", MIN("createdAt") AS "firstRelease"
+    FROM "AppraisalTransition" WHERE "toStatus" = 'released'
+    GROUP BY "appraisalId"
+) t
+WHERE a."id" = t."appraisalId";
+
+-- الاستمارات المرسلة دون انتقال مسجّل: آخر تعديل هو أقرب تاريخ معروف، حتى تسري عليها مهلة التظلّم
+UPDATE "Appraisal" SET "releasedAt" = "updatedAt"
+WHERE "status" = 'released' AND "releasedAt" IS NULL;
+
+-- Backfill: تظلّمات رؤساء الأقسام يبت فيها العميد، والمهلة تبدأ من تاريخ التظلّم
+UPDATE "Appeal" ap SET "level" = 'DEAN'
+FROM "Appraisal" a JOIN "User" u ON u."id" = a."facultyId"
+WHERE ap."appraisalId" = a."id" AND u."role" = 'HOD';
+
+UPDATE "Appeal" SET "levelSince" = "createdAt";
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('APPRAISAL_SUBMITTED', 'HOD_REVIEWED', 'SCORES_RELEASED', 'APPRAISAL_APPROVED', 'APPEAL_FILED', 'APPEAL_RESOLVED', 'APPEAL_ESCALATED', 'CYCLE_OPENED', 'CYCLE_CLOSED');
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT,
+    "link" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "Notification"("userId", "readAt");
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "key" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "EmailOutbox" (
+    "id" SERIAL NOT NULL,
+    "to" TEXT[],
+    "from" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "html" TEXT,
+    "template" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailOutbox_createdAt_idx" ON "EmailOutbox"("createdAt");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "RateLimitEvent" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RateLimitEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitEvent_key_createdAt_idx" ON "RateLimitEvent"("key", "createdAt");
+
+-- Reset tokens are now stored hashed; any plaintext tokens issued before this are invalid
+DELETE FROM "PasswordResetToken";
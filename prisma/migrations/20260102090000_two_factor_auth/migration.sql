@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "TwoFactorAuth" (
+    "userId" INTEGER NOT NULL,
+    "secret" TEXT,
+    "pendingSecret" TEXT,
+    "enabledAt" TIMESTAMP(3),
+    "recoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "lastUsedStep" INTEGER,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TwoFactorAuth_pkey" PRIMARY KEY ("userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "TwoFactorAuth" ADD CONSTRAINT "TwoFactorAuth_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "EvidenceScanStatus" AS ENUM ('PENDING', 'CLEAN', 'INFECTED');
+
+-- AlterTable
+-- الملفات الموجودة رُفعت قبل الفحص فتبقى متاحة (CLEAN)؛ الجديدة تبدأ PENDING
+ALTER TABLE "Evidence" ADD COLUMN     "contentType" TEXT,
+ADD COLUMN     "size" INTEGER,
+ADD COLUMN     "scanStatus" "EvidenceScanStatus" NOT NULL DEFAULT 'CLEAN',
+ADD COLUMN     "scanResult" TEXT,
+ADD COLUMN     "scannedAt" TIMESTAMP(3);
+
+ALTER TABLE "Evidence" ALTER COLUMN "scanStatus" SET DEFAULT 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "Evidence_scanStatus_idx" ON "Evidence"("scanStatus");
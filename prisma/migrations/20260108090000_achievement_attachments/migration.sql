@@ -0,0 +1,184 @@
+-- CreateEnum
+CREATE TYPE "AchievementType" AS ENUM ('awards', 'research', 'scientific', 'university', 'community');
+
+-- AlterTable
+ALTER TABLE "Evidence" ADD COLUMN     "awardId" INTEGER,
+ADD COLUMN     "researchActivityId" INTEGER,
+ADD COLUMN     "scientificActivityId" INTEGER,
+ADD COLUMN     "universityServiceId" INTEGER,
+ADD COLUMN     "communityServiceId" INTEGER;
+
+-- قيم النص الحر خارج الأنواع الخمسة تصبح أدلة عامة للاستمارة
+ALTER TABLE "Evidence" ALTER COLUMN "achievementType" TYPE "AchievementType" USING (
+  CASE WHEN "achievementType" IN ('awards', 'research', 'scientific', 'university', 'community')
+    THEN "achievementType"::"AchievementType"
+  END
+);
+
+-- 1) الربط المسجّل في linkedAchievementId (الإنجاز من الاستمارة نفسها)
+UPDATE "Evidence" e SET "awardId" = a."id"
+FROM "Award" a
+WHERE e."achievementType" = 'awards' AND e."linkedAchievementId" = a."id" AND a."appraisalId" = e."appraisalId";
+
+UPDATE "Evidence" e SET "researchActivityId" = a."id"
+FROM "ResearchActivity" a
+WHERE e."achievementType" = 'research' AND e."linkedAchievementId" = a."id" AND a."appraisalId" = e."appraisalId";
+
+UPDATE "Evidence" e SET "scientificActivityId" = a."id"
+FROM "ScientificActivity" a
+WHERE e."achievementType" = 'scientific' AND e."linkedAchievementId" = a."id" AND a."appraisalId" = e."appraisalId";
+
+UPDATE "Evidence" e SET "universityServiceId" = a."id"
+FROM "UniversityService" a
+WHERE e."achievementType" = 'university' AND e."linkedAchievementId" = a."id" AND a."appraisalId" = e."appraisalId";
+
+UPDATE "Evidence" e SET "communityServiceId" = a."id"
+FROM "CommunityService" a
+WHERE e."achievementType" = 'community' AND e."linkedAchievementId" = a."id" AND a."appraisalId" = e."appraisalId";
+
+-- 2) إنجازات بلا مرفق مربوط: الدليل غير المربوط الذي يطابق رابطها أو مفتاحها
+UPDATE "Evidence" e SET "awardId" = a."id", "achievementType" = 'awards'
+FROM "Award" a
+WHERE a."appraisalId" = e."appraisalId"
+  AND e."awardId" IS NULL AND e."researchActivityId" IS NULL AND e."scientificActivityId" IS NULL AND e."universityServiceId" IS NULL AND e."communityServiceId" IS NULL
+  AND (e."url" IN (a."fileUrl", a."attachment") OR e."fileKey" = a."fileKey")
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."awardId" = a."id");
+
+UPDATE "Evidence" e SET "researchActivityId" = a."id", "achievementType" = 'research'
+FROM "ResearchActivity" a
+WHERE a."appraisalId" = e."appraisalId"
+  AND e."awardId" IS NULL AND e."researchActivityId" IS NULL AND e."scientificActivityId" IS NULL AND e."universityServiceId" IS NULL AND e."communityServiceId" IS NULL
+  AND (e."url" IN (a."fileUrl", a."attachment") OR e."fileKey" = a."fileKey")
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."researchActivityId" = a."id");
+
+UPDATE "Evidence" e SET "scientificActivityId" = a."id", "achievementType" = 'scientific'
+FROM "ScientificActivity" a
+WHERE a."appraisalId" = e."appraisalId"
+  AND e."awardId" IS NULL AND e."researchActivityId" IS NULL AND e."scientificActivityId" IS NULL AND e."universityServiceId" IS NULL AND e."communityServiceId" IS NULL
+  AND (e."url" IN (a."fileUrl", a."attachment") OR e."fileKey" = a."fileKey")
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."scientificActivityId" = a."id");
+
+UPDATE "Evidence" e SET "universityServiceId" = a."id", "achievementType" = 'university'
+FROM "UniversityService" a
+WHERE a."appraisalId" = e."appraisalId"
+  AND e."awardId" IS NULL AND e."researchActivityId" IS NULL AND e."scientificActivityId" IS NULL AND e."universityServiceId" IS NULL AND e."communityServiceId" IS NULL
+  AND (e."url" IN (a."fileUrl", a."attachment") OR e."fileKey" = a."fileKey")
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."universityServiceId" = a."id");
+
+UPDATE "Evidence" e SET "communityServiceId" = a."id", "achievementType" = 'community'
+FROM "CommunityService" a
+WHERE a."appraisalId" = e."appraisalId"
+  AND e."awardId" IS NULL AND e."researchActivityId" IS NULL AND e."scientificActivityId" IS NULL AND e."universityServiceId" IS NULL AND e."communityServiceId" IS NULL
+  AND (e."url" IN (a."fileUrl", a."attachment") OR e."fileKey" = a."fileKey")
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."communityServiceId" = a."id");
+
+-- 3) مرفقات بلا سجل Evidence (روابط قديمة): سجل جديد بالرابط نفسه، متاح كما كان (CLEAN)
+INSERT INTO "Evidence" ("appraisalId", "title", "description", "url", "fileKey", "points", "achievementType", "awardId", "scanStatus", "createdAt")
+SELECT a."appraisalId", 'Attachment', 'Migrated from the achievement record', COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')),
+  CASE WHEN a."fileKey" ~ '^(local|s3|gcs|vercelblob):' THEN a."fileKey" END,
+  0, 'awards', a."id", 'CLEAN', a."createdAt"
+FROM "Award" a
+WHERE (COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')) IS NOT NULL OR a."fileKey" ~ '^(local|s3|gcs|vercelblob):')
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."awardId" = a."id");
+
+INSERT INTO "Evidence" ("appraisalId", "title", "description", "url", "fileKey", "points", "achievementType", "researchActivityId", "scanStatus", "createdAt")
+SELECT a."appraisalId", 'Attachment', 'Migrated from the achievement record', COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')),
+  CASE WHEN a."fileKey" ~ '^(local|s3|gcs|vercelblob):' THEN a."fileKey" END,
+  0, 'research', a."id", 'CLEAN', a."createdAt"
+FROM "ResearchActivity" a
+WHERE (COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')) IS NOT NULL OR a."fileKey" ~ '^(local|s3|gcs|vercelblob):')
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."researchActivityId" = a."id");
+
+INSERT INTO "Evidence" ("appraisalId", "title", "description", "url", "fileKey", "points", "achievementType", "scientificActivityId", "scanStatus", "createdAt")
+SELECT a."appraisalId", 'Attachment', 'Migrated from the achievement record', COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')),
+  CASE WHEN a."fileKey" ~ '^(local|s3|gcs|vercelblob):' THEN a."fileKey" END,
+  0, 'scientific', a."id", 'CLEAN', a."createdAt"
+FROM "ScientificActivity" a
+WHERE (COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')) IS NOT NULL OR a."fileKey" ~ '^(local|s3|gcs|vercelblob):')
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."scientificActivityId" = a."id");
+
+INSERT INTO "Evidence" ("appraisalId", "title", "description", "url", "fileKey", "points", "achievementType", "universityServiceId", "scanStatus", "createdAt")
+SELECT a."appraisalId", 'Attachment', 'Migrated from the achievement record', COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')),
+  CASE WHEN a."fileKey" ~ '^(local|s3|gcs|vercelblob):' THEN a."fileKey" END,
+  0, 'university', a."id", 'CLEAN', a."createdAt"
+FROM "UniversityService" a
+WHERE (COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')) IS NOT NULL OR a."fileKey" ~ '^(local|s3|gcs|vercelblob):')
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."universityServiceId" = a."id");
+
+INSERT INTO "Evidence" ("appraisalId", "title", "description", "url", "fileKey", "points", "achievementType", "communityServiceId", "scanStatus", "createdAt")
+SELECT a."appraisalId", 'Attachment', 'Migrated from the achievement record', COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')),
+  CASE WHEN a."fileKey" ~ '^(local|s3|gcs|vercelblob):' THEN a."fileKey" END,
+  0, 'community', a."id", 'CLEAN', a."createdAt"
+FROM "CommunityService" a
+WHERE (COALESCE(NULLIF(a."fileUrl", ''), NULLIF(a."attachment", '')) IS NOT NULL OR a."fileKey" ~ '^(local|s3|gcs|vercelblob):')
+  AND NOT EXISTS (SELECT 1 FROM "Evidence" x WHERE x."communityServiceId" = a."id");
+
+-- AlterTable
+ALTER TABLE "Evidence" DROP COLUMN "linkedAchievementId";
+
+-- AlterTable
+ALTER TABLE "Award" DROP COLUMN "attachment",
+DROP COLUMN "fileKey",
+DROP COLUMN "fileUrl";
+
+-- AlterTable
+ALTER TABLE "ResearchActivity" DROP COLUMN "attachment",
+DROP COLUMN "fileKey",
+DROP COLUMN "fileUrl";
+
+-- AlterTable
+ALTER TABLE "ScientificActivity" DROP COLUMN "attachment",
+DROP COLUMN "fileKey",
+DROP COLUMN "fileUrl";
+
+-- AlterTable
+ALTER TABLE "UniversityService" DROP COLUMN "attachment",
+DROP COLUMN "fileKey",
+DROP COLUMN "fileUrl";
+
+-- AlterTable
+ALTER TABLE "CommunityService" DROP COLUMN "attachment",
+DROP COLUMN "fileKey",
+DROP COLUMN "fileUrl";
+
+-- CreateIndex
+CREATE INDEX "Evidence_appraisalId_achievementType_idx" ON "Evidence"("appraisalId", "achievementType");
+
+-- CreateIndex
+CREATE INDEX "Evidence_awardId_idx" ON "Evidence"("awardId");
+
+-- CreateIndex
+CREATE INDEX "Evidence_researchActivityId_idx" ON "Evidence"("researchActivityId");
+
+-- CreateIndex
+CREATE INDEX "Evidence_scientificActivityId_idx" ON "Evidence"("scientificActivityId");
+
+-- CreateIndex
+CREATE INDEX "Evidence_universityServiceId_idx" ON "Evidence"("universityServiceId");
+
+-- CreateIndex
+CREATE INDEX "Evidence_communityServiceId_idx" ON "Evidence"("communityServiceId");
+
+-- AddForeignKey
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_awardId_fkey" FOREIGN KEY ("awardId") REFERENCES "Award"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_researchActivityId_fkey" FOREIGN KEY ("researchActivityId") REFERENCES "ResearchActivity"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_scientificActivityId_fkey" FOREIGN KEY ("scientificActivityId") REFERENCES "ScientificActivity"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_universityServiceId_fkey" FOREIGN KEY ("universityServiceId") REFERENCES "UniversityService"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_communityServiceId_fkey" FOREIGN KEY ("communityServiceId") REFERENCES "CommunityService"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- مرفق لإنجاز واحد فقط، ومن نوعه (Prisma لا يعبّر عن قيود CHECK)
+ALTER TABLE "Evidence" ADD CONSTRAINT "Evidence_achievement_link_check" CHECK (
+  ("awardId" IS NULL OR "achievementType" = 'awards') AND
+  ("researchActivityId" IS NULL OR "achievementType" = 'research') AND
+  ("scientificActivityId" IS NULL OR "achievementType" = 'scientific') AND
+  ("universityServiceId" IS NULL OR "achievementType" = 'university') AND
+  ("communityServiceId" IS NULL OR "achievementType" = 'community')
+);
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "VerificationStatus" AS ENUM ('UNVERIFIED', 'VERIFIED', 'NEEDS_EVIDENCE', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ACHIEVEMENT_FLAGGED';
+ALTER TYPE "NotificationType" ADD VALUE 'ACHIEVEMENT_RESPONSE';
+
+-- AlterTable
+ALTER TABLE "GradingConfig" ADD COLUMN "verifiedOnly" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Award" ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "verificationComment" TEXT,
+ADD COLUMN "verifiedById" INTEGER,
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "facultyResponse" TEXT,
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ResearchActivity" ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "verificationComment" TEXT,
+ADD COLUMN "verifiedById" INTEGER,
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "facultyResponse" TEXT,
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ScientificActivity" ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "verificationComment" TEXT,
+ADD COLUMN "verifiedById" INTEGER,
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "facultyResponse" TEXT,
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "UniversityService" ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "verificationComment" TEXT,
+ADD COLUMN "verifiedById" INTEGER,
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "facultyResponse" TEXT,
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "CommunityService" ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+ADD COLUMN "verificationComment" TEXT,
+ADD COLUMN "verifiedById" INTEGER,
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "facultyResponse" TEXT,
+ADD COLUMN "respondedAt" TIMESTAMP(3);
+
+-- AddForeignKey
+ALTER TABLE "Award" ADD CONSTRAINT "Award_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ResearchActivity" ADD CONSTRAINT "ResearchActivity_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScientificActivity" ADD CONSTRAINT "ScientificActivity_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UniversityService" ADD CONSTRAINT "UniversityService_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommunityService" ADD CONSTRAINT "CommunityService_verifiedById_fkey" FOREIGN KEY ("verifiedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -223,8 +223,6 @@ async function main() {
           area: "Research",
           organization: "IEEE",
           dateObtained: new Date("2024-12-05"),
-          attachment: "https://example.com/awards/best-paper.pdf",
-          fileUrl: "https://example.com/awards/best-paper.pdf",
         },
         {
           appraisalId,
@@ -232,8 +230,6 @@ async function main() {
           area: "Teaching",
           organization: "University Council",
           dateObtained: new Date("2024-11-10"),
-          attachment: "https://example.com/awards/teaching-excellence.pdf",
-          fileUrl: "https://example.com/awards/teaching-excellence.pdf",
         },
       ],
     })
@@ -277,8 +273,6 @@ async function main() {
           journalOrPublisher: "Elsevier",
           participation: "MAIN_AUTHOR",
           publicationDate: new Date("2024-10-01"),
-          attachment: "https://example.com/research/ai-paper.pdf",
-          fileUrl: "https://example.com/research/ai-paper.pdf",
         },
         {
           appraisalId,
@@ -288,8 +282,6 @@ async function main() {
           journalOrPublisher: "Springer",
           participation: "CO_AUTHOR",
           publicationDate: new Date("2024-12-20"),
-          attachment: "https://example.com/research/systems-paper.pdf",
-          fileUrl: "https://example.com/research/systems-paper.pdf",
         },
         {
           appraisalId,
@@ -299,8 +291,6 @@ async function main() {
           journalOrPublisher: "ACM",
           participation: "REFEREE",
           refereeDecisionDate: new Date("2024-11-30"),
-          attachment: "https://example.com/research/review-article.pdf",
-          fileUrl: "https://example.com/research/review-article.pdf",
         },
       ],
     })
@@ -316,8 +306,6 @@ async function main() {
           participation: "PRESENTER",
           organizingAuth: "IEEE",
           venue: "Dubai",
-          attachment: "https://example.com/scientific/conference-presentation.pdf",
-          fileUrl: "https://example.com/scientific/conference-presentation.pdf",
         },
         {
           appraisalId,
@@ -327,8 +315,6 @@ async function main() {
           participation: "COORDINATOR",
           organizingAuth: "CS Dept",
           venue: "Campus",
-          attachment: "https://example.com/scientific/workshop-materials.pdf",
-          fileUrl: "https://example.com/scientific/workshop-materials.pdf",
         },
       ],
     })
@@ -343,8 +329,6 @@ async function main() {
           participation: "Member",
           dateFrom: new Date("2024-09-10"),
           dateTo: new Date("2025-01-15"),
-          attachment: "https://example.com/services/curriculum-meeting-minutes.pdf",
-          fileUrl: "https://example.com/services/curriculum-meeting-minutes.pdf",
         },
         {
           appraisalId,
@@ -353,8 +337,6 @@ async function main() {
           participation: "Participant",
           dateFrom: new Date("2024-09-05"),
           dateTo: new Date("2024-12-15"),
-          attachment: "https://example.com/services/qa-report.pdf",
-          fileUrl: "https://example.com/services/qa-report.pdf",
         },
       ],
     })
@@ -369,8 +351,6 @@ async function main() {
           participation: "Speaker",
           dateFrom: new Date("2024-11-01"),
           dateTo: new Date("2024-11-01"),
-          attachment: "https://example.com/community/stem-outreach-photos.pdf",
-          fileUrl: "https://example.com/community/stem-outreach-photos.pdf",
         },
         {
           appraisalId,
@@ -379,8 +359,6 @@ async function main() {
           participation: "Volunteer",
           dateFrom: new Date("2024-12-08"),
           dateTo: new Date("2024-12-08"),
-          attachment: "https://example.com/community/open-day-certificate.pdf",
-          fileUrl: "https://example.com/community/open-day-certificate.pdf",
         },
         {
           appraisalId,
@@ -389,8 +367,6 @@ async function main() {
           participation: "Instructor",
           dateFrom: new Date("2025-01-02"),
           dateTo: new Date("2025-01-05"),
-          attachment: "https://example.com/community/bootcamp-materials.pdf",
-          fileUrl: "https://example.com/community/bootcamp-materials.pdf",
         },
       ],
     })
@@ -504,10 +480,10 @@ async function main() {
   const eHodCS = await finalizeEvaluation(appHodCS.id, "DEAN")
 
   // حالات سير العمل متنوعة:
-  // - Alice: sent (بانتظار موافقة/تظلّم)
+  // - Alice: released (بانتظار موافقة/تظلّم)
   await prisma.appraisal.update({
     where: { id: appAlice.id },
-    data: { status: "sent", hodReviewedAt: new Date("2025-01-25") },
+    data: { status: "released", hodReviewedAt: new Date("2025-01-25"), deanReviewedAt: new Date("2025-01-25") },
   })
   // - Bob: complete (وافق)
   await prisma.appraisal.update({
@@ -519,6 +495,8 @@ async function main() {
       appraisalId: appBob.id,
       signerId: fBob.id,
       signerRole: "INSTRUCTOR",
+      capacity: "FACULTY",
+      appraisalStatus: "complete",
       signedAt: new Date("2025-01-27"),
       note: "Approved by faculty",
     },
@@ -536,10 +514,10 @@ async function main() {
       createdAt: new Date("2025-01-28"),
     },
   })
-  // - HOD CS appraisal: sent من الـDean
+  // - HOD CS appraisal: released من الـDean
   await prisma.appraisal.update({
     where: { id: appHodCS.id },
-    data: { status: "sent", deanReviewedAt: new Date("2025-01-26") },
+    data: { status: "released", deanReviewedAt: new Date("2025-01-26") },
   })
 
   console.log("✅ Seed done.")
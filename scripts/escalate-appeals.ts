@@ -0,0 +1,23 @@
+// Escalates appeals that passed their cycle's resolution deadline (HOD → Dean → admin committee).
+// Appeal lists also run this on load, and /api/cron/escalate-appeals runs it hourly on Vercel (vercel.json, CRON_SECRET).
+// Elsewhere, schedule it (e.g. hourly cron) so escalation happens without anyone visiting them:
+//   npx tsx scripts/escalate-appeals.ts
+import { prisma } from '../lib/prisma'
+import { escalateOverdueAppeals } from '../lib/appeals'
+
+async function main() {
+  try {
+    const events = await escalateOverdueAppeals()
+    for (const e of events) {
+      console.log(`Appeal #${e.appealId} (appraisal ${e.appraisalId}): ${e.fromLevel} -> ${e.toLevel}`)
+    }
+    console.log(`${events.length} escalation(s) applied`)
+  } catch (error) {
+    console.error('Error escalating appeals:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
@@ -0,0 +1,27 @@
+// يحذف مرفقات الإنجازات اليتيمة (رُفعت ولم تُربط بإنجاز، أو أُزيلت من إنجازها، أو حُذف إنجازها)
+// بعد مهلة ORPHAN_GRACE_HOURS في lib/attachments.ts. جدوله (مثلاً يومياً):
+//   npx tsx scripts/gc-attachments.ts [--dry-run]
+import { prisma } from '../lib/prisma'
+import { collectOrphanAttachments, ORPHAN_GRACE_HOURS } from '../lib/attachments'
+
+const DRY_RUN = process.argv.includes('--dry-run')
+
+async function main() {
+  try {
+    const orphans = await collectOrphanAttachments({ dryRun: DRY_RUN })
+    for (const orphan of orphans) {
+      console.log(`Evidence #${orphan.id} (appraisal ${orphan.appraisalId}): ${orphan.title}, ${orphan.size ?? '?'} bytes`)
+    }
+    const bytes = orphans.reduce((sum, orphan) => sum + (orphan.size ?? 0), 0)
+    console.log(
+      `${orphans.length} orphan attachment(s) older than ${ORPHAN_GRACE_HOURS}h ${DRY_RUN ? 'would be removed' : 'removed'} (${bytes} bytes)`,
+    )
+  } catch (error) {
+    console.error('Error collecting orphan attachments:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
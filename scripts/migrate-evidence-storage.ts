@@ -0,0 +1,61 @@
+// ينقل ملفات الأدلة المحفوظة كروابط data: (أسلوب الرفع الاحتياطي القديم) إلى مشغّل التخزين المحدد في الإعدادات،
+// ويحدّث Evidence.url/fileKey. مرفقات الإنجازات القديمة صارت سجلات Evidence بترحيل achievement_attachments:
+//   npx tsx scripts/migrate-evidence-storage.ts [--dry-run]
+import { prisma } from '../lib/prisma'
+import { evidencePath, extensionFor, parseDataUrl, saveFile } from '../lib/storage'
+import { evidenceDownloadUrl } from '../lib/evidence'
+import { scanEvidence } from '../lib/malware-scan'
+
+const DRY_RUN = process.argv.includes('--dry-run')
+
+async function store(appraisalId: number, dataUrl: string, fileName: string | null) {
+  const parsed = parseDataUrl(dataUrl)
+  if (!parsed) throw new Error('Malformed data URL')
+  const name = fileName && /\.[a-z0-9]+$/i.test(fileName) ? fileName : `file.${extensionFor(parsed.contentType)}`
+  const fileKey = DRY_RUN ? '(dry run)' : await saveFile(evidencePath(appraisalId, name), parsed.body, parsed.contentType)
+  return { fileKey, size: parsed.body.length, contentType: parsed.contentType, body: parsed.body }
+}
+
+async function main() {
+  let moved = 0
+  let failed = 0
+  try {
+    // صفاً صفاً: روابط data: قد تكون كبيرة
+    const evidence = await prisma.evidence.findMany({
+      where: { url: { startsWith: 'data:' } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    })
+    for (const { id } of evidence) {
+      const row = await prisma.evidence.findUnique({ where: { id } })
+      if (!row?.url) continue
+      try {
+        const { fileKey, size, contentType, body } = await store(row.appraisalId, row.url, row.title)
+        if (!DRY_RUN) {
+          // مرفقات الإنجازات المنقولة من السجلات لم تُفحص قط: تُحجز حتى يجتاز الملف الفحص
+          const scanStatus = row.achievementType ? 'PENDING' : row.scanStatus
+          await prisma.evidence.update({ where: { id }, data: { url: evidenceDownloadUrl(id), fileKey, contentType, size, scanStatus } })
+          if (row.achievementType) {
+            const scan = await scanEvidence(id, body)
+            if (scan.status !== 'CLEAN') console.warn(`Evidence #${id}: scan ${scan.status}`)
+          }
+        }
+        console.log(`Evidence #${id}: ${size} bytes -> ${fileKey}`)
+        moved++
+      } catch (error) {
+        console.error(`Evidence #${id}: ${error instanceof Error ? error.message : error}`)
+        failed++
+      }
+    }
+
+    console.log(`${moved} file(s) ${DRY_RUN ? 'would be moved' : 'moved'}, ${failed} failed`)
+    if (failed) process.exitCode = 1
+  } catch (error) {
+    console.error('Error migrating evidence storage:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
@@ -0,0 +1,236 @@
+// Minimal OpenID Connect provider for testing single sign-on locally (lib/sso.ts). Not for production use.
+// Start it, then point the app at it and choose "Single sign-on" under Admin → Settings → Security:
+//   npx tsx scripts/mock-oidc-idp.ts
+//   SSO_ISSUER=http://localhost:9400 SSO_CLIENT_ID=appraisal-local SSO_CLIENT_SECRET=local-secret
+// The sign-in page of the mock asks for any email and name and signs them in without a password.
+// Options (env): MOCK_IDP_PORT (9400), SSO_CLIENT_ID, SSO_CLIENT_SECRET, MOCK_IDP_UNVERIFIED_EMAIL=1 to send email_verified=false
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import { createHash, createSign, generateKeyPairSync, randomBytes, timingSafeEqual } from 'crypto'
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 9400)
+const ISSUER = `http://localhost:${PORT}`
+const CLIENT_ID = process.env.SSO_CLIENT_ID || 'appraisal-local'
+const CLIENT_SECRET = process.env.SSO_CLIENT_SECRET || 'local-secret'
+const CODE_TTL_MS = 60 * 1000
+const TOKEN_TTL_SECONDS = 3600
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const KEY_ID = randomBytes(8).toString('hex')
+
+interface Identity {
+  email: string
+  name: string
+}
+
+interface PendingCode extends Identity {
+  redirectUri: string
+  codeChallenge: string | null
+  nonce: string | null
+  expiresAt: number
+}
+
+const codes = new Map<string, PendingCode>()
+const accessTokens = new Map<string, Identity & { expiresAt: number }>()
+
+function base64url(input: Buffer | string) {
+  return Buffer.from(input).toString('base64url')
+}
+
+function signJwt(payload: Record<string, unknown>) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }))
+  const body = base64url(JSON.stringify(payload))
+  const signature = createSign('RSA-SHA256').update(`${header}.${body}`).sign(privateKey)
+  return `${header}.${body}.${base64url(signature)}`
+}
+
+function subjectFor(email: string) {
+  return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24)
+}
+
+function claimsFor(identity: Identity) {
+  return {
+    sub: subjectFor(identity.email),
+    email: identity.email,
+    email_verified: process.env.MOCK_IDP_UNVERIFIED_EMAIL !== '1',
+    name: identity.name,
+  }
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
+
+function oauthError(res: ServerResponse, status: number, error: string, description: string) {
+  sendJson(res, status, { error, error_description: description })
+}
+
+async function readForm(req: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf8'))
+}
+
+function renderLogin(params: URLSearchParams) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map((key) => `<input type="hidden" name="${key}" value="${escapeHtml(params.get(key) ?? '')}">`)
+    .join('')
+  return `<!doctype html>
+<html><head><title>Mock University SSO</title>
+<style>body{font-family:sans-serif;max-width:360px;margin:80px auto}label,input,button{display:block;width:100%;margin-top:8px}input{padding:8px}button{padding:10px;margin-top:16px}</style>
+</head><body>
+<h2>Mock University SSO</h2>
+<p>Local testing only: sign in as any user.</p>
+<form method="post" action="/authorize">${hidden}
+<label>Email <input name="email" type="email" required value="${escapeHtml(params.get('login_hint') ?? '')}"></label>
+<label>Name <input name="name"></label>
+<button type="submit">Sign in</button>
+</form></body></html>`
+}
+
+function validateAuthorizeRequest(params: URLSearchParams): string | null {
+  if (params.get('client_id') !== CLIENT_ID) return 'Unknown client_id'
+  if (!params.get('redirect_uri')) return 'redirect_uri is required'
+  if (params.has('response_type') && params.get('response_type') !== 'code') return 'Only response_type=code is supported'
+  if (params.get('code_challenge') && params.get('code_challenge_method') !== 'S256') return 'Only S256 PKCE is supported'
+  return null
+}
+
+async function handleAuthorize(req: IncomingMessage, res: ServerResponse, url: URL) {
+  if (req.method === 'GET') {
+    const problem = validateAuthorizeRequest(url.searchParams)
+    if (problem) return oauthError(res, 400, 'invalid_request', problem)
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    return res.end(renderLogin(url.searchParams))
+  }
+
+  const form = await readForm(req)
+  const problem = validateAuthorizeRequest(form)
+  if (problem) return oauthError(res, 400, 'invalid_request', problem)
+  const email = (form.get('email') ?? '').trim()
+  if (!email) return oauthError(res, 400, 'invalid_request', 'Email is required')
+
+  const code = randomBytes(24).toString('base64url')
+  const redirectUri = form.get('redirect_uri') as string
+  codes.set(code, {
+    email,
+    name: (form.get('name') ?? '').trim() || email.split('@')[0],
+    redirectUri,
+    codeChallenge: form.get('code_challenge') || null,
+    nonce: form.get('nonce') || null,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  })
+
+  const location = new URL(redirectUri)
+  location.searchParams.set('code', code)
+  if (form.get('state')) location.searchParams.set('state', form.get('state') as string)
+  location.searchParams.set('iss', ISSUER)
+  console.log(`Signed in ${email}, redirecting to ${location.origin}${location.pathname}`)
+  res.writeHead(302, { Location: location.toString() })
+  res.end()
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse) {
+  const form = await readForm(req)
+
+  // client_secret_basic أو client_secret_post
+  let clientId = form.get('client_id')
+  let clientSecret = form.get('client_secret')
+  const authorization = req.headers.authorization
+  if (authorization?.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(authorization.slice(6), 'base64').toString('utf8').split(':')
+    clientId = decodeURIComponent(id)
+    clientSecret = decodeURIComponent(secret ?? '')
+  }
+  if (clientId !== CLIENT_ID || !clientSecret || !safeEqual(clientSecret, CLIENT_SECRET)) {
+    return oauthError(res, 401, 'invalid_client', 'Client authentication failed')
+  }
+  if (form.get('grant_type') !== 'authorization_code') {
+    return oauthError(res, 400, 'unsupported_grant_type', 'Only authorization_code is supported')
+  }
+
+  const code = form.get('code') ?? ''
+  const pending = codes.get(code)
+  codes.delete(code)
+  if (!pending || pending.expiresAt < Date.now()) return oauthError(res, 400, 'invalid_grant', 'Invalid or expired code')
+  if (form.get('redirect_uri') !== pending.redirectUri) return oauthError(res, 400, 'invalid_grant', 'redirect_uri mismatch')
+  if (pending.codeChallenge) {
+    const verifier = form.get('code_verifier') ?? ''
+    if (base64url(createHash('sha256').update(verifier).digest()) !== pending.codeChallenge) {
+      return oauthError(res, 400, 'invalid_grant', 'PKCE verification failed')
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000)
+  const accessToken = randomBytes(24).toString('base64url')
+  accessTokens.set(accessToken, { email: pending.email, name: pending.name, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 })
+  const idToken = signJwt({
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    ...(pending.nonce ? { nonce: pending.nonce } : {}),
+    ...claimsFor(pending),
+  })
+  sendJson(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS, id_token: idToken, scope: 'openid email profile' })
+}
+
+function handleUserinfo(req: IncomingMessage, res: ServerResponse) {
+  const token = req.headers.authorization?.replace(/^Bearer /, '') ?? ''
+  const identity = accessTokens.get(token)
+  if (!identity || identity.expiresAt < Date.now()) return oauthError(res, 401, 'invalid_token', 'Invalid access token')
+  sendJson(res, 200, claimsFor(identity))
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', ISSUER)
+  try {
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          scopes_supported: ['openid', 'email', 'profile'],
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+          code_challenge_methods_supported: ['S256'],
+          claims_supported: ['sub', 'email', 'email_verified', 'name'],
+        })
+      case '/jwks':
+        return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] })
+      case '/authorize':
+        return await handleAuthorize(req, res, url)
+      case '/token':
+        if (req.method !== 'POST') return oauthError(res, 405, 'invalid_request', 'Use POST')
+        return await handleToken(req, res)
+      case '/userinfo':
+        return handleUserinfo(req, res)
+      default:
+        res.writeHead(404)
+        res.end('Not found')
+    }
+  } catch (error) {
+    console.error('Mock IdP error:', error)
+    oauthError(res, 500, 'server_error', 'Unexpected error')
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider listening on ${ISSUER}`)
+  console.log(`Configure the app with:\n  SSO_ISSUER=${ISSUER}\n  SSO_CLIENT_ID=${CLIENT_ID}\n  SSO_CLIENT_SECRET=${CLIENT_SECRET}`)
+})
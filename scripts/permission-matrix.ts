@@ -0,0 +1,153 @@
+// مصفوفة اختبار سياسة الصلاحيات (lib/policy.ts) على مستخدمين وهميين في كليتين، بدون قاعدة بيانات:
+//   npm run test:permissions
+// 1) حالات صريحة لـ can()   2) ownerWhere() يطابق can() لكل (منفّذ، إجراء، مورد، صاحب)
+import { UserRole, type Prisma } from '@prisma/client'
+import { POLICY, can, ownerWhere, toPolicyUser, type Action, type Resource } from '../lib/policy'
+
+interface FixtureUser {
+  id: number
+  role: UserRole
+  departmentId: number | null
+  collegeId: number | null
+  department: { collegeId: number } | null
+}
+
+// الكلية 1: القسمان 10 و 11؛ الكلية 2: القسم 20. العميد مربوط بالكلية مباشرة كما في fix-dean-college.ts
+const DEPARTMENT_COLLEGE: Record<number, number> = { 10: 1, 11: 1, 20: 2 }
+
+function user(id: number, role: UserRole, departmentId: number | null, collegeId: number | null = null): FixtureUser {
+  return {
+    id,
+    role,
+    departmentId,
+    collegeId,
+    department: departmentId == null ? null : { collegeId: DEPARTMENT_COLLEGE[departmentId] },
+  }
+}
+
+const users = {
+  admin: user(1, UserRole.ADMIN, null),
+  dean1: user(2, UserRole.DEAN, null, 1),
+  dean2: user(3, UserRole.DEAN, null, 2),
+  hod10: user(4, UserRole.HOD, 10),
+  hod11: user(5, UserRole.HOD, 11),
+  hod20: user(6, UserRole.HOD, 20),
+  inst10: user(7, UserRole.INSTRUCTOR, 10),
+  inst10b: user(8, UserRole.INSTRUCTOR, 10),
+  inst11: user(9, UserRole.INSTRUCTOR, 11),
+  inst20: user(10, UserRole.INSTRUCTOR, 20),
+}
+type Name = keyof typeof users
+
+const p = (name: Name) => toPolicyUser(users[name])
+
+// [المنفّذ، الإجراء، المورد، صاحب المورد، المتوقع]
+const cases: [Name, Action, Resource, Name | null, boolean][] = [
+  // رئيس القسم: قسمه فقط
+  ['hod10', 'read', 'appraisal', 'inst10', true],
+  ['hod10', 'read', 'appraisal', 'inst11', false],
+  ['hod10', 'read', 'appraisal', 'inst20', false],
+  ['hod10', 'read', 'appraisal', 'hod10', true],
+  ['hod10', 'evaluate', 'appraisal', 'inst10', true],
+  ['hod10', 'evaluate', 'appraisal', 'inst11', false],
+  ['hod10', 'evaluate', 'appraisal', 'hod10', false],
+  ['hod10', 'review', 'appeal', 'inst10', true],
+  ['hod10', 'review', 'appeal', 'inst11', false],
+  ['hod10', 'read', 'report', 'inst11', false],
+  ['hod10', 'update', 'appraisal', 'inst10', false],
+  // العميد: كليته فقط، ويقيّم رؤساء الأقسام لا المدرّسين
+  ['dean1', 'read', 'appraisal', 'inst11', true],
+  ['dean1', 'read', 'appraisal', 'hod10', true],
+  ['dean1', 'read', 'appraisal', 'inst20', false],
+  ['dean1', 'read', 'appraisal', 'hod20', false],
+  ['dean1', 'evaluate', 'appraisal', 'hod10', true],
+  ['dean1', 'evaluate', 'appraisal', 'inst10', false],
+  ['dean1', 'evaluate', 'appraisal', 'hod20', false],
+  ['dean1', 'review', 'appraisal', 'inst10', true],
+  ['dean1', 'review', 'appraisal', 'dean1', false],
+  ['dean1', 'read', 'report', 'inst20', false],
+  ['dean2', 'read', 'appraisal', 'inst20', true],
+  ['dean2', 'read', 'appraisal', 'inst10', false],
+  // المدرّس: استمارته فقط
+  ['inst10', 'read', 'appraisal', 'inst10', true],
+  ['inst10', 'read', 'appraisal', 'inst10b', false],
+  ['inst10', 'update', 'appraisal', 'inst10', true],
+  ['inst10', 'update', 'appraisal', 'inst10b', false],
+  ['inst10', 'create', 'appeal', 'inst10', true],
+  ['inst10', 'create', 'appeal', 'inst10b', false],
+  ['inst10', 'evaluate', 'appraisal', 'inst10', false],
+  ['inst10', 'review', 'appeal', 'inst10', false],
+  // المدير: كل شيء عدا تعبئة استمارات الآخرين وإشعاراتهم
+  ['admin', 'read', 'appraisal', 'inst20', true],
+  ['admin', 'evaluate', 'appraisal', 'hod20', true],
+  ['admin', 'create', 'appraisal', 'inst10', false],
+  ['admin', 'read', 'notification', 'inst10', false],
+  // موارد غير مملوكة
+  ['admin', 'update', 'settings', null, true],
+  ['admin', 'create', 'impersonation', null, true],
+  ['dean1', 'read', 'user', null, false],
+  ['hod10', 'update', 'grading', null, false],
+  ['inst10', 'read', 'cycle', null, true],
+  ['inst10', 'read', 'audit', null, false],
+]
+
+/** مقيّم مصغّر لشروط Prisma بالأشكال التي يولّدها ownerWhere فقط */
+function matches(where: Prisma.UserWhereInput, row: FixtureUser): boolean {
+  return Object.entries(where).every(([key, value]) => {
+    switch (key) {
+      case 'OR':
+        return (value as Prisma.UserWhereInput[]).some((w) => matches(w, row))
+      case 'AND':
+        return (value as Prisma.UserWhereInput[]).every((w) => matches(w, row))
+      case 'role':
+        return (value as { in: UserRole[] }).in.includes(row.role)
+      case 'id':
+      case 'departmentId':
+      case 'collegeId':
+        return row[key] === value
+      case 'department':
+        return row.department != null && row.department.collegeId === (value as { collegeId: number }).collegeId
+      default:
+        throw new Error(`Unsupported where key: ${key}`)
+    }
+  })
+}
+
+const failures: string[] = []
+
+for (const [actor, action, resource, owner, expected] of cases) {
+  const actual = can(p(actor), action, resource, owner ? p(owner) : undefined)
+  if (actual !== expected) {
+    failures.push(`can(${actor}, ${action}, ${resource}${owner ? `, ${owner}` : ''}) = ${actual}, expected ${expected}`)
+  }
+}
+
+const pairs = new Set<string>()
+for (const policy of Object.values(POLICY)) {
+  for (const [resource, actions] of Object.entries(policy)) {
+    for (const action of Object.keys(actions ?? {})) pairs.add(`${action}:${resource}`)
+  }
+}
+
+let checked = 0
+for (const pair of pairs) {
+  const [action, resource] = pair.split(':') as [Action, Resource]
+  for (const actor of Object.keys(users) as Name[]) {
+    const where = ownerWhere(p(actor), action, resource)
+    for (const owner of Object.keys(users) as Name[]) {
+      checked++
+      const allowed = can(p(actor), action, resource, p(owner))
+      const listed = where !== null && matches(where, users[owner])
+      if (allowed !== listed) {
+        failures.push(`ownerWhere(${actor}, ${action}, ${resource}) ${listed ? 'includes' : 'excludes'} ${owner} but can() = ${allowed}`)
+      }
+    }
+  }
+}
+
+if (failures.length) {
+  for (const failure of failures) console.error(`FAIL ${failure}`)
+  console.error(`${failures.length} failure(s)`)
+  process.exit(1)
+}
+console.log(`${cases.length} cases and ${checked} ownerWhere/can checks passed`)
@@ -0,0 +1,38 @@
+// يعيد فحص ملفات الأدلة المحجوزة (PENDING): تعذّر فحصها عند الرفع لأن الماسح كان غير متاح.
+// جدوله (مثلاً كل ربع ساعة) ليُتاح تنزيل الملفات بعد عودة الماسح:
+//   npx tsx scripts/rescan-evidence.ts
+import { prisma } from '../lib/prisma'
+import { SCANNER_NOT_CONFIGURED, malwareScannerName, scanEvidence } from '../lib/malware-scan'
+
+async function main() {
+  const counts = { CLEAN: 0, INFECTED: 0, ERROR: 0 }
+  try {
+    const pending = await prisma.evidence.findMany({
+      where: { scanStatus: 'PENDING', fileKey: { not: null } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    })
+    const scannerName = malwareScannerName()
+    if (!scannerName) {
+      console.error(SCANNER_NOT_CONFIGURED)
+      process.exitCode = 1
+      return
+    }
+    console.log(`Scanning ${pending.length} pending file(s) with ${scannerName}`)
+    for (const { id } of pending) {
+      const verdict = await scanEvidence(id)
+      counts[verdict.status]++
+      if (verdict.status === 'INFECTED') console.log(`Evidence #${id}: INFECTED (${verdict.signature}), file removed`)
+      if (verdict.status === 'ERROR') console.error(`Evidence #${id}: ${verdict.reason}`)
+    }
+    console.log(`${counts.CLEAN} clean, ${counts.INFECTED} infected, ${counts.ERROR} still pending`)
+    if (counts.ERROR) process.exitCode = 1
+  } catch (error) {
+    console.error('Error rescanning evidence:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
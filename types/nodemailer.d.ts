@@ -0,0 +1,26 @@
+// nodemailer لا يأتي بتعريفات TypeScript؛ هذا الجزء المستخدم فقط في lib/email.ts
+declare module "nodemailer" {
+  interface SendMailOptions {
+    from: string
+    to: string | string[]
+    subject: string
+    text?: string
+    html?: string
+  }
+
+  interface Transporter {
+    sendMail(options: SendMailOptions): Promise<{ messageId: string }>
+  }
+
+  interface TransportOptions {
+    host: string
+    port?: number
+    secure?: boolean
+    auth?: { user: string; pass: string }
+  }
+
+  export function createTransport(options: TransportOptions): Transporter
+
+  const nodemailer: { createTransport: typeof createTransport }
+  export default nodemailer
+}